@@ -0,0 +1,18 @@
+-- Migration: Add leaderboard rank history
+-- Created: 2026-10-18
+-- Description: Stores each model's rank and score per leaderboard over time.
+--   Replaces the per-source leaderboardRanks:* settings rows.
+
+CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+    id SERIAL PRIMARY KEY,
+    source_id TEXT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+    model TEXT NOT NULL,
+    rank INTEGER NOT NULL,
+    score DOUBLE PRECISION NOT NULL,
+    snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_source_time ON leaderboard_snapshots(source_id, snapshot_at);
+CREATE INDEX IF NOT EXISTS idx_leaderboard_source_model_time ON leaderboard_snapshots(source_id, model, snapshot_at);
+
+DELETE FROM settings WHERE key LIKE 'leaderboardRanks:%';
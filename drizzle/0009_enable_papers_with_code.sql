@@ -0,0 +1,9 @@
+-- Migration: Enable Papers with Code via the HF Papers API
+-- Created: 2026-10-18
+-- Description: Adds arXiv ID / repo URL columns for exact cross-platform
+--   linking and re-enables the papers-with-code source (now an API adapter).
+
+ALTER TABLE content_items ADD COLUMN IF NOT EXISTS arxiv_id TEXT;
+ALTER TABLE content_items ADD COLUMN IF NOT EXISTS repo_url TEXT;
+
+UPDATE sources SET enabled = true, priority = 4 WHERE id = 'papers-with-code';
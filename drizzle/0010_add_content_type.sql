@@ -0,0 +1,8 @@
+-- Migration: Persist content type classification
+-- Created: 2026-10-18
+-- Description: Stores the rule-based content type on content_items at ingest.
+--   content_type_version records the rule set used; rows with an older (or
+--   NULL) version are reclassified in the background by the app.
+
+ALTER TABLE content_items ADD COLUMN IF NOT EXISTS content_type TEXT;
+ALTER TABLE content_items ADD COLUMN IF NOT EXISTS content_type_version INTEGER;
@@ -0,0 +1,31 @@
+-- Migration: Keyword watchlists and alerts
+-- Created: 2026-10-18
+-- Description: Named keyword/regex watchlists with category/source scope and a
+--   minimum trending score. Matches found at ingest are stored in alerts and
+--   shown in the dashboard inbox until marked read.
+
+CREATE TABLE IF NOT EXISTS watchlists (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    keywords TEXT NOT NULL,
+    patterns TEXT NOT NULL,
+    require_all BOOLEAN NOT NULL DEFAULT false,
+    categories TEXT NOT NULL,
+    source_ids TEXT NOT NULL,
+    min_score DOUBLE PRECISION NOT NULL DEFAULT 0,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS alerts (
+    id SERIAL PRIMARY KEY,
+    watchlist_id INTEGER NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+    content_id TEXT NOT NULL REFERENCES content_items(id) ON DELETE CASCADE,
+    matched_terms TEXT NOT NULL,
+    score DOUBLE PRECISION NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    read_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_watchlist_content ON alerts(watchlist_id, content_id);
+CREATE INDEX IF NOT EXISTS idx_alerts_unread ON alerts(read_at, created_at);
@@ -0,0 +1,16 @@
+-- Migration: Daily/weekly digests
+-- Created: 2026-10-18
+-- Description: Persisted digest editions (top items per category for a UTC
+--   day or ISO week). The full digest is stored as JSON because the content
+--   it references is cleaned up after 7 days.
+
+CREATE TABLE IF NOT EXISTS digests (
+    id SERIAL PRIMARY KEY,
+    period TEXT NOT NULL,
+    date TEXT NOT NULL,
+    data TEXT NOT NULL,
+    item_count INTEGER NOT NULL,
+    generated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_digests_period_date ON digests(period, date);
@@ -0,0 +1,14 @@
+-- Migration: Full-text search on content items
+-- Created: 2026-10-18
+-- Description: Generated tsvector column over title (weight A), description (B)
+--   and tags/author (C) with a GIN index. Queried by /api/search and the
+--   discovery API's `search` param via websearch_to_tsquery.
+
+ALTER TABLE content_items ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(tags, '') || ' ' || coalesce(author, '')), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_content_search ON content_items USING GIN (search_vector);
@@ -0,0 +1,32 @@
+-- Migration: Persistent story clusters
+-- Created: 2026-10-18
+-- Description: Cross-platform stories with stable IDs, filled incrementally
+--   at ingest. story_items keeps each member's title/URL/published time so
+--   the order a story spread in survives content cleanup.
+
+CREATE TABLE IF NOT EXISTS stories (
+    id SERIAL PRIMARY KEY,
+    title TEXT NOT NULL,
+    first_item_id TEXT NOT NULL,
+    first_source_id TEXT NOT NULL,
+    first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    platform_count INTEGER NOT NULL DEFAULT 1,
+    item_count INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stories_updated ON stories(updated_at);
+
+CREATE TABLE IF NOT EXISTS story_items (
+    content_id TEXT PRIMARY KEY,
+    story_id INTEGER NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+    source_id TEXT NOT NULL,
+    platform TEXT NOT NULL,
+    title TEXT NOT NULL,
+    url TEXT NOT NULL,
+    published_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_items_story ON story_items(story_id, published_at);
@@ -0,0 +1,20 @@
+-- Migration: Saved items (bookmarks / read-later)
+-- Created: 2026-10-18
+-- Description: Bookmarks with user tags and notes. Each row keeps a JSON copy
+--   of the item so it outlives the 7-day content_items cleanup.
+
+CREATE TABLE IF NOT EXISTS saved_items (
+    content_id TEXT PRIMARY KEY,
+    source_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    url TEXT NOT NULL,
+    description TEXT,
+    published_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    item TEXT NOT NULL,
+    tags TEXT NOT NULL DEFAULT '[]',
+    note TEXT NOT NULL DEFAULT '',
+    saved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_items_saved ON saved_items(saved_at);
@@ -0,0 +1,22 @@
+-- Migration: Visit and seen-item tracking
+-- Created: 2026-10-18
+-- Description: Per-browser-profile visits (30-minute idle gap ends a visit)
+--   and the time each item was first on screen, for "new since last visit"
+--   badges and hiding seen items.
+
+CREATE TABLE IF NOT EXISTS visits (
+    profile_id TEXT PRIMARY KEY,
+    visit_started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_active_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    previous_visit_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS seen_items (
+    id SERIAL PRIMARY KEY,
+    profile_id TEXT NOT NULL REFERENCES visits(profile_id) ON DELETE CASCADE,
+    content_id TEXT NOT NULL,
+    first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_seen_items_profile_content ON seen_items(profile_id, content_id);
+CREATE INDEX IF NOT EXISTS idx_seen_items_first_seen ON seen_items(first_seen_at);
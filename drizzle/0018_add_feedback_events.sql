@@ -0,0 +1,17 @@
+-- Migration: Implicit feedback events
+-- Created: 2026-10-18
+-- Description: Click-throughs, bookmarks and "not interested" actions on feed
+--   cards. Source, tags and title are copied so the learned affinities
+--   (lib/personalization) survive content_items cleanup.
+
+CREATE TABLE IF NOT EXISTS feedback_events (
+    id SERIAL PRIMARY KEY,
+    content_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    source_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    tags TEXT NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_events_created ON feedback_events(created_at);
@@ -0,0 +1,21 @@
+-- Migration: Daily topic frequencies
+-- Created: 2026-10-18
+-- Description: Per-UTC-day item counts per topic (tags and title terms),
+--   kept after content cleanup as the baseline for emerging-topic burst
+--   detection (lib/topics). topic_days holds each day's total item count.
+
+CREATE TABLE IF NOT EXISTS topic_days (
+    day TEXT PRIMARY KEY,
+    item_count INTEGER NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS topic_daily_counts (
+    id SERIAL PRIMARY KEY,
+    day TEXT NOT NULL REFERENCES topic_days(day) ON DELETE CASCADE,
+    topic TEXT NOT NULL,
+    item_count INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_topic_daily_counts_day_topic ON topic_daily_counts(day, topic);
+CREATE INDEX IF NOT EXISTS idx_topic_daily_counts_topic ON topic_daily_counts(topic);
@@ -0,0 +1,27 @@
+-- Migration: Daily rollups
+-- Created: 2026-10-18
+-- Description: Per-UTC-day aggregates built from content_items before the
+--   7-day cleanup deletes it (lib/history). rollup_days holds each day's
+--   totals; daily_rollups one row per day × dimension (source, category,
+--   tag, story) × key with item count, average score and top items (JSON).
+
+CREATE TABLE IF NOT EXISTS rollup_days (
+    day TEXT PRIMARY KEY,
+    item_count INTEGER NOT NULL,
+    avg_score DOUBLE PRECISION NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS daily_rollups (
+    id SERIAL PRIMARY KEY,
+    day TEXT NOT NULL REFERENCES rollup_days(day) ON DELETE CASCADE,
+    dimension TEXT NOT NULL,
+    key TEXT NOT NULL,
+    label TEXT,
+    item_count INTEGER NOT NULL,
+    avg_score DOUBLE PRECISION NOT NULL,
+    top_items TEXT NOT NULL DEFAULT '[]'
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_rollups_day_dimension_key ON daily_rollups(day, dimension, key);
+CREATE INDEX IF NOT EXISTS idx_daily_rollups_dimension_key_day ON daily_rollups(dimension, key, day);
@@ -0,0 +1,37 @@
+-- Migration: Refresh leases and progress
+-- Created: 2026-10-18
+-- Description: Source refresh state shared by every instance. source_leases
+--   holds one row per source being fetched, so two refreshes never fetch the
+--   same source; a lease lapses at expires_at if its holder dies.
+--   refresh_sessions and refresh_session_sources track each refresh's
+--   per-source progress for /api/feed/refresh-status.
+
+CREATE TABLE IF NOT EXISTS source_leases (
+    source_id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    acquired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_leases_session ON source_leases(session_id);
+
+CREATE TABLE IF NOT EXISTS refresh_sessions (
+    id TEXT PRIMARY KEY,
+    trigger TEXT NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_sessions_started ON refresh_sessions(started_at);
+
+CREATE TABLE IF NOT EXISTS refresh_session_sources (
+    id SERIAL PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES refresh_sessions(id) ON DELETE CASCADE,
+    source_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    icon TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT 'pending',
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refresh_session_sources_session_source ON refresh_session_sources(session_id, source_id);
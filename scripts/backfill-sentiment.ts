@@ -0,0 +1,95 @@
+/**
+ * Sentiment Backfill Script
+ *
+ * Re-scores every row in content_items with the current analyzer in
+ * src/lib/sentiment.ts and writes back rows whose label or score changed.
+ * Safe to re-run: unchanged rows are skipped.
+ *
+ * Run with: npm run db:backfill-sentiment
+ */
+
+import postgres from 'postgres';
+import { config } from 'dotenv';
+import { analyzeSentiment } from '../src/lib/sentiment';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+const connectionString = process.env.DATABASE_URL;
+
+if (!connectionString) {
+    console.error('❌ DATABASE_URL environment variable is not set');
+    process.exit(1);
+}
+
+const PAGE_SIZE = 500;
+
+const client = postgres(connectionString, {
+    max: 1,
+    prepare: false,
+    onnotice: () => { },
+});
+
+interface Row {
+    id: string;
+    title: string;
+    description: string | null;
+    sentiment: string | null;
+    sentiment_score: number | null;
+}
+
+async function backfillSentiment() {
+    let lastId = '';
+    let scanned = 0;
+    let updated = 0;
+    const labels: Record<string, number> = { positive: 0, neutral: 0, negative: 0 };
+
+    try {
+        console.log('🔁 Re-scoring content_items sentiment...');
+
+        // Keyset pagination on the primary key keeps each page cheap
+        while (true) {
+            const rows = await client<Row[]>`
+                SELECT id, title, description, sentiment, sentiment_score
+                FROM content_items
+                WHERE id > ${lastId}
+                ORDER BY id
+                LIMIT ${PAGE_SIZE}
+            `;
+            if (rows.length === 0) break;
+            lastId = rows[rows.length - 1].id;
+            scanned += rows.length;
+
+            const changed: [string, string, number][] = [];
+            for (const row of rows) {
+                const { sentiment, score } = analyzeSentiment(row.title, row.description ?? undefined);
+                labels[sentiment]++;
+                if (row.sentiment !== sentiment || row.sentiment_score !== score) {
+                    changed.push([row.id, sentiment, score]);
+                }
+            }
+
+            if (changed.length > 0) {
+                await client`
+                    UPDATE content_items AS c
+                    SET sentiment = v.sentiment, sentiment_score = v.score::double precision
+                    FROM (VALUES ${client(changed)}) AS v(id, sentiment, score)
+                    WHERE c.id = v.id
+                `;
+                updated += changed.length;
+            }
+
+            console.log(`  - ${scanned} scanned, ${updated} updated`);
+        }
+
+        console.log(`\n✅ Sentiment backfill complete: ${updated}/${scanned} rows updated`);
+        console.log(`   positive=${labels.positive} neutral=${labels.neutral} negative=${labels.negative}`);
+    } catch (error) {
+        console.error('\n❌ Sentiment backfill failed:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+backfillSentiment();
@@ -0,0 +1,97 @@
+/**
+ * Refresh Worker
+ *
+ * Long-running alternative to /api/cron/refresh for hosts that can keep a
+ * Node process up: runs the scheduled refresh in
+ * src/lib/fetching/scheduler.ts, then sleeps until the next source is due
+ * (at least a minute, at most five). Once a day it also runs the retention
+ * policy (src/lib/retention/run.ts), standing in for /api/cron/retention.
+ * With --once it runs a single pass and exits, for use from system cron.
+ * Stops cleanly on SIGINT/SIGTERM.
+ *
+ * Run with: npm run worker:refresh [-- --once]
+ */
+
+import { config } from 'dotenv';
+import { runScheduledRefresh } from '../src/lib/fetching/scheduler';
+import { runRetention } from '../src/lib/retention/run';
+import { getLastRetentionReport } from '../src/lib/db/actions';
+
+// Load environment variables (read lazily by the db client)
+config({ path: '.env.local' });
+
+if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is not set');
+    process.exit(1);
+}
+
+const MIN_SLEEP_MS = 60 * 1000;
+const MAX_SLEEP_MS = 5 * 60 * 1000;   // Shortest source TTL (community)
+const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const once = process.argv.includes('--once');
+let stopping = false;
+let wake: (() => void) | null = null;
+
+function stop(signal: string) {
+    console.log(`\n${signal} received, stopping after the current run`);
+    stopping = true;
+    wake?.();
+}
+process.on('SIGINT', () => stop('SIGINT'));
+process.on('SIGTERM', () => stop('SIGTERM'));
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(resolve, ms);
+        wake = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+    });
+}
+
+/** Run the retention policy if the last stored run is a day old (or missing). */
+async function runRetentionIfDue() {
+    const lastRun = await getLastRetentionReport();
+    if (lastRun && Date.now() - new Date(lastRun.finishedAt).getTime() < RETENTION_INTERVAL_MS) return;
+
+    const report = await runRetention(false);
+    console.log(`🧹 Retention: rolled up ${report.rolledUpDays.length} days, removed ${report.totalDeleted} rows`);
+}
+
+async function main() {
+    console.log(`🔄 Refresh worker started${once ? ' (single run)' : ''}`);
+
+    while (!stopping) {
+        let nextDueAt: string | null = null;
+        try {
+            const run = await runScheduledRefresh({ trigger: 'worker' });
+            nextDueAt = run?.summary.nextDueAt ?? null;
+            for (const source of run?.summary.sources ?? []) {
+                if (source.status === 'failed') console.warn(`   ⚠️  ${source.name}: ${source.error}`);
+            }
+            // Watchlists, webhooks, stories and health for this run's items
+            await run?.postProcessing;
+        } catch (err) {
+            console.error('❌ Scheduled refresh failed:', err);
+            if (once) process.exitCode = 1;
+        }
+        try {
+            await runRetentionIfDue();
+        } catch (err) {
+            console.error('❌ Retention run failed:', err);
+            if (once) process.exitCode = 1;
+        }
+        if (once) break;
+
+        const untilDue = nextDueAt ? new Date(nextDueAt).getTime() - Date.now() : MAX_SLEEP_MS;
+        const delay = Math.min(Math.max(untilDue, MIN_SLEEP_MS), MAX_SLEEP_MS);
+        console.log(`💤 Next run in ${Math.round(delay / 1000)}s`);
+        await sleep(delay);
+    }
+
+    console.log('👋 Refresh worker stopped');
+}
+
+main();
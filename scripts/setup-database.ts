@@ -71,10 +71,40 @@ async function setupDatabase() {
                 tags TEXT,
                 sentiment TEXT,
                 sentiment_score DOUBLE PRECISION,
-                engagement TEXT
+                content_type TEXT,
+                content_type_version INTEGER,
+                engagement TEXT,
+                arxiv_id TEXT,
+                repo_url TEXT
             );
         `);
 
+        // Columns added after the initial schema (no-op on fresh databases)
+        await db.execute(sql`
+            ALTER TABLE content_items ADD COLUMN IF NOT EXISTS arxiv_id TEXT;
+        `);
+
+        await db.execute(sql`
+            ALTER TABLE content_items ADD COLUMN IF NOT EXISTS repo_url TEXT;
+        `);
+
+        await db.execute(sql`
+            ALTER TABLE content_items ADD COLUMN IF NOT EXISTS content_type TEXT;
+        `);
+
+        await db.execute(sql`
+            ALTER TABLE content_items ADD COLUMN IF NOT EXISTS content_type_version INTEGER;
+        `);
+
+        await db.execute(sql`
+            ALTER TABLE content_items ADD COLUMN IF NOT EXISTS search_vector tsvector
+                GENERATED ALWAYS AS (
+                    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+                    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+                    setweight(to_tsvector('english', coalesce(tags, '') || ' ' || coalesce(author, '')), 'C')
+                ) STORED;
+        `);
+
         await db.execute(sql`
             CREATE INDEX IF NOT EXISTS idx_content_source ON content_items(source_id);
         `);
@@ -87,6 +117,10 @@ async function setupDatabase() {
             CREATE INDEX IF NOT EXISTS idx_content_source_published ON content_items(source_id, published_at);
         `);
 
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_content_search ON content_items USING GIN (search_vector);
+        `);
+
         await db.execute(sql`
             CREATE TABLE IF NOT EXISTS engagement_snapshots (
                 id SERIAL PRIMARY KEY,
@@ -116,6 +150,293 @@ async function setupDatabase() {
             CREATE INDEX IF NOT EXISTS idx_snapshot_content_time ON engagement_snapshots(content_id, snapshot_at);
         `);
 
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+                id SERIAL PRIMARY KEY,
+                source_id TEXT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+                model TEXT NOT NULL,
+                rank INTEGER NOT NULL,
+                score DOUBLE PRECISION NOT NULL,
+                snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_leaderboard_source_time ON leaderboard_snapshots(source_id, snapshot_at);
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_leaderboard_source_model_time ON leaderboard_snapshots(source_id, model, snapshot_at);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS watchlists (
+                id SERIAL PRIMARY KEY,
+                name TEXT NOT NULL,
+                keywords TEXT NOT NULL,
+                patterns TEXT NOT NULL,
+                require_all BOOLEAN NOT NULL DEFAULT false,
+                categories TEXT NOT NULL,
+                source_ids TEXT NOT NULL,
+                min_score DOUBLE PRECISION NOT NULL DEFAULT 0,
+                enabled BOOLEAN NOT NULL DEFAULT true,
+                created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS alerts (
+                id SERIAL PRIMARY KEY,
+                watchlist_id INTEGER NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+                content_id TEXT NOT NULL REFERENCES content_items(id) ON DELETE CASCADE,
+                matched_terms TEXT NOT NULL,
+                score DOUBLE PRECISION NOT NULL,
+                created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                read_at TIMESTAMP WITH TIME ZONE
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_watchlist_content ON alerts(watchlist_id, content_id);
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_alerts_unread ON alerts(read_at, created_at);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS webhook_deliveries (
+                id SERIAL PRIMARY KEY,
+                webhook_id TEXT NOT NULL,
+                event_type TEXT NOT NULL,
+                event_key TEXT NOT NULL,
+                status TEXT NOT NULL DEFAULT 'pending',
+                attempts INTEGER NOT NULL DEFAULT 0,
+                response_status INTEGER,
+                last_error TEXT,
+                payload TEXT NOT NULL,
+                created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                delivered_at TIMESTAMP WITH TIME ZONE
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_event ON webhook_deliveries(webhook_id, event_key);
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status, created_at);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS digests (
+                id SERIAL PRIMARY KEY,
+                period TEXT NOT NULL,
+                date TEXT NOT NULL,
+                data TEXT NOT NULL,
+                item_count INTEGER NOT NULL,
+                generated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_digests_period_date ON digests(period, date);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS stories (
+                id SERIAL PRIMARY KEY,
+                title TEXT NOT NULL,
+                first_item_id TEXT NOT NULL,
+                first_source_id TEXT NOT NULL,
+                first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL,
+                platform_count INTEGER NOT NULL DEFAULT 1,
+                item_count INTEGER NOT NULL DEFAULT 1,
+                created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_stories_updated ON stories(updated_at);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS story_items (
+                content_id TEXT PRIMARY KEY,
+                story_id INTEGER NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+                source_id TEXT NOT NULL,
+                platform TEXT NOT NULL,
+                title TEXT NOT NULL,
+                url TEXT NOT NULL,
+                published_at TIMESTAMP WITH TIME ZONE NOT NULL,
+                joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_story_items_story ON story_items(story_id, published_at);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS saved_items (
+                content_id TEXT PRIMARY KEY,
+                source_id TEXT NOT NULL,
+                title TEXT NOT NULL,
+                url TEXT NOT NULL,
+                description TEXT,
+                published_at TIMESTAMP WITH TIME ZONE NOT NULL,
+                item TEXT NOT NULL,
+                tags TEXT NOT NULL DEFAULT '[]',
+                note TEXT NOT NULL DEFAULT '',
+                saved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_saved_items_saved ON saved_items(saved_at);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS visits (
+                profile_id TEXT PRIMARY KEY,
+                visit_started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                last_active_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                previous_visit_at TIMESTAMP WITH TIME ZONE
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS seen_items (
+                id SERIAL PRIMARY KEY,
+                profile_id TEXT NOT NULL REFERENCES visits(profile_id) ON DELETE CASCADE,
+                content_id TEXT NOT NULL,
+                first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_seen_items_profile_content ON seen_items(profile_id, content_id);
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_seen_items_first_seen ON seen_items(first_seen_at);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS feedback_events (
+                id SERIAL PRIMARY KEY,
+                content_id TEXT NOT NULL,
+                action TEXT NOT NULL,
+                source_id TEXT NOT NULL,
+                title TEXT NOT NULL,
+                tags TEXT NOT NULL DEFAULT '[]',
+                created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_feedback_events_created ON feedback_events(created_at);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS topic_days (
+                day TEXT PRIMARY KEY,
+                item_count INTEGER NOT NULL,
+                updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS topic_daily_counts (
+                id SERIAL PRIMARY KEY,
+                day TEXT NOT NULL REFERENCES topic_days(day) ON DELETE CASCADE,
+                topic TEXT NOT NULL,
+                item_count INTEGER NOT NULL
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_topic_daily_counts_day_topic ON topic_daily_counts(day, topic);
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_topic_daily_counts_topic ON topic_daily_counts(topic);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS rollup_days (
+                day TEXT PRIMARY KEY,
+                item_count INTEGER NOT NULL,
+                avg_score DOUBLE PRECISION NOT NULL,
+                updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS daily_rollups (
+                id SERIAL PRIMARY KEY,
+                day TEXT NOT NULL REFERENCES rollup_days(day) ON DELETE CASCADE,
+                dimension TEXT NOT NULL,
+                key TEXT NOT NULL,
+                label TEXT,
+                item_count INTEGER NOT NULL,
+                avg_score DOUBLE PRECISION NOT NULL,
+                top_items TEXT NOT NULL DEFAULT '[]'
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_rollups_day_dimension_key ON daily_rollups(day, dimension, key);
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_daily_rollups_dimension_key_day ON daily_rollups(dimension, key, day);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS source_leases (
+                source_id TEXT PRIMARY KEY,
+                session_id TEXT NOT NULL,
+                acquired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_source_leases_session ON source_leases(session_id);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS refresh_sessions (
+                id TEXT PRIMARY KEY,
+                trigger TEXT NOT NULL,
+                started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                completed_at TIMESTAMP WITH TIME ZONE
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS idx_refresh_sessions_started ON refresh_sessions(started_at);
+        `);
+
+        await db.execute(sql`
+            CREATE TABLE IF NOT EXISTS refresh_session_sources (
+                id SERIAL PRIMARY KEY,
+                session_id TEXT NOT NULL REFERENCES refresh_sessions(id) ON DELETE CASCADE,
+                source_id TEXT NOT NULL,
+                name TEXT NOT NULL,
+                icon TEXT NOT NULL DEFAULT '',
+                status TEXT NOT NULL DEFAULT 'pending',
+                updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+            );
+        `);
+
+        await db.execute(sql`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_refresh_session_sources_session_source ON refresh_session_sources(session_id, source_id);
+        `);
+
         console.log('✅ Schema created successfully');
 
         console.log('\n📋 Step 2: Running migrations...');
@@ -216,7 +537,7 @@ async function setupDatabase() {
             // Dev Platforms
             { id: 'github-trending', enabled: true },
             { id: 'huggingface', enabled: true },
-            { id: 'papers-with-code', enabled: false },
+            { id: 'papers-with-code', enabled: true },
             { id: 'langchain-blog', enabled: true },
             { id: 'llamaindex-blog', enabled: false },
             { id: 'wandb-blog', enabled: true },
@@ -294,7 +615,7 @@ async function setupDatabase() {
         const priority4Sources = [
             'openai-blog',
             'microsoft-ai', 'nvidia-ai', 'cohere-blog', 'stability-ai', 'aws-ai-blog', 'apple-ml',
-            'langchain-blog', 'wandb-blog', 'youtube',
+            'papers-with-code', 'langchain-blog', 'wandb-blog', 'youtube',
             'verge-ai', 'techcrunch-ai', 'venturebeat-ai', 'ars-technica-ai', 'wired-ai',
             'forbes-ai', 'mit-sloan-review', 'mckinsey-ai', 'hbr', 'the-decoder',
             'thehackernews', 'cyberscoop',
@@ -318,7 +639,7 @@ async function setupDatabase() {
         // Priority 1 (Low - broken/disabled)
         const priority1Sources = [
             'meta-ai-blog', 'mistral-ai',
-            'papers-with-code', 'llamaindex-blog',
+            'llamaindex-blog',
             'twitter', 'linkedin',
             'the-batch', 'bens-bites', 'the-rundown-ai'
         ];
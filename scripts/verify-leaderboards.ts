@@ -0,0 +1,161 @@
+/**
+ * Leaderboard Parser Verification Script
+ *
+ * Runs the leaderboard parsers against the saved pages in
+ * scripts/fixtures/leaderboards (Arena and Artificial Analysis HTML, an Open
+ * LLM Leaderboard datasets-server response), then checks rankEntries and the
+ * entered/climbed/fell/dropped cases of diffLeaderboard. Needs no database.
+ *
+ * When a board changes its markup, save the new page over its fixture and
+ * re-run this before touching the parser.
+ *
+ * Run with: npm run verify:leaderboards
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LeaderboardEntry, LeaderboardRankMap } from '../src/types';
+import { diffLeaderboard, parseLeaderboardTable, rankEntries } from '../src/lib/adapters/leaderboard';
+import { parseArenaLeaderboard } from '../src/lib/adapters/lmsys-arena';
+import { parseArtificialAnalysisLeaderboard } from '../src/lib/adapters/artificial-analysis';
+import { parseOpenLLMRows } from '../src/lib/adapters/open-llm-leaderboard';
+
+const FIXTURES = join(__dirname, 'fixtures', 'leaderboards');
+
+function fixture(name: string): string {
+    return readFileSync(join(FIXTURES, name), 'utf8');
+}
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: unknown) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+    } else {
+        failures++;
+        console.log(`  ❌ ${name}`, detail ?? '');
+    }
+}
+
+const models = (entries: LeaderboardEntry[]) => entries.map(e => `${e.rank}:${e.model}`).join(', ');
+
+function verifyParsers() {
+    console.log('🏟️  LMSYS Arena');
+    const arena = parseArenaLeaderboard(fixture('lmsys-arena.html'));
+    check('picks the leaderboard table over the summary table', arena.length === 4, models(arena));
+    check('skips rows without a numeric score', !arena.some(e => e.model === 'Preliminary Model'));
+    check('keeps tied source ranks', models(arena) === '1:Gemini 2.5 Pro, 2:o3, 2:Claude Opus 4, 4:DeepSeek-R1', models(arena));
+    check('strips thousands separators and keeps decimals', arena[0].score === 1460 && arena[3].score === 1417.5, arena.map(e => e.score));
+    check('resolves relative model links', arena[0].url === 'https://lmarena.ai/model/gemini-2.5-pro', arena[0].url);
+    check('keeps absolute model links', arena[1].url === 'https://openai.com/o3', arena[1].url);
+    check('leaves url unset without a link', arena[3].url === undefined, arena[3].url);
+    check('reads organization, empty cell → undefined', arena[0].organization === 'Google' && arena[3].organization === undefined);
+
+    console.log('\n🧠 Artificial Analysis');
+    const aa = parseArtificialAnalysisLeaderboard(fixture('artificial-analysis.html'));
+    check('reads a header row without <thead>', aa.length === 4, models(aa));
+    check('ranks by Intelligence Index, not row order', models(aa) === '1:Gemini 2.5 Pro, 2:o3, 3:Llama 4 Maverick, 4:GPT-4o', models(aa));
+    check('reads organization from the Creator column', aa[1].organization === 'OpenAI', aa[1].organization);
+    check('resolves links against artificialanalysis.ai', aa[0].url === 'https://artificialanalysis.ai/models/gemini-2-5-pro', aa[0].url);
+
+    console.log('\n🤗 Open LLM Leaderboard');
+    const openLLM = parseOpenLLMRows(JSON.parse(fixture('open-llm-leaderboard.json')));
+    check('drops rows without a name or average', openLLM.length === 3, models(openLLM));
+    check(
+        'ranks by average',
+        models(openLLM) === '1:MaziyarPanahi/calme-2.4-rys-78b, 2:Qwen/Qwen2.5-72B-Instruct, 3:meta-llama/Meta-Llama-3.1-70B-Instruct',
+        models(openLLM)
+    );
+    check('organization is the repo owner', openLLM[1].organization === 'Qwen', openLLM[1].organization);
+    check('links the model page', openLLM[1].url === 'https://huggingface.co/Qwen/Qwen2.5-72B-Instruct', openLLM[1].url);
+    check('handles a response without rows', parseOpenLLMRows({} as Parameters<typeof parseOpenLLMRows>[0]).length === 0);
+
+    console.log('\n📋 Generic table');
+    const none = parseLeaderboardTable(fixture('lmsys-arena.html'), { model: /^name$/i, score: /score/i }, 'https://example.com');
+    check('returns nothing when a required column is missing', none.length === 0, none);
+
+    console.log('\n🔢 rankEntries');
+    const ranked = rankEntries([
+        ...arena,
+        { model: 'o3', rank: 9, score: 1300 },
+        { model: 'Broken', rank: 1, score: NaN },
+    ]);
+    check('breaks rank ties by score', models(ranked) === '1:Gemini 2.5 Pro, 2:Claude Opus 4, 3:o3, 4:DeepSeek-R1', models(ranked));
+    check('keeps the first entry for a duplicate model', ranked.find(e => e.model === 'o3')?.score === 1451);
+    check('drops entries with a non-finite score', !ranked.some(e => e.model === 'Broken'));
+}
+
+function verifyDiff() {
+    console.log('\n📈 diffLeaderboard (top 3)');
+    const previous: LeaderboardRankMap = {
+        'Model A': { rank: 1, score: 1400 },
+        'Model B': { rank: 2, score: 1390 },
+        'Model C': { rank: 3, score: 1380 },
+        'Model D': { rank: 5, score: 1360 },
+        'Model E': { rank: 4, score: 1370 },
+        'Model G': { rank: 6, score: 1350 },
+    };
+    const current: LeaderboardEntry[] = [
+        { model: 'Model B', rank: 1, score: 1402 },
+        { model: 'Model A', rank: 2, score: 1401 },
+        { model: 'Model D', rank: 3, score: 1399 },
+        { model: 'Model C', rank: 4, score: 1381 },
+        { model: 'Model E', rank: 5, score: 1371 },
+    ];
+    const movements = diffLeaderboard(previous, current, 3);
+    const find = (model: string) => movements.find(m => m.entry.model === model);
+
+    check('emits nothing on the first fetch', diffLeaderboard({}, current, 3).length === 0);
+    check('climbed: B #2 → #1', find('Model B')?.kind === 'climbed' && find('Model B')?.previousRank === 2, find('Model B'));
+    check('fell: A #1 → #2', find('Model A')?.kind === 'fell' && find('Model A')?.previousRank === 1, find('Model A'));
+    check(
+        'entered: D #5 → #3, with previous score',
+        find('Model D')?.kind === 'entered' && find('Model D')?.previousRank === 5 && find('Model D')?.previousScore === 1360,
+        find('Model D')
+    );
+    check(
+        'dropped: C #3 → #4, still on the board',
+        find('Model C')?.kind === 'dropped' && find('Model C')?.entry.rank === 4 && find('Model C')?.previousRank === 3,
+        find('Model C')
+    );
+    check('ignores moves outside the top N', !find('Model E') && !find('Model G'), movements);
+    check('exactly one movement per changed top-N model', movements.length === 4, movements.map(m => `${m.kind}:${m.entry.model}`));
+
+    const vanished = diffLeaderboard(previous, current.filter(e => e.model !== 'Model A'), 3);
+    const gone = vanished.find(m => m.entry.model === 'Model A');
+    check(
+        'dropped: model gone from the board keeps its last score',
+        gone?.kind === 'dropped' && gone.entry.rank === Number.POSITIVE_INFINITY && gone.entry.score === 1400,
+        gone
+    );
+
+    const debut = diffLeaderboard(previous, [{ model: 'Model F', rank: 1, score: 1450 }, ...current], 3)
+        .find(m => m.entry.model === 'Model F');
+    check(
+        'entered: brand-new model has no previous rank',
+        debut?.kind === 'entered' && debut.previousRank === null && debut.previouslyBelow === null,
+        debut
+    );
+
+    // The previous snapshot reaches the tracked depth (Model G at #6), so a
+    // model missing from it was further down the board, not new
+    const fromBelow = diffLeaderboard(previous, [{ model: 'Model F', rank: 1, score: 1450 }, ...current], 3, 6)
+        .find(m => m.entry.model === 'Model F');
+    check(
+        'entered: model missing from a cut-off snapshot comes from below it',
+        fromBelow?.kind === 'entered' && fromBelow.previousRank === null && fromBelow.previouslyBelow === 6,
+        fromBelow
+    );
+    const shallow = diffLeaderboard(previous, [{ model: 'Model F', rank: 1, score: 1450 }, ...current], 3, 50)
+        .find(m => m.entry.model === 'Model F');
+    check('entered: snapshot shorter than the tracked depth means a debut', shallow?.previouslyBelow === null, shallow);
+}
+
+verifyParsers();
+verifyDiff();
+
+if (failures > 0) {
+    console.error(`\n❌ ${failures} leaderboard check(s) failed`);
+    process.exit(1);
+}
+console.log('\n✅ All leaderboard checks passed');
@@ -0,0 +1,128 @@
+/**
+ * Webhook Delivery Verification Script
+ *
+ * Runs the delivery code in src/lib/webhooks against a local stub HTTP server:
+ * signature header, retry on 5xx, no retry on 4xx, giving up after the last
+ * attempt, and the Slack/Discord/JSON payload shapes. Needs no database.
+ *
+ * Run with: npm run verify:webhooks
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { postWithRetries, signPayload, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../src/lib/webhooks/delivery';
+import { buildPayload, WebhookEvent } from '../src/lib/webhooks/payloads';
+
+const SECRET = 'stub-secret';
+
+interface ReceivedRequest {
+    path: string;
+    headers: IncomingMessage['headers'];
+    body: string;
+}
+
+// Each path replies with the next status in its script, repeating the last one
+const SCRIPTS: Record<string, number[]> = {
+    '/ok': [200],
+    '/flaky': [500, 503, 200],
+    '/down': [500],
+    '/rejected': [400],
+    '/rate-limited': [429, 200],
+};
+
+const received: ReceivedRequest[] = [];
+const hits: Record<string, number> = {};
+
+function handle(req: IncomingMessage, res: ServerResponse) {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+        const path = req.url || '/';
+        received.push({ path, headers: req.headers, body });
+        const script = SCRIPTS[path] || [404];
+        const status = script[Math.min(hits[path] || 0, script.length - 1)];
+        hits[path] = (hits[path] || 0) + 1;
+        if (status === 429) res.setHeader('Retry-After', '0');
+        res.writeHead(status).end(status < 300 ? 'ok' : 'stub error');
+    });
+}
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: unknown) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+    } else {
+        failures++;
+        console.log(`  ❌ ${name}`, detail ?? '');
+    }
+}
+
+const sampleEvent: WebhookEvent = {
+    type: 'story',
+    key: 'story:hn-1',
+    title: 'Story on 3 platforms: New model <beats> everything | really',
+    items: [{
+        id: 'hn-1',
+        title: 'New model <beats> everything | really',
+        url: 'https://example.com/post',
+        source: 'Hacker News',
+        score: 91,
+        crossPlatformCount: 3,
+        platforms: ['Hacker News', 'Reddit', 'X'],
+    }],
+};
+
+async function verifyWebhooks() {
+    const server = createServer(handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const fast = { retryBaseMs: 10 };
+
+    try {
+        console.log('🔏 Signature');
+        const body = JSON.stringify(buildPayload('json', sampleEvent));
+        const ok = await postWithRetries(`${base}/ok`, body, SECRET, fast);
+        const request = received.find(r => r.path === '/ok');
+        const timestamp = request?.headers[TIMESTAMP_HEADER.toLowerCase()] as string;
+        check('delivers on first attempt', ok.ok && ok.attempts === 1, ok);
+        check('sends the body unchanged', request?.body === body);
+        check(
+            'signature matches HMAC-SHA256 of "<timestamp>.<body>"',
+            request?.headers[SIGNATURE_HEADER.toLowerCase()] === signPayload(SECRET, timestamp, body)
+        );
+        await postWithRetries(`${base}/ok`, body, undefined, fast);
+        check('omits signature without a secret', !received[received.length - 1].headers[SIGNATURE_HEADER.toLowerCase()]);
+
+        console.log('\n🔁 Retries');
+        const flaky = await postWithRetries(`${base}/flaky`, body, SECRET, fast);
+        check('retries 5xx until success', flaky.ok && flaky.attempts === 3, flaky);
+        const limited = await postWithRetries(`${base}/rate-limited`, body, SECRET, fast);
+        check('retries 429 honoring Retry-After', limited.ok && limited.attempts === 2, limited);
+        const down = await postWithRetries(`${base}/down`, body, SECRET, fast);
+        check('gives up after 3 attempts (dead-letter)', !down.ok && down.attempts === 3 && down.responseStatus === 500, down);
+        const rejected = await postWithRetries(`${base}/rejected`, body, SECRET, fast);
+        check('does not retry other 4xx', !rejected.ok && rejected.attempts === 1 && hits['/rejected'] === 1, rejected);
+        const unreachable = await postWithRetries('http://127.0.0.1:1/', body, SECRET, { ...fast, maxAttempts: 2 });
+        check('retries network errors', !unreachable.ok && unreachable.attempts === 2 && unreachable.responseStatus === null, unreachable);
+
+        console.log('\n🧩 Payloads');
+        const slack = buildPayload('slack', sampleEvent) as { text: string; blocks: { type: string; text: { text: string } }[] };
+        check('slack: header + one section per item', slack.blocks.length === 2 && slack.blocks[0].type === 'header');
+        check('slack: escapes <, > and | in link labels', slack.blocks[1].text.text.includes('&lt;beats&gt;') && !slack.blocks[1].text.text.includes('everything |'));
+        const discord = buildPayload('discord', sampleEvent) as { content: string; embeds: { title: string; url: string }[] };
+        check('discord: one embed per item', discord.embeds.length === 1 && discord.embeds[0].url === 'https://example.com/post');
+        const json = buildPayload('json', sampleEvent) as { event: string; key: string; items: unknown[] };
+        check('json: raw event fields', json.event === 'story' && json.key === 'story:hn-1' && json.items.length === 1);
+    } finally {
+        server.close();
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} webhook check(s) failed`);
+        process.exit(1);
+    }
+    console.log('\n✅ All webhook checks passed');
+}
+
+verifyWebhooks();
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { getLastRetentionReport, getRetentionPolicy, setRetentionPolicy } from '@/lib/db/actions';
+import { DEFAULT_RETENTION_POLICY, RETENTION_MIN_DAYS, parseRetentionPolicy } from '@/lib/retention';
+import { runRetention } from '@/lib/retention/run';
+import { isAuthorizedAdminRequest } from '@/lib/admin/auth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/** GET /api/admin/retention: the policy, its defaults and limits, and the last run's report. */
+export async function GET() {
+    try {
+        const [policy, lastRun] = await Promise.all([getRetentionPolicy(), getLastRetentionReport()]);
+        return NextResponse.json({
+            success: true,
+            policy,
+            defaults: DEFAULT_RETENTION_POLICY,
+            minDays: RETENTION_MIN_DAYS,
+            lastRun,
+        });
+    } catch (error) {
+        console.error('Failed to get retention policy:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to get retention policy' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/admin/retention { policy }: replace the policy (omitted tables use
+ * defaults). Needs `Authorization: Bearer <CRON_SECRET>` when CRON_SECRET is set.
+ */
+export async function PUT(request: Request) {
+    if (!isAuthorizedAdminRequest(request)) {
+        return NextResponse.json(
+            { success: false, error: 'Unauthorized. Send Authorization: Bearer <CRON_SECRET>' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const body = await request.json().catch(() => null);
+        const parsed = parseRetentionPolicy(body?.policy);
+        if ('error' in parsed) {
+            return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+        }
+        await setRetentionPolicy(parsed.policy);
+        return NextResponse.json({ success: true, policy: parsed.policy });
+    } catch (error) {
+        console.error('Failed to save retention policy:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to save retention policy' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/admin/retention?dryRun=1
+ *
+ * Roll up recent days, then delete what the policy expires. With dryRun=1,
+ * only reports what would be deleted. Deleting runs need
+ * `Authorization: Bearer <CRON_SECRET>` when CRON_SECRET is set. Scheduled
+ * runs go through GET /api/cron/retention instead.
+ */
+export async function POST(request: Request) {
+    const dryRun = new URL(request.url).searchParams.get('dryRun') === '1';
+    if (!dryRun && !isAuthorizedAdminRequest(request)) {
+        return NextResponse.json(
+            { success: false, error: 'Unauthorized. Send Authorization: Bearer <CRON_SECRET>' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const report = await runRetention(dryRun);
+        if (!dryRun) {
+            console.log(`Retention: rolled up ${report.rolledUpDays.length} days, removed ${report.totalDeleted} rows`);
+        }
+        return NextResponse.json({ success: true, report });
+    } catch (error) {
+        console.error('Retention run failed:', error);
+        return NextResponse.json(
+            { success: false, error: 'Retention run failed' },
+            { status: 500 }
+        );
+    }
+}
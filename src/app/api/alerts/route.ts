@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { getAlerts, getUnreadAlertCounts, markAlertsRead } from '@/lib/db/alerts';
+
+export const dynamic = 'force-dynamic';
+
+const VALID_STATUSES = ['unread', 'all'] as const;
+
+/**
+ * GET /api/alerts?status=unread&watchlist=3&limit=50
+ *
+ * Watchlist matches, newest first. Defaults to unread only.
+ */
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'unread';
+    const watchlistParam = searchParams.get('watchlist');
+    const limit = Math.min(Math.max(1, parseInt(searchParams.get('limit') || '50', 10) || 50), 200);
+
+    if (!(VALID_STATUSES as readonly string[]).includes(status)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid status: ${status}`, validValues: VALID_STATUSES },
+            { status: 400 }
+        );
+    }
+
+    const watchlistId = watchlistParam ? parseInt(watchlistParam, 10) : undefined;
+    if (watchlistId !== undefined && isNaN(watchlistId)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid watchlist: ${watchlistParam}` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const [alerts, unreadByWatchlist] = await Promise.all([
+            getAlerts({ unreadOnly: status === 'unread', watchlistId, limit }),
+            getUnreadAlertCounts(),
+        ]);
+        return NextResponse.json({
+            success: true,
+            unreadCount: Object.values(unreadByWatchlist).reduce((sum, n) => sum + n, 0),
+            unreadByWatchlist,
+            alerts,
+        });
+    } catch (error) {
+        console.error('Alerts API error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch alerts' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PATCH /api/alerts  { ids?: number[], watchlistId?: number }
+ *
+ * Mark alerts read: the given IDs, every unread alert of one watchlist,
+ * or (empty body) all unread alerts.
+ */
+export async function PATCH(request: Request) {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const { ids, watchlistId } = body as { ids?: unknown; watchlistId?: unknown };
+
+        if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id)))) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid ids. Must be an array of integers' },
+                { status: 400 }
+            );
+        }
+        if (watchlistId !== undefined && !Number.isInteger(watchlistId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid watchlistId. Must be an integer' },
+                { status: 400 }
+            );
+        }
+
+        const updated = await markAlertsRead({
+            ids: ids as number[] | undefined,
+            watchlistId: watchlistId as number | undefined,
+        });
+        return NextResponse.json({ success: true, updated });
+    } catch (error) {
+        console.error('Failed to mark alerts read:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to mark alerts read' },
+            { status: 500 }
+        );
+    }
+}
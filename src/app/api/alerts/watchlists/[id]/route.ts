@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { updateWatchlist, deleteWatchlist } from '@/lib/db/alerts';
+import { parseWatchlistInput } from '@/lib/alerts/watchlists';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+async function parseId(context: RouteContext): Promise<number | null> {
+    const { id } = await context.params;
+    const parsed = parseInt(id, 10);
+    return Number.isInteger(parsed) && String(parsed) === id ? parsed : null;
+}
+
+/** PUT /api/alerts/watchlists/:id — replace a watchlist (same body as POST). */
+export async function PUT(request: Request, context: RouteContext) {
+    const id = await parseId(context);
+    if (id === null) {
+        return NextResponse.json({ success: false, error: 'Invalid watchlist id' }, { status: 400 });
+    }
+
+    try {
+        const body = await request.json().catch(() => null);
+        const parsed = parseWatchlistInput(body);
+        if ('error' in parsed) {
+            return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+        }
+
+        const watchlist = await updateWatchlist(id, parsed.input);
+        if (!watchlist) {
+            return NextResponse.json({ success: false, error: 'Watchlist not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, watchlist });
+    } catch (error) {
+        console.error(`Failed to update watchlist ${id}:`, error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to update watchlist' },
+            { status: 500 }
+        );
+    }
+}
+
+/** DELETE /api/alerts/watchlists/:id — also removes its alerts. */
+export async function DELETE(_request: Request, context: RouteContext) {
+    const id = await parseId(context);
+    if (id === null) {
+        return NextResponse.json({ success: false, error: 'Invalid watchlist id' }, { status: 400 });
+    }
+
+    try {
+        const deleted = await deleteWatchlist(id);
+        if (!deleted) {
+            return NextResponse.json({ success: false, error: 'Watchlist not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error(`Failed to delete watchlist ${id}:`, error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to delete watchlist' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getWatchlists, createWatchlist, getUnreadAlertCounts } from '@/lib/db/alerts';
+import { parseWatchlistInput } from '@/lib/alerts/watchlists';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+    try {
+        const [watchlists, unreadByWatchlist] = await Promise.all([
+            getWatchlists(),
+            getUnreadAlertCounts(),
+        ]);
+        return NextResponse.json({
+            success: true,
+            watchlists: watchlists.map(w => ({ ...w, unreadCount: unreadByWatchlist[w.id] || 0 })),
+        });
+    } catch (error) {
+        console.error('Failed to fetch watchlists:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch watchlists' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/alerts/watchlists
+ * { name, keywords?, patterns?, requireAll?, categories?, sourceIds?, minScore?, enabled? }
+ *
+ * New watchlists only match items fetched from now on.
+ */
+export async function POST(request: Request) {
+    try {
+        const body = await request.json().catch(() => null);
+        const parsed = parseWatchlistInput(body);
+        if ('error' in parsed) {
+            return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+        }
+
+        const watchlist = await createWatchlist(parsed.input);
+        return NextResponse.json({ success: true, watchlist }, { status: 201 });
+    } catch (error) {
+        console.error('Failed to create watchlist:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to create watchlist' },
+            { status: 500 }
+        );
+    }
+}
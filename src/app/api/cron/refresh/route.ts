@@ -0,0 +1,46 @@
+import { NextResponse, after } from 'next/server';
+import { runScheduledRefresh } from '@/lib/fetching/scheduler';
+import { isAuthorizedAdminRequest } from '@/lib/admin/auth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Stop starting fetches early enough for the slowest adapter timeout (20s)
+// and caching to finish inside maxDuration
+const RUN_BUDGET_MS = 30_000;
+
+/**
+ * GET /api/cron/refresh
+ *
+ * Fetch every enabled source that is past its TTL and return the run's
+ * summary. Call it every few minutes from Vercel Cron or any scheduler;
+ * sources left over when the budget runs out are fetched on the next call.
+ * Watchlist, webhook, story and health updates finish after the response.
+ * Needs `Authorization: Bearer <CRON_SECRET>` when CRON_SECRET is set.
+ */
+export async function GET(request: Request) {
+    if (!isAuthorizedAdminRequest(request)) {
+        return NextResponse.json(
+            { success: false, error: 'Unauthorized. Send Authorization: Bearer <CRON_SECRET>' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const run = await runScheduledRefresh({ trigger: 'cron', budgetMs: RUN_BUDGET_MS });
+        if (!run) {
+            return NextResponse.json(
+                { success: false, error: 'A scheduled refresh is already running' },
+                { status: 409 }
+            );
+        }
+        after(run.postProcessing);
+        return NextResponse.json({ success: true, summary: run.summary });
+    } catch (error) {
+        console.error('Scheduled refresh failed:', error);
+        return NextResponse.json(
+            { success: false, error: 'Scheduled refresh failed' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { runRetention } from '@/lib/retention/run';
+import { isAuthorizedAdminRequest } from '@/lib/admin/auth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/retention
+ *
+ * Roll up recent days, then delete what the saved retention policy expires.
+ * Scheduled daily in vercel.json; any other scheduler can call it the same
+ * way. Needs `Authorization: Bearer <CRON_SECRET>` when CRON_SECRET is set.
+ */
+export async function GET(request: Request) {
+    if (!isAuthorizedAdminRequest(request)) {
+        return NextResponse.json(
+            { success: false, error: 'Unauthorized. Send Authorization: Bearer <CRON_SECRET>' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const report = await runRetention(false);
+        console.log(`Retention: rolled up ${report.rolledUpDays.length} days, removed ${report.totalDeleted} rows`);
+        return NextResponse.json({ success: true, report });
+    } catch (error) {
+        console.error('Retention run failed:', error);
+        return NextResponse.json(
+            { success: false, error: 'Retention run failed' },
+            { status: 500 }
+        );
+    }
+}
@@ -5,6 +5,8 @@ import { sql, desc } from 'drizzle-orm';
 import { SOURCES } from '@/lib/config/sources';
 import { createAdapter } from '@/lib/adapters';
 import { getEffectiveConfig, getEffectiveSourceList } from '@/lib/config/resolve';
+import { getLastRefreshRun } from '@/lib/db/actions';
+import { isRequestRefreshEnabled } from '@/lib/fetching/scheduler';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 30;
@@ -29,6 +31,8 @@ export async function GET() {
             ? process.env.DATABASE_URL.replace(/:[^:@]+@/, ':****@').substring(0, 80) + '...'
             : 'NOT SET',
         YOUTUBE_API_KEY_set: !!process.env.YOUTUBE_API_KEY,
+        CRON_SECRET_set: !!process.env.CRON_SECRET,
+        REFRESH_ON_REQUEST: isRequestRefreshEnabled(),
         NODE_ENV: process.env.NODE_ENV,
         VERCEL: process.env.VERCEL,
         VERCEL_ENV: process.env.VERCEL_ENV,
@@ -98,6 +102,15 @@ export async function GET() {
             activeCategories: sourceList.activeCategories,
         };
 
+        const lastRefresh = await getLastRefreshRun();
+        diagnostics.scheduledRefresh = lastRefresh
+            ? { ...lastRefresh, sources: lastRefresh.sources.filter(s => s.status !== 'refreshed') }
+            : null;
+        const sinceRefresh = lastRefresh ? Date.now() - new Date(lastRefresh.finishedAt).getTime() : Infinity;
+        if (!isRequestRefreshEnabled() && sinceRefresh > 30 * 60 * 1000) {
+            errors.push('WARNING: REFRESH_ON_REQUEST is off and no scheduled refresh ran in the last 30 minutes — sources are not being fetched');
+        }
+
         if (config.enabledSourceIds.length === 0) {
             errors.push('CRITICAL: No enabled source IDs — all sources disabled or deleted');
         }
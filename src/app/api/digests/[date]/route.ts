@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { DigestPeriod } from '@/types';
+import { getEffectiveSourceList } from '@/lib/config/resolve';
+import { DIGEST_PERIODS, getLatestCompleteDate, getOrCreateDigest } from '@/lib/digests/generate';
+import { renderDigestHtml, renderDigestMarkdown } from '@/lib/digests/render';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const FORMATS = ['json', 'md', 'html'] as const;
+type DigestFormat = typeof FORMATS[number];
+
+interface RouteContext {
+    params: Promise<{ date: string }>;
+}
+
+/**
+ * GET /api/digests/[date]?period=daily|weekly&format=json|md|html
+ *
+ * The digest edition containing `date` (YYYY-MM-DD, or "latest" for the most
+ * recent complete period). Weekly editions cover the ISO week (Monday–Sunday,
+ * UTC). Past editions are generated and stored on first request; the current
+ * period is built live and marked `partial`. Past editions retention has
+ * already cut into are built but not stored, and marked `incomplete`.
+ */
+export async function GET(request: Request, context: RouteContext) {
+    const { date: dateParam } = await context.params;
+    const { searchParams } = new URL(request.url);
+    const period = (searchParams.get('period') || 'daily') as DigestPeriod;
+    const format = (searchParams.get('format') || 'json') as DigestFormat;
+
+    if (!DIGEST_PERIODS.includes(period)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid period. Must be one of: ${DIGEST_PERIODS.join(', ')}` },
+            { status: 400 }
+        );
+    }
+    if (!FORMATS.includes(format)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid format. Must be one of: ${FORMATS.join(', ')}` },
+            { status: 400 }
+        );
+    }
+    const date = dateParam === 'latest' ? getLatestCompleteDate(period) : dateParam;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return NextResponse.json(
+            { success: false, error: 'Invalid date. Use YYYY-MM-DD or "latest"' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const [digest, sourceList] = await Promise.all([
+            getOrCreateDigest(period, date),
+            getEffectiveSourceList(),
+        ]);
+        if (!digest) {
+            return NextResponse.json(
+                { success: false, error: `No ${period} digest for ${date}` },
+                { status: 404 }
+            );
+        }
+
+        const sourceNames = Object.fromEntries(sourceList.all.map(s => [s.id, s.name]));
+        const sourceName = (id: string) => sourceNames[id] || id;
+
+        if (format === 'md') {
+            return new NextResponse(renderDigestMarkdown(digest, sourceName), {
+                headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+            });
+        }
+        if (format === 'html') {
+            return new NextResponse(renderDigestHtml(digest, sourceName), {
+                headers: { 'Content-Type': 'text/html; charset=utf-8' },
+            });
+        }
+        return NextResponse.json({ success: true, digest, sourceNames });
+    } catch (error) {
+        console.error(`Failed to build ${period} digest ${date}:`, error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to build digest' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { DigestPeriod } from '@/types';
+import { listDigests } from '@/lib/db/digests';
+import { DIGEST_PERIODS } from '@/lib/digests/generate';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/digests?period=daily|weekly&limit=60
+ *
+ * Stored digest editions, newest first. Omit `period` to list both.
+ */
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const period = searchParams.get('period');
+    if (period && !DIGEST_PERIODS.includes(period as DigestPeriod)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid period. Must be one of: ${DIGEST_PERIODS.join(', ')}` },
+            { status: 400 }
+        );
+    }
+    const limit = Math.min(Math.max(1, parseInt(searchParams.get('limit') || '60', 10) || 60), 365);
+
+    const editions = await listDigests({ period: (period as DigestPeriod) || undefined, limit });
+    return NextResponse.json({ success: true, count: editions.length, editions });
+}
@@ -1,14 +1,18 @@
-import { NextResponse } from 'next/server';
+import { NextResponse, after } from 'next/server';
 import { checkRateLimit } from '@vercel/firewall';
 import { getSourceById } from '@/lib/config/sources';
 import { ContentItem, TimeRange, SourceCategory, SourceConfig } from '@/types';
-import { getCachedContentBySourceIds } from '@/lib/db/actions';
+import { getCachedContentBySourceIds, getTimeRangeCutoff } from '@/lib/db/actions';
+import { matchContentIds } from '@/lib/db/search';
 import { getEffectiveConfig, getEffectiveSourceList } from '@/lib/config/resolve';
-import { scoreAndSortItems, linkAndAmplify } from '@/lib/scoring';
+import { FeedMode, FEED_MODES, DEFAULT_FEED_MODE, isFeedMode } from '@/lib/scoring';
+import { rankItems } from '@/lib/scoring/pipeline';
 import { feedCache } from '@/lib/cache/memory-cache';
 import { ensureSourcesFresh } from '@/lib/fetching/ensure-fresh';
-import { classifyContentType } from '@/lib/classification/content-type';
+import { isRequestRefreshEnabled } from '@/lib/fetching/scheduler';
+import { classifyContentType, isContentType, CONTENT_TYPES } from '@/lib/classification/content-type';
 import { getDomainQuality } from '@/lib/config/domain-quality';
+import { isSentimentLabel } from '@/lib/sentiment';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -40,6 +44,8 @@ type ApiCategory = (typeof VALID_API_CATEGORIES)[number];
 
 const VALID_TIME_RANGES = ['1h', '12h', '24h', '48h', '7d'] as const;
 
+const VALID_SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+
 // Map API category name → internal SourceCategory
 function apiCategoryToInternal(apiCat: ApiCategory): SourceCategory {
     if (apiCat === 'social-blogs') return 'social';
@@ -71,7 +77,10 @@ export async function GET(request: Request) {
     const timeRangeParam = searchParams.get('timeRange');
     const limitParam = searchParams.get('limit');
     const offsetParam = searchParams.get('offset');
-    const searchQuery = searchParams.get('search')?.trim().toLowerCase() || null;
+    const searchQuery = searchParams.get('search')?.trim() || null;
+    const sentimentParam = searchParams.get('sentiment');
+    const typeParam = searchParams.get('type');
+    const modeParam = searchParams.get('mode');
 
     // 1. Validate required params
     if (!categoriesParam) {
@@ -120,6 +129,50 @@ export async function GET(request: Request) {
         );
     }
 
+    // Validate sentiment (optional, comma-separated)
+    const requestedSentiments = sentimentParam
+        ? sentimentParam.split(',').map(s => s.trim()).filter(Boolean)
+        : [];
+    const invalidSentiments = requestedSentiments.filter(s => !isSentimentLabel(s));
+    if (invalidSentiments.length > 0) {
+        return NextResponse.json(
+            {
+                error: `Invalid sentiment: ${invalidSentiments.join(', ')}`,
+                validValues: [...VALID_SENTIMENTS],
+            },
+            { status: 400, headers: CORS_HEADERS }
+        );
+    }
+    const sentimentFilter = requestedSentiments.length > 0 ? new Set(requestedSentiments) : null;
+
+    // Validate type (optional, comma-separated)
+    const requestedTypes = typeParam
+        ? typeParam.split(',').map(t => t.trim()).filter(Boolean)
+        : [];
+    const invalidTypes = requestedTypes.filter(t => !isContentType(t));
+    if (invalidTypes.length > 0) {
+        return NextResponse.json(
+            {
+                error: `Invalid type: ${invalidTypes.join(', ')}`,
+                validValues: CONTENT_TYPES,
+            },
+            { status: 400, headers: CORS_HEADERS }
+        );
+    }
+    const typeFilter = requestedTypes.length > 0 ? new Set(requestedTypes) : null;
+
+    // Validate mode (optional, any registered ranking mode)
+    if (modeParam && !isFeedMode(modeParam)) {
+        return NextResponse.json(
+            {
+                error: `Invalid mode: ${modeParam}`,
+                validValues: FEED_MODES,
+            },
+            { status: 400, headers: CORS_HEADERS }
+        );
+    }
+    const mode: FeedMode = (modeParam as FeedMode | null) || DEFAULT_FEED_MODE;
+
     const timeRange = timeRangeParam as TimeRange;
     const limit = Math.min(Math.max(1, parseInt(limitParam || '100', 10) || 100), 500);
     const offset = Math.max(0, parseInt(offsetParam || '0', 10) || 0);
@@ -146,6 +199,7 @@ export async function GET(request: Request) {
                     offset,
                     limit,
                     timeRange,
+                    mode,
                     categories: Object.fromEntries(
                         requestedCategories.map(c => [c, 0])
                     ),
@@ -155,28 +209,30 @@ export async function GET(request: Request) {
         }
 
         // Check in-memory cache
-        const memoryCacheKey = `discovery:${targetSourceIds.sort().join(',')}:${timeRange}`;
+        const memoryCacheKey = `discovery:${targetSourceIds.sort().join(',')}:${timeRange}:${mode}`;
         const memoryCached = feedCache.get(memoryCacheKey);
         if (memoryCached) {
             const cached = memoryCached as { scoredItems: ContentItem[]; sourceMap: Record<string, SourceConfig> };
-            const filtered = searchQuery ? filterBySearch(cached.scoredItems, searchQuery) : cached.scoredItems;
-            return buildResponse(filtered, cached.sourceMap, requestedCategories, offset, limit, timeRange);
+            const searchMatches = searchQuery ? await findSearchMatches(searchQuery, targetSourceIds, timeRange) : null;
+            const filtered = applyReadFilters(cached.scoredItems, searchQuery, searchMatches, sentimentFilter, typeFilter);
+            return buildResponse(filtered, cached.sourceMap, requestedCategories, offset, limit, timeRange, mode);
         }
 
-        // 3. Ensure data freshness (fetch stale sources, cache results, update health)
-        await ensureSourcesFresh(targetSources, targetSourceIds, timeRange);
+        // 3. Ensure data freshness (fetch stale sources, cache results, update health),
+        //    unless only the scheduled refresh fetches
+        if (isRequestRefreshEnabled()) {
+            const { postProcessing } = await ensureSourcesFresh(targetSources, targetSourceIds, timeRange);
+            after(postProcessing);
+        }
 
         // 4. Query & score items
         const allItems = await getCachedContentBySourceIds(targetSourceIds, timeRange);
 
         const config = await getEffectiveConfig();
-        const priorities = config.priorities;
-        const boostKeywords = config.boostKeywords;
+        const sourceToCategoryMap = Object.fromEntries(sourceList.all.map(s => [s.id, s.category]));
 
-        const scoredItems = linkAndAmplify(scoreAndSortItems(allItems, {
-            priorities,
-            boostKeywords,
-        }));
+        // Same ranking pipeline as /api/feed
+        const scoredItems = await rankItems(allItems, { mode, config, sourceToCategoryMap });
 
         // Build source lookup map for response mapping
         const sourceMap: Record<string, SourceConfig> = {};
@@ -190,11 +246,12 @@ export async function GET(request: Request) {
             }
         }
 
-        // Cache full scored items (search filtering applied on read)
+        // Cache full scored items (search/sentiment/type filtering applied on read)
         feedCache.set(memoryCacheKey, { scoredItems, sourceMap });
 
-        const filtered = searchQuery ? filterBySearch(scoredItems, searchQuery) : scoredItems;
-        return buildResponse(filtered, sourceMap, requestedCategories, offset, limit, timeRange);
+        const searchMatches = searchQuery ? await findSearchMatches(searchQuery, targetSourceIds, timeRange) : null;
+        const filtered = applyReadFilters(scoredItems, searchQuery, searchMatches, sentimentFilter, typeFilter);
+        return buildResponse(filtered, sourceMap, requestedCategories, offset, limit, timeRange, mode);
     } catch (error) {
         console.error('Discovery API error:', error);
         return NextResponse.json(
@@ -213,7 +270,8 @@ function buildResponse(
     requestedCategories: string[],
     offset: number,
     limit: number,
-    timeRange: string
+    timeRange: string,
+    mode: FeedMode
 ) {
     const categoryCounts: Record<string, number> = {};
     for (const cat of requestedCategories) {
@@ -252,9 +310,11 @@ function buildResponse(
             crossPlatformSources: item.crossPlatformSources ?? null,
             crossPlatformLinks: item.crossPlatformLinks ?? null,
             // Enhancement 2: Content type classification
-            contentType: classifyContentType(item, cfg?.category),
+            contentType: item.contentType ?? classifyContentType(item, cfg?.category),
             // Enhancement 3: Domain fetch quality
             fetchQuality: getDomainQuality(item.url),
+            sentiment: item.sentiment ?? null,
+            sentimentScore: item.sentimentScore ?? null,
         };
     });
 
@@ -266,6 +326,7 @@ function buildResponse(
                 offset,
                 limit,
                 timeRange,
+                mode,
                 categories: categoryCounts,
             },
             items,
@@ -279,6 +340,46 @@ function buildResponse(
     );
 }
 
+/**
+ * IDs matching `search` via the full-text index (same syntax as /api/search).
+ * Null when the query fails, e.g. before migration 0014 adds search_vector;
+ * applyReadFilters then falls back to a substring match.
+ */
+async function findSearchMatches(
+    query: string,
+    sourceIds: string[],
+    timeRange: TimeRange
+): Promise<Set<string> | null> {
+    try {
+        return await matchContentIds({ query, sourceIds, from: getTimeRangeCutoff(timeRange) });
+    } catch (error) {
+        console.warn('Full-text search unavailable, falling back to substring match:', error);
+        return null;
+    }
+}
+
+function applyReadFilters(
+    items: ContentItem[],
+    searchQuery: string | null,
+    searchMatches: Set<string> | null,
+    sentimentFilter: Set<string> | null,
+    typeFilter: Set<string> | null
+): ContentItem[] {
+    let filtered = items;
+    if (searchQuery) {
+        filtered = searchMatches
+            ? items.filter(item => searchMatches.has(item.id))
+            : filterBySearch(items, searchQuery.toLowerCase());
+    }
+    if (sentimentFilter) {
+        filtered = filtered.filter(item => !!item.sentiment && sentimentFilter.has(item.sentiment));
+    }
+    if (typeFilter) {
+        filtered = filtered.filter(item => !!item.contentType && typeFilter.has(item.contentType));
+    }
+    return filtered;
+}
+
 function filterBySearch(items: ContentItem[], query: string): ContentItem[] {
     return items.filter(item => {
         const text = `${item.title} ${item.description || ''} ${item.tags?.join(' ') || ''}`.toLowerCase();
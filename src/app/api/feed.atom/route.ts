@@ -0,0 +1,11 @@
+import { createSyndicationHandler } from '@/lib/syndication/handler';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * GET /api/feed.atom?category=&source=&timeRange=&mode=
+ *
+ * The ranked feed as Atom 1.0. See src/lib/syndication.
+ */
+export const GET = createSyndicationHandler('atom');
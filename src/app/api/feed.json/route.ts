@@ -0,0 +1,11 @@
+import { createSyndicationHandler } from '@/lib/syndication/handler';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * GET /api/feed.json?category=&source=&timeRange=&mode=
+ *
+ * The ranked feed as JSON Feed 1.1. See src/lib/syndication.
+ */
+export const GET = createSyndicationHandler('json');
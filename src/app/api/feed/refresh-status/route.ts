@@ -3,6 +3,22 @@ import { getRefreshProgress } from '@/lib/fetching/refresh-progress';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
-    return NextResponse.json(getRefreshProgress());
+/**
+ * GET /api/feed/refresh-status?session=<id>
+ *
+ * Per-source progress of a refresh session (the `refreshSessionId` from
+ * /api/feed), or of the most recent session when none is given. Sessions
+ * are stored in the database, so any instance can answer.
+ */
+export async function GET(request: Request) {
+    const sessionId = new URL(request.url).searchParams.get('session') ?? undefined;
+    try {
+        return NextResponse.json(await getRefreshProgress(sessionId));
+    } catch (error) {
+        console.error('Failed to get refresh progress:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to get refresh progress' },
+            { status: 500 }
+        );
+    }
 }
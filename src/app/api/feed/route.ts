@@ -1,56 +1,34 @@
 import { NextResponse, after } from 'next/server';
-import { TimeRange, FeedMode } from '@/types';
+import { TimeRange } from '@/types';
 import {
-    getSetting,
-    updateSetting,
-    cleanOldContent,
     getCachedContentBySourceIds,
     getSourceFreshness,
+    maybeReclassifyContentTypes,
 } from '@/lib/db/actions';
 import { getEffectiveConfig, getEffectiveSourceList } from '@/lib/config/resolve';
-import { scoreItemsByFeedMode, normalizeCrossCategory, linkAndAmplify } from '@/lib/scoring';
-import { getBulkVelocities, cleanupOldSnapshots } from '@/lib/db/engagement-tracker';
+import { FeedMode, FEED_MODES, DEFAULT_FEED_MODE, isFeedMode } from '@/lib/scoring';
+import { rankItems, loadVelocities } from '@/lib/scoring/pipeline';
+import { maybeGenerateDigests } from '@/lib/digests/generate';
+import { maybeUpdateTopicHistory } from '@/lib/topics/history';
 import { SOURCES } from '@/lib/config/sources';
 import { feedCache } from '@/lib/cache/memory-cache';
-import { ensureSourcesFresh } from '@/lib/fetching/ensure-fresh';
-import { startRefreshSession } from '@/lib/fetching/refresh-progress';
+import { ensureSourcesFresh, claimStaleSources } from '@/lib/fetching/ensure-fresh';
+import { isRequestRefreshEnabled } from '@/lib/fetching/scheduler';
 import { db } from '@/lib/db';
-import { settings, contentItems } from '@/lib/db/schema';
-import { sql, inArray } from 'drizzle-orm';
-
-// Run cleanup once per day max
-const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
-
-// Module-level lock: prevent duplicate background refreshes for the same source set
-const activeRefreshKeys = new Set<string>();
-
-async function maybeRunCleanup() {
-    try {
-        const lastCleanup = await getSetting<string>('lastCleanupTime', '');
-        const lastTime = lastCleanup ? new Date(lastCleanup).getTime() : 0;
-
-        if (Date.now() - lastTime > CLEANUP_INTERVAL_MS) {
-            const [contentDeleted, snapshotsDeleted] = await Promise.all([
-                cleanOldContent(7),        // Keep 7 days of content
-                cleanupOldSnapshots(7),    // Keep 7 days of snapshots
-                // Clean up stale feed_cache_* entries from settings table
-                db.delete(settings).where(sql`${settings.key} LIKE 'feed_cache_%'`),
-            ]);
-            console.log(`Cleanup: removed ${contentDeleted} old items, ${snapshotsDeleted} old snapshots, cleaned feed_cache_* settings`);
-            await updateSetting('lastCleanupTime', new Date().toISOString());
-        }
-    } catch (error) {
-        console.error('Cleanup failed:', error);
-    }
-}
+import { contentItems } from '@/lib/db/schema';
+import { inArray } from 'drizzle-orm';
+import { isSentimentLabel, SentimentResult } from '@/lib/sentiment';
+import { CONTENT_TYPES, isContentType } from '@/lib/classification/content-type';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 export const maxDuration = 60;
 
 export async function GET(request: Request) {
-    // Trigger cleanup if needed (runs after response via after())
-    after(() => maybeRunCleanup());
+    // Trigger reclassification / digest generation / topic counts if needed (runs after response via after())
+    after(() => maybeReclassifyContentTypes());
+    after(() => maybeGenerateDigests());
+    after(() => maybeUpdateTopicHistory());
 
     const { searchParams } = new URL(request.url);
     const category = searchParams.get('category');
@@ -67,19 +45,46 @@ export async function GET(request: Request) {
         );
     }
 
-    // Validate mode parameter
-    const VALID_FEED_MODES: FeedMode[] = ['hot', 'rising', 'top'];
-    if (rawMode && !VALID_FEED_MODES.includes(rawMode as FeedMode)) {
+    // Validate mode parameter (any registered ranking mode)
+    if (rawMode && !isFeedMode(rawMode)) {
         return NextResponse.json(
-            { success: false, error: `Invalid mode: ${rawMode}`, validValues: VALID_FEED_MODES },
+            { success: false, error: `Invalid mode: ${rawMode}`, validValues: FEED_MODES },
             { status: 400 }
         );
     }
-    const feedMode: FeedMode = (rawMode as FeedMode) || 'hot';
+    const feedMode: FeedMode = (rawMode as FeedMode | null) || DEFAULT_FEED_MODE;
+
+    // Validate sentiment parameter (comma-separated labels)
+    const VALID_SENTIMENTS: SentimentResult['sentiment'][] = ['positive', 'neutral', 'negative'];
+    const rawSentiment = searchParams.get('sentiment');
+    const sentiments = rawSentiment ? rawSentiment.split(',').map(s => s.trim()).filter(Boolean) : [];
+    const invalidSentiments = sentiments.filter(s => !isSentimentLabel(s));
+    if (invalidSentiments.length > 0) {
+        return NextResponse.json(
+            { success: false, error: `Invalid sentiment: ${invalidSentiments.join(', ')}`, validValues: VALID_SENTIMENTS },
+            { status: 400 }
+        );
+    }
+    const sentimentFilter = sentiments.length > 0 ? new Set(sentiments) : null;
+
+    // Validate type parameter (comma-separated content types)
+    const rawType = searchParams.get('type');
+    const types = rawType ? rawType.split(',').map(t => t.trim()).filter(Boolean) : [];
+    const invalidTypes = types.filter(t => !isContentType(t));
+    if (invalidTypes.length > 0) {
+        return NextResponse.json(
+            { success: false, error: `Invalid type: ${invalidTypes.join(', ')}`, validValues: CONTENT_TYPES },
+            { status: 400 }
+        );
+    }
+    const typeFilter = types.length > 0 ? new Set(types) : null;
+
+    // explain=1 attaches a scoreExplanation breakdown to every item
+    const explain = searchParams.get('explain') === '1';
 
     try {
         const t0 = Date.now();
-        console.log(`[FEED] Request: timeRange=${queryTimeRange} mode=${rawMode} category=${category} source=${sourceId}`);
+        console.log(`[FEED] Request: timeRange=${queryTimeRange} mode=${rawMode} category=${category} source=${sourceId} sentiment=${rawSentiment} type=${rawType} explain=${explain}`);
         console.log(`[FEED] DATABASE_URL set: ${!!process.env.DATABASE_URL}`);
 
         // Fetch config and source list in parallel
@@ -123,7 +128,9 @@ export async function GET(request: Request) {
         }
 
         // Check in-memory cache first
-        const memoryCacheKey = `feed:${targetSourceIds.sort().join(',')}:${timeRange}:${feedMode}`;
+        const sentimentKey = sentimentFilter ? [...sentimentFilter].sort().join(',') : 'all';
+        const typeKey = typeFilter ? [...typeFilter].sort().join(',') : 'all';
+        const memoryCacheKey = `feed:${targetSourceIds.sort().join(',')}:${timeRange}:${feedMode}:${sentimentKey}:${typeKey}:${explain ? 'explain' : 'plain'}`;
         const memoryCached = feedCache.get(memoryCacheKey);
         if (memoryCached) {
             return NextResponse.json(memoryCached);
@@ -152,6 +159,7 @@ export async function GET(request: Request) {
         }
 
         let staleRefreshing = false;
+        let refreshSessionId: string | null = null;
         let failures: { source: string; error: string }[] = [];
 
         // Build stale source name list for the client
@@ -161,22 +169,28 @@ export async function GET(request: Request) {
                 .map(s => ({ id: s.id, name: s.name, icon: s.icon || '', logoUrl: s.logoUrl }))
             : [];
 
-        if (freshness.stale.length > 0) {
+        // Fallback to the scheduled refresh (/api/cron/refresh, refresh worker);
+        // off with REFRESH_ON_REQUEST=false
+        if (freshness.stale.length > 0 && isRequestRefreshEnabled()) {
             // Always non-blocking: return whatever we have now, refresh in background.
             // Uses after() so Vercel keeps the function alive until refresh completes.
-            staleRefreshing = true;
-            const refreshKey = targetSourceIds.sort().join(',');
-            if (!activeRefreshKeys.has(refreshKey)) {
-                activeRefreshKeys.add(refreshKey);
-                startRefreshSession(refreshingSources);
+            // Sources another refresh (any instance) is already fetching are left to it;
+            // when that's all of them, the client follows that refresh's session.
+            const { sessionId, sources: claimed } = await claimStaleSources(
+                targetSources.filter(s => freshness.stale.includes(s.id))
+            );
+            refreshSessionId = sessionId;
+            staleRefreshing = sessionId !== null;
+            if (sessionId && claimed.length > 0) {
                 after(async () => {
                     try {
-                        await ensureSourcesFresh(targetSources, targetSourceIds, timeRange);
+                        const { postProcessing } = await ensureSourcesFresh(
+                            claimed, claimed.map(s => s.id), timeRange, { sessionId }
+                        );
                         feedCache.clear();
+                        await postProcessing;
                     } catch (err) {
                         console.error('Background source refresh failed:', err);
-                    } finally {
-                        activeRefreshKeys.delete(refreshKey);
                     }
                 });
             }
@@ -185,31 +199,30 @@ export async function GET(request: Request) {
         // 3. Use existing items (background refresh will populate new ones)
         const allItems = existingItems;
 
-        // Get velocities for Hot/Rising modes.
-        // Uses direct await instead of Promise.race to avoid dangling promises
-        // that throw connection errors when the Lambda is recycled.
+        // Get velocities for modes that use them.
         // postgres.js connect_timeout (5s) + route maxDuration (60s) provide timeout protection.
         const t3 = Date.now();
-        let velocities = new Map<string, number>();
-        if (feedMode === 'hot' || feedMode === 'rising') {
-            try {
-                velocities = await getBulkVelocities(allItems.map(i => i.id));
-            } catch {
-                console.warn('Velocity query failed, falling back to engagement scoring');
-            }
-        }
+        const velocities = await loadVelocities(allItems, feedMode);
         console.log(`[FEED TIMING] velocities: ${Date.now() - t3}ms`);
 
-        // Score and sort based on feed mode
-        const rawScoredItems = scoreItemsByFeedMode(allItems, velocities, feedMode);
-
-        // Cross-platform linking + amplification (runs before normalization)
-        const linkedItems = linkAndAmplify(rawScoredItems);
-
-        // Normalize scores across categories to reduce dev-platforms dominance
+        // Rank: mode scoring, cross-platform linking, cross-category normalization
+        // (reduces dev-platforms dominance), mute rules
         const sourceToCategoryMap: Record<string, string> = {};
         for (const s of SOURCES) { sourceToCategoryMap[s.id] = s.category; }
-        const scoredItems = normalizeCrossCategory(linkedItems, sourceToCategoryMap);
+        const rankedItems = await rankItems(allItems, {
+            mode: feedMode,
+            config,
+            sourceToCategoryMap,
+            velocities,
+            explain,
+        });
+
+        // Sentiment/type filters run after scoring so cross-platform linking
+        // still sees the full item set (a negative item can amplify a neutral one)
+        const scoredItems = rankedItems.filter(item =>
+            (!sentimentFilter || (!!item.sentiment && sentimentFilter.has(item.sentiment))) &&
+            (!typeFilter || (!!item.contentType && typeFilter.has(item.contentType)))
+        );
 
         const response: Record<string, unknown> = {
             success: true,
@@ -219,14 +232,17 @@ export async function GET(request: Request) {
             cached: freshness.stale.length === 0,
             staleRefreshing,
             refreshingSources: staleRefreshing ? refreshingSources : undefined,
+            refreshSessionId: refreshSessionId ?? undefined,
             mode: feedMode,
+            sentiment: sentimentFilter ? [...sentimentFilter] : undefined,
+            type: typeFilter ? [...typeFilter] : undefined,
             failures: failures.length > 0 ? failures : undefined,
         };
 
         // Include debug info when no items are returned to help diagnose issues
         if (scoredItems.length === 0) {
             response._debug = {
-                reason: 'no_items_after_scoring',
+                reason: rankedItems.length > 0 ? 'no_items_after_filters' : 'no_items_after_scoring',
                 targetSourceCount: targetSourceIds.length,
                 dbItemCount: existingItems.length,
                 hasAnyContentInDb: hasAnyContent,
@@ -0,0 +1,97 @@
+import { NextResponse, after } from 'next/server';
+import { getAffinityModel } from '@/lib/db/actions';
+import { countFeedbackEvents, recordFeedbackEvent } from '@/lib/db/feedback';
+import { getEffectiveConfig } from '@/lib/config/resolve';
+import { FEEDBACK_ACTIONS, isFeedbackAction } from '@/lib/personalization';
+import { relearnAffinities, resetAffinities } from '@/lib/personalization/learn';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/feedback
+ *
+ * The learned affinity model (sources, tags and keywords, each -1 to 1),
+ * stored event counts per action, and the sources whose explicit priority
+ * overrides their learned affinity.
+ */
+export async function GET() {
+    try {
+        const [model, counts, config] = await Promise.all([
+            getAffinityModel(),
+            countFeedbackEvents(),
+            getEffectiveConfig(),
+        ]);
+        return NextResponse.json({
+            success: true,
+            model,
+            counts,
+            explicitPrioritySources: [...config.explicitPrioritySources],
+        });
+    } catch (error) {
+        console.error('Failed to fetch personalization:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch personalization' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/feedback
+ * { contentId, action: 'click' | 'bookmark' | 'not_interested' }
+ *
+ * Record implicit feedback on a feed card. Affinities are relearned after
+ * the response is sent.
+ */
+export async function POST(request: Request) {
+    const body = await request.json().catch(() => null);
+    const contentId = typeof body?.contentId === 'string' ? body.contentId : '';
+    if (!contentId) {
+        return NextResponse.json({ success: false, error: 'contentId is required' }, { status: 400 });
+    }
+    if (!isFeedbackAction(body?.action)) {
+        return NextResponse.json(
+            { success: false, error: 'Invalid action', validValues: FEEDBACK_ACTIONS },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const recorded = await recordFeedbackEvent(contentId, body.action);
+        if (!recorded) {
+            return NextResponse.json({ success: false, error: 'Item not found' }, { status: 404 });
+        }
+        after(async () => {
+            try {
+                await relearnAffinities();
+            } catch (err) {
+                console.error('Failed to relearn affinities:', err);
+            }
+        });
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Failed to record feedback:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to record feedback' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/feedback
+ *
+ * Reset personalization: deletes every feedback event and the learned model.
+ */
+export async function DELETE() {
+    try {
+        const deleted = await resetAffinities();
+        return NextResponse.json({ success: true, deleted });
+    } catch (error) {
+        console.error('Failed to reset personalization:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to reset personalization' },
+            { status: 500 }
+        );
+    }
+}
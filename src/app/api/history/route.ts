@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { HistoryRange, HistoryReport, RollupDimension } from '@/types';
+import { HISTORY_RANGES, ROLLUP_DIMENSIONS, isHistoryRange, isRollupDimension } from '@/lib/history';
+import { getHistory } from '@/lib/history/rollups';
+import { feedCache } from '@/lib/cache/memory-cache';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/history?range=90d&dimension=tag&key=anthropic&limit=20
+ *
+ * Long-term trends from the daily rollups, which outlive the 7 days of raw
+ * content. `range` is 30d, 90d or 365d and ends yesterday; `dimension` is
+ * source, category, tag or story (ID). Returns the daily series (all content,
+ * or just `key`) and the dimension's keys by item count with average scores
+ * and top items. `daysWithData` says how many days of the range were rolled
+ * up.
+ */
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+
+    const rawRange = searchParams.get('range') || '30d';
+    if (!isHistoryRange(rawRange)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid range: ${rawRange}`, validValues: HISTORY_RANGES },
+            { status: 400 }
+        );
+    }
+    const range: HistoryRange = rawRange;
+
+    const rawDimension = searchParams.get('dimension') || 'source';
+    if (!isRollupDimension(rawDimension)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid dimension: ${rawDimension}`, validValues: ROLLUP_DIMENSIONS },
+            { status: 400 }
+        );
+    }
+    const dimension: RollupDimension = rawDimension;
+
+    const key = searchParams.get('key')?.trim().toLowerCase() || null;
+    const limit = Math.min(Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20), 100);
+
+    try {
+        const cacheKey = `history:${range}:${dimension}:${key ?? ''}:${limit}`;
+        const cached = feedCache.get(cacheKey) as HistoryReport | undefined;
+        const report = cached ?? await getHistory(range, dimension, key, limit);
+        if (!cached) feedCache.set(cacheKey, report);
+        return NextResponse.json({ success: true, ...report });
+    } catch (error) {
+        console.error('Failed to get history:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to get history' },
+            { status: 500 }
+        );
+    }
+}
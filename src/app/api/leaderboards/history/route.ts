@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getSourcesByCategory } from '@/lib/config/sources';
+import { getLeaderboardHistory } from '@/lib/db/leaderboard-tracker';
+
+export const dynamic = 'force-dynamic';
+
+const LEADERBOARD_SOURCE_IDS = getSourcesByCategory('leaderboards').map(s => s.id);
+
+/**
+ * GET /api/leaderboards/history?source=lmsys-arena&models=a,b&days=30&top=10
+ *
+ * Per-model rank history for charting. Without `models`, returns the
+ * current top `top` models of the board.
+ */
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const sourceId = searchParams.get('source');
+    const modelsParam = searchParams.get('models');
+    const days = Math.min(Math.max(1, parseInt(searchParams.get('days') || '30', 10) || 30), 365);
+    const topN = Math.min(Math.max(1, parseInt(searchParams.get('top') || '10', 10) || 10), 50);
+
+    if (!sourceId || !LEADERBOARD_SOURCE_IDS.includes(sourceId)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid source: ${sourceId}`, validValues: LEADERBOARD_SOURCE_IDS },
+            { status: 400 }
+        );
+    }
+
+    const models = modelsParam
+        ? modelsParam.split(',').map(m => m.trim()).filter(Boolean)
+        : undefined;
+
+    try {
+        const series = await getLeaderboardHistory(sourceId, { models, days, topN });
+        return NextResponse.json({
+            success: true,
+            source: sourceId,
+            days,
+            series,
+        });
+    } catch (error) {
+        console.error('Leaderboard history API error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch leaderboard history' },
+            { status: 500 }
+        );
+    }
+}
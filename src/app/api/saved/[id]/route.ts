@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { updateSavedItem, deleteSavedItem } from '@/lib/db/saved';
+import { parseSavedItemChanges } from '@/lib/saved';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/** PATCH /api/saved/:id — { tags?, note? }, replacing whichever are sent. */
+export async function PATCH(request: Request, context: RouteContext) {
+    const { id } = await context.params;
+
+    try {
+        const body = await request.json().catch(() => null);
+        const parsed = parseSavedItemChanges(body);
+        if ('error' in parsed) {
+            return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+        }
+
+        const saved = await updateSavedItem(id, parsed.changes);
+        if (!saved) {
+            return NextResponse.json({ success: false, error: 'Saved item not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, saved });
+    } catch (error) {
+        console.error(`Failed to update saved item ${id}:`, error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to update saved item' },
+            { status: 500 }
+        );
+    }
+}
+
+/** DELETE /api/saved/:id — unsave an item. */
+export async function DELETE(_request: Request, context: RouteContext) {
+    const { id } = await context.params;
+
+    try {
+        const deleted = await deleteSavedItem(id);
+        if (!deleted) {
+            return NextResponse.json({ success: false, error: 'Saved item not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error(`Failed to delete saved item ${id}:`, error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to delete saved item' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getSavedIds } from '@/lib/db/saved';
+
+export const dynamic = 'force-dynamic';
+
+/** GET /api/saved/ids — IDs of every saved item, for bookmark toggles. */
+export async function GET() {
+    try {
+        const ids = await getSavedIds();
+        return NextResponse.json({ success: true, ids });
+    } catch (error) {
+        console.error('Failed to fetch saved item IDs:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch saved item IDs' },
+            { status: 500 }
+        );
+    }
+}
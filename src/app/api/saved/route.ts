@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { getEffectiveSourceList } from '@/lib/config/resolve';
+import { listSavedItems, getSavedTagCounts, saveItem } from '@/lib/db/saved';
+import { parseSavedItemChanges, renderSavedMarkdown } from '@/lib/saved';
+
+export const dynamic = 'force-dynamic';
+
+const FORMATS = ['md', 'json'] as const;
+type ExportFormat = typeof FORMATS[number];
+
+/**
+ * GET /api/saved?q=&tag=&format=md|json
+ *
+ * Saved items, newest first, with the tags in use. `q` searches title,
+ * description, note and tags; `tag` filters to one tag. With `format` the
+ * filtered list is returned as a Markdown or JSON download instead.
+ */
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim() || undefined;
+    const tag = searchParams.get('tag')?.trim().toLowerCase() || undefined;
+    const format = searchParams.get('format') as ExportFormat | null;
+    if (format && !FORMATS.includes(format)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid format. Must be one of: ${FORMATS.join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        if (format) {
+            const [items, sourceList] = await Promise.all([listSavedItems({ query, tag }), getEffectiveSourceList()]);
+            const filename = `saved-items-${new Date().toISOString().slice(0, 10)}.${format}`;
+            if (format === 'md') {
+                const sourceNames = new Map(sourceList.all.map(s => [s.id, s.name]));
+                return new NextResponse(renderSavedMarkdown(items, id => sourceNames.get(id) || id), {
+                    headers: {
+                        'Content-Type': 'text/markdown; charset=utf-8',
+                        'Content-Disposition': `attachment; filename="${filename}"`,
+                    },
+                });
+            }
+            return new NextResponse(JSON.stringify({ exportedAt: new Date().toISOString(), items }, null, 2), {
+                headers: {
+                    'Content-Type': 'application/json; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="${filename}"`,
+                },
+            });
+        }
+
+        const [items, tags] = await Promise.all([listSavedItems({ query, tag }), getSavedTagCounts()]);
+        return NextResponse.json({ success: true, count: items.length, items, tags });
+    } catch (error) {
+        console.error('Failed to fetch saved items:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch saved items' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/saved
+ * { contentId, tags?, note? }
+ *
+ * Saves a copy of a stored item. Saving an already-saved item returns it
+ * unchanged (use PATCH /api/saved/:id to edit tags or the note).
+ */
+export async function POST(request: Request) {
+    try {
+        const body = await request.json().catch(() => null);
+        const contentId = typeof body?.contentId === 'string' ? body.contentId : '';
+        if (!contentId) {
+            return NextResponse.json({ success: false, error: 'contentId is required' }, { status: 400 });
+        }
+        const parsed = parseSavedItemChanges(body);
+        if ('error' in parsed) {
+            return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+        }
+
+        const saved = await saveItem(contentId, parsed.changes.tags ?? [], parsed.changes.note ?? '');
+        if (!saved) {
+            return NextResponse.json({ success: false, error: 'Content item not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, saved }, { status: 201 });
+    } catch (error) {
+        console.error('Failed to save item:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to save item' },
+            { status: 500 }
+        );
+    }
+}
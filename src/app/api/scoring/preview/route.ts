@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { ScoringPreviewMode } from '@/types';
+import { parseScoringWeights } from '@/lib/scoring/weights';
+import { FEED_MODES, DEFAULT_FEED_MODE } from '@/lib/scoring/modes';
+import { previewScoringWeights } from '@/lib/scoring/preview';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 30;
+
+const VALID_MODES: ScoringPreviewMode[] = [...FEED_MODES, 'default'];
+
+/**
+ * POST /api/scoring/preview
+ * { weights: ScoringWeights, mode?: FeedMode | 'default' }
+ *
+ * Top 20 stored items under the saved weights and under `weights`, for a
+ * side-by-side comparison before saving. Nothing is persisted.
+ */
+export async function POST(request: Request) {
+    const body = await request.json().catch(() => null);
+    if (typeof body !== 'object' || body === null) {
+        return NextResponse.json({ success: false, error: 'Expected a JSON object' }, { status: 400 });
+    }
+
+    const mode = (body.mode ?? DEFAULT_FEED_MODE) as ScoringPreviewMode;
+    if (!VALID_MODES.includes(mode)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid mode: ${mode}`, validValues: VALID_MODES },
+            { status: 400 }
+        );
+    }
+    const parsed = parseScoringWeights(body.weights);
+    if ('error' in parsed) {
+        return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    try {
+        const preview = await previewScoringWeights(parsed.weights, mode);
+        return NextResponse.json({ success: true, mode, weights: parsed.weights, ...preview });
+    } catch (error) {
+        console.error('Failed to preview scoring weights:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to preview scoring weights' },
+            { status: 500 }
+        );
+    }
+}
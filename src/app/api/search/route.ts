@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { ContentType, SourceCategory, TimeRange, CATEGORY_LABELS } from '@/types';
+import { CONTENT_TYPES, isContentType } from '@/lib/classification/content-type';
+import { runSearch, SEARCH_CANDIDATE_LIMIT } from '@/lib/search';
+
+export const dynamic = 'force-dynamic';
+
+const VALID_TIME_RANGES: TimeRange[] = ['1h', '12h', '24h', '48h', '7d'];
+const MAX_QUERY_LENGTH = 200;
+
+function splitParam(value: string | null): string[] {
+    return value ? value.split(',').map(v => v.trim()).filter(Boolean) : [];
+}
+
+/**
+ * GET /api/search?q=<query>&category=&source=&type=&timeRange=&limit=20&offset=0
+ *
+ * Full-text search over stored content. `q` uses web search syntax:
+ * "exact phrase", `or`, and `-excluded` words. `category` and `type` are
+ * comma-separated; without `timeRange`, everything still stored is searched
+ * (as far back as the longest retention window).
+ */
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+    const categories = splitParam(searchParams.get('category'));
+    const types = splitParam(searchParams.get('type'));
+    const timeRange = searchParams.get('timeRange');
+
+    if (!query) {
+        return NextResponse.json({ success: false, error: 'Missing required parameter: q' }, { status: 400 });
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+        return NextResponse.json(
+            { success: false, error: `Query too long (max ${MAX_QUERY_LENGTH} characters)` },
+            { status: 400 }
+        );
+    }
+    const invalidCategories = categories.filter(c => !(c in CATEGORY_LABELS));
+    if (invalidCategories.length > 0) {
+        return NextResponse.json(
+            { success: false, error: `Invalid category: ${invalidCategories.join(', ')}`, validValues: Object.keys(CATEGORY_LABELS) },
+            { status: 400 }
+        );
+    }
+    const invalidTypes = types.filter(t => !isContentType(t));
+    if (invalidTypes.length > 0) {
+        return NextResponse.json(
+            { success: false, error: `Invalid type: ${invalidTypes.join(', ')}`, validValues: CONTENT_TYPES },
+            { status: 400 }
+        );
+    }
+    if (timeRange && !VALID_TIME_RANGES.includes(timeRange as TimeRange)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid timeRange: ${timeRange}`, validValues: VALID_TIME_RANGES },
+            { status: 400 }
+        );
+    }
+
+    const limit = Math.min(Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20), 50);
+    const offset = Math.min(Math.max(0, parseInt(searchParams.get('offset') || '0', 10) || 0), SEARCH_CANDIDATE_LIMIT);
+
+    try {
+        const result = await runSearch({
+            query,
+            categories: categories as SourceCategory[],
+            sourceId: searchParams.get('source'),
+            types: types as ContentType[],
+            timeRange: (timeRange as TimeRange) || null,
+            limit,
+            offset,
+        });
+        return NextResponse.json({ success: true, ...result, limit, offset });
+    } catch (error) {
+        console.error('Search failed:', error);
+        return NextResponse.json(
+            { success: false, error: 'Search failed' },
+            { status: 500 }
+        );
+    }
+}
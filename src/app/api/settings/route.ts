@@ -5,6 +5,8 @@ import {
     setCategoryEnabled,
     setSourcePriority,
     setBoostKeywords,
+    setMuteRules,
+    setScoringWeights,
     setYouTubeChannels,
     setCustomSubreddits,
     getCustomSources,
@@ -16,6 +18,8 @@ import { getEffectiveConfig } from '@/lib/config/resolve';
 import { TimeRange, CustomSourceConfig, SourceCategory } from '@/types';
 import { SOURCES } from '@/lib/config/sources';
 import { feedCache, settingsCache } from '@/lib/cache/memory-cache';
+import { parseMuteRules, isMuteRuleActive } from '@/lib/mute';
+import { parseScoringWeights } from '@/lib/scoring/weights';
 
 // Validation helpers
 const VALID_THEMES = ['dark', 'light'] as const;
@@ -62,6 +66,9 @@ export async function GET() {
             enabledSources: config.enabledSourceIds,
             priorities: Object.fromEntries(config.priorities),
             boostKeywords: config.boostKeywords,
+            // Expired rules stay stored until the next save; don't show them
+            muteRules: config.muteRules.filter(rule => isMuteRuleActive(rule)),
+            scoringWeights: config.scoringWeights,
             youtubeChannels: config.youtubeChannels,
             customSubreddits: config.customSubreddits,
             customSources: config.customSources,
@@ -188,6 +195,30 @@ export async function POST(request: Request) {
                 break;
             }
 
+            case 'SET_MUTE_RULES': {
+                const parsed = parseMuteRules(payload.rules);
+                if ('error' in parsed) {
+                    return NextResponse.json(
+                        { error: parsed.error },
+                        { status: 400 }
+                    );
+                }
+                await setMuteRules(parsed.rules);
+                break;
+            }
+
+            case 'SET_SCORING_WEIGHTS': {
+                const parsed = parseScoringWeights(payload.weights);
+                if ('error' in parsed) {
+                    return NextResponse.json(
+                        { error: parsed.error },
+                        { status: 400 }
+                    );
+                }
+                await setScoringWeights(parsed.weights);
+                break;
+            }
+
             case 'SET_YOUTUBE_CHANNELS': {
                 if (!Array.isArray(payload.channels)) {
                     return NextResponse.json(
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getEffectiveSourceList } from '@/lib/config/resolve';
+import { getStory } from '@/lib/db/stories';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/stories/[id]
+ *
+ * One story with its member items in the order they were published.
+ */
+export async function GET(_request: Request, context: RouteContext) {
+    const { id: idParam } = await context.params;
+    const id = Number(idParam);
+    if (!Number.isInteger(id) || id <= 0) {
+        return NextResponse.json(
+            { success: false, error: 'Invalid story ID' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const [story, sourceList] = await Promise.all([getStory(id), getEffectiveSourceList()]);
+        if (!story) {
+            return NextResponse.json(
+                { success: false, error: `Story ${id} not found` },
+                { status: 404 }
+            );
+        }
+        const sourceNames = Object.fromEntries(sourceList.all.map(s => [s.id, s.name]));
+        return NextResponse.json({ success: true, story, sourceNames });
+    } catch (error) {
+        console.error(`Failed to load story ${id}:`, error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to load story' },
+            { status: 500 }
+        );
+    }
+}
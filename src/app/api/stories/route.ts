@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { TimeRange } from '@/types';
+import { listStories } from '@/lib/db/stories';
+import { getTimeRangeCutoff } from '@/lib/db/actions';
+
+export const dynamic = 'force-dynamic';
+
+const VALID_TIME_RANGES: TimeRange[] = ['1h', '12h', '24h', '48h', '7d'];
+
+/**
+ * GET /api/stories?timeRange=24h&minPlatforms=2&limit=50&offset=0
+ *
+ * Persistent cross-platform stories, most recently joined first. `timeRange`
+ * filters by last activity; `minPlatforms` (1-10, default 2) by how many
+ * platform families have picked the story up.
+ */
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const timeRange = searchParams.get('timeRange') as TimeRange | null;
+    if (timeRange && !VALID_TIME_RANGES.includes(timeRange)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid timeRange: ${timeRange}`, validValues: VALID_TIME_RANGES },
+            { status: 400 }
+        );
+    }
+    const minPlatforms = Math.min(Math.max(1, parseInt(searchParams.get('minPlatforms') || '2', 10) || 2), 10);
+    const limit = Math.min(Math.max(1, parseInt(searchParams.get('limit') || '50', 10) || 50), 200);
+    const offset = Math.max(0, parseInt(searchParams.get('offset') || '0', 10) || 0);
+
+    try {
+        const stories = await listStories({
+            since: timeRange ? getTimeRangeCutoff(timeRange) : undefined,
+            minPlatforms,
+            limit,
+            offset,
+        });
+        return NextResponse.json({ success: true, count: stories.length, stories });
+    } catch (error) {
+        console.error('Failed to list stories:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to list stories' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getScoopReport, MAX_SCOOP_WINDOW_DAYS } from '@/lib/stories/scoops';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/stories/scoops?days=30
+ *
+ * "Who broke it first": per-source first-to-story counts, median lag behind
+ * the first publisher, and a source-overlap matrix, over multi-platform
+ * stories first seen in the last `days` days (1-30). The window is cut to
+ * the retention policy's story window; `days` in the response is the one used.
+ */
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const rawDays = searchParams.get('days');
+    const days = rawDays === null ? MAX_SCOOP_WINDOW_DAYS : Number(rawDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_SCOOP_WINDOW_DAYS) {
+        return NextResponse.json(
+            { success: false, error: `Invalid days. Must be an integer from 1 to ${MAX_SCOOP_WINDOW_DAYS}` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const { days: windowDays, report } = await getScoopReport(days);
+        return NextResponse.json({ success: true, days: windowDays, ...report });
+    } catch (error) {
+        console.error('Failed to build scoop report:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to build scoop report' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { EmergingTopicsReport } from '@/types';
+import { getEmergingTopics } from '@/lib/topics/history';
+import { feedCache } from '@/lib/cache/memory-cache';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/topics/emerging?limit=20
+ *
+ * Tags and title terms spiking in the last 24 hours, strongest burst first.
+ * `burstScore` is a z-score of the topic's share of the window's items
+ * against its daily share over the trailing baseline days; `baselineDays`
+ * says how much history there was to compare with. Each topic includes its
+ * daily history and up to 5 supporting items.
+ */
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20), 50);
+
+    try {
+        const cacheKey = `topics:emerging:${limit}`;
+        const cached = feedCache.get(cacheKey) as EmergingTopicsReport | undefined;
+        const report = cached ?? await getEmergingTopics(limit);
+        if (!cached) feedCache.set(cacheKey, report);
+        return NextResponse.json({ success: true, ...report });
+    } catch (error) {
+        console.error('Failed to detect emerging topics:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to detect emerging topics' },
+            { status: 500 }
+        );
+    }
+}
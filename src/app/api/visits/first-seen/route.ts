@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getFirstSeen } from '@/lib/db/visits';
+import { getProfileId, parseIdList } from '@/lib/visits/profile';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/visits/first-seen
+ * { ids: string[] }
+ *
+ * When this profile first saw each of the given items. Unseen items are
+ * omitted. Read-only: safe to call on every feed poll.
+ */
+export async function POST(request: Request) {
+    const body = await request.json().catch(() => null);
+    const parsed = parseIdList(body);
+    if ('error' in parsed) {
+        return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    try {
+        const profileId = await getProfileId();
+        const firstSeen = profileId ? await getFirstSeen(profileId, parsed.ids) : {};
+        return NextResponse.json({ success: true, firstSeen }, {
+            headers: { 'Cache-Control': 'private, no-store' },
+        });
+    } catch (error) {
+        console.error('Failed to look up seen items:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to look up seen items' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { touchVisit } from '@/lib/db/visits';
+import { getOrCreateProfileId, VISIT_GAP_MS } from '@/lib/visits/profile';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/visits
+ *
+ * Start or continue this browser profile's visit (issuing the profile cookie
+ * on first use). The dashboard calls it on load and whenever the tab becomes
+ * visible again. Returns `{ visit: { startedAt, previousVisitAt } }`.
+ */
+export async function POST() {
+    try {
+        const profileId = await getOrCreateProfileId();
+        const visit = await touchVisit(profileId, VISIT_GAP_MS);
+        return NextResponse.json({ success: true, visit }, {
+            headers: { 'Cache-Control': 'private, no-store' },
+        });
+    } catch (error) {
+        console.error('Failed to record visit:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to record visit' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { touchVisit, markSeen } from '@/lib/db/visits';
+import { getProfileId, parseIdList, VISIT_GAP_MS } from '@/lib/visits/profile';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/visits/seen
+ * { ids: string[] }
+ *
+ * Mark items as seen by this profile. Sent by the client only for cards that
+ * were actually on screen, never for everything a feed poll returned.
+ * Counts as activity for the current visit.
+ */
+export async function POST(request: Request) {
+    const profileId = await getProfileId();
+    if (!profileId) {
+        return NextResponse.json(
+            { success: false, error: 'No profile. POST /api/visits first' },
+            { status: 400 }
+        );
+    }
+    const body = await request.json().catch(() => null);
+    const parsed = parseIdList(body);
+    if ('error' in parsed) {
+        return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    try {
+        await touchVisit(profileId, VISIT_GAP_MS);
+        const marked = await markSeen(profileId, parsed.ids);
+        return NextResponse.json({ success: true, marked });
+    } catch (error) {
+        console.error('Failed to mark items seen:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to mark items seen' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { getWebhooks, setWebhooks, deleteDeliveries } from '@/lib/db/webhooks';
+import { parseWebhookInput, toPublicWebhook } from '@/lib/webhooks/config';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/** PUT /api/webhooks/:id — replace a webhook (same body as POST; omit `secret` to keep it). */
+export async function PUT(request: Request, context: RouteContext) {
+    const { id } = await context.params;
+
+    try {
+        const webhooks = await getWebhooks();
+        const existing = webhooks.find(w => w.id === id);
+        if (!existing) {
+            return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 });
+        }
+
+        const body = await request.json().catch(() => null);
+        const parsed = parseWebhookInput(body, existing);
+        if ('error' in parsed) {
+            return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+        }
+
+        const webhook = { id, ...parsed.input };
+        await setWebhooks(webhooks.map(w => (w.id === id ? webhook : w)));
+        return NextResponse.json({ success: true, webhook: toPublicWebhook(webhook) });
+    } catch (error) {
+        console.error(`Failed to update webhook ${id}:`, error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to update webhook' },
+            { status: 500 }
+        );
+    }
+}
+
+/** DELETE /api/webhooks/:id — also drops its delivery log and dead letters. */
+export async function DELETE(_request: Request, context: RouteContext) {
+    const { id } = await context.params;
+
+    try {
+        const webhooks = await getWebhooks();
+        if (!webhooks.some(w => w.id === id)) {
+            return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 });
+        }
+
+        await setWebhooks(webhooks.filter(w => w.id !== id));
+        await deleteDeliveries(id);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error(`Failed to delete webhook ${id}:`, error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to delete webhook' },
+            { status: 500 }
+        );
+    }
+}
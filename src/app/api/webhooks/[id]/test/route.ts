@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getWebhooks } from '@/lib/db/webhooks';
+import { sendWebhookEvent } from '@/lib/webhooks/delivery';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/webhooks/:id/test
+ *
+ * Sends a test event through the normal delivery path (retries, signature,
+ * dead-letter on failure) and returns the outcome.
+ */
+export async function POST(_request: Request, context: RouteContext) {
+    const { id } = await context.params;
+
+    try {
+        const webhook = (await getWebhooks()).find(w => w.id === id);
+        if (!webhook) {
+            return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 });
+        }
+
+        const result = await sendWebhookEvent(webhook, {
+            type: 'test',
+            key: `test:${Date.now()}`,
+            title: `Test from AI Trends: "${webhook.name}" is connected`,
+            items: [],
+        });
+        if (!result) {
+            return NextResponse.json({ success: false, error: 'Test already in progress' }, { status: 409 });
+        }
+
+        return NextResponse.json({ success: result.ok, delivery: result }, { status: result.ok ? 200 : 502 });
+    } catch (error) {
+        console.error(`Failed to test webhook ${id}:`, error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to test webhook' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { getWebhooks, getDeadLetters, getDeadLetter } from '@/lib/db/webhooks';
+import { retryDeadLetter } from '@/lib/webhooks/delivery';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/webhooks/dead-letters?webhook=<id>&limit=50
+ *
+ * Deliveries that failed after all retries, newest first, with the payload as sent.
+ */
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const webhookId = searchParams.get('webhook') || undefined;
+    const limit = Math.min(Math.max(1, parseInt(searchParams.get('limit') || '50', 10) || 50), 200);
+
+    try {
+        const deadLetters = await getDeadLetters({ webhookId, limit });
+        return NextResponse.json({ success: true, count: deadLetters.length, deadLetters });
+    } catch (error) {
+        console.error('Failed to fetch webhook dead letters:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch dead letters' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/webhooks/dead-letters  { id: number }
+ *
+ * Replay one dead letter. On success it leaves the dead-letter log.
+ */
+export async function POST(request: Request) {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const id = (body as { id?: unknown }).id;
+        if (!Number.isInteger(id)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid id. Must be an integer' },
+                { status: 400 }
+            );
+        }
+
+        const deadLetter = await getDeadLetter(id as number);
+        if (!deadLetter) {
+            return NextResponse.json({ success: false, error: 'Dead letter not found' }, { status: 404 });
+        }
+        const webhook = (await getWebhooks()).find(w => w.id === deadLetter.webhookId);
+        if (!webhook) {
+            return NextResponse.json({ success: false, error: 'Webhook no longer exists' }, { status: 404 });
+        }
+
+        const result = await retryDeadLetter(deadLetter, webhook);
+        return NextResponse.json({ success: result.ok, delivery: result }, { status: result.ok ? 200 : 502 });
+    } catch (error) {
+        console.error('Failed to retry dead letter:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to retry dead letter' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { getWebhooks, setWebhooks, getDeadLetterCounts } from '@/lib/db/webhooks';
+import { parseWebhookInput, toPublicWebhook } from '@/lib/webhooks/config';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_WEBHOOKS = 20;
+
+export async function GET() {
+    try {
+        const [webhooks, deadLetterCounts] = await Promise.all([
+            getWebhooks(),
+            getDeadLetterCounts(),
+        ]);
+        return NextResponse.json({
+            success: true,
+            webhooks: webhooks.map(w => ({ ...toPublicWebhook(w), deadLetterCount: deadLetterCounts[w.id] || 0 })),
+        });
+    } catch (error) {
+        console.error('Failed to fetch webhooks:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch webhooks' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/webhooks
+ * { name, url, format: 'slack'|'discord'|'json', secret?, enabled?,
+ *   onAlerts?, scoreThreshold?, onStories?, dailyHour? }
+ */
+export async function POST(request: Request) {
+    try {
+        const body = await request.json().catch(() => null);
+        const parsed = parseWebhookInput(body);
+        if ('error' in parsed) {
+            return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+        }
+
+        const webhooks = await getWebhooks();
+        if (webhooks.length >= MAX_WEBHOOKS) {
+            return NextResponse.json(
+                { success: false, error: `Too many webhooks. Max ${MAX_WEBHOOKS}` },
+                { status: 400 }
+            );
+        }
+
+        const webhook = { id: randomUUID(), ...parsed.input };
+        await setWebhooks([...webhooks, webhook]);
+        return NextResponse.json({ success: true, webhook: toPublicWebhook(webhook) }, { status: 201 });
+    } catch (error) {
+        console.error('Failed to create webhook:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to create webhook' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import useSWR from 'swr';
+import { ArrowLeft, ChevronLeft, ChevronRight, FileText, Code2 } from 'lucide-react';
+import { ContentItem, Digest, DigestEdition, DigestPeriod, CATEGORY_LABELS } from '@/types';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+
+interface DigestResponse {
+    success: boolean;
+    error?: string;
+    digest?: Digest;
+    sourceNames?: Record<string, string>;
+}
+
+interface EditionsResponse {
+    success: boolean;
+    editions: DigestEdition[];
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function shiftDate(date: string, days: number): string {
+    return new Date(new Date(`${date}T00:00:00.000Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function formatRange(digest: Digest): string {
+    if (digest.period === 'daily') return digest.date;
+    return `${digest.date} – ${shiftDate(digest.end.slice(0, 10), -1)}`;
+}
+
+function DigestEntry({ item, sourceNames }: { item: ContentItem; sourceNames: Record<string, string> }) {
+    const name = (id: string) => sourceNames[id] || id;
+    return (
+        <li className="digest-entry">
+            <a href={item.url} target="_blank" rel="noopener noreferrer" className="digest-entry-title">
+                {item.title}
+            </a>
+            <div className="digest-entry-meta">
+                <span>{name(item.sourceId)}</span>
+                {item.trendingScore !== undefined && <span>score {Math.round(item.trendingScore)}</span>}
+                {item.crossPlatformLinks && item.crossPlatformLinks.length > 0 && (
+                    <span>
+                        also on{' '}
+                        {item.crossPlatformLinks.map((link, i) => (
+                            <span key={link.url}>
+                                {i > 0 && ', '}
+                                <a href={link.url} target="_blank" rel="noopener noreferrer">{name(link.sourceId)}</a>
+                            </span>
+                        ))}
+                    </span>
+                )}
+            </div>
+            {item.description && <p className="digest-entry-description">{item.description}</p>}
+        </li>
+    );
+}
+
+/**
+ * Browse digest editions: /digest/2026-10-17, /digest/latest?period=weekly.
+ * Past editions come from the digests table; the current period is built live.
+ */
+export default function DigestPage() {
+    const { date } = useParams<{ date: string }>();
+    const searchParams = useSearchParams();
+    const period: DigestPeriod = searchParams.get('period') === 'weekly' ? 'weekly' : 'daily';
+
+    const { data, isLoading } = useSWR<DigestResponse>(
+        `/api/digests/${encodeURIComponent(date)}?period=${period}`,
+        fetcher,
+        { revalidateOnFocus: false }
+    );
+    const { data: editionsData } = useSWR<EditionsResponse>(`/api/digests?period=${period}`, fetcher, {
+        revalidateOnFocus: false,
+    });
+
+    const digest = data?.success ? data.digest : undefined;
+    const sourceNames = data?.sourceNames || {};
+    const editions = editionsData?.success ? editionsData.editions : [];
+    const step = period === 'weekly' ? 7 : 1;
+    const currentKey = digest?.date || (date !== 'latest' ? date : undefined);
+    const today = new Date().toISOString().slice(0, 10);
+    const href = (target: string, targetPeriod: DigestPeriod = period) =>
+        `/digest/${target}${targetPeriod === 'weekly' ? '?period=weekly' : ''}`;
+    const exportHref = (format: 'md' | 'html') =>
+        `/api/digests/${currentKey || date}?period=${period}&format=${format}`;
+
+    return (
+        <div className="settings-page">
+            <header className="settings-header" role="banner">
+                <Link href="/" className="back-link" aria-label="Go back to dashboard">
+                    <ArrowLeft size={20} aria-hidden="true" />
+                    Back to Dashboard
+                </Link>
+                <h1>{period === 'weekly' ? 'Weekly' : 'Daily'} Digest</h1>
+            </header>
+
+            <main className="settings-main digest-layout" role="main">
+                <div className="digest-content">
+                    <div className="digest-toolbar">
+                        <div className="digest-period-toggle" role="group" aria-label="Digest period">
+                            {(['daily', 'weekly'] as DigestPeriod[]).map(p => (
+                                <Link
+                                    key={p}
+                                    href={href(currentKey || date, p)}
+                                    className={`digest-period-btn ${p === period ? 'active' : ''}`}
+                                    aria-current={p === period ? 'page' : undefined}
+                                >
+                                    {p === 'daily' ? 'Daily' : 'Weekly'}
+                                </Link>
+                            ))}
+                        </div>
+                        {currentKey && (
+                            <div className="digest-nav">
+                                <Link href={href(shiftDate(currentKey, -step))} className="digest-nav-btn" aria-label="Previous edition">
+                                    <ChevronLeft size={18} />
+                                </Link>
+                                <span className="digest-nav-label">{digest ? formatRange(digest) : currentKey}</span>
+                                {shiftDate(currentKey, step) <= today ? (
+                                    <Link href={href(shiftDate(currentKey, step))} className="digest-nav-btn" aria-label="Next edition">
+                                        <ChevronRight size={18} />
+                                    </Link>
+                                ) : (
+                                    <span className="digest-nav-btn disabled" aria-hidden="true">
+                                        <ChevronRight size={18} />
+                                    </span>
+                                )}
+                            </div>
+                        )}
+                        <div className="digest-exports">
+                            <a href={exportHref('md')} target="_blank" rel="noopener noreferrer" className="digest-export-link">
+                                <FileText size={14} /> Markdown
+                            </a>
+                            <a href={exportHref('html')} target="_blank" rel="noopener noreferrer" className="digest-export-link">
+                                <Code2 size={14} /> HTML
+                            </a>
+                        </div>
+                    </div>
+
+                    {isLoading ? (
+                        <LoadingSpinner message="Building digest..." />
+                    ) : !digest ? (
+                        <section className="settings-section">
+                            <h2>No digest</h2>
+                            <p className="setting-hint" style={{ margin: 0 }}>
+                                {data?.error || 'This edition is not available.'}
+                            </p>
+                        </section>
+                    ) : (
+                        <>
+                            <section className="settings-section">
+                                {digest.partial && <span className="digest-partial-badge">In progress</span>}
+                                {digest.incomplete && (
+                                    <span
+                                        className="digest-partial-badge"
+                                        title="Some of this period's content was already removed by retention"
+                                    >
+                                        Incomplete
+                                    </span>
+                                )}
+                                <p className="digest-summary">{digest.summary}</p>
+                                {digest.items.length > 0 && (
+                                    <>
+                                        <h2>Top Stories</h2>
+                                        <ol className="digest-entries">
+                                            {digest.items.map(item => (
+                                                <DigestEntry key={item.id} item={item} sourceNames={sourceNames} />
+                                            ))}
+                                        </ol>
+                                    </>
+                                )}
+                            </section>
+                            {digest.sections.map(section => (
+                                <section key={section.category} className="settings-section">
+                                    <h2>{CATEGORY_LABELS[section.category]}</h2>
+                                    <ol className="digest-entries">
+                                        {section.items.map(item => (
+                                            <DigestEntry key={item.id} item={item} sourceNames={sourceNames} />
+                                        ))}
+                                    </ol>
+                                </section>
+                            ))}
+                        </>
+                    )}
+                </div>
+
+                <aside className="settings-section digest-editions" aria-label="Past editions">
+                    <h2>Past editions</h2>
+                    {editions.length > 0 ? (
+                        <ul>
+                            {editions.map(edition => (
+                                <li key={`${edition.period}-${edition.date}`}>
+                                    <Link
+                                        href={href(edition.date)}
+                                        className={edition.date === currentKey ? 'active' : ''}
+                                    >
+                                        {edition.date}
+                                        <span>{edition.itemCount} items</span>
+                                    </Link>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="setting-hint" style={{ margin: 0 }}>
+                            No stored editions yet.
+                        </p>
+                    )}
+                </aside>
+            </main>
+        </div>
+    );
+}
@@ -54,6 +54,13 @@ export const metadata: Metadata = {
     index: true,
     follow: true,
   },
+  alternates: {
+    types: {
+      'application/rss+xml': '/api/feed.xml',
+      'application/atom+xml': '/api/feed.atom',
+      'application/feed+json': '/api/feed.json',
+    },
+  },
 };
 
 export const viewport: Viewport = {
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { ArrowLeft, FileText, Braces, Search, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { SavedItem } from '@/types';
+import { getSourceById } from '@/lib/config/sources';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+
+interface SavedResponse {
+    success: boolean;
+    error?: string;
+    items: SavedItem[];
+    tags: { tag: string; count: number }[];
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+const DEBOUNCE_MS = 300;
+
+function parseTagInput(value: string): string[] {
+    return [...new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+function SavedEntry({ saved, onChange }: { saved: SavedItem; onChange: () => void }) {
+    const { item } = saved;
+    const [tagInput, setTagInput] = useState(saved.tags.join(', '));
+    const [note, setNote] = useState(saved.note);
+    const [error, setError] = useState<string | null>(null);
+
+    const update = async (changes: { tags?: string[]; note?: string }) => {
+        setError(null);
+        const res = await fetch(`/api/saved/${encodeURIComponent(item.id)}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(changes),
+        });
+        const data = await res.json().catch(() => null);
+        if (!data?.success) {
+            setError(data?.error || 'Failed to save changes');
+            return;
+        }
+        onChange();
+    };
+
+    const commitTags = () => {
+        const tags = parseTagInput(tagInput);
+        if (tags.join(',') !== saved.tags.join(',')) update({ tags });
+    };
+
+    const remove = async () => {
+        await fetch(`/api/saved/${encodeURIComponent(item.id)}`, { method: 'DELETE' });
+        onChange();
+    };
+
+    return (
+        <li className="digest-entry saved-entry">
+            <div className="saved-entry-header">
+                <a href={item.url} target="_blank" rel="noopener noreferrer" className="digest-entry-title">
+                    {item.title}
+                </a>
+                <button className="saved-remove" onClick={remove} aria-label={`Remove “${item.title}” from saved`}>
+                    <Trash2 size={14} aria-hidden="true" />
+                </button>
+            </div>
+            <div className="digest-entry-meta">
+                <span>{getSourceById(item.sourceId)?.name || item.sourceId}</span>
+                <span>published {formatDistanceToNow(new Date(item.publishedAt), { addSuffix: true })}</span>
+                <span>saved {formatDistanceToNow(new Date(saved.savedAt), { addSuffix: true })}</span>
+            </div>
+            {item.description && <p className="digest-entry-description">{item.description}</p>}
+            <div className="saved-entry-fields">
+                <input
+                    type="text"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onBlur={commitTags}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitTags();
+                    }}
+                    placeholder="Tags, comma separated"
+                    className="saved-tags-input"
+                    aria-label="Tags"
+                />
+                <textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    onBlur={() => {
+                        if (note.trim() !== saved.note) update({ note });
+                    }}
+                    placeholder="Add a note…"
+                    className="saved-note"
+                    rows={2}
+                    aria-label="Note"
+                />
+            </div>
+            {error && <p className="saved-error" role="alert">{error}</p>}
+        </li>
+    );
+}
+
+/**
+ * Bookmarked items with tags and notes. Items are stored as copies, so they
+ * stay here after the 7-day content cleanup.
+ */
+export default function SavedPage() {
+    const [input, setInput] = useState('');
+    const [query, setQuery] = useState('');
+    const [tag, setTag] = useState<string | null>(null);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setQuery(input.trim()), DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [input]);
+
+    const params = new URLSearchParams();
+    if (query) params.set('q', query);
+    if (tag) params.set('tag', tag);
+    const { data, isLoading, mutate } = useSWR<SavedResponse>(`/api/saved?${params}`, fetcher, {
+        revalidateOnFocus: false,
+        keepPreviousData: true,
+    });
+
+    const items = data?.success ? data.items : [];
+    const tags = data?.success ? data.tags : [];
+    const exportHref = (format: 'md' | 'json') => {
+        const exportParams = new URLSearchParams(params);
+        exportParams.set('format', format);
+        return `/api/saved?${exportParams}`;
+    };
+
+    return (
+        <div className="settings-page">
+            <header className="settings-header" role="banner">
+                <Link href="/" className="back-link" aria-label="Go back to dashboard">
+                    <ArrowLeft size={20} aria-hidden="true" />
+                    Back to Dashboard
+                </Link>
+                <h1>Saved</h1>
+            </header>
+
+            <main className="settings-main" role="main">
+                <div className="digest-toolbar">
+                    <label className="saved-search">
+                        <Search size={16} aria-hidden="true" />
+                        <input
+                            type="search"
+                            value={input}
+                            onChange={(e) => setInput(e.target.value)}
+                            placeholder="Search titles, notes and tags"
+                            aria-label="Search saved items"
+                        />
+                    </label>
+                    <div className="digest-exports">
+                        <a href={exportHref('md')} className="digest-export-link">
+                            <FileText size={14} /> Markdown
+                        </a>
+                        <a href={exportHref('json')} className="digest-export-link">
+                            <Braces size={14} /> JSON
+                        </a>
+                    </div>
+                </div>
+
+                {tags.length > 0 && (
+                    <div className="search-facets saved-tags">
+                        {tags.map(({ tag: value, count }) => (
+                            <button
+                                key={value}
+                                className={`search-facet ${tag === value ? 'active' : ''}`}
+                                onClick={() => setTag(tag === value ? null : value)}
+                                aria-pressed={tag === value}
+                            >
+                                {value} <span>{count}</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {isLoading && !data ? (
+                    <LoadingSpinner message="Loading saved items..." />
+                ) : items.length === 0 ? (
+                    <section className="settings-section">
+                        <h2>{query || tag ? 'No matches' : 'Nothing saved yet'}</h2>
+                        <p className="setting-hint" style={{ margin: 0 }}>
+                            {data && !data.success
+                                ? data.error
+                                : query || tag
+                                    ? 'No saved items match this search.'
+                                    : 'Use the bookmark icon on any card to keep it here.'}
+                        </p>
+                    </section>
+                ) : (
+                    <section className="settings-section">
+                        <ul className="digest-entries saved-entries">
+                            {items.map(saved => (
+                                <SavedEntry key={`${saved.item.id}-${saved.updatedAt}`} saved={saved} onChange={() => mutate()} />
+                            ))}
+                        </ul>
+                    </section>
+                )}
+            </main>
+        </div>
+    );
+}
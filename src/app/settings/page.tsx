@@ -6,6 +6,12 @@ import Link from 'next/link';
 import { SourceCategory, CATEGORY_LABELS, CustomSourceConfig } from '@/types';
 import { useSettings } from '@/lib/contexts/SettingsContext';
 import { SOURCES } from '@/lib/config/sources';
+import { WatchlistSettings } from '@/components/settings/WatchlistSettings';
+import { MuteSettings } from '@/components/settings/MuteSettings';
+import { ScoringWeightsSettings } from '@/components/settings/ScoringWeightsSettings';
+import { WebhookSettings } from '@/components/settings/WebhookSettings';
+import { PersonalizationSettings } from '@/components/settings/PersonalizationSettings';
+import { RetentionSettings } from '@/components/settings/RetentionSettings';
 
 interface SourceHealthInfo {
     lastSuccessAt: string | null;
@@ -926,6 +932,22 @@ export default function SettingsPage() {
                     )}
                 </section>
 
+                {/* Ranking Weights */}
+                <ScoringWeightsSettings />
+
+                {/* Mute Rules */}
+                <MuteSettings />
+                <PersonalizationSettings />
+
+                {/* Watchlists & Alerts */}
+                <WatchlistSettings />
+
+                {/* Outbound Webhooks */}
+                <WebhookSettings />
+
+                {/* Data Retention */}
+                <RetentionSettings />
+
                 {/* Sources by Category */}
                 {categories.map((cat) => (
                     <section
@@ -0,0 +1,83 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import useSWR from 'swr';
+import { ArrowLeft } from 'lucide-react';
+import { format, formatDistanceStrict } from 'date-fns';
+import { StoryDetail } from '@/types';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+
+interface StoryResponse {
+    success: boolean;
+    error?: string;
+    story?: StoryDetail;
+    sourceNames?: Record<string, string>;
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+/**
+ * One story's timeline: every member item in the order it was published,
+ * with how long after the first sighting each platform picked it up.
+ */
+export default function StoryPage() {
+    const { id } = useParams<{ id: string }>();
+    const { data, isLoading } = useSWR<StoryResponse>(`/api/stories/${encodeURIComponent(id)}`, fetcher, {
+        revalidateOnFocus: false,
+    });
+
+    const story = data?.success ? data.story : undefined;
+    const name = (sourceId: string) => data?.sourceNames?.[sourceId] || sourceId;
+
+    return (
+        <div className="settings-page">
+            <header className="settings-header" role="banner">
+                <Link href="/stories" className="back-link" aria-label="Go back to stories">
+                    <ArrowLeft size={20} aria-hidden="true" />
+                    All Stories
+                </Link>
+                <h1>Story</h1>
+            </header>
+
+            <main className="settings-main" role="main">
+                {isLoading ? (
+                    <LoadingSpinner message="Loading story..." />
+                ) : !story ? (
+                    <section className="settings-section">
+                        <h2>Story not found</h2>
+                        <p className="setting-hint" style={{ margin: 0 }}>
+                            {data?.error || 'This story is not available.'}
+                        </p>
+                    </section>
+                ) : (
+                    <section className="settings-section">
+                        <h2>{story.title}</h2>
+                        <p className="digest-summary">
+                            First seen on {name(story.firstSourceId)} {format(new Date(story.firstSeenAt), 'PPp')}.
+                            {' '}{story.itemCount} items across {story.platformCount} platforms.
+                        </p>
+                        <ol className="digest-entries story-timeline">
+                            {story.members.map((member, i) => (
+                                <li key={member.contentId} className="digest-entry">
+                                    <div className="digest-entry-meta">
+                                        <span className="story-offset">
+                                            {i === 0
+                                                ? 'first'
+                                                : `+${formatDistanceStrict(new Date(member.publishedAt), new Date(story.firstSeenAt))}`}
+                                        </span>
+                                        <span>{name(member.sourceId)}</span>
+                                        <span>{format(new Date(member.publishedAt), 'PPp')}</span>
+                                    </div>
+                                    <a href={member.url} target="_blank" rel="noopener noreferrer" className="digest-entry-title">
+                                        {member.title}
+                                    </a>
+                                </li>
+                            ))}
+                        </ol>
+                    </section>
+                )}
+            </main>
+        </div>
+    );
+}
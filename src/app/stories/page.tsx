@@ -0,0 +1,102 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import useSWR from 'swr';
+import { ArrowLeft, Trophy } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Story, TimeRange } from '@/types';
+import { getSourceById } from '@/lib/config/sources';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+
+interface StoriesResponse {
+    success: boolean;
+    error?: string;
+    stories: Story[];
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+const TIME_RANGES: { value: TimeRange; label: string }[] = [
+    { value: '24h', label: '24h' },
+    { value: '48h', label: '48h' },
+    { value: '7d', label: '7 days' },
+];
+
+/** Stories picked up by more than one platform, most recently active first. */
+export default function StoriesPage() {
+    const [timeRange, setTimeRange] = useState<TimeRange>('48h');
+
+    const { data, isLoading } = useSWR<StoriesResponse>(`/api/stories?timeRange=${timeRange}`, fetcher, {
+        revalidateOnFocus: false,
+    });
+    const stories = data?.success ? data.stories : [];
+
+    return (
+        <div className="settings-page">
+            <header className="settings-header" role="banner">
+                <Link href="/" className="back-link" aria-label="Go back to dashboard">
+                    <ArrowLeft size={20} aria-hidden="true" />
+                    Back to Dashboard
+                </Link>
+                <h1>Stories</h1>
+            </header>
+
+            <main className="settings-main" role="main">
+                <div className="digest-toolbar">
+                    <div className="digest-period-toggle" role="group" aria-label="Active within">
+                        {TIME_RANGES.map(range => (
+                            <button
+                                key={range.value}
+                                onClick={() => setTimeRange(range.value)}
+                                className={`digest-period-btn ${range.value === timeRange ? 'active' : ''}`}
+                                aria-pressed={range.value === timeRange}
+                            >
+                                {range.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="digest-exports">
+                        <Link href="/stories/scoops" className="digest-export-link">
+                            <Trophy size={14} aria-hidden="true" /> Who broke it first
+                        </Link>
+                    </div>
+                </div>
+
+                {isLoading ? (
+                    <LoadingSpinner message="Loading stories..." />
+                ) : stories.length === 0 ? (
+                    <section className="settings-section">
+                        <h2>No stories</h2>
+                        <p className="setting-hint" style={{ margin: 0 }}>
+                            {data?.error || 'Nothing has spread across platforms in this window yet.'}
+                        </p>
+                    </section>
+                ) : (
+                    <section className="settings-section">
+                        <ol className="digest-entries">
+                            {stories.map(story => (
+                                <li key={story.id} className="digest-entry">
+                                    <Link href={`/stories/${story.id}`} className="digest-entry-title">
+                                        {story.title}
+                                    </Link>
+                                    <div className="digest-entry-meta">
+                                        <span>{story.platformCount} platforms</span>
+                                        <span>{story.itemCount} items</span>
+                                        <span>
+                                            first on {getSourceById(story.firstSourceId)?.name || story.firstSourceId}{' '}
+                                            {formatDistanceToNow(new Date(story.firstSeenAt), { addSuffix: true })}
+                                        </span>
+                                        <span>
+                                            last joined {formatDistanceToNow(new Date(story.updatedAt), { addSuffix: true })}
+                                        </span>
+                                    </div>
+                                </li>
+                            ))}
+                        </ol>
+                    </section>
+                )}
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { ArrowLeft } from 'lucide-react';
+import { ScoopReport, CATEGORY_LABELS } from '@/types';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+
+interface ScoopResponse extends Partial<ScoopReport> {
+    success: boolean;
+    error?: string;
+    /** Window actually covered (the story retention window can cut it shorter) */
+    days?: number;
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+const WINDOWS = [7, 14, 30];
+
+/** Sources shown in the overlap matrix; the rest are in the API response. */
+const MATRIX_SIZE = 15;
+
+function formatLag(minutes: number | null): string {
+    if (minutes === null) return '—';
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 48) return `${hours}h ${minutes % 60}m`;
+    return `${Math.round(hours / 24)}d`;
+}
+
+/**
+ * "Who broke it first": per-source scoop counts and lag on multi-platform
+ * stories, plus which sources cover the same stories.
+ */
+export default function ScoopsPage() {
+    const [days, setDays] = useState(30);
+    const { data, isLoading } = useSWR<ScoopResponse>(`/api/stories/scoops?days=${days}`, fetcher, {
+        revalidateOnFocus: false,
+    });
+
+    const report = data?.success ? data as ScoopReport : undefined;
+    const nameOf = new Map(report?.sources.map(s => [s.sourceId, s.name]));
+    const matrixIds = report?.overlap.sourceIds.slice(0, MATRIX_SIZE) || [];
+    const maxOverlap = Math.max(1, ...matrixIds.flatMap((_, i) =>
+        matrixIds.map((__, j) => (i === j ? 0 : report!.overlap.counts[i][j]))
+    ));
+
+    return (
+        <div className="settings-page">
+            <header className="settings-header" role="banner">
+                <Link href="/stories" className="back-link" aria-label="Go back to stories">
+                    <ArrowLeft size={20} aria-hidden="true" />
+                    All Stories
+                </Link>
+                <h1>Who Broke It First</h1>
+            </header>
+
+            <main className="settings-main" role="main">
+                <div className="digest-toolbar">
+                    <div className="digest-period-toggle" role="group" aria-label="Stories first seen within">
+                        {WINDOWS.map(window => (
+                            <button
+                                key={window}
+                                onClick={() => setDays(window)}
+                                className={`digest-period-btn ${window === days ? 'active' : ''}`}
+                                aria-pressed={window === days}
+                            >
+                                {window} days
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {isLoading ? (
+                    <LoadingSpinner message="Crunching stories..." />
+                ) : !report || report.storyCount === 0 ? (
+                    <section className="settings-section">
+                        <h2>No stories</h2>
+                        <p className="setting-hint" style={{ margin: 0 }}>
+                            {data?.error || 'No multi-platform stories in this window yet.'}
+                        </p>
+                    </section>
+                ) : (
+                    <>
+                        <section className="settings-section">
+                            <h2>Scoops by source</h2>
+                            <p className="setting-hint">
+                                {report.storyCount} stories seen on 2+ platforms. Lag is the median time behind
+                                the first publisher on stories the source wasn&apos;t first to.
+                                {data?.days !== undefined && data.days < days && (
+                                    <> Stories are only kept {data.days} days, so this covers the last {data.days}.</>
+                                )}
+                            </p>
+                            <div className="scoop-table-wrap">
+                                <table className="scoop-table">
+                                    <thead>
+                                        <tr>
+                                            <th scope="col">Source</th>
+                                            <th scope="col">Category</th>
+                                            <th scope="col">Stories</th>
+                                            <th scope="col">First</th>
+                                            <th scope="col">First rate</th>
+                                            <th scope="col">Median lag</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.sources.map(source => (
+                                            <tr key={source.sourceId}>
+                                                <th scope="row">{source.name}</th>
+                                                <td>{source.category ? CATEGORY_LABELS[source.category] : '—'}</td>
+                                                <td>{source.storiesCovered}</td>
+                                                <td>{source.firsts}</td>
+                                                <td>{Math.round(source.firstRate * 100)}%</td>
+                                                <td>{formatLag(source.medianLagMinutes)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </section>
+
+                        <section className="settings-section">
+                            <h2>Source overlap</h2>
+                            <p className="setting-hint">
+                                Stories carried by both sources, for the {matrixIds.length} sources with the most coverage.
+                            </p>
+                            <div className="scoop-table-wrap">
+                                <table className="scoop-table scoop-matrix">
+                                    <thead>
+                                        <tr>
+                                            <th scope="col" />
+                                            {matrixIds.map(id => (
+                                                <th key={id} scope="col" title={nameOf.get(id)}>
+                                                    <span>{nameOf.get(id)}</span>
+                                                </th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {matrixIds.map((rowId, i) => (
+                                            <tr key={rowId}>
+                                                <th scope="row">{nameOf.get(rowId)}</th>
+                                                {matrixIds.map((colId, j) => {
+                                                    const count = report.overlap.counts[i][j];
+                                                    return (
+                                                        <td
+                                                            key={colId}
+                                                            className={i === j ? 'scoop-matrix-self' : undefined}
+                                                            style={i === j || count === 0 ? undefined : {
+                                                                background: `rgba(20, 184, 166, ${0.15 + 0.7 * (count / maxOverlap)})`,
+                                                            }}
+                                                            title={`${nameOf.get(rowId)} × ${nameOf.get(colId)}: ${count}`}
+                                                        >
+                                                            {count || ''}
+                                                        </td>
+                                                    );
+                                                })}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </section>
+
+                        {report.silentSources.length > 0 && (
+                            <section className="settings-section">
+                                <h2>No multi-platform stories</h2>
+                                <p className="setting-hint" style={{ margin: 0 }}>
+                                    {report.silentSources.length} enabled sources carried none of these stories:{' '}
+                                    {report.silentSources.join(', ')}
+                                </p>
+                            </section>
+                        )}
+                    </>
+                )}
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import useSWR from 'swr';
+import { Bell, CheckCheck, Check, ExternalLink } from 'lucide-react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Alert } from '@/types';
+import { getSourceById } from '@/lib/config/sources';
+
+interface AlertsResponse {
+    success: boolean;
+    unreadCount: number;
+    unreadByWatchlist: Record<number, number>;
+    alerts: Alert[];
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+/**
+ * Bell button with an unread badge that opens a dropdown of unread
+ * watchlist matches. Watchlists themselves are managed on /settings.
+ */
+export function AlertInbox() {
+    const [open, setOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const { data, mutate } = useSWR<AlertsResponse>('/api/alerts?status=unread', fetcher, {
+        revalidateOnFocus: true,
+        refreshInterval: 2 * 60 * 1000, // Alerts are recorded after each background refresh
+        dedupingInterval: 30_000,
+    });
+
+    // Close on outside click / Escape
+    useEffect(() => {
+        if (!open) return;
+        const handleClick = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+        };
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        document.addEventListener('keydown', handleKey);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+            document.removeEventListener('keydown', handleKey);
+        };
+    }, [open]);
+
+    const alerts = data?.success ? data.alerts : [];
+    const unreadCount = data?.success ? data.unreadCount : 0;
+
+    const markRead = async (body: { ids?: number[] }) => {
+        const ids = body.ids;
+        // Optimistic: drop the alerts locally, then revalidate
+        await mutate(
+            async () => {
+                await fetch('/api/alerts', {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(body),
+                });
+                return undefined;
+            },
+            {
+                optimisticData: data && {
+                    ...data,
+                    alerts: ids ? data.alerts.filter(a => !ids.includes(a.id)) : [],
+                    unreadCount: ids ? Math.max(0, data.unreadCount - ids.length) : 0,
+                },
+                populateCache: false,
+                revalidate: true,
+            }
+        );
+    };
+
+    return (
+        <div className="alert-inbox" ref={containerRef}>
+            <button
+                className="settings-btn alert-inbox-btn"
+                onClick={() => setOpen(!open)}
+                aria-label={unreadCount > 0 ? `Alerts (${unreadCount} unread)` : 'Alerts'}
+                aria-expanded={open}
+                aria-haspopup="dialog"
+            >
+                <Bell size={20} aria-hidden="true" />
+                {unreadCount > 0 && (
+                    <span className="alert-badge" aria-hidden="true">
+                        {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                )}
+            </button>
+
+            {open && (
+                <div className="alert-panel" role="dialog" aria-label="Watchlist alerts">
+                    <div className="alert-panel-header">
+                        <span className="alert-panel-title">Alerts</span>
+                        {alerts.length > 0 && (
+                            <button className="alert-panel-action" onClick={() => markRead({})}>
+                                <CheckCheck size={14} aria-hidden="true" />
+                                Mark all read
+                            </button>
+                        )}
+                    </div>
+
+                    {alerts.length === 0 ? (
+                        <p className="alert-panel-empty">
+                            No unread alerts. <Link href="/settings">Manage watchlists</Link>
+                        </p>
+                    ) : (
+                        <ul className="alert-list">
+                            {alerts.map(alert => (
+                                <li key={alert.id} className="alert-item">
+                                    <div className="alert-item-meta">
+                                        <span className="alert-watchlist">{alert.watchlistName}</span>
+                                        <span>
+                                            {getSourceById(alert.item.sourceId)?.name || alert.item.sourceId}
+                                            {' · '}
+                                            {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
+                                        </span>
+                                    </div>
+                                    <a
+                                        href={alert.item.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="alert-item-title"
+                                        onClick={() => markRead({ ids: [alert.id] })}
+                                    >
+                                        {alert.item.title}
+                                        <ExternalLink size={12} aria-hidden="true" />
+                                    </a>
+                                    <div className="alert-item-footer">
+                                        <span className="alert-terms">
+                                            {alert.matchedTerms.join(', ')} · score {Math.round(alert.score)}
+                                        </span>
+                                        <button
+                                            className="alert-dismiss"
+                                            onClick={() => markRead({ ids: [alert.id] })}
+                                            aria-label={`Mark "${alert.item.title}" read`}
+                                        >
+                                            <Check size={14} />
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import useSWR from 'swr';
+import { Bookmark, BookmarkCheck } from 'lucide-react';
+
+interface SavedIdsResponse {
+    success: boolean;
+    ids: string[];
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+interface BookmarkButtonProps {
+    contentId: string;
+    className?: string;
+    size?: number;
+    /** Called when the item is saved (not when it is removed) */
+    onSave?: () => void;
+}
+
+/**
+ * Save / unsave toggle. All buttons share one SWR request for the saved IDs.
+ * Rendered as a span so it can sit inside link cards (lane cards are <a>).
+ */
+export function BookmarkButton({ contentId, className = '', size = 14, onSave }: BookmarkButtonProps) {
+    const { data, mutate } = useSWR<SavedIdsResponse>('/api/saved/ids', fetcher, {
+        revalidateOnFocus: false,
+        dedupingInterval: 60_000,
+    });
+    const saved = data?.success ? data.ids.includes(contentId) : false;
+
+    const toggle = async (e: React.SyntheticEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (!saved) onSave?.();
+        // Optimistic: flip locally, then revalidate
+        await mutate(
+            async () => {
+                await fetch(saved ? `/api/saved/${encodeURIComponent(contentId)}` : '/api/saved', {
+                    method: saved ? 'DELETE' : 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: saved ? undefined : JSON.stringify({ contentId }),
+                });
+                return undefined;
+            },
+            {
+                optimisticData: data && {
+                    ...data,
+                    ids: saved ? data.ids.filter(id => id !== contentId) : [...data.ids, contentId],
+                },
+                populateCache: false,
+                revalidate: true,
+            }
+        );
+    };
+
+    const Icon = saved ? BookmarkCheck : Bookmark;
+    return (
+        <span
+            className={`bookmark-btn${saved ? ' saved' : ''} ${className}`}
+            role="button"
+            tabIndex={0}
+            aria-pressed={saved}
+            aria-label={saved ? 'Remove from saved' : 'Save for later'}
+            title={saved ? 'Saved — click to remove' : 'Save for later'}
+            onClick={toggle}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') toggle(e);
+            }}
+        >
+            <Icon size={size} aria-hidden="true" />
+        </span>
+    );
+}
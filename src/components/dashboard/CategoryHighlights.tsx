@@ -4,6 +4,7 @@ import { memo, useState, useEffect } from 'react';
 import { Zap, Eye, ThumbsUp, MessageSquare, Star, Download, Heart, GitFork, Info } from 'lucide-react';
 import { SourceCategory, CATEGORY_LABELS, CATEGORY_COLORS, EngagementMetrics } from '@/types';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/Tooltip';
+import { BookmarkButton } from './BookmarkButton';
 
 export interface HighlightItem {
     id: string;
@@ -178,6 +179,7 @@ function LaneCard({ item, isTouchDevice }: { item: HighlightItem; isTouchDevice:
                             </span>
                         ) : null}
                     </div>
+                    <BookmarkButton contentId={item.id} className="lane-card-bookmark" />
                     {isTouchDevice && (
                         <span
                             className="lane-card-info"
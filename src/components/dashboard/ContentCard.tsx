@@ -1,18 +1,26 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { ContentItem, EngagementMetrics } from '@/types';
+import { useState, useEffect, useRef } from 'react';
+import { ContentItem, EngagementMetrics, ScoreExplanation, SCORE_COMPONENT_LABELS } from '@/types';
 import { formatDistanceToNow } from 'date-fns';
 import {
     ExternalLink, TrendingUp, Flame, MessageCircle, Star, ArrowUp, Zap,
-    Eye, ThumbsUp, GitFork, Download, Hand, Reply, Info, Layers
+    Eye, EyeOff, ThumbsUp, GitFork, Download, Hand, Reply, Info, Layers
 } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/Tooltip';
+import { BookmarkButton } from './BookmarkButton';
+import { recordFeedback } from '@/lib/personalization/client';
 
 interface ContentCardProps {
     item: ContentItem;
     style?: React.CSSProperties;
     isTouchDevice: boolean;
+    /** Not seen before the current visit (shows a "New" badge) */
+    isNew?: boolean;
+    /** Called once the card has been at least half on screen in a visible tab */
+    onVisible?: (id: string) => void;
+    /** Called after "Not interested"; the card should be removed from the feed */
+    onDismiss?: (id: string) => void;
 }
 
 function formatSourceName(sourceId: string): string {
@@ -108,6 +116,57 @@ function isGenericDescription(desc: string | undefined): boolean {
     return genericPatterns.some(pattern => lower.includes(pattern)) || lower.length < 20;
 }
 
+function ScoreBreakdown({ explanation }: { explanation: ScoreExplanation }) {
+    const { components, baseScore, multiplier, crossPlatformMultiplier, normalization, mutePenalty } = explanation;
+    return (
+        <div className="tooltip-score">
+            {components.map(component => (
+                <div key={component.name} className="tooltip-score-row">
+                    <span>
+                        {SCORE_COMPONENT_LABELS[component.name]}
+                        <span className="tooltip-score-detail"> {Math.round(component.value * 100)}% × {Math.round(component.weight * 100)}%</span>
+                    </span>
+                    <span>{component.points.toFixed(1)}</span>
+                </div>
+            ))}
+            {components.length > 1 && (
+                <div className="tooltip-score-row subtotal">
+                    <span>Base</span>
+                    <span>{baseScore.toFixed(1)}</span>
+                </div>
+            )}
+            {multiplier && (
+                <div className="tooltip-score-row">
+                    <span>{multiplier.label}</span>
+                    <span>×{multiplier.value.toFixed(2)}</span>
+                </div>
+            )}
+            {crossPlatformMultiplier !== undefined && crossPlatformMultiplier !== 1 && (
+                <div className="tooltip-score-row">
+                    <span>Cross-platform</span>
+                    <span>×{crossPlatformMultiplier.toFixed(2)}</span>
+                </div>
+            )}
+            {normalization && (
+                <div className="tooltip-score-row">
+                    <span>Category normalization</span>
+                    <span>{normalization.before.toFixed(1)} → {normalization.after.toFixed(1)}</span>
+                </div>
+            )}
+            {mutePenalty !== undefined && mutePenalty > 0 && (
+                <div className="tooltip-score-row">
+                    <span>Mute rules</span>
+                    <span>−{mutePenalty}</span>
+                </div>
+            )}
+            <div className="tooltip-score-row total">
+                <span>Score</span>
+                <span>{explanation.finalScore.toFixed(1)}</span>
+            </div>
+        </div>
+    );
+}
+
 function CardTooltip({ item }: { item: ContentItem }) {
     const eng = item.engagement;
     const meaningfulDescription = !isGenericDescription(item.description) ? item.description : undefined;
@@ -125,7 +184,7 @@ function CardTooltip({ item }: { item: ContentItem }) {
         ? item.crossPlatformSources.map(s => formatSourceName(s)).join(', ')
         : null;
 
-    const hasContent = meaningfulDescription || metrics.length > 0 || item.author || crossPlatformLabel;
+    const hasContent = meaningfulDescription || metrics.length > 0 || item.author || crossPlatformLabel || item.scoreExplanation;
     if (!hasContent) return null;
 
     if (meaningfulDescription) {
@@ -158,6 +217,7 @@ function CardTooltip({ item }: { item: ContentItem }) {
                         )}
                     </div>
                 )}
+                {item.scoreExplanation && <ScoreBreakdown explanation={item.scoreExplanation} />}
             </div>
         );
     }
@@ -184,13 +244,15 @@ function CardTooltip({ item }: { item: ContentItem }) {
                     </div>
                 ))}
             </div>
+            {item.scoreExplanation && <ScoreBreakdown explanation={item.scoreExplanation} />}
         </div>
     );
 }
 
-export function ContentCard({ item, style, isTouchDevice }: ContentCardProps) {
+export function ContentCard({ item, style, isTouchDevice, isNew, onVisible, onDismiss }: ContentCardProps) {
     const [mobileOpen, setMobileOpen] = useState(false);
     const [selected, setSelected] = useState(false);
+    const cardRef = useRef<HTMLElement>(null);
 
     const publishedDate = new Date(item.publishedAt);
     const timeAgo = formatDistanceToNow(publishedDate, { addSuffix: true });
@@ -212,6 +274,29 @@ export function ContentCard({ item, style, isTouchDevice }: ContentCardProps) {
         return () => document.removeEventListener('touchstart', close);
     }, [mobileOpen]);
 
+    // Report the card as seen only once it is actually on screen
+    useEffect(() => {
+        const card = cardRef.current;
+        if (!onVisible || !card) return;
+        let onScreen = false;
+        const report = () => {
+            if (!onScreen || document.visibilityState !== 'visible') return;
+            onVisible(item.id);
+            cleanup();
+        };
+        const observer = new IntersectionObserver(entries => {
+            onScreen = entries[entries.length - 1].isIntersecting;
+            report();
+        }, { threshold: 0.5 });
+        const cleanup = () => {
+            observer.disconnect();
+            document.removeEventListener('visibilitychange', report);
+        };
+        observer.observe(card);
+        document.addEventListener('visibilitychange', report);
+        return cleanup;
+    }, [item.id, onVisible]);
+
     return (
         <Tooltip
             open={isTouchDevice ? mobileOpen : undefined}
@@ -219,6 +304,8 @@ export function ContentCard({ item, style, isTouchDevice }: ContentCardProps) {
         >
             <TooltipTrigger asChild>
                 <article
+                    ref={cardRef}
+                    id={`card-${item.id}`}
                     className={`content-card ${isMustRead ? 'must-read' : ''}${selected ? ' selected' : ''}`}
                     aria-labelledby={`title-${item.id}`}
                     style={style}
@@ -238,6 +325,7 @@ export function ContentCard({ item, style, isTouchDevice }: ContentCardProps) {
                         <div className="content-card-header">
                             <div className="content-card-meta">
                                 <span className="content-source">{formatSourceName(item.sourceId)}</span>
+                                {isNew && <span className="new-badge" title="New since your last visit">New</span>}
                                 {isMustRead && (
                                     <span className="must-read-badge">
                                         <Zap size={12} />
@@ -279,6 +367,20 @@ export function ContentCard({ item, style, isTouchDevice }: ContentCardProps) {
                                 )}
                             </div>
                             <div className="content-card-header-right">
+                                <BookmarkButton contentId={item.id} onSave={() => recordFeedback(item.id, 'bookmark')} />
+                                <button
+                                    type="button"
+                                    className="not-interested-btn"
+                                    aria-label="Not interested"
+                                    title="Not interested — show fewer like this"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        recordFeedback(item.id, 'not_interested');
+                                        onDismiss?.(item.id);
+                                    }}
+                                >
+                                    <EyeOff size={14} aria-hidden="true" />
+                                </button>
                                 <time
                                     className="content-time"
                                     dateTime={publishedDate.toISOString()}
@@ -316,6 +418,10 @@ export function ContentCard({ item, style, isTouchDevice }: ContentCardProps) {
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 aria-label={`${item.title} (opens in new tab)`}
+                                onClick={() => recordFeedback(item.id, 'click')}
+                                onAuxClick={(e) => {
+                                    if (e.button === 1) recordFeedback(item.id, 'click');
+                                }}
                             >
                                 {item.title}
                                 <ExternalLink size={14} className="external-icon" aria-hidden="true" />
@@ -0,0 +1,45 @@
+'use client';
+
+import { ContentType, CONTENT_TYPE_LABELS } from '@/types';
+
+interface ContentTypeChipsProps {
+  activeTypes: ContentType[];
+  onTypesChange: (types: ContentType[]) => void;
+}
+
+const TYPES = Object.keys(CONTENT_TYPE_LABELS) as ContentType[];
+
+/**
+ * Multi-select content type filter. No selection means "all types".
+ */
+export function ContentTypeChips({ activeTypes, onTypesChange }: ContentTypeChipsProps) {
+  const toggle = (type: ContentType) => {
+    onTypesChange(
+      activeTypes.includes(type)
+        ? activeTypes.filter(t => t !== type)
+        : [...activeTypes, type]
+    );
+  };
+
+  return (
+    <div className="content-type-chips" role="group" aria-label="Content type filter">
+      <button
+        className={`time-chip ${activeTypes.length === 0 ? 'active' : ''}`}
+        onClick={() => onTypesChange([])}
+        aria-pressed={activeTypes.length === 0}
+      >
+        All
+      </button>
+      {TYPES.map((type) => (
+        <button
+          key={type}
+          className={`time-chip ${activeTypes.includes(type) ? 'active' : ''}`}
+          onClick={() => toggle(type)}
+          aria-pressed={activeTypes.includes(type)}
+        >
+          {CONTENT_TYPE_LABELS[type]}
+        </button>
+      ))}
+    </div>
+  );
+}
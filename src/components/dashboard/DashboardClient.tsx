@@ -2,7 +2,7 @@
 
 import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import useSWR from 'swr';
-import { ContentItem, SourceCategory, TimeRange, FeedMode } from '@/types';
+import { ContentItem, SourceCategory, TimeRange, FeedMode, ContentType, EmergingTopicsReport } from '@/types';
 import { ContentCard } from '@/components/dashboard/ContentCard';
 import { CollapsibleSourceTabs } from '@/components/dashboard/CollapsibleSourceTabs';
 import { TrendCharts } from '@/components/dashboard/TrendCharts';
@@ -10,12 +10,16 @@ import { InsightCharts } from '@/components/dashboard/InsightCharts';
 import { CategoryHighlights } from '@/components/dashboard/CategoryHighlights';
 import { TimeRangeDropdown } from './TimeRangeDropdown';
 import { FeedModeSelector } from './FeedModeSelector';
+import { ContentTypeChips } from './ContentTypeChips';
 import { SourceConstellation } from '@/components/dashboard/SourceConstellation';
 import { ConstellationRefreshWrapper } from '@/components/dashboard/ConstellationRefreshWrapper';
 import { SourceHealthBanner } from '@/components/dashboard/SourceHealthBanner';
+import { AlertInbox } from '@/components/dashboard/AlertInbox';
+import { HeaderSearch } from '@/components/dashboard/HeaderSearch';
 import { useSettings } from '@/lib/contexts/SettingsContext';
+import { useSeenTracking } from '@/lib/visits/use-seen-tracking';
 import { TooltipProvider } from '@/components/ui/Tooltip';
-import { Settings, Sparkles, TrendingUp, AlertTriangle, Activity, Zap, Flame, Gem, Clock, ExternalLink, Layers } from 'lucide-react';
+import { Settings, Sparkles, TrendingUp, AlertTriangle, Activity, Zap, Flame, Gem, Clock, ExternalLink, Layers, Newspaper, Network, Bookmark, ArrowDownToLine } from 'lucide-react';
 import { SOURCES } from '@/lib/config/sources';
 import { CATEGORY_LABELS } from '@/types';
 import { formatDistanceToNow } from 'date-fns';
@@ -33,9 +37,17 @@ interface FeedResponse {
     cached?: boolean;
     staleRefreshing?: boolean;
     refreshingSources?: { id: string; name: string; icon: string; logoUrl?: string }[];
+    refreshSessionId?: string;
     failures?: { source: string; error: string }[];
 }
 
+type TopicView = 'feed' | 'emerging';
+
+const TOPIC_VIEWS: { value: TopicView; label: string }[] = [
+    { value: 'feed', label: 'In feed' },
+    { value: 'emerging', label: 'Emerging' },
+];
+
 const CATEGORIES: SourceCategory[] = [
     'ai-labs',
     'dev-platforms',
@@ -69,6 +81,8 @@ export function DashboardClient({ initialItems }: DashboardClientProps) {
     const [activeCategory, setActiveCategory] = useState<SourceCategory | 'all' | 'dashboard'>('dashboard');
     const [timeRange, setTimeRange] = useState<TimeRange>('24h');
     const [feedMode, setFeedMode] = useState<FeedMode>('hot');
+    const [contentTypes, setContentTypes] = useState<ContentType[]>([]);
+    const [topicView, setTopicView] = useState<TopicView>('feed');
     const { isSourceEnabled } = useSettings();
     const [isHeaderVisible, setIsHeaderVisible] = useState(true);
     const [skeletonDone, setSkeletonDone] = useState(initialItems.length > 0);
@@ -104,18 +118,21 @@ export function DashboardClient({ initialItems }: DashboardClientProps) {
         return () => window.removeEventListener('scroll', handleScroll);
     }, []);
 
-    // Build API URL with time range and feed mode (category filtering is client-side)
+    // Build API URL with time range, feed mode and content types (category filtering is client-side)
     const apiUrl = useMemo(() => {
         const params = new URLSearchParams();
         params.set('timeRange', timeRange);
         params.set('mode', feedMode);
+        if (contentTypes.length > 0) params.set('type', [...contentTypes].sort().join(','));
+        // Score breakdowns for the card tooltips
+        params.set('explain', '1');
         return `/api/feed?${params.toString()}`;
-    }, [timeRange, feedMode]);
+    }, [timeRange, feedMode, contentTypes]);
 
     // Reset dismissal when feed params change (new request may trigger refresh)
     useEffect(() => {
         refreshDismissedRef.current = false;
-    }, [timeRange, feedMode]);
+    }, [timeRange, feedMode, contentTypes]);
 
     const { data, error, isLoading, isValidating, mutate: refreshData } = useSWR<FeedResponse>(
         apiUrl,
@@ -406,6 +423,41 @@ export function DashboardClient({ initialItems }: DashboardClientProps) {
         return { crossSource, topRead, hiddenGem, justIn };
     }, [items, sourceMap, sourceToCategory]);
 
+    // Emerging topics come from stored daily frequencies, not the loaded feed
+    const { data: emergingData } = useSWR<EmergingTopicsReport & { success: boolean }>(
+        topicView === 'emerging' ? '/api/topics/emerging' : null,
+        fetcher,
+        { revalidateOnFocus: false, refreshInterval: 15 * 60 * 1000 }
+    );
+    const emerging = emergingData?.success ? emergingData : null;
+
+    // The topic KPI card: the feed's cross-source signal, or the strongest burst
+    const topicSignal = useMemo(() => {
+        if (topicView === 'feed') {
+            const crossSource = kpiData?.crossSource;
+            return {
+                label: 'Cross-Source Signal',
+                topic: crossSource?.topic || 'No cross-source signal',
+                detail: crossSource ? `${crossSource.article.title} · ${crossSource.catCount} categories` : 'No topic spans 2+ categories',
+                sourceLinks: crossSource?.sourceLinks ?? [],
+            };
+        }
+        const top = emerging?.topics[0];
+        const baseline = `${emerging?.baselineDays ?? 0}-day baseline`;
+        return {
+            label: 'Emerging Topic',
+            topic: top?.topic || (emerging ? 'Nothing spiking' : 'Loading…'),
+            detail: top
+                ? `${top.mentions} mentions · z ${top.burstScore} · ${top.rate}/100 items vs ${top.baselineRate} on the ${baseline}`
+                : emerging ? `No topic above its ${baseline}` : 'Comparing with topic history',
+            sourceLinks: (top?.items ?? []).map(item => ({
+                sourceName: sourceMap[item.sourceId]?.name || item.sourceId,
+                url: item.url,
+                title: item.title.length > 40 ? item.title.slice(0, 40) + '...' : item.title,
+            })),
+        };
+    }, [topicView, kpiData, emerging, sourceMap]);
+
     const HIGHLIGHTS_PER_CATEGORY = 3;
 
     const categoryHighlights = useMemo(() => {
@@ -543,6 +595,28 @@ export function DashboardClient({ initialItems }: DashboardClientProps) {
         return result;
     }, [items, activeCategory, sourceToCategory]);
 
+    // Seen tracking: "new since last visit" badges, hide-seen and jump to first unread
+    const feedItemIds = useMemo(() => (data?.items || []).map(item => item.id), [data?.items]);
+    const seen = useSeenTracking(feedItemIds);
+    const [hideSeen, setHideSeen] = useState(false);
+    // Cards marked "Not interested" this session (the learned affinities keep them down later)
+    const [dismissedIds, setDismissedIds] = useState<Set<string>>(() => new Set());
+    const dismiss = useCallback((id: string) => {
+        setDismissedIds(prev => new Set(prev).add(id));
+    }, []);
+    const feedItems = useMemo(
+        () => interleavedItems.filter(item =>
+            !dismissedIds.has(item.id) && !(hideSeen && seen.isSeenBefore(item.id))
+        ),
+        [interleavedItems, dismissedIds, hideSeen, seen]
+    );
+    const newCount = seen.hasPreviousVisit ? feedItems.filter(item => seen.isNew(item.id)).length : 0;
+    const firstUnread = feedItems.find(item => seen.isUnread(item.id));
+    const jumpToFirstUnread = () => {
+        if (!firstUnread) return;
+        document.getElementById(`card-${firstUnread.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+
     const hasFailures = data?.failures && data.failures.length > 0;
     const isStaleRefreshing = data?.staleRefreshing === true && !refreshDismissedRef.current && !isValidating;
 
@@ -570,14 +644,28 @@ export function DashboardClient({ initialItems }: DashboardClientProps) {
                     {/* Primary Controls */}
                     <div className="header-controls">
                         <FeedModeSelector activeMode={feedMode} onModeChange={setFeedMode} />
+                        <ContentTypeChips activeTypes={contentTypes} onTypesChange={setContentTypes} />
                         <div className="header-control-separator" aria-hidden="true" />
                         <TimeRangeDropdown activeRange={timeRange} onRangeChange={setTimeRange} />
                     </div>
 
-                    {/* Settings */}
-                    <Link href="/settings" className="settings-btn" aria-label="Open settings">
-                        <Settings size={20} aria-hidden="true" />
-                    </Link>
+                    {/* Search, Alerts, Digest, Stories, Saved & Settings */}
+                    <div className="header-buttons">
+                        <HeaderSearch />
+                        <AlertInbox />
+                        <Link href="/digest/latest" className="settings-btn" aria-label="Open daily digest" title="Daily digest">
+                            <Newspaper size={20} aria-hidden="true" />
+                        </Link>
+                        <Link href="/stories" className="settings-btn" aria-label="Open cross-platform stories" title="Stories">
+                            <Network size={20} aria-hidden="true" />
+                        </Link>
+                        <Link href="/saved" className="settings-btn" aria-label="Open saved items" title="Saved">
+                            <Bookmark size={20} aria-hidden="true" />
+                        </Link>
+                        <Link href="/settings" className="settings-btn" aria-label="Open settings">
+                            <Settings size={20} aria-hidden="true" />
+                        </Link>
+                    </div>
                 </div>
 
                 {/* Category Navigation - Compact Secondary Row */}
@@ -595,6 +683,7 @@ export function DashboardClient({ initialItems }: DashboardClientProps) {
                 {isStaleRefreshing && data?.refreshingSources && data.refreshingSources.length > 0 && (
                     <ConstellationRefreshWrapper
                         initialSources={data.refreshingSources}
+                        sessionId={data.refreshSessionId}
                         onComplete={handleRefreshComplete}
                     />
                 )}
@@ -655,20 +744,36 @@ export function DashboardClient({ initialItems }: DashboardClientProps) {
                     <>
                         {activeCategory === 'dashboard' ? (
                             <>
+                                <div className="topic-view-toolbar">
+                                    <span className="topic-view-label">Topics</span>
+                                    <div className="digest-period-toggle" role="group" aria-label="Topic view">
+                                        {TOPIC_VIEWS.map(view => (
+                                            <button
+                                                key={view.value}
+                                                className={`digest-period-btn ${topicView === view.value ? 'active' : ''}`}
+                                                onClick={() => setTopicView(view.value)}
+                                                aria-pressed={topicView === view.value}
+                                            >
+                                                {view.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
                                 {kpiData && (
                                     <div className="kpi-grid">
-                                        <div className={`kpi-card kpi-trending${kpiData.crossSource ? ' kpi-has-links' : ''}`}>
+                                        <div className={`kpi-card kpi-trending${topicSignal.sourceLinks.length > 0 ? ' kpi-has-links' : ''}`}>
                                             <div className="kpi-icon"><Zap size={20} aria-hidden="true" /></div>
-                                            <span className="kpi-label">Cross-Source Signal</span>
-                                            <span className="kpi-value kpi-value-text">{kpiData.crossSource?.topic || 'No cross-source signal'}</span>
-                                            <span className="kpi-detail">{kpiData.crossSource ? `${kpiData.crossSource.article.title} · ${kpiData.crossSource.catCount} categories` : 'No topic spans 2+ categories'}</span>
-                                            {kpiData.crossSource && kpiData.crossSource.sourceLinks.length > 0 && (
+                                            <span className="kpi-label">{topicSignal.label}</span>
+                                            <span className="kpi-value kpi-value-text">{topicSignal.topic}</span>
+                                            <span className="kpi-detail">{topicSignal.detail}</span>
+                                            {topicSignal.sourceLinks.length > 0 && (
                                                 <div className="kpi-source-links">
                                                     <span className="kpi-source-links-header">
                                                         <Layers size={12} />
-                                                        Top mentions ({kpiData.crossSource.sourceLinks.length})
+                                                        Top mentions ({topicSignal.sourceLinks.length})
                                                     </span>
-                                                    {kpiData.crossSource.sourceLinks.map((link, i) => (
+                                                    {topicSignal.sourceLinks.map((link, i) => (
                                                         <a
                                                             key={i}
                                                             href={link.url}
@@ -713,14 +818,44 @@ export function DashboardClient({ initialItems }: DashboardClientProps) {
                                     <CategoryHighlights groups={categoryHighlights} />
                                 )}
 
-                                <InsightCharts items={items} />
+                                <InsightCharts items={items} emergingTopics={topicView === 'emerging' ? emerging?.topics ?? null : undefined} />
                                 <TrendCharts items={items} />
                             </>
                         ) : (
                             <TooltipProvider delayDuration={300}>
+                                <div className="feed-seen-toolbar">
+                                    <label className="feed-seen-toggle">
+                                        <input
+                                            type="checkbox"
+                                            checked={hideSeen}
+                                            onChange={(e) => setHideSeen(e.target.checked)}
+                                        />
+                                        Hide seen
+                                    </label>
+                                    {seen.hasPreviousVisit && (
+                                        <span className="feed-seen-count">{newCount} new since last visit</span>
+                                    )}
+                                    <button
+                                        className="feed-jump-btn"
+                                        onClick={jumpToFirstUnread}
+                                        disabled={!firstUnread}
+                                        title={firstUnread ? firstUnread.title : 'Everything here has been on screen'}
+                                    >
+                                        <ArrowDownToLine size={14} aria-hidden="true" />
+                                        Jump to first unread
+                                    </button>
+                                </div>
                                 <div className="content-grid" role="feed" aria-label="AI content feed">
-                                    {interleavedItems.map((item, index) => (
-                                        <ContentCard key={item.id} item={item} isTouchDevice={isTouchDevice} style={{ '--card-delay': `${Math.min(index, 12) * 60}ms` } as any} />
+                                    {feedItems.map((item, index) => (
+                                        <ContentCard
+                                            key={item.id}
+                                            item={item}
+                                            isTouchDevice={isTouchDevice}
+                                            isNew={seen.isNew(item.id)}
+                                            onVisible={seen.markRendered}
+                                            onDismiss={dismiss}
+                                            style={{ '--card-delay': `${Math.min(index, 12) * 60}ms` } as any}
+                                        />
                                     ))}
                                 </div>
                             </TooltipProvider>
@@ -1,7 +1,7 @@
 'use client';
 
-import { FeedMode, FEED_MODE_LABELS, FEED_MODE_DESCRIPTIONS } from '@/types';
-import { Flame, TrendingUp, Trophy } from 'lucide-react';
+import { FeedMode } from '@/types';
+import { FEED_MODES, RANKING_MODES } from '@/lib/scoring/modes';
 import { motion } from 'framer-motion';
 
 interface FeedModeSelectorProps {
@@ -9,14 +9,6 @@ interface FeedModeSelectorProps {
   onModeChange: (mode: FeedMode) => void;
 }
 
-const MODES: FeedMode[] = ['hot', 'rising', 'top'];
-
-const MODE_ICONS: Record<FeedMode, typeof Flame> = {
-  hot: Flame,
-  rising: TrendingUp,
-  top: Trophy,
-};
-
 export function FeedModeSelector({ activeMode, onModeChange }: FeedModeSelectorProps) {
   return (
     <motion.div
@@ -26,8 +18,8 @@ export function FeedModeSelector({ activeMode, onModeChange }: FeedModeSelectorP
     >
       {/* Buttons */}
       <div className="relative z-10 flex items-center gap-1.5 sm:gap-2 w-full">
-        {MODES.map((mode) => {
-          const Icon = MODE_ICONS[mode];
+        {FEED_MODES.map((mode) => {
+          const { icon: Icon, label, description } = RANKING_MODES[mode];
           const isActive = activeMode === mode;
 
           return (
@@ -36,7 +28,8 @@ export function FeedModeSelector({ activeMode, onModeChange }: FeedModeSelectorP
               role="tab"
               aria-selected={isActive}
               onClick={() => onModeChange(mode)}
-              title={FEED_MODE_DESCRIPTIONS[mode]}
+              title={description}
+              aria-label={label}
               className={`relative flex-1 min-w-0 flex items-center justify-center gap-2 sm:gap-3 px-3 sm:px-4 py-2.5 rounded-full text-[12px] sm:text-[13px] font-medium transition-all duration-300 outline-none focus-visible:ring-1 focus-visible:ring-[var(--accent-primary)] cursor-pointer min-h-[44px] ${isActive ? 'text-white' : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-white/5 active:scale-95'
                 }`}
             >
@@ -51,7 +44,8 @@ export function FeedModeSelector({ activeMode, onModeChange }: FeedModeSelectorP
               )}
 
               <Icon size={14} className={isActive ? "text-white drop-shadow-sm" : "opacity-60"} aria-hidden="true" />
-              <span className="text-[11px] sm:text-[13px] tracking-tight">{FEED_MODE_LABELS[mode]}</span>
+              {/* Icons only on narrow screens so every mode fits */}
+              <span className="hidden sm:inline text-[13px] tracking-tight">{label}</span>
             </button>
           );
         })}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import useSWR from 'swr';
+import { Search, ExternalLink, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { SearchFacets, SearchResult } from '@/types';
+import { getSourceById } from '@/lib/config/sources';
+
+interface SearchResponse {
+    success: boolean;
+    error?: string;
+    total: number;
+    results: SearchResult[];
+    facets: SearchFacets;
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+const DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Search button that opens a dropdown with a query box, category/type facet
+ * chips and ranked results from /api/search. "/" opens it from anywhere on
+ * the dashboard.
+ */
+export function HeaderSearch() {
+    const [open, setOpen] = useState(false);
+    const [input, setInput] = useState('');
+    const [query, setQuery] = useState('');
+    const [category, setCategory] = useState<string | null>(null);
+    const [type, setType] = useState<string | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    // Debounce typing into the query that drives the request
+    useEffect(() => {
+        const timer = setTimeout(() => setQuery(input.trim()), DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [input]);
+
+    // "/" to open (unless typing in a field); outside click / Escape to close
+    useEffect(() => {
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setOpen(false);
+            const target = e.target as HTMLElement;
+            if (e.key === '/' && !open && !['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) && !target.isContentEditable) {
+                e.preventDefault();
+                setOpen(true);
+            }
+        };
+        const handleClick = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+        };
+        document.addEventListener('keydown', handleKey);
+        if (open) document.addEventListener('mousedown', handleClick);
+        return () => {
+            document.removeEventListener('keydown', handleKey);
+            document.removeEventListener('mousedown', handleClick);
+        };
+    }, [open]);
+
+    useEffect(() => {
+        if (open) inputRef.current?.focus();
+    }, [open]);
+
+    const params = new URLSearchParams({ q: query });
+    if (category) params.set('category', category);
+    if (type) params.set('type', type);
+    const { data, isLoading } = useSWR<SearchResponse>(
+        open && query.length >= MIN_QUERY_LENGTH ? `/api/search?${params}` : null,
+        fetcher,
+        { revalidateOnFocus: false, keepPreviousData: true }
+    );
+
+    const results = data?.success ? data.results : [];
+    const facets = data?.success ? data.facets : null;
+
+    const chip = (value: string, label: string, count: number, active: boolean, onClick: () => void) => (
+        <button
+            key={value}
+            className={`search-facet ${active ? 'active' : ''}`}
+            onClick={onClick}
+            aria-pressed={active}
+        >
+            {label} <span>{count}</span>
+        </button>
+    );
+
+    return (
+        <div className="alert-inbox header-search" ref={containerRef}>
+            <button
+                className="settings-btn"
+                onClick={() => setOpen(!open)}
+                aria-label="Search"
+                aria-expanded={open}
+                aria-haspopup="dialog"
+                title="Search (/)"
+            >
+                <Search size={20} aria-hidden="true" />
+            </button>
+
+            {open && (
+                <div className="alert-panel search-panel" role="dialog" aria-label="Search">
+                    <div className="alert-panel-header search-input-row">
+                        <Search size={16} aria-hidden="true" />
+                        <input
+                            ref={inputRef}
+                            type="search"
+                            value={input}
+                            onChange={(e) => setInput(e.target.value)}
+                            placeholder='Search… e.g. "open weights" or llama -rumor'
+                            className="search-input"
+                            aria-label="Search query"
+                        />
+                        {isLoading && <Loader2 size={14} className="spinning" aria-hidden="true" />}
+                    </div>
+
+                    {facets && (facets.categories.length > 1 || facets.types.length > 1) && (
+                        <div className="search-facets">
+                            {facets.categories.map(f => chip(
+                                f.value, f.label, f.count, category === f.value,
+                                () => setCategory(category === f.value ? null : f.value)
+                            ))}
+                            {facets.types.map(f => chip(
+                                f.value, f.label, f.count, type === f.value,
+                                () => setType(type === f.value ? null : f.value)
+                            ))}
+                        </div>
+                    )}
+
+                    {query.length < MIN_QUERY_LENGTH ? (
+                        <p className="alert-panel-empty">
+                            Search everything still stored, as far back as retention keeps it. Use quotes for phrases, <code>or</code> and <code>-word</code>.
+                        </p>
+                    ) : data && !data.success ? (
+                        <p className="alert-panel-empty">{data.error || 'Search failed'}</p>
+                    ) : results.length === 0 && !isLoading ? (
+                        <p className="alert-panel-empty">No matches for “{query}”.</p>
+                    ) : (
+                        <ul className="alert-list">
+                            {results.map(result => (
+                                <li key={result.item.id} className="alert-item">
+                                    <div className="alert-item-meta">
+                                        <span>
+                                            {getSourceById(result.item.sourceId)?.name || result.item.sourceId}
+                                            {' · '}
+                                            {formatDistanceToNow(new Date(result.item.publishedAt), { addSuffix: true })}
+                                        </span>
+                                        <span>score {Math.round(result.item.trendingScore || 0)}</span>
+                                    </div>
+                                    {/* titleHtml/snippetHtml are escaped server-side; only <mark> is markup */}
+                                    <a
+                                        href={result.item.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="alert-item-title search-result-title"
+                                    >
+                                        <span dangerouslySetInnerHTML={{ __html: result.titleHtml }} />
+                                        <ExternalLink size={12} aria-hidden="true" />
+                                    </a>
+                                    {result.snippetHtml && (
+                                        <p
+                                            className="search-snippet"
+                                            dangerouslySetInnerHTML={{ __html: result.snippetHtml }}
+                                        />
+                                    )}
+                                </li>
+                            ))}
+                            {data && data.total > results.length && (
+                                <li className="alert-panel-empty">
+                                    Showing {results.length} of {data.total} matches
+                                </li>
+                            )}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
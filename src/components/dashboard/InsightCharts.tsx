@@ -1,6 +1,6 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import {
     Treemap,
     RadarChart,
@@ -10,18 +10,22 @@ import {
     PolarRadiusAxis,
     AreaChart,
     Area,
+    LineChart,
+    Line,
     XAxis,
     YAxis,
     CartesianGrid,
     Tooltip,
     ResponsiveContainer,
 } from 'recharts';
-import { Layers, Activity, Trophy, Target } from 'lucide-react';
-import { ContentItem, CATEGORY_LABELS, CATEGORY_COLORS, SourceCategory } from '@/types';
+import { Layers, Activity, Trophy, Target, Thermometer } from 'lucide-react';
+import { ContentItem, CATEGORY_LABELS, CATEGORY_COLORS, SourceCategory, EmergingTopic } from '@/types';
 import { SOURCES } from '@/lib/config/sources';
 
 interface InsightChartsProps {
     items: ContentItem[];
+    /** Show these in the treemap instead of the feed's tags (null while loading) */
+    emergingTopics?: EmergingTopic[] | null;
 }
 
 // ─── Trending Topics Treemap ────────────────────────────────────────────────
@@ -40,9 +44,10 @@ interface TreemapContentProps {
     height: number;
     name?: string;
     avgScore?: number;
+    burst?: number;
 }
 
-function TreemapContent({ x, y, width, height, name, avgScore, ...rest }: TreemapContentProps & Record<string, unknown>) {
+function TreemapContent({ x, y, width, height, name, avgScore, burst, ...rest }: TreemapContentProps & Record<string, unknown>) {
     // Skip parent/root nodes (recharts passes depth/index on leaf nodes)
     if ('children' in rest && Array.isArray(rest.children)) return null;
     if (!name || width < 35 || height < 22) return null;
@@ -86,7 +91,7 @@ function TreemapContent({ x, y, width, height, name, avgScore, ...rest }: Treema
                     fontSize={10}
                     fontWeight={700}
                 >
-                    avg {avgScore}
+                    {burst !== undefined ? `z ${burst}` : `avg ${avgScore}`}
                 </text>
             )}
         </g>
@@ -96,7 +101,7 @@ function TreemapContent({ x, y, width, height, name, avgScore, ...rest }: Treema
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function TreemapTooltip({ active, payload }: any) {
     if (!active || !payload?.[0]) return null;
-    const data = payload[0].payload as { name: string; count: number; avgScore: number };
+    const data = payload[0].payload as { name: string; count: number; avgScore: number; burst?: number };
     const color = getTopicColor(data.avgScore);
     return (
         <div style={{
@@ -110,7 +115,9 @@ function TreemapTooltip({ active, payload }: any) {
         }}>
             <div style={{ fontWeight: 600 }}>{data.name}</div>
             <div style={{ color: 'var(--text-secondary)', fontSize: '0.78rem' }}>
-                {data.count} mentions &middot; <span style={{ color, fontWeight: 600 }}>avg score {data.avgScore}</span>
+                {data.count} mentions &middot; <span style={{ color, fontWeight: 600 }}>
+                    {data.burst !== undefined ? `burst z ${data.burst} · avg score ${data.avgScore}` : `avg score ${data.avgScore}`}
+                </span>
             </div>
         </div>
     );
@@ -171,6 +178,34 @@ function RadarTooltip({ active, payload }: any) {
     );
 }
 
+// ─── Sentiment Tooltip ──────────────────────────────────────────────────────
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function SentimentTooltip({ active, payload, label }: any) {
+    if (!active || !payload?.length) return null;
+    return (
+        <div style={{
+            backgroundColor: 'var(--bg-card)',
+            border: '1px solid var(--border-color)',
+            borderRadius: '8px',
+            padding: '0.5rem 0.75rem',
+            color: 'var(--text-primary)',
+            fontSize: '0.85rem',
+            boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
+        }}>
+            <div style={{ fontWeight: 600, marginBottom: '0.25rem' }}>{label}</div>
+            {payload.filter((p: { value: number | null }) => p.value !== null).map((p: { name: string; value: number; color: string; payload: Record<string, number> }, i: number) => (
+                <div key={i} style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.78rem' }}>
+                    <span style={{ width: 8, height: 8, borderRadius: '50%', background: p.color, flexShrink: 0 }} />
+                    <span style={{ color: 'var(--text-secondary)' }}>
+                        {p.name}: {p.value}% <span style={{ color: 'var(--text-muted)' }}>of {p.payload[`${p.name}:n`]} items</span>
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
 // ─── Helper: format engagement ──────────────────────────────────────────────
 
 function formatNumber(n: number): string {
@@ -193,7 +228,7 @@ function getPrimaryEngagement(item: ContentItem): { value: number; label: string
 
 // ─── Main Component ─────────────────────────────────────────────────────────
 
-export function InsightCharts({ items }: InsightChartsProps) {
+export function InsightCharts({ items, emergingTopics }: InsightChartsProps) {
     const sourceToCategory = useMemo(() => {
         const map: Record<string, SourceCategory> = {};
         SOURCES.forEach(s => { map[s.id] = s.category; });
@@ -243,6 +278,19 @@ export function InsightCharts({ items }: InsightChartsProps) {
             .slice(0, 20);
     }, [items]);
 
+    // Emerging topics are sized by mentions in the last 24h and labelled with
+    // their burst score; avg score is over their supporting items
+    const emergingData = useMemo(() => (emergingTopics ?? []).map(topic => ({
+        name: topic.topic,
+        count: topic.mentions,
+        avgScore: topic.items.length > 0
+            ? Math.round(topic.items.reduce((sum, item) => sum + (item.trendingScore || 0), 0) / topic.items.length)
+            : 0,
+        burst: topic.burstScore,
+    })), [emergingTopics]);
+    const showEmerging = emergingTopics !== undefined;
+    const treemapData = showEmerging ? emergingData : topicData;
+
     // ── Activity Timeline Data ────────────────────────────────────────────
     const timelineData = useMemo(() => {
         const now = new Date();
@@ -286,6 +334,102 @@ export function InsightCharts({ items }: InsightChartsProps) {
         };
     }, [items, sourceToCategory]);
 
+    // ── Sentiment Over Time ───────────────────────────────────────────────
+    // Default view: % negative per category. With an entity selected: %
+    // negative and % positive among items tagged with that entity.
+    const [sentimentEntity, setSentimentEntity] = useState('');
+    const sentimentEntities = useMemo(() => topicData.slice(0, 12).map(t => t.name), [topicData]);
+    const activeEntity = sentimentEntities.includes(sentimentEntity) ? sentimentEntity : '';
+
+    const sentimentData = useMemo(() => {
+        const BUCKETS = 12;
+        const HOUR_MS = 60 * 60 * 1000;
+        const now = new Date().getTime();
+
+        const hasEntity = (item: ContentItem) =>
+            [...(item.tags || []), ...(item.matchedKeywords || [])]
+                .some(t => t.toLowerCase().trim() === activeEntity);
+
+        const dated = items
+            .filter(item => item.sentiment && (!activeEntity || hasEntity(item)))
+            .map(item => ({ item, ageHours: (now - new Date(item.publishedAt).getTime()) / HOUR_MS }))
+            .filter(d => d.ageHours >= 0 && d.ageHours <= 7 * 24);
+
+        // Bucket width follows the loaded time range (1h view → 5min buckets, 7d → 14h)
+        const spanHours = Math.max(1, ...dated.map(d => d.ageHours));
+        const bucketHours = spanHours / BUCKETS;
+
+        const formatBucket = (end: Date) => {
+            if (bucketHours >= 24) return end.toLocaleDateString([], { month: 'short', day: 'numeric' });
+            if (spanHours > 24) return end.toLocaleString([], { weekday: 'short', hour: '2-digit', hour12: false });
+            return end.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+        };
+
+        const seriesOf = (item: ContentItem): string[] => {
+            if (activeEntity) return item.sentiment === 'positive' ? ['Positive'] : item.sentiment === 'negative' ? ['Negative'] : [];
+            const cat = sourceToCategory[item.sourceId];
+            return cat ? [CATEGORY_LABELS[cat] || cat] : [];
+        };
+
+        // Per bucket, per series: labeled item count and matches
+        const totals: Record<string, number>[] = Array.from({ length: BUCKETS }, () => ({}));
+        const hits: Record<string, number>[] = Array.from({ length: BUCKETS }, () => ({}));
+        const seriesTotals: Record<string, number> = {};
+        let negativeCount = 0;
+
+        for (const { item, ageHours } of dated) {
+            const bucket = Math.max(0, BUCKETS - 1 - Math.floor(ageHours / bucketHours));
+            if (item.sentiment === 'negative') negativeCount++;
+
+            if (activeEntity) {
+                for (const key of ['Negative', 'Positive']) {
+                    totals[bucket][key] = (totals[bucket][key] || 0) + 1;
+                    seriesTotals[key] = (seriesTotals[key] || 0) + 1;
+                }
+                for (const key of seriesOf(item)) hits[bucket][key] = (hits[bucket][key] || 0) + 1;
+            } else {
+                for (const key of seriesOf(item)) {
+                    totals[bucket][key] = (totals[bucket][key] || 0) + 1;
+                    seriesTotals[key] = (seriesTotals[key] || 0) + 1;
+                    if (item.sentiment === 'negative') hits[bucket][key] = (hits[bucket][key] || 0) + 1;
+                }
+            }
+        }
+
+        // Top 5 categories by volume for readability
+        const series = activeEntity
+            ? (dated.length > 0 ? ['Negative', 'Positive'] : [])
+            : Object.entries(seriesTotals)
+                .filter(([, n]) => n >= 3)
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, 5)
+                .map(([key]) => key);
+
+        const data = totals.map((bucketTotals, i) => {
+            const end = new Date(now - (BUCKETS - 1 - i) * bucketHours * HOUR_MS);
+            const point: Record<string, string | number | null> = { time: formatBucket(end) };
+            for (const key of series) {
+                const total = bucketTotals[key] || 0;
+                point[key] = total > 0 ? Math.round(((hits[i][key] || 0) / total) * 100) : null;
+                point[`${key}:n`] = total;
+            }
+            return point;
+        });
+
+        return {
+            data,
+            series: series.map((key, i) => {
+                const catEntry = Object.entries(CATEGORY_LABELS).find(([, label]) => label === key);
+                const color = key === 'Negative' ? '#ef4444'
+                    : key === 'Positive' ? '#22c55e'
+                    : catEntry ? (CATEGORY_COLORS[catEntry[0]] || '#6366f1')
+                    : ['#6366f1', '#ec4899', '#22c55e', '#06b6d4', '#eab308'][i % 5];
+                return { key, color };
+            }),
+            negativeShare: dated.length > 0 ? Math.round((negativeCount / dated.length) * 100) : 0,
+        };
+    }, [items, sourceToCategory, activeEntity]);
+
     // ── Top Engaged Items ─────────────────────────────────────────────────
     const topEngaged = useMemo(() => {
         const withEng = [...items]
@@ -383,12 +527,13 @@ export function InsightCharts({ items }: InsightChartsProps) {
 
     if (items.length === 0) return null;
 
-    const hasTopics = topicData.length > 0;
+    const hasTopics = topicData.length > 0 || showEmerging;
     const hasTimeline = timelineData.data.length > 0 && timelineData.categories.length > 0;
     const hasEngaged = topEngaged.length > 0;
     const hasRadar = radarData.categories.length >= 2;
+    const hasSentiment = sentimentData.series.length > 0 || activeEntity !== '';
 
-    if (!hasTopics && !hasTimeline && !hasEngaged && !hasRadar) return null;
+    if (!hasTopics && !hasTimeline && !hasEngaged && !hasRadar && !hasSentiment) return null;
 
     return (
         <section className="insight-charts-section">
@@ -520,20 +665,30 @@ export function InsightCharts({ items }: InsightChartsProps) {
                     <div className="insight-card insight-card-topics">
                         <div className="insight-card-header">
                             <Layers size={16} aria-hidden="true" />
-                            <h3>Trending Topics</h3>
-                            <span className="insight-subtitle">{topicData.length} topics detected</span>
+                            <h3>{showEmerging ? 'Emerging Topics' : 'Trending Topics'}</h3>
+                            <span className="insight-subtitle">
+                                {showEmerging
+                                    ? `${emergingData.length} topics spiking vs. baseline`
+                                    : `${topicData.length} topics detected`}
+                            </span>
                         </div>
                         <div className="insight-chart-wrapper" style={{ height: 240 }}>
-                            <ResponsiveContainer width="100%" height="100%">
-                                <Treemap
-                                    data={topicData}
-                                    dataKey="count"
-                                    nameKey="name"
-                                    content={<TreemapContent x={0} y={0} width={0} height={0} />}
-                                >
-                                    <Tooltip content={<TreemapTooltip />} />
-                                </Treemap>
-                            </ResponsiveContainer>
+                            {treemapData.length > 0 ? (
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <Treemap
+                                        data={treemapData}
+                                        dataKey="count"
+                                        nameKey="name"
+                                        content={<TreemapContent x={0} y={0} width={0} height={0} />}
+                                    >
+                                        <Tooltip content={<TreemapTooltip />} />
+                                    </Treemap>
+                                </ResponsiveContainer>
+                            ) : (
+                                <div className="insight-chart-empty">
+                                    {emergingTopics === null ? 'Loading topic history…' : 'No topic is spiking above its baseline'}
+                                </div>
+                            )}
                         </div>
                     </div>
                 )}
@@ -585,6 +740,75 @@ export function InsightCharts({ items }: InsightChartsProps) {
                     </div>
                 )}
             </div>
+
+            {/* Row 3: Sentiment Over Time */}
+            {hasSentiment && (
+                <div className="insight-row">
+                    <div className="insight-card insight-card-sentiment">
+                        <div className="insight-card-header">
+                            <Thermometer size={16} aria-hidden="true" />
+                            <h3>Sentiment Over Time</h3>
+                            <span className="insight-subtitle">
+                                {activeEntity ? `% of "${activeEntity}" coverage` : '% negative by category'} &middot; {sentimentData.negativeShare}% negative overall
+                            </span>
+                            <select
+                                className="insight-select"
+                                value={activeEntity}
+                                onChange={(e) => setSentimentEntity(e.target.value)}
+                                aria-label="Filter sentiment by entity"
+                            >
+                                <option value="">All categories</option>
+                                {sentimentEntities.map(entity => (
+                                    <option key={entity} value={entity}>{entity}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="insight-chart-wrapper" style={{ height: 220 }}>
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={sentimentData.data} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="var(--border-color)" vertical={false} />
+                                    <XAxis
+                                        dataKey="time"
+                                        stroke="var(--text-muted)"
+                                        fontSize={10}
+                                        tickLine={false}
+                                        interval="preserveStartEnd"
+                                    />
+                                    <YAxis
+                                        stroke="var(--text-muted)"
+                                        fontSize={10}
+                                        tickLine={false}
+                                        axisLine={false}
+                                        domain={[0, 100]}
+                                        unit="%"
+                                    />
+                                    <Tooltip content={<SentimentTooltip />} />
+                                    {sentimentData.series.map(s => (
+                                        <Line
+                                            key={s.key}
+                                            type="monotone"
+                                            dataKey={s.key}
+                                            name={s.key}
+                                            stroke={s.color}
+                                            strokeWidth={2}
+                                            dot={{ r: 2 }}
+                                            connectNulls
+                                        />
+                                    ))}
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+                        <div className="radar-legend">
+                            {sentimentData.series.map(s => (
+                                <span key={s.key} className="radar-legend-item">
+                                    <span className="radar-legend-dot" style={{ background: s.color }} />
+                                    {s.key}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
         </section>
     );
 }
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { VolumeX, Plus, Trash2 } from 'lucide-react';
+import { MuteRule, MuteRuleKind, MUTE_RULE_KIND_LABELS } from '@/types';
+import { SOURCES } from '@/lib/config/sources';
+import { useSettings } from '@/lib/contexts/SettingsContext';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DURATIONS: { label: string; days: number | null }[] = [
+    { label: 'Forever', days: null },
+    { label: '1 day', days: 1 },
+    { label: '7 days', days: 7 },
+    { label: '30 days', days: 30 },
+];
+
+const PLACEHOLDERS: Record<Exclude<MuteRuleKind, 'source'>, string> = {
+    keyword: 'Word or phrase (e.g., crypto)',
+    regex: 'Regex, case-insensitive (e.g., \\bnft(s)?\\b)',
+    domain: 'Domain (e.g., medium.com)',
+    author: 'Author name or handle',
+    tag: 'Tag (e.g., web3)',
+};
+
+function describeRule(rule: MuteRule, sourceName: (id: string) => string): string {
+    const value = rule.kind === 'regex' ? `/${rule.value}/`
+        : rule.kind === 'source' ? sourceName(rule.value)
+            : rule.value;
+    const action = rule.action === 'hide' ? 'hidden' : `−${rule.penalty} points`;
+    const expiry = rule.expiresAt
+        ? `expires ${formatDistanceToNow(new Date(rule.expiresAt), { addSuffix: true })}`
+        : 'no expiry';
+    return `${MUTE_RULE_KIND_LABELS[rule.kind]}: ${value} · ${action} · ${expiry}`;
+}
+
+/**
+ * Settings section for mute rules. Matching items are hidden from, or pushed
+ * down, the feed and the discovery API until the rule expires.
+ */
+export function MuteSettings() {
+    const { muteRules, setMuteRules, customSources } = useSettings();
+    const [kind, setKind] = useState<MuteRuleKind>('keyword');
+    const [value, setValue] = useState('');
+    const [action, setAction] = useState<MuteRule['action']>('hide');
+    const [penalty, setPenalty] = useState(20);
+    const [days, setDays] = useState<number | null>(null);
+    const [error, setError] = useState('');
+
+    const sourceOptions = [...SOURCES, ...customSources].map(s => ({ id: s.id, name: s.name }));
+    const sourceName = (id: string) => sourceOptions.find(s => s.id === id)?.name || id;
+
+    const handleAdd = () => {
+        const now = Date.now();
+        const trimmed = value.trim();
+        if (kind === 'regex') {
+            try {
+                new RegExp(trimmed, 'i');
+            } catch {
+                setError(`Invalid regex pattern: ${trimmed}`);
+                return;
+            }
+        }
+        setError('');
+        setMuteRules([
+            ...muteRules,
+            {
+                id: crypto.randomUUID(),
+                kind,
+                value: trimmed,
+                action,
+                penalty,
+                expiresAt: days ? new Date(now + days * DAY_MS).toISOString() : null,
+                createdAt: new Date(now).toISOString(),
+            },
+        ]);
+        setValue('');
+    };
+
+    const handleRemove = (id: string) => {
+        setMuteRules(muteRules.filter(rule => rule.id !== id));
+    };
+
+    return (
+        <section className="settings-section">
+            <h2>
+                <VolumeX size={18} style={{ display: 'inline', marginRight: '0.5rem' }} />
+                Mute Rules
+            </h2>
+            <span className="setting-hint">
+                Hide or down-rank items by keyword, regex, domain, author, tag or source
+            </span>
+
+            <div className="add-source-form">
+                <div className="keyword-input-row">
+                    <select
+                        value={kind}
+                        onChange={(e) => {
+                            setKind(e.target.value as MuteRuleKind);
+                            setValue('');
+                        }}
+                        className="priority-select"
+                        aria-label="Mute rule type"
+                    >
+                        {Object.entries(MUTE_RULE_KIND_LABELS).map(([key, label]) => (
+                            <option key={key} value={key}>{label}</option>
+                        ))}
+                    </select>
+                    {kind === 'source' ? (
+                        <select
+                            value={value}
+                            onChange={(e) => setValue(e.target.value)}
+                            className="priority-select"
+                            style={{ flex: 1 }}
+                            aria-label="Source to mute"
+                        >
+                            <option value="">Choose a source…</option>
+                            {sourceOptions.map(s => (
+                                <option key={s.id} value={s.id}>{s.name}</option>
+                            ))}
+                        </select>
+                    ) : (
+                        <input
+                            type="text"
+                            value={value}
+                            onChange={(e) => setValue(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' && value.trim()) handleAdd();
+                            }}
+                            placeholder={PLACEHOLDERS[kind]}
+                            className="keyword-input"
+                            aria-label="Mute rule value"
+                        />
+                    )}
+                </div>
+                <div className="keyword-input-row">
+                    <select
+                        value={action}
+                        onChange={(e) => setAction(e.target.value as MuteRule['action'])}
+                        className="priority-select"
+                        aria-label="Mute action"
+                    >
+                        <option value="hide">Hide</option>
+                        <option value="downrank">Down-rank</option>
+                    </select>
+                    {action === 'downrank' && (
+                        <label className="watchlist-field">
+                            Penalty
+                            <input
+                                type="number"
+                                min={1}
+                                max={100}
+                                value={penalty}
+                                onChange={(e) => setPenalty(Math.min(100, Math.max(1, Number(e.target.value) || 1)))}
+                                className="keyword-input watchlist-score-input"
+                            />
+                        </label>
+                    )}
+                    <label className="watchlist-field">
+                        For
+                        <select
+                            value={days ?? ''}
+                            onChange={(e) => setDays(e.target.value ? Number(e.target.value) : null)}
+                            className="priority-select"
+                        >
+                            {DURATIONS.map(d => (
+                                <option key={d.label} value={d.days ?? ''}>{d.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <button
+                        onClick={handleAdd}
+                        className="add-keyword-btn"
+                        disabled={!value.trim()}
+                        style={{ marginLeft: 'auto' }}
+                    >
+                        <Plus size={16} />
+                        Add Rule
+                    </button>
+                </div>
+                {error && (
+                    <p className="setting-hint" style={{ margin: 0, color: 'var(--error)' }}>
+                        {error}
+                    </p>
+                )}
+            </div>
+
+            {muteRules.length > 0 ? (
+                <div className="source-list">
+                    {muteRules.map((rule) => (
+                        <div key={rule.id} className="source-item enabled">
+                            <div className="source-info">
+                                <span className="watchlist-terms">{describeRule(rule, sourceName)}</span>
+                            </div>
+                            <div className="source-actions">
+                                <button
+                                    className="delete-btn"
+                                    onClick={() => handleRemove(rule.id)}
+                                    aria-label={`Remove mute rule for ${rule.value}`}
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="setting-hint" style={{ margin: 0 }}>
+                    No mute rules yet.
+                </p>
+            )}
+        </section>
+    );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import { formatDistanceToNow } from 'date-fns';
+import { Sparkles, RotateCcw } from 'lucide-react';
+import { AffinityModel, FeedbackAction, FEEDBACK_ACTION_LABELS } from '@/types';
+import { SOURCES } from '@/lib/config/sources';
+import { useSettings } from '@/lib/contexts/SettingsContext';
+
+interface PersonalizationResponse {
+    success: boolean;
+    error?: string;
+    model: AffinityModel;
+    counts: Partial<Record<FeedbackAction, number>>;
+    explicitPrioritySources: string[];
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+// Affinities shown per feature type
+const MAX_SHOWN = 12;
+
+function AffinityList({ title, affinities, label, note }: {
+    title: string;
+    affinities: Record<string, number>;
+    label?: (key: string) => string;
+    note?: (key: string) => string | null;
+}) {
+    const entries = Object.entries(affinities)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_SHOWN);
+    return (
+        <div className="affinity-column">
+            <h4>{title}</h4>
+            {entries.length === 0 ? (
+                <p className="setting-hint" style={{ margin: 0 }}>Nothing learned yet</p>
+            ) : (
+                <ul className="affinity-list">
+                    {entries.map(([key, value]) => {
+                        const override = note?.(key);
+                        return (
+                            <li key={key} className={override ? 'overridden' : ''} title={override ?? undefined}>
+                                <span className="affinity-name">{label ? label(key) : key}</span>
+                                <span className={`affinity-value ${value >= 0 ? 'positive' : 'negative'}`}>
+                                    {value > 0 ? '+' : ''}{value.toFixed(2)}
+                                </span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Settings section for "For you" personalization: the affinities learned from
+ * opened, saved and dismissed cards, with a reset.
+ */
+export function PersonalizationSettings() {
+    const { customSources } = useSettings();
+    const [isResetting, setIsResetting] = useState(false);
+    const { data, mutate } = useSWR<PersonalizationResponse>('/api/feedback', fetcher, {
+        revalidateOnFocus: false,
+    });
+
+    const sourceNames = new Map([...SOURCES, ...customSources].map(s => [s.id, s.name]));
+    const explicit = new Set(data?.success ? data.explicitPrioritySources : []);
+
+    const handleReset = async () => {
+        if (!confirm('Forget all feedback and learned affinities?')) return;
+        setIsResetting(true);
+        try {
+            await fetch('/api/feedback', { method: 'DELETE' });
+            await mutate();
+        } finally {
+            setIsResetting(false);
+        }
+    };
+
+    const model = data?.success ? data.model : null;
+    const counts = data?.success ? data.counts : {};
+    const summary = (Object.keys(FEEDBACK_ACTION_LABELS) as FeedbackAction[])
+        .map(action => `${FEEDBACK_ACTION_LABELS[action]}: ${counts[action] ?? 0}`)
+        .join(' · ');
+    const hasFeedback = Object.values(counts).some(count => !!count) || !!model?.updatedAt;
+
+    return (
+        <section className="settings-section">
+            <h2>
+                <Sparkles size={18} style={{ display: 'inline', marginRight: '0.5rem' }} />
+                Personalization
+            </h2>
+            <span className="setting-hint">
+                The &quot;For you&quot; feed mode learns from the cards you open, save and mark &quot;Not
+                interested&quot;. Feedback fades over 30 days. Sources whose priority you changed keep that
+                priority; what was learned about them (struck through) is ignored.
+            </span>
+
+            <div className="digest-toolbar weights-toolbar">
+                <span className="setting-hint" style={{ margin: 0 }}>
+                    {summary}
+                    {model?.updatedAt && ` · updated ${formatDistanceToNow(new Date(model.updatedAt), { addSuffix: true })}`}
+                </span>
+                <div className="digest-exports">
+                    <button
+                        className="add-keyword-btn"
+                        onClick={handleReset}
+                        disabled={isResetting || !hasFeedback}
+                    >
+                        <RotateCcw size={14} />
+                        Reset learned weights
+                    </button>
+                </div>
+            </div>
+
+            {data && !data.success ? (
+                <p className="setting-hint" style={{ margin: 0, color: 'var(--error)' }}>{data.error}</p>
+            ) : model ? (
+                <div className="affinity-grid">
+                    <AffinityList
+                        title="Sources"
+                        affinities={model.sources}
+                        label={id => sourceNames.get(id) || id}
+                        note={id => explicit.has(id) ? 'Ignored: priority set explicitly' : null}
+                    />
+                    <AffinityList title="Tags" affinities={model.tags} />
+                    <AffinityList title="Keywords" affinities={model.keywords} />
+                </div>
+            ) : (
+                <p className="setting-hint" style={{ margin: 0 }}>Loading…</p>
+            )}
+        </section>
+    );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import { formatDistanceToNow } from 'date-fns';
+import { Archive, Eye, RotateCcw, Save } from 'lucide-react';
+import {
+    RetentionPolicy,
+    RetentionReport,
+    RetentionTable,
+    SourceCategory,
+    CATEGORY_LABELS,
+    RETENTION_TABLE_LABELS,
+} from '@/types';
+import { DEFAULT_RETENTION_POLICY, RETENTION_MIN_DAYS, RETENTION_TABLES } from '@/lib/retention';
+
+interface RetentionResponse {
+    success: boolean;
+    error?: string;
+    policy: RetentionPolicy;
+    lastRun: RetentionReport | null;
+}
+
+interface RunResponse {
+    success: boolean;
+    error?: string;
+    report?: RetentionReport;
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+const MAX_DAYS = 365;
+
+function reportCount(report: RetentionReport | null, scope: RetentionTable | SourceCategory): string | null {
+    if (!report) return null;
+    const table = report.tables.find(t => t.table === scope);
+    if (table) return `${table.deleted}`;
+    const content = report.content.find(c => c.scope === (scope === 'content' ? 'default' : scope));
+    if (!content) return null;
+    return content.exempt > 0 ? `${content.deleted} (${content.exempt} exempt)` : `${content.deleted}`;
+}
+
+function reportSummary(report: RetentionReport): string {
+    const rolledUp = report.rolledUpDays.length > 0 ? `rolled up ${report.rolledUpDays.length} days, ` : '';
+    const when = formatDistanceToNow(new Date(report.finishedAt), { addSuffix: true });
+    return report.dryRun
+        ? `Would delete ${report.totalDeleted} rows under the saved policy`
+        : `Last run ${when}: ${rolledUp}deleted ${report.totalDeleted} rows`;
+}
+
+/**
+ * Settings section for the retention policy: days kept per table and per
+ * content category, and a dry-run preview of what the saved policy would
+ * delete. Deleting runs only come from GET /api/cron/retention (daily).
+ */
+export function RetentionSettings() {
+    // null = no unsaved edits
+    const [draft, setDraft] = useState<RetentionPolicy | null>(null);
+    const [preview, setPreview] = useState<RetentionReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState<'save' | 'preview' | null>(null);
+    const { data, mutate } = useSWR<RetentionResponse>('/api/admin/retention', fetcher, {
+        revalidateOnFocus: false,
+    });
+
+    const saved = data?.success ? data.policy : null;
+    const policy = draft ?? saved;
+
+    const setTable = (table: RetentionTable, value: string) => {
+        if (!policy) return;
+        setDraft({ ...policy, tables: { ...policy.tables, [table]: Number(value) } });
+    };
+
+    const setCategory = (category: SourceCategory, value: string) => {
+        if (!policy) return;
+        const categories = { ...policy.categories };
+        if (value === '') delete categories[category];
+        else categories[category] = Number(value);
+        setDraft({ ...policy, categories });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setBusy('save');
+        setError(null);
+        try {
+            const res = await fetch('/api/admin/retention', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ policy: draft }),
+            });
+            if (res.status === 401) {
+                setError('CRON_SECRET is set: save the policy with an authorized PUT /api/admin/retention');
+                return;
+            }
+            const body = await res.json();
+            if (!body.success) {
+                setError(body.error || 'Failed to save policy');
+                return;
+            }
+            setDraft(null);
+            setPreview(null);
+            await mutate();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save policy');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handlePreview = async () => {
+        setBusy('preview');
+        setError(null);
+        try {
+            const res = await fetch('/api/admin/retention?dryRun=1', { method: 'POST' });
+            const body: RunResponse = await res.json();
+            if (!body.success || !body.report) {
+                setError(body.error || 'Dry run failed');
+                return;
+            }
+            setPreview(body.report);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Dry run failed');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const lastRun = data?.success ? data.lastRun : null;
+    // Counts next to each window: the dry run if there is one, else the last run
+    const shown = preview ?? lastRun;
+
+    return (
+        <section className="settings-section">
+            <h2>
+                <Archive size={18} style={{ display: 'inline', marginRight: '0.5rem' }} />
+                Data Retention
+            </h2>
+            <span className="setting-hint">
+                Days each table is kept. Categories can keep content longer or shorter than the default;
+                saved items and items in a story are never deleted. Recent days are rolled up into long-term
+                history first. The policy runs daily from <code>GET /api/cron/retention</code> (Vercel Cron,
+                another scheduler, or <code>npm run worker:refresh</code>), not from page loads.
+                With <code>CRON_SECRET</code> set, saving needs the secret too.
+            </span>
+
+            {data && !data.success ? (
+                <p className="setting-hint" style={{ margin: 0, color: 'var(--error)' }}>{data.error}</p>
+            ) : policy ? (
+                <div className="weights-groups">
+                    <div className="settings-subsection">
+                        <h3>Tables</h3>
+                        {RETENTION_TABLES.map(table => (
+                            <label key={table} className="retention-row">
+                                <span>{RETENTION_TABLE_LABELS[table]}</span>
+                                <input
+                                    type="number"
+                                    min={RETENTION_MIN_DAYS[table]}
+                                    max={MAX_DAYS}
+                                    value={policy.tables[table]}
+                                    onChange={(e) => setTable(table, e.target.value)}
+                                    className="keyword-input watchlist-score-input"
+                                />
+                                <span className="retention-count">
+                                    {reportCount(shown, table)}
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                    <div className="settings-subsection">
+                        <h3>Content by category</h3>
+                        {(Object.keys(CATEGORY_LABELS) as SourceCategory[]).map(category => (
+                            <label key={category} className="retention-row">
+                                <span>{CATEGORY_LABELS[category]}</span>
+                                <input
+                                    type="number"
+                                    min={RETENTION_MIN_DAYS.content}
+                                    max={MAX_DAYS}
+                                    value={policy.categories[category] ?? ''}
+                                    placeholder={String(policy.tables.content)}
+                                    onChange={(e) => setCategory(category, e.target.value)}
+                                    className="keyword-input watchlist-score-input"
+                                />
+                                <span className="retention-count">
+                                    {reportCount(shown, category)}
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            ) : (
+                <p className="setting-hint" style={{ margin: 0 }}>Loading…</p>
+            )}
+
+            <div className="digest-toolbar weights-toolbar">
+                <span className="setting-hint" style={{ margin: 0 }}>
+                    {error ? (
+                        <span style={{ color: 'var(--error)' }}>{error}</span>
+                    ) : shown ? (
+                        reportSummary(shown)
+                    ) : (
+                        'No retention run yet'
+                    )}
+                </span>
+                <div className="digest-exports">
+                    <button className="add-keyword-btn" onClick={() => setDraft(DEFAULT_RETENTION_POLICY)}>
+                        <RotateCcw size={14} />
+                        Defaults
+                    </button>
+                    <button className="add-keyword-btn" onClick={() => setDraft(null)} disabled={!draft}>
+                        Discard
+                    </button>
+                    <button className="add-keyword-btn" onClick={handleSave} disabled={!draft || busy !== null}>
+                        <Save size={14} />
+                        Save policy
+                    </button>
+                    <button
+                        className="add-keyword-btn"
+                        onClick={handlePreview}
+                        disabled={!!draft || busy !== null}
+                        title={draft ? 'Save the policy to preview it' : undefined}
+                    >
+                        <Eye size={14} />
+                        {busy === 'preview' ? 'Counting…' : 'Dry run'}
+                    </button>
+                </div>
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import useSWR from 'swr';
+import { SlidersHorizontal, RotateCcw, Save } from 'lucide-react';
+import { ScoringWeights, ScoringPreviewItem, ScoringPreviewMode } from '@/types';
+import { DEFAULT_SCORING_WEIGHTS } from '@/lib/scoring/weights';
+import { FEED_MODES, DEFAULT_FEED_MODE, RANKING_MODES } from '@/lib/scoring/modes';
+import { getSourceById } from '@/lib/config/sources';
+import { useSettings } from '@/lib/contexts/SettingsContext';
+
+interface PreviewResponse {
+    success: boolean;
+    error?: string;
+    current: ScoringPreviewItem[];
+    proposed: ScoringPreviewItem[];
+}
+
+type WeightGroup = 'hot' | 'rising' | 'base';
+
+const GROUPS: { group: WeightGroup; title: string; labels: Record<string, string> }[] = [
+    { group: 'hot', title: 'Hot mode', labels: { engagement: 'Engagement', recency: 'Recency', velocity: 'Velocity' } },
+    { group: 'rising', title: 'Rising mode', labels: { velocity: 'Velocity', recency: 'Recency', engagement: 'Engagement' } },
+    {
+        group: 'base',
+        title: 'Default ranking (search, digests, alerts)',
+        labels: { priority: 'Source priority', engagement: 'Engagement', recency: 'Recency', keywordBoost: 'Boost keywords' },
+    },
+];
+
+const PREVIEW_MODES: { mode: ScoringPreviewMode; label: string }[] = [
+    ...FEED_MODES.map(mode => ({ mode, label: RANKING_MODES[mode].label })),
+    { mode: 'default', label: 'Default' },
+];
+
+const DEBOUNCE_MS = 400;
+
+const previewFetcher = ([url, mode, weights]: [string, ScoringPreviewMode, string]) =>
+    fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode, weights: JSON.parse(weights) }),
+    }).then(r => r.json());
+
+function PreviewList({ title, items, baseline }: {
+    title: string;
+    items: ScoringPreviewItem[];
+    baseline?: ScoringPreviewItem[];
+}) {
+    const baselineRank = new Map(baseline?.map((item, index) => [item.id, index]));
+    return (
+        <div className="weights-preview-column">
+            <h4>{title}</h4>
+            <ol className="weights-preview-list">
+                {items.map((item, index) => {
+                    const previous = baselineRank.get(item.id);
+                    const move = baseline
+                        ? previous === undefined ? 'new' : previous - index
+                        : null;
+                    return (
+                        <li key={item.id}>
+                            <span className="weights-preview-rank">{index + 1}</span>
+                            <a href={item.url} target="_blank" rel="noopener noreferrer" title={item.title}>
+                                {item.title}
+                            </a>
+                            <span className="weights-preview-meta">
+                                {getSourceById(item.sourceId)?.name || item.sourceId} · {item.score.toFixed(1)}
+                            </span>
+                            {move === 'new' && <span className="weights-preview-move up">new</span>}
+                            {typeof move === 'number' && move !== 0 && (
+                                <span className={`weights-preview-move ${move > 0 ? 'up' : 'down'}`}>
+                                    {move > 0 ? `▲${move}` : `▼${-move}`}
+                                </span>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+}
+
+/**
+ * Settings section for ranking weights: component mixes per feed mode, the
+ * recency half-life and Rising's newness penalty, with a top-20 preview of
+ * the saved vs. proposed weights before saving.
+ */
+export function ScoringWeightsSettings() {
+    const { scoringWeights, setScoringWeights } = useSettings();
+    // null = no unsaved edits
+    const [draft, setDraft] = useState<ScoringWeights | null>(null);
+    const [mode, setMode] = useState<ScoringPreviewMode>(DEFAULT_FEED_MODE);
+    const [isSaving, setIsSaving] = useState(false);
+    const proposed = draft ?? scoringWeights;
+
+    const proposedKey = JSON.stringify(proposed);
+    const [previewKey, setPreviewKey] = useState(proposedKey);
+    useEffect(() => {
+        const timer = setTimeout(() => setPreviewKey(proposedKey), DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [proposedKey]);
+
+    const { data, isLoading, mutate } = useSWR<PreviewResponse>(
+        ['/api/scoring/preview', mode, previewKey],
+        previewFetcher,
+        { revalidateOnFocus: false, keepPreviousData: true }
+    );
+
+    const setWeight = (group: WeightGroup, key: string, value: number) => {
+        setDraft({ ...proposed, [group]: { ...proposed[group], [key]: value } });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setIsSaving(true);
+        const saved = await setScoringWeights(draft);
+        setIsSaving(false);
+        if (saved) {
+            setDraft(null);
+            // "Current" is now the saved weights
+            mutate();
+        }
+    };
+
+    return (
+        <section className="settings-section">
+            <h2>
+                <SlidersHorizontal size={18} style={{ display: 'inline', marginRight: '0.5rem' }} />
+                Ranking Weights
+            </h2>
+            <span className="setting-hint">
+                How much each signal counts. Weights in a group are rescaled to 100% when saved.
+                Source priority and boost keywords keep their default-ranking share in every feed mode.
+            </span>
+
+            <div className="weights-groups">
+                {GROUPS.map(({ group, title, labels }) => {
+                    const values = proposed[group] as Record<string, number>;
+                    const total = Object.values(values).reduce((sum, v) => sum + v, 0) || 1;
+                    return (
+                        <div key={group} className="settings-subsection">
+                            <h3>{title}</h3>
+                            {Object.entries(labels).map(([key, label]) => (
+                                <label key={key} className="weights-slider">
+                                    <span>{label}</span>
+                                    <input
+                                        type="range"
+                                        min={0}
+                                        max={100}
+                                        value={Math.round(values[key] * 100)}
+                                        onChange={(e) => setWeight(group, key, Number(e.target.value) / 100)}
+                                    />
+                                    <span className="weights-slider-value">{Math.round((values[key] / total) * 100)}%</span>
+                                </label>
+                            ))}
+                        </div>
+                    );
+                })}
+
+                <div className="settings-subsection">
+                    <h3>Decay &amp; penalties</h3>
+                    <label className="weights-slider">
+                        <span>Recency half-life</span>
+                        <input
+                            type="range"
+                            min={1}
+                            max={168}
+                            value={proposed.recencyHalfLifeHours}
+                            onChange={(e) => setDraft({ ...proposed, recencyHalfLifeHours: Number(e.target.value) })}
+                        />
+                        <span className="weights-slider-value">{proposed.recencyHalfLifeHours}h</span>
+                    </label>
+                    <label className="weights-slider">
+                        <span>Rising: already-popular multiplier</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={Math.round(proposed.risingNewnessPenalty * 100)}
+                            onChange={(e) => setDraft({ ...proposed, risingNewnessPenalty: Number(e.target.value) / 100 })}
+                        />
+                        <span className="weights-slider-value">×{proposed.risingNewnessPenalty.toFixed(2)}</span>
+                    </label>
+                </div>
+            </div>
+
+            <div className="digest-toolbar weights-toolbar">
+                <div className="digest-period-toggle" role="group" aria-label="Preview ranking">
+                    {PREVIEW_MODES.map(option => (
+                        <button
+                            key={option.mode}
+                            className={`digest-period-btn ${mode === option.mode ? 'active' : ''}`}
+                            onClick={() => setMode(option.mode)}
+                            aria-pressed={mode === option.mode}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="digest-exports">
+                    <button className="add-keyword-btn" onClick={() => setDraft(DEFAULT_SCORING_WEIGHTS)}>
+                        <RotateCcw size={14} />
+                        Defaults
+                    </button>
+                    <button className="add-keyword-btn" onClick={() => setDraft(null)} disabled={!draft}>
+                        Discard
+                    </button>
+                    <button className="add-keyword-btn" onClick={handleSave} disabled={!draft || isSaving}>
+                        <Save size={14} />
+                        Save weights
+                    </button>
+                </div>
+            </div>
+
+            {data && !data.success ? (
+                <p className="setting-hint" style={{ margin: 0, color: 'var(--error)' }}>{data.error}</p>
+            ) : data ? (
+                <div className={`weights-preview ${isLoading || previewKey !== proposedKey ? 'loading' : ''}`}>
+                    <PreviewList title="Current" items={data.current} />
+                    <PreviewList title="Proposed" items={data.proposed} baseline={data.current} />
+                </div>
+            ) : (
+                <p className="setting-hint" style={{ margin: 0 }}>Loading preview…</p>
+            )}
+        </section>
+    );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import { Bell, Check, X, Plus, Trash2 } from 'lucide-react';
+import { SourceCategory, CATEGORY_LABELS, Watchlist, WatchlistInput } from '@/types';
+
+interface WatchlistsResponse {
+    success: boolean;
+    watchlists: (Watchlist & { unreadCount: number })[];
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+function splitTerms(value: string): string[] {
+    return value.split(',').map(t => t.trim()).filter(Boolean);
+}
+
+function toInput(watchlist: Watchlist): WatchlistInput {
+    return {
+        name: watchlist.name,
+        keywords: watchlist.keywords,
+        patterns: watchlist.patterns,
+        requireAll: watchlist.requireAll,
+        categories: watchlist.categories,
+        sourceIds: watchlist.sourceIds,
+        minScore: watchlist.minScore,
+        enabled: watchlist.enabled,
+    };
+}
+
+/**
+ * Settings section for keyword watchlists. Matches show up in the
+ * dashboard's alert inbox after the next background refresh.
+ */
+export function WatchlistSettings() {
+    const [name, setName] = useState('');
+    const [keywords, setKeywords] = useState('');
+    const [patterns, setPatterns] = useState('');
+    const [requireAll, setRequireAll] = useState(false);
+    const [category, setCategory] = useState<SourceCategory | ''>('');
+    const [minScore, setMinScore] = useState(0);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const { data, mutate } = useSWR<WatchlistsResponse>('/api/alerts/watchlists', fetcher, {
+        revalidateOnFocus: false,
+    });
+    const watchlists = data?.success ? data.watchlists : [];
+
+    const resetForm = () => {
+        setName('');
+        setKeywords('');
+        setPatterns('');
+        setRequireAll(false);
+        setCategory('');
+        setMinScore(0);
+        setError('');
+    };
+
+    const handleCreate = async () => {
+        setIsSaving(true);
+        setError('');
+        try {
+            const input: WatchlistInput = {
+                name: name.trim(),
+                keywords: splitTerms(keywords),
+                patterns: splitTerms(patterns),
+                requireAll,
+                categories: category ? [category] : [],
+                sourceIds: [],
+                minScore,
+                enabled: true,
+            };
+            const res = await fetch('/api/alerts/watchlists', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+            });
+            const body = await res.json();
+            if (!res.ok || !body.success) {
+                setError(body.error || 'Failed to create watchlist');
+                return;
+            }
+            resetForm();
+            mutate();
+        } catch {
+            setError('Failed to create watchlist');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggle = async (watchlist: Watchlist) => {
+        await fetch(`/api/alerts/watchlists/${watchlist.id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...toInput(watchlist), enabled: !watchlist.enabled }),
+        });
+        mutate();
+    };
+
+    const handleDelete = async (watchlist: Watchlist) => {
+        if (!confirm(`Delete watchlist "${watchlist.name}" and its alerts?`)) return;
+        await fetch(`/api/alerts/watchlists/${watchlist.id}`, { method: 'DELETE' });
+        mutate();
+    };
+
+    return (
+        <section className="settings-section">
+            <h2>
+                <Bell size={18} style={{ display: 'inline', marginRight: '0.5rem' }} />
+                Watchlists
+            </h2>
+            <span className="setting-hint">
+                Get an alert when newly fetched items match these keywords or patterns
+            </span>
+
+            <div className="add-source-form">
+                <div className="keyword-input-row">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Watchlist name (e.g., Model launches)"
+                        className="keyword-input"
+                        aria-label="Watchlist name"
+                    />
+                </div>
+                <div className="keyword-input-row">
+                    <input
+                        type="text"
+                        value={keywords}
+                        onChange={(e) => setKeywords(e.target.value)}
+                        placeholder="Keywords, comma separated (e.g., Claude, Gemini)"
+                        className="keyword-input"
+                        aria-label="Watchlist keywords"
+                    />
+                </div>
+                <div className="keyword-input-row">
+                    <input
+                        type="text"
+                        value={patterns}
+                        onChange={(e) => setPatterns(e.target.value)}
+                        placeholder="Regex patterns, comma separated (optional, e.g., gpt-?5)"
+                        className="keyword-input"
+                        aria-label="Watchlist regex patterns"
+                    />
+                </div>
+                <div className="keyword-input-row">
+                    <select
+                        value={category}
+                        onChange={(e) => setCategory(e.target.value as SourceCategory | '')}
+                        className="priority-select"
+                        style={{ flex: 1 }}
+                        aria-label="Watchlist category"
+                    >
+                        <option value="">All categories</option>
+                        {Object.entries(CATEGORY_LABELS).map(([key, label]) => (
+                            <option key={key} value={key}>{label}</option>
+                        ))}
+                    </select>
+                    <label className="watchlist-field">
+                        Min score
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={minScore}
+                            onChange={(e) => setMinScore(Number(e.target.value))}
+                            className="keyword-input watchlist-score-input"
+                        />
+                    </label>
+                    <label className="watchlist-field">
+                        <input
+                            type="checkbox"
+                            checked={requireAll}
+                            onChange={(e) => setRequireAll(e.target.checked)}
+                        />
+                        Match all terms
+                    </label>
+                </div>
+                {error && (
+                    <p className="setting-hint" style={{ margin: 0, color: 'var(--error)' }}>
+                        {error}
+                    </p>
+                )}
+                <div className="keyword-input-row" style={{ justifyContent: 'flex-end' }}>
+                    <button
+                        onClick={handleCreate}
+                        className="add-keyword-btn"
+                        disabled={!name.trim() || (!keywords.trim() && !patterns.trim()) || isSaving}
+                    >
+                        <Plus size={16} />
+                        Add Watchlist
+                    </button>
+                </div>
+            </div>
+
+            {watchlists.length > 0 ? (
+                <div className="source-list">
+                    {watchlists.map((watchlist) => (
+                        <div
+                            key={watchlist.id}
+                            className={`source-item ${watchlist.enabled ? 'enabled' : 'disabled'}`}
+                        >
+                            <div className="source-info">
+                                <span className="source-name">{watchlist.name}</span>
+                                {watchlist.unreadCount > 0 && (
+                                    <span className="api-badge has-key">{watchlist.unreadCount} unread</span>
+                                )}
+                                <span className="watchlist-terms">
+                                    {[...watchlist.keywords, ...watchlist.patterns.map(p => `/${p}/`)]
+                                        .join(watchlist.requireAll ? ' + ' : ', ')}
+                                    {watchlist.categories.length > 0 && ` · ${watchlist.categories.map(c => CATEGORY_LABELS[c]).join(', ')}`}
+                                    {watchlist.minScore > 0 && ` · score ≥ ${watchlist.minScore}`}
+                                </span>
+                            </div>
+                            <div className="source-actions">
+                                <button
+                                    className="toggle-btn"
+                                    onClick={() => handleToggle(watchlist)}
+                                    aria-label={watchlist.enabled ? `Disable ${watchlist.name}` : `Enable ${watchlist.name}`}
+                                >
+                                    {watchlist.enabled ? <Check size={18} /> : <X size={18} />}
+                                </button>
+                                <button
+                                    className="delete-btn"
+                                    onClick={() => handleDelete(watchlist)}
+                                    aria-label={`Delete ${watchlist.name}`}
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="setting-hint" style={{ margin: 0 }}>
+                    No watchlists yet.
+                </p>
+            )}
+        </section>
+    );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import { Webhook, Check, X, Plus, Trash2, Send, Loader2 } from 'lucide-react';
+import { WebhookConfig, WebhookFormat } from '@/types';
+
+type PublicWebhook = Omit<WebhookConfig, 'secret'> & { hasSecret: boolean; deadLetterCount: number };
+
+interface WebhooksResponse {
+    success: boolean;
+    webhooks: PublicWebhook[];
+}
+
+const fetcher = (url: string) => fetch(url).then(r => r.json());
+
+const FORMAT_LABELS: Record<WebhookFormat, string> = {
+    slack: 'Slack',
+    discord: 'Discord',
+    json: 'JSON',
+};
+
+function describeTriggers(webhook: PublicWebhook): string {
+    const triggers: string[] = [];
+    if (webhook.onAlerts) triggers.push('alerts');
+    if (webhook.scoreThreshold !== null) triggers.push(`score ≥ ${webhook.scoreThreshold}`);
+    if (webhook.onStories) triggers.push('3+ platform stories');
+    if (webhook.dailyHour !== null) triggers.push(`daily ${String(webhook.dailyHour).padStart(2, '0')}:00 UTC`);
+    return triggers.join(' · ');
+}
+
+/**
+ * Settings section for outbound webhooks (Slack, Discord or raw JSON).
+ * Deliveries happen after background refreshes; failures land in the
+ * dead-letter log at /api/webhooks/dead-letters.
+ */
+export function WebhookSettings() {
+    const [name, setName] = useState('');
+    const [url, setUrl] = useState('');
+    const [format, setFormat] = useState<WebhookFormat>('slack');
+    const [secret, setSecret] = useState('');
+    const [onAlerts, setOnAlerts] = useState(true);
+    const [onStories, setOnStories] = useState(false);
+    const [scoreThreshold, setScoreThreshold] = useState('');
+    const [dailyHour, setDailyHour] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [testingId, setTestingId] = useState<string | null>(null);
+    const [testResults, setTestResults] = useState<Record<string, string>>({});
+
+    const { data, mutate } = useSWR<WebhooksResponse>('/api/webhooks', fetcher, {
+        revalidateOnFocus: false,
+    });
+    const webhooks = data?.success ? data.webhooks : [];
+
+    const resetForm = () => {
+        setName('');
+        setUrl('');
+        setFormat('slack');
+        setSecret('');
+        setOnAlerts(true);
+        setOnStories(false);
+        setScoreThreshold('');
+        setDailyHour('');
+        setError('');
+    };
+
+    const handleCreate = async () => {
+        setIsSaving(true);
+        setError('');
+        try {
+            const res = await fetch('/api/webhooks', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: name.trim(),
+                    url: url.trim(),
+                    format,
+                    secret: secret || undefined,
+                    onAlerts,
+                    onStories,
+                    scoreThreshold: scoreThreshold === '' ? null : Number(scoreThreshold),
+                    dailyHour: dailyHour === '' ? null : Number(dailyHour),
+                }),
+            });
+            const body = await res.json();
+            if (!res.ok || !body.success) {
+                setError(body.error || 'Failed to create webhook');
+                return;
+            }
+            resetForm();
+            mutate();
+        } catch {
+            setError('Failed to create webhook');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggle = async (webhook: PublicWebhook) => {
+        // Omitting `secret` keeps the stored one
+        await fetch(`/api/webhooks/${webhook.id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                name: webhook.name,
+                url: webhook.url,
+                format: webhook.format,
+                enabled: !webhook.enabled,
+                onAlerts: webhook.onAlerts,
+                scoreThreshold: webhook.scoreThreshold,
+                onStories: webhook.onStories,
+                dailyHour: webhook.dailyHour,
+            }),
+        });
+        mutate();
+    };
+
+    const handleDelete = async (webhook: PublicWebhook) => {
+        if (!confirm(`Delete webhook "${webhook.name}"?`)) return;
+        await fetch(`/api/webhooks/${webhook.id}`, { method: 'DELETE' });
+        mutate();
+    };
+
+    const handleTest = async (webhook: PublicWebhook) => {
+        setTestingId(webhook.id);
+        try {
+            const res = await fetch(`/api/webhooks/${webhook.id}/test`, { method: 'POST' });
+            const body = await res.json();
+            setTestResults(prev => ({
+                ...prev,
+                [webhook.id]: body.success ? 'Delivered' : `Failed: ${body.delivery?.error || body.error}`,
+            }));
+            mutate();
+        } catch {
+            setTestResults(prev => ({ ...prev, [webhook.id]: 'Failed: network error' }));
+        } finally {
+            setTestingId(null);
+        }
+    };
+
+    return (
+        <section className="settings-section">
+            <h2>
+                <Webhook size={18} style={{ display: 'inline', marginRight: '0.5rem' }} />
+                Webhooks
+            </h2>
+            <span className="setting-hint">
+                Push alerts, trending items and stories to Slack, Discord or any JSON endpoint
+            </span>
+
+            <div className="add-source-form">
+                <div className="keyword-input-row">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Webhook name (e.g., #ai-news)"
+                        className="keyword-input"
+                        aria-label="Webhook name"
+                    />
+                    <select
+                        value={format}
+                        onChange={(e) => setFormat(e.target.value as WebhookFormat)}
+                        className="priority-select"
+                        aria-label="Webhook format"
+                    >
+                        {Object.entries(FORMAT_LABELS).map(([key, label]) => (
+                            <option key={key} value={key}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="keyword-input-row">
+                    <input
+                        type="url"
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                        placeholder="Webhook URL"
+                        className="keyword-input"
+                        aria-label="Webhook URL"
+                    />
+                </div>
+                <div className="keyword-input-row">
+                    <input
+                        type="password"
+                        value={secret}
+                        onChange={(e) => setSecret(e.target.value)}
+                        placeholder="Signing secret (optional, sent as HMAC-SHA256 signature)"
+                        className="keyword-input"
+                        aria-label="Webhook signing secret"
+                        autoComplete="off"
+                    />
+                </div>
+                <div className="keyword-input-row webhook-triggers">
+                    <label className="watchlist-field">
+                        <input type="checkbox" checked={onAlerts} onChange={(e) => setOnAlerts(e.target.checked)} />
+                        Watchlist alerts
+                    </label>
+                    <label className="watchlist-field">
+                        <input type="checkbox" checked={onStories} onChange={(e) => setOnStories(e.target.checked)} />
+                        Stories on 3+ platforms
+                    </label>
+                    <label className="watchlist-field">
+                        Score ≥
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={scoreThreshold}
+                            onChange={(e) => setScoreThreshold(e.target.value)}
+                            placeholder="off"
+                            className="keyword-input watchlist-score-input"
+                        />
+                    </label>
+                    <label className="watchlist-field">
+                        Daily
+                        <select
+                            value={dailyHour}
+                            onChange={(e) => setDailyHour(e.target.value)}
+                            className="priority-select"
+                        >
+                            <option value="">off</option>
+                            {Array.from({ length: 24 }, (_, hour) => (
+                                <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00 UTC</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+                {error && (
+                    <p className="setting-hint" style={{ margin: 0, color: 'var(--error)' }}>
+                        {error}
+                    </p>
+                )}
+                <div className="keyword-input-row" style={{ justifyContent: 'flex-end' }}>
+                    <button
+                        onClick={handleCreate}
+                        className="add-keyword-btn"
+                        disabled={!name.trim() || !url.trim() || isSaving}
+                    >
+                        <Plus size={16} />
+                        Add Webhook
+                    </button>
+                </div>
+            </div>
+
+            {webhooks.length > 0 ? (
+                <div className="source-list">
+                    {webhooks.map((webhook) => (
+                        <div
+                            key={webhook.id}
+                            className={`source-item ${webhook.enabled ? 'enabled' : 'disabled'}`}
+                        >
+                            <div className="source-info">
+                                <span className="source-name">{webhook.name}</span>
+                                <span className="method-badge">{FORMAT_LABELS[webhook.format]}</span>
+                                {webhook.hasSecret && <span className="api-badge has-key">Signed</span>}
+                                {webhook.deadLetterCount > 0 && (
+                                    <span className="api-badge broken" title="Failed deliveries (see /api/webhooks/dead-letters)">
+                                        {webhook.deadLetterCount} failed
+                                    </span>
+                                )}
+                                <span className="watchlist-terms">
+                                    {testResults[webhook.id] || describeTriggers(webhook)}
+                                </span>
+                            </div>
+                            <div className="source-actions">
+                                <button
+                                    className="toggle-btn"
+                                    onClick={() => handleTest(webhook)}
+                                    disabled={testingId === webhook.id}
+                                    aria-label={`Send test to ${webhook.name}`}
+                                    title="Send test event"
+                                >
+                                    {testingId === webhook.id ? <Loader2 size={16} className="spinning" /> : <Send size={16} />}
+                                </button>
+                                <button
+                                    className="toggle-btn"
+                                    onClick={() => handleToggle(webhook)}
+                                    aria-label={webhook.enabled ? `Disable ${webhook.name}` : `Enable ${webhook.name}`}
+                                >
+                                    {webhook.enabled ? <Check size={18} /> : <X size={18} />}
+                                </button>
+                                <button
+                                    className="delete-btn"
+                                    onClick={() => handleDelete(webhook)}
+                                    aria-label={`Delete ${webhook.name}`}
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="setting-hint" style={{ margin: 0 }}>
+                    No webhooks yet.
+                </p>
+            )}
+        </section>
+    );
+}
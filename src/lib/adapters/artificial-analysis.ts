@@ -0,0 +1,45 @@
+import { SourceConfig } from '@/types';
+import { LeaderboardAdapter, LeaderboardEntry, parseLeaderboardTable } from './leaderboard';
+
+/**
+ * Artificial Analysis Adapter
+ * Scrapes the model leaderboard table and ranks by Intelligence Index.
+ * The table has no rank column, so rank comes from score order.
+ */
+export class ArtificialAnalysisAdapter extends LeaderboardAdapter {
+    protected scoreLabel = 'Intelligence Index';
+    protected leaderboardUrl = 'https://artificialanalysis.ai/leaderboards/models';
+
+    constructor(public source: SourceConfig) {
+        super(source);
+    }
+
+    protected async fetchEntries(): Promise<LeaderboardEntry[]> {
+        const res = await fetch(this.leaderboardUrl, {
+            headers: {
+                'User-Agent': 'AI-Trends-Dashboard/1.0',
+                'Accept': 'text/html',
+            },
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+        return parseArtificialAnalysisLeaderboard(await res.text());
+    }
+}
+
+/** Parse the Artificial Analysis models page HTML. */
+export function parseArtificialAnalysisLeaderboard(html: string): LeaderboardEntry[] {
+    const entries = parseLeaderboardTable(
+        html,
+        {
+            model: /^model$/i,
+            score: /intelligence/i,
+            organization: /creator|organi[sz]ation/i,
+        },
+        'https://artificialanalysis.ai'
+    );
+    // Row order on the page follows the active sort, not score — rank by score
+    return [...entries]
+        .sort((a, b) => b.score - a.score)
+        .map((e, idx) => ({ ...e, rank: idx + 1 }));
+}
@@ -7,6 +7,10 @@ import { GitHubAdapter } from './github';
 import { HuggingFaceAdapter } from './huggingface';
 import { PolymarketAdapter } from './polymarket';
 import { AnthropicAdapter } from './anthropic';
+import { PapersWithCodeAdapter } from './papers-with-code';
+import { LmsysArenaAdapter } from './lmsys-arena';
+import { OpenLLMLeaderboardAdapter } from './open-llm-leaderboard';
+import { ArtificialAnalysisAdapter } from './artificial-analysis';
 import { SourceConfig } from '@/types';
 
 /**
@@ -57,6 +61,12 @@ export function createAdapter(source: SourceConfig): SourceAdapter | null {
             if (source.id === 'polymarket') {
                 return new PolymarketAdapter(source);
             }
+            if (source.id === 'papers-with-code') {
+                return new PapersWithCodeAdapter(source);
+            }
+            if (source.id === 'open-llm-leaderboard') {
+                return new OpenLLMLeaderboardAdapter(source);
+            }
             // For other API sources, log and skip for now
             console.log(`API adapter not yet implemented for: ${source.name}`);
             return null;
@@ -65,6 +75,12 @@ export function createAdapter(source: SourceConfig): SourceAdapter | null {
             if (source.id === 'anthropic-blog') {
                 return new AnthropicAdapter(source);
             }
+            if (source.id === 'lmsys-arena') {
+                return new LmsysArenaAdapter(source);
+            }
+            if (source.id === 'artificial-analysis') {
+                return new ArtificialAnalysisAdapter(source);
+            }
             console.log(`Scrape adapter not yet implemented for: ${source.name}`);
             return null;
 
@@ -82,4 +98,8 @@ export { GitHubAdapter } from './github';
 export { HuggingFaceAdapter } from './huggingface';
 export { PolymarketAdapter } from './polymarket';
 export { AnthropicAdapter } from './anthropic';
+export { PapersWithCodeAdapter } from './papers-with-code';
+export { LmsysArenaAdapter } from './lmsys-arena';
+export { OpenLLMLeaderboardAdapter } from './open-llm-leaderboard';
+export { ArtificialAnalysisAdapter } from './artificial-analysis';
 export type { SourceAdapter } from './base';
@@ -0,0 +1,309 @@
+import * as cheerio from 'cheerio';
+import { ContentItem, SourceConfig, LeaderboardEntry, LeaderboardRankMap } from '@/types';
+import { BaseAdapter, AdapterOptions, createContentId } from './base';
+import { getLatestLeaderboardRanks, MAX_TRACKED_RANK, recordLeaderboardSnapshot } from '@/lib/db/leaderboard-tracker';
+
+export type { LeaderboardEntry } from '@/types';
+
+export type LeaderboardMovementKind = 'entered' | 'climbed' | 'fell' | 'dropped';
+
+export interface LeaderboardMovement {
+    kind: LeaderboardMovementKind;
+    entry: LeaderboardEntry;
+    previousRank: number | null;
+    previousScore: number | null;
+    /**
+     * Set on 'entered' when the model wasn't in a previous snapshot that was
+     * cut off at this rank: it was somewhere below it, not new to the board.
+     */
+    previouslyBelow: number | null;
+}
+
+/**
+ * Sort entries by rank (falling back to score) and re-number them 1..n.
+ *
+ * Source ranks can have ties ("Rank (UB)" on Arena) or be missing entirely
+ * (Artificial Analysis), so we always assign our own dense rank.
+ */
+export function rankEntries(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+    const seen = new Set<string>();
+    return entries
+        .filter(e => {
+            if (!e.model || !Number.isFinite(e.score) || seen.has(e.model)) return false;
+            seen.add(e.model);
+            return true;
+        })
+        .sort((a, b) => (a.rank - b.rank) || (b.score - a.score))
+        .map((e, idx) => ({ ...e, rank: idx + 1 }));
+}
+
+/**
+ * The rank a stored snapshot was cut off at, or null if it holds the whole
+ * board. A snapshot reaching `trackedDepth` is assumed to have been cut off.
+ */
+export function snapshotCutoff(previous: LeaderboardRankMap, trackedDepth: number): number | null {
+    return Object.values(previous).some(p => p.rank >= trackedDepth) ? trackedDepth : null;
+}
+
+/**
+ * Compare the current top N against the previous fetch.
+ *
+ * - entered: in the top N now, wasn't before
+ * - climbed: in the top N both times, rank improved
+ * - fell: in the top N both times, rank worsened
+ * - dropped: was in the top N, isn't anymore
+ *
+ * With no previous state (first fetch) nothing is emitted, otherwise every
+ * model would "enter" at once. `trackedDepth` is how many ranks the previous
+ * snapshot was stored with (see snapshotCutoff).
+ */
+export function diffLeaderboard(
+    previous: LeaderboardRankMap,
+    current: LeaderboardEntry[],
+    topN: number,
+    trackedDepth = Number.POSITIVE_INFINITY
+): LeaderboardMovement[] {
+    if (Object.keys(previous).length === 0) return [];
+
+    const cutoff = snapshotCutoff(previous, trackedDepth);
+    const movements: LeaderboardMovement[] = [];
+    const currentByModel = new Map(current.map(e => [e.model, e]));
+
+    for (const entry of current) {
+        if (entry.rank > topN) continue;
+        const prev = previous[entry.model];
+        if (!prev || prev.rank > topN) {
+            movements.push({
+                kind: 'entered',
+                entry,
+                previousRank: prev?.rank ?? null,
+                previousScore: prev?.score ?? null,
+                previouslyBelow: prev ? null : cutoff,
+            });
+        } else if (entry.rank !== prev.rank) {
+            movements.push({
+                kind: entry.rank < prev.rank ? 'climbed' : 'fell',
+                entry,
+                previousRank: prev.rank,
+                previousScore: prev.score,
+                previouslyBelow: null,
+            });
+        }
+    }
+
+    for (const [model, prev] of Object.entries(previous)) {
+        if (prev.rank > topN) continue;
+        const now = currentByModel.get(model);
+        if (now && now.rank <= topN) continue;
+        movements.push({
+            kind: 'dropped',
+            // Model vanished from the board entirely: keep its last known score
+            entry: now ?? { model, rank: Number.POSITIVE_INFINITY, score: prev.score },
+            previousRank: prev.rank,
+            previousScore: prev.score,
+            previouslyBelow: null,
+        });
+    }
+
+    return movements;
+}
+
+export interface TableColumnMatchers {
+    model: RegExp;
+    score: RegExp;
+    rank?: RegExp;
+    organization?: RegExp;
+}
+
+/**
+ * Parse a leaderboard rendered as an HTML <table>.
+ *
+ * Columns are located by header text rather than position so that added or
+ * reordered columns don't break parsing. When the page has several tables,
+ * the one with the most parseable rows wins.
+ */
+export function parseLeaderboardTable(
+    html: string,
+    columns: TableColumnMatchers,
+    baseUrl: string
+): LeaderboardEntry[] {
+    const $ = cheerio.load(html);
+    let best: LeaderboardEntry[] = [];
+
+    $('table').each((_, table) => {
+        // Prefer <thead>; some boards render the header as the first <tr>
+        const $thead = $(table).find('thead th');
+        const hasThead = $thead.length > 0;
+        const headers = hasThead ? $thead : $(table).find('tr').first().find('th, td');
+        const headerText = headers.map((__, h) => $(h).text().trim()).get();
+
+        const find = (re?: RegExp) => (re ? headerText.findIndex(h => re.test(h)) : -1);
+        const modelIdx = find(columns.model);
+        const scoreIdx = find(columns.score);
+        if (modelIdx === -1 || scoreIdx === -1) return;
+        const rankIdx = find(columns.rank);
+        const orgIdx = find(columns.organization);
+
+        const entries: LeaderboardEntry[] = [];
+        const $rows = hasThead ? $(table).find('tbody tr') : $(table).find('tr').slice(1);
+        $rows.each((rowIdx, row) => {
+            const cells = $(row).find('td');
+            if (cells.length <= Math.max(modelIdx, scoreIdx)) return;
+
+            const $model = cells.eq(modelIdx);
+            const model = $model.text().trim().replace(/\s+/g, ' ');
+            const score = parseNumber(cells.eq(scoreIdx).text());
+            if (!model || score === null) return;
+
+            const rank = rankIdx !== -1 ? parseNumber(cells.eq(rankIdx).text()) : null;
+            const href = $model.find('a[href]').first().attr('href');
+
+            entries.push({
+                model,
+                score,
+                rank: rank ?? rowIdx + 1,
+                organization: orgIdx !== -1 ? cells.eq(orgIdx).text().trim() || undefined : undefined,
+                url: href ? new URL(href, baseUrl).toString() : undefined,
+            });
+        });
+
+        if (entries.length > best.length) best = entries;
+    });
+
+    return best;
+}
+
+function parseNumber(text: string): number | null {
+    const match = text.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    if (!match) return null;
+    const value = parseFloat(match[0]);
+    return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Base class for leaderboard sources.
+ *
+ * Subclasses only parse the board (`fetchEntries`). This class turns the
+ * parsed board into two kinds of items:
+ * 1. Standings — one item per top-N model, with rank, score and deltas since
+ *    the last fetch. IDs are stable per model so each fetch upserts in place.
+ * 2. Movements — one synthetic item per model that entered, moved within or
+ *    dropped out of the top N since the last fetch ("GPT-X moved from #7 to
+ *    #2 on LMSYS Arena"). These are the high-signal items.
+ *
+ * Every fetch is recorded in `leaderboard_snapshots`; the latest snapshot is
+ * the baseline for the next diff and the source for rank history charts.
+ */
+export abstract class LeaderboardAdapter extends BaseAdapter {
+    /** Size of the tracked top-N window. */
+    protected topN = 10;
+    /** Unit shown next to scores, e.g. "Elo". */
+    protected abstract scoreLabel: string;
+    /** Public page linked from standings/movement items. */
+    protected abstract leaderboardUrl: string;
+
+    constructor(public source: SourceConfig) {
+        super(source);
+    }
+
+    protected abstract fetchEntries(): Promise<LeaderboardEntry[]>;
+
+    async fetch(options?: AdapterOptions): Promise<ContentItem[]> {
+        try {
+            const entries = rankEntries(await this.fetchWithRetry(() => this.fetchEntries()));
+            if (entries.length === 0) {
+                console.warn(`[${this.source.name}] Parsed 0 leaderboard entries — possible markup/API change`);
+                return [];
+            }
+
+            const previous: LeaderboardRankMap = await getLatestLeaderboardRanks(this.source.id);
+            const movements = diffLeaderboard(previous, entries, this.topN, MAX_TRACKED_RANK);
+            const cutoff = snapshotCutoff(previous, MAX_TRACKED_RANK);
+            const now = new Date();
+
+            const items = [
+                ...movements.map(m => this.toMovementItem(m, now)),
+                ...entries.slice(0, this.topN).map(e => this.toStandingItem(e, previous[e.model], cutoff, now)),
+            ];
+
+            await recordLeaderboardSnapshot(this.source.id, entries, now);
+
+            return items;
+        } catch (error) {
+            console.error(`Failed to fetch ${this.source.name}:`, error);
+            return [];
+        }
+    }
+
+    private toStandingItem(
+        entry: LeaderboardEntry,
+        prev: { rank: number; score: number } | undefined,
+        cutoff: number | null,
+        now: Date
+    ): ContentItem {
+        const parts = [`Rank #${entry.rank}`, `${this.formatScore(entry.score)} ${this.scoreLabel}`];
+        if (prev) {
+            const rankDelta = prev.rank - entry.rank;
+            const scoreDelta = entry.score - prev.score;
+            if (rankDelta !== 0) parts.push(`${rankDelta > 0 ? '▲' : '▼'}${Math.abs(rankDelta)} since last fetch`);
+            if (Math.abs(scoreDelta) >= 0.01) parts.push(`${scoreDelta > 0 ? '+' : ''}${this.formatScore(scoreDelta)} ${this.scoreLabel}`);
+        } else {
+            parts.push(cutoff !== null ? `up from outside the top ${cutoff}` : 'new on board');
+        }
+        if (entry.organization) parts.push(entry.organization);
+
+        return {
+            id: createContentId(this.source.id, `standing:${entry.model}`),
+            sourceId: this.source.id,
+            title: `#${entry.rank} ${entry.model} on ${this.source.name}`,
+            description: parts.join(' | '),
+            url: entry.url || this.leaderboardUrl,
+            publishedAt: now,
+            fetchedAt: now,
+            author: entry.organization,
+            tags: ['leaderboard', `top-${this.topN}`],
+        };
+    }
+
+    private toMovementItem(movement: LeaderboardMovement, now: Date): ContentItem {
+        const { kind, entry, previousRank, previouslyBelow } = movement;
+        const board = this.source.name;
+        let title: string;
+        switch (kind) {
+            case 'entered':
+                if (previousRank) {
+                    title = `${entry.model} enters the top ${this.topN} on ${board} (#${previousRank} → #${entry.rank})`;
+                } else if (previouslyBelow) {
+                    title = `${entry.model} enters the top ${this.topN} on ${board} from outside the top ${previouslyBelow} (now #${entry.rank})`;
+                } else {
+                    title = `${entry.model} debuts at #${entry.rank} on ${board}`;
+                }
+                break;
+            case 'climbed':
+            case 'fell':
+                title = `${entry.model} moved from #${previousRank} to #${entry.rank} on ${board}`;
+                break;
+            case 'dropped':
+                title = Number.isFinite(entry.rank)
+                    ? `${entry.model} drops out of the top ${this.topN} on ${board} (#${previousRank} → #${entry.rank})`
+                    : `${entry.model} drops off ${board} (was #${previousRank})`;
+                break;
+        }
+
+        return {
+            id: createContentId(this.source.id, `${kind}:${entry.model}:${previousRank}:${entry.rank}:${now.toISOString()}`),
+            sourceId: this.source.id,
+            title,
+            description: `${this.formatScore(entry.score)} ${this.scoreLabel}${entry.organization ? ` | ${entry.organization}` : ''}`,
+            url: entry.url || this.leaderboardUrl,
+            publishedAt: now,
+            fetchedAt: now,
+            author: entry.organization,
+            tags: ['leaderboard', `rank-${kind}`],
+        };
+    }
+
+    private formatScore(score: number): string {
+        return Number.isInteger(score) ? score.toString() : score.toFixed(1);
+    }
+}
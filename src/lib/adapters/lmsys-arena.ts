@@ -0,0 +1,42 @@
+import { SourceConfig } from '@/types';
+import { LeaderboardAdapter, LeaderboardEntry, parseLeaderboardTable } from './leaderboard';
+
+/**
+ * LMSYS Chatbot Arena Adapter
+ * Scrapes the text leaderboard table (chat.lmsys.org now redirects to lmarena.ai).
+ * Score column is the Arena Elo rating.
+ */
+export class LmsysArenaAdapter extends LeaderboardAdapter {
+    protected scoreLabel = 'Elo';
+    protected leaderboardUrl = 'https://lmarena.ai/leaderboard/text';
+
+    constructor(public source: SourceConfig) {
+        super(source);
+    }
+
+    protected async fetchEntries(): Promise<LeaderboardEntry[]> {
+        const res = await fetch(this.leaderboardUrl, {
+            headers: {
+                'User-Agent': 'AI-Trends-Dashboard/1.0',
+                'Accept': 'text/html',
+            },
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+        return parseArenaLeaderboard(await res.text());
+    }
+}
+
+/** Parse the Arena leaderboard page HTML. */
+export function parseArenaLeaderboard(html: string): LeaderboardEntry[] {
+    return parseLeaderboardTable(
+        html,
+        {
+            model: /^model$/i,
+            score: /score|elo|rating/i,
+            rank: /^rank/i,
+            organization: /organi[sz]ation/i,
+        },
+        'https://lmarena.ai'
+    );
+}
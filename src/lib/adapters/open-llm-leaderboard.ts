@@ -0,0 +1,58 @@
+import { SourceConfig } from '@/types';
+import { LeaderboardAdapter, LeaderboardEntry } from './leaderboard';
+
+interface OpenLLMRow {
+    fullname?: string;
+    'Average ⬆️'?: number;
+}
+
+interface DatasetsServerResponse {
+    rows: { row_idx: number; row: OpenLLMRow }[];
+}
+
+/**
+ * Open LLM Leaderboard Adapter
+ * Reads the leaderboard's results dataset through the Hugging Face
+ * datasets-server API (the Space itself is a Gradio app with no stable API).
+ */
+export class OpenLLMLeaderboardAdapter extends LeaderboardAdapter {
+    protected scoreLabel = 'avg';
+    protected leaderboardUrl = 'https://huggingface.co/spaces/open-llm-leaderboard/open_llm_leaderboard';
+    private apiUrl = 'https://datasets-server.huggingface.co/filter'
+        + '?dataset=open-llm-leaderboard/contents&config=default&split=train'
+        + `&orderby=${encodeURIComponent('"Average ⬆️" DESC')}&length=100`;
+
+    constructor(public source: SourceConfig) {
+        super(source);
+    }
+
+    protected async fetchEntries(): Promise<LeaderboardEntry[]> {
+        const response = await fetch(this.apiUrl, {
+            headers: { Accept: 'application/json' },
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text().catch(() => 'Unknown error');
+            throw new Error(`Open LLM Leaderboard API error: ${response.status} - ${errorText}`);
+        }
+
+        return parseOpenLLMRows(await response.json());
+    }
+}
+
+/** Convert a datasets-server response into ranked entries. */
+export function parseOpenLLMRows(data: DatasetsServerResponse): LeaderboardEntry[] {
+    return (data.rows ?? [])
+        .map(({ row }) => row)
+        .filter((row): row is OpenLLMRow & { fullname: string; 'Average ⬆️': number } =>
+            !!row.fullname && typeof row['Average ⬆️'] === 'number'
+        )
+        .sort((a, b) => b['Average ⬆️'] - a['Average ⬆️'])
+        .map((row, idx) => ({
+            model: row.fullname,
+            rank: idx + 1,
+            score: row['Average ⬆️'],
+            organization: row.fullname.split('/')[0],
+            url: `https://huggingface.co/${row.fullname}`,
+        }));
+}
@@ -0,0 +1,95 @@
+import { BaseAdapter, AdapterOptions, createContentId, parseDate } from './base';
+import { SourceConfig, ContentItem } from '@/types';
+
+interface HFPaper {
+    id: string;                 // arXiv ID, e.g. "2401.12345"
+    title: string;
+    summary?: string;
+    publishedAt?: string;
+    upvotes?: number;
+    authors?: { name: string }[];
+    githubRepo?: string;
+    githubStars?: number;
+    ai_keywords?: string[];     // Task / method / benchmark keywords
+}
+
+interface HFDailyPaper {
+    paper: HFPaper;
+    publishedAt?: string;
+    numComments?: number;
+}
+
+/**
+ * Papers with Code adapter — fetches trending papers that ship code.
+ *
+ * paperswithcode.com now redirects to Hugging Face Papers, so this reads the
+ * HF daily papers API, which carries the same paper → GitHub repo linkage.
+ * Each item keeps the paper's arXiv ID and repo URL so cross-platform linking
+ * can join it to the matching arxiv-cs-* and github-trending items.
+ */
+export class PapersWithCodeAdapter extends BaseAdapter {
+    constructor(public source: SourceConfig) {
+        super(source);
+    }
+
+    async fetch(options?: AdapterOptions): Promise<ContentItem[]> {
+        try {
+            return await this.fetchWithRetry(() => this.fetchPapers());
+        } catch (error) {
+            console.error('Error fetching from Papers with Code:', error);
+            return [];
+        }
+    }
+
+    private async fetchPapers(): Promise<ContentItem[]> {
+        const response = await fetch(
+            'https://huggingface.co/api/daily_papers?sort=trending&limit=50',
+            {
+                headers: { Accept: 'application/json' },
+                next: { revalidate: 1800 },
+            }
+        );
+
+        if (!response.ok) {
+            const errorText = await response.text().catch(() => 'Unknown error');
+            throw new Error(`HuggingFace Papers API error: ${response.status} - ${errorText}`);
+        }
+
+        const papers: HFDailyPaper[] = await response.json();
+
+        // Only papers with code — that's what this source is for
+        return papers
+            .filter(({ paper }) => !!paper?.githubRepo)
+            .map(({ paper, publishedAt, numComments }) => ({
+                id: createContentId(this.source.id, paper.id),
+                sourceId: this.source.id,
+                title: paper.title,
+                description: this.buildDescription(paper),
+                url: `https://huggingface.co/papers/${paper.id}`,
+                publishedAt: parseDate(publishedAt || paper.publishedAt),
+                fetchedAt: new Date(),
+                author: this.formatAuthors(paper.authors),
+                tags: paper.ai_keywords?.slice(0, 5),
+                engagement: {
+                    upvotes: paper.upvotes,
+                    stars: paper.githubStars,
+                    comments: numComments,
+                },
+                arxivId: paper.id,
+                repoUrl: paper.githubRepo,
+            }));
+    }
+
+    private buildDescription(paper: HFPaper): string {
+        const repo = paper.githubRepo!.replace(/^https?:\/\/(www\.)?github\.com\//, '');
+        const stars = paper.githubStars ? ` ⭐ ${paper.githubStars}` : '';
+        const summary = this.cleanDescription(paper.summary || '');
+        return `📦 ${repo}${stars}${summary ? ` — ${summary}` : ''}`;
+    }
+
+    private formatAuthors(authors?: { name: string }[]): string | undefined {
+        if (!authors || authors.length === 0) return undefined;
+        if (authors.length <= 2) return authors.map(a => a.name).join(', ');
+        return `${authors[0].name} et al.`;
+    }
+}
@@ -0,0 +1,13 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Admin and cron routes are open unless CRON_SECRET is set; then they need
+ * `Authorization: Bearer <CRON_SECRET>`, the header Vercel Cron sends.
+ */
+export function isAuthorizedAdminRequest(request: Request): boolean {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) return true;
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const actual = Buffer.from(request.headers.get('authorization') ?? '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
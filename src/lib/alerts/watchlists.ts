@@ -0,0 +1,159 @@
+import { ContentItem, SourceCategory, Watchlist, WatchlistInput, CATEGORY_LABELS } from '@/types';
+import { getEffectiveConfig, getEffectiveSourceList } from '@/lib/config/resolve';
+import { getCachedContentBySourceIds } from '@/lib/db/actions';
+import { getWatchlists, recordAlerts, AlertMatch, RecordedAlert } from '@/lib/db/alerts';
+import { scoreAndSortItems, linkAndAmplify } from '@/lib/scoring';
+
+const MAX_TERMS = 20;
+const MAX_TERM_LENGTH = 200;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Case-insensitive whole-word/phrase matcher ("llm" matches "LLM-based", not "llama"). */
+export function keywordMatcher(keyword: string): RegExp {
+    return new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword.toLowerCase())}($|[^a-z0-9])`, 'i');
+}
+
+export function compilePattern(pattern: string): RegExp | null {
+    try {
+        return new RegExp(pattern, 'i');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Check one item against a watchlist's terms and scope (score is checked
+ * separately, since it needs the scored item set).
+ * Returns the matched terms, or null when the item doesn't match.
+ */
+export function matchWatchlist(
+    item: ContentItem,
+    watchlist: Watchlist,
+    category: SourceCategory | undefined
+): string[] | null {
+    if (watchlist.categories.length > 0 && (!category || !watchlist.categories.includes(category))) return null;
+    if (watchlist.sourceIds.length > 0 && !watchlist.sourceIds.includes(item.sourceId)) return null;
+
+    const terms = [
+        ...watchlist.keywords.map(k => ({ term: k, re: keywordMatcher(k) })),
+        ...watchlist.patterns.map(p => ({ term: p, re: compilePattern(p) })),
+    ];
+    if (terms.length === 0) return null;
+
+    const text = `${item.title} ${item.description || ''} ${item.tags?.join(' ') || ''}`;
+    const matched = terms.filter(t => t.re?.test(text)).map(t => t.term);
+
+    if (watchlist.requireAll ? matched.length < terms.length : matched.length === 0) return null;
+    return matched;
+}
+
+/**
+ * Validate and normalize a watchlist from a request body.
+ * Returns the cleaned input or an error message.
+ */
+export function parseWatchlistInput(body: unknown): { input: WatchlistInput } | { error: string } {
+    if (typeof body !== 'object' || body === null) return { error: 'Expected a JSON object' };
+    const obj = body as Record<string, unknown>;
+
+    const name = typeof obj.name === 'string' ? obj.name.trim() : '';
+    if (!name || name.length > 100) return { error: 'Invalid name. Must be 1-100 characters' };
+
+    const toTerms = (value: unknown) => Array.isArray(value)
+        ? [...new Set(value
+            .filter((v): v is string => typeof v === 'string')
+            .map(v => v.trim())
+            .filter(v => v.length > 0 && v.length <= MAX_TERM_LENGTH))]
+        : [];
+    const keywords = toTerms(obj.keywords);
+    const patterns = toTerms(obj.patterns);
+    if (keywords.length + patterns.length === 0) {
+        return { error: 'A watchlist needs at least one keyword or pattern' };
+    }
+    if (keywords.length + patterns.length > MAX_TERMS) {
+        return { error: `Too many terms. Max ${MAX_TERMS} keywords + patterns` };
+    }
+    const badPattern = patterns.find(p => compilePattern(p) === null);
+    if (badPattern) return { error: `Invalid regex pattern: ${badPattern}` };
+
+    const validCategories = Object.keys(CATEGORY_LABELS) as SourceCategory[];
+    const categories = Array.isArray(obj.categories) ? obj.categories : [];
+    const invalidCategories = categories.filter(c => !validCategories.includes(c as SourceCategory));
+    if (invalidCategories.length > 0) {
+        return { error: `Invalid categories: ${invalidCategories.join(', ')}. Must be one of: ${validCategories.join(', ')}` };
+    }
+
+    const sourceIds = toTerms(obj.sourceIds);
+
+    const minScore = obj.minScore === undefined ? 0 : Number(obj.minScore);
+    if (isNaN(minScore) || minScore < 0 || minScore > 100) {
+        return { error: 'Invalid minScore. Must be a number between 0 and 100' };
+    }
+
+    return {
+        input: {
+            name,
+            keywords,
+            patterns,
+            requireAll: obj.requireAll === true,
+            categories: categories as SourceCategory[],
+            sourceIds,
+            minScore,
+            enabled: obj.enabled !== false,
+        },
+    };
+}
+
+/**
+ * Match freshly fetched items against every enabled watchlist and store hits.
+ *
+ * Trending scores are relative (percentiles within a source type), so
+ * candidates are scored together with the last 24h of their sources rather
+ * than on their own. Only candidates found in that set are alerted on, which
+ * also guarantees they were cached (alerts reference content_items).
+ * Returns the new alerts.
+ */
+export async function evaluateWatchlists(items: ContentItem[]): Promise<RecordedAlert[]> {
+    if (items.length === 0) return [];
+
+    const active = (await getWatchlists()).filter(w => w.enabled);
+    if (active.length === 0) return [];
+
+    const sourceList = await getEffectiveSourceList();
+    const categoryBySource = new Map(sourceList.all.map(s => [s.id, s.category]));
+
+    // Cheap pass first: term/scope matches, no scoring
+    const candidates: { watchlist: Watchlist; itemId: string; matchedTerms: string[] }[] = [];
+    for (const item of items) {
+        for (const watchlist of active) {
+            const matchedTerms = matchWatchlist(item, watchlist, categoryBySource.get(item.sourceId));
+            if (matchedTerms) candidates.push({ watchlist, itemId: item.id, matchedTerms });
+        }
+    }
+    if (candidates.length === 0) return [];
+
+    const candidateIds = new Set(candidates.map(c => c.itemId));
+    const sourceIds = [...new Set(items.filter(i => candidateIds.has(i.id)).map(i => i.sourceId))];
+    const config = await getEffectiveConfig();
+    const scored = linkAndAmplify(scoreAndSortItems(
+        await getCachedContentBySourceIds(sourceIds, '24h'),
+        {
+            priorities: config.priorities,
+            boostKeywords: config.boostKeywords,
+            weights: config.scoringWeights.base,
+            recencyHalfLifeHours: config.scoringWeights.recencyHalfLifeHours,
+        }
+    ));
+    const scoreById = new Map(scored.map(i => [i.id, i.trendingScore || 0]));
+
+    const matches: AlertMatch[] = [];
+    for (const { watchlist, itemId, matchedTerms } of candidates) {
+        const score = scoreById.get(itemId);
+        if (score === undefined || score < watchlist.minScore) continue;
+        matches.push({ watchlistId: watchlist.id, contentId: itemId, matchedTerms, score });
+    }
+
+    return recordAlerts(matches);
+}
@@ -1,4 +1,12 @@
-import { ContentType, SourceCategory } from '@/types';
+import { ContentType, SourceCategory, CONTENT_TYPE_LABELS } from '@/types';
+
+/**
+ * Bump whenever RULES change. Stored alongside each classification so rows
+ * classified under older rules are recomputed (see reclassifyContentTypes).
+ */
+export const CONTENT_TYPE_RULES_VERSION = 1;
+
+export const CONTENT_TYPES = Object.keys(CONTENT_TYPE_LABELS) as ContentType[];
 
 interface ClassifiableItem {
   title: string;
@@ -57,3 +65,8 @@ export function classifyContentType(
   }
   return 'opinion';
 }
+
+/** True when `value` is a known content type. */
+export function isContentType(value: string): value is ContentType {
+  return (CONTENT_TYPES as string[]).includes(value);
+}
@@ -34,23 +34,37 @@ const DOMAIN_QUALITY: Record<string, FetchQuality> = {
   'ft.com': 'low',
 };
 
+/**
+ * Lowercased hostname of a URL without a leading "www.", or null if the
+ * URL can't be parsed.
+ */
+export function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/** True when `hostname` is `domain` or one of its subdomains (sub.medium.com → medium.com). */
+export function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith('.' + domain);
+}
+
 /**
  * Returns a quality assessment for how fetchable/scrapable content
  * from a given URL's domain is likely to be.
  */
 export function getDomainQuality(url: string): FetchQuality {
-  try {
-    const hostname = new URL(url).hostname.replace(/^www\./, '');
-    // Check exact match first, then try parent domain (e.g. blog.google → google)
-    if (DOMAIN_QUALITY[hostname]) return DOMAIN_QUALITY[hostname];
-    // Check if any known domain is a suffix (e.g. sub.medium.com → medium.com)
-    for (const [domain, quality] of Object.entries(DOMAIN_QUALITY)) {
-      if (hostname === domain || hostname.endsWith('.' + domain)) {
-        return quality;
-      }
+  const hostname = getHostname(url);
+  if (!hostname) return 'unknown';
+  // Check exact match first, then try parent domain (e.g. blog.google → google)
+  if (DOMAIN_QUALITY[hostname]) return DOMAIN_QUALITY[hostname];
+  // Check if any known domain is a suffix (e.g. sub.medium.com → medium.com)
+  for (const [domain, quality] of Object.entries(DOMAIN_QUALITY)) {
+    if (matchesDomain(hostname, domain)) {
+      return quality;
     }
-    return 'unknown';
-  } catch {
-    return 'unknown';
   }
+  return 'unknown';
 }
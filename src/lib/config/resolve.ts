@@ -10,6 +10,9 @@ import {
     getAllSettings,
     getAllSourcePriorities,
     getBoostKeywords,
+    getMuteRules,
+    getScoringWeights,
+    getAffinityModel,
     getYouTubeChannels,
     getCustomSubreddits,
     getCustomSources,
@@ -20,7 +23,7 @@ import { db } from '@/lib/db';
 import { sources } from '@/lib/db/schema';
 import { SOURCES, customToSourceConfig } from '@/lib/config/sources';
 import { settingsCache } from '@/lib/cache/memory-cache';
-import type { SourceConfig, SourceCategory, CustomSourceConfig, TimeRange } from '@/types';
+import type { SourceConfig, SourceCategory, CustomSourceConfig, TimeRange, MuteRule, ScoringWeights, AffinityModel } from '@/types';
 import type { YouTubeChannelConfig } from '@/lib/config/youtube-channels';
 import type { SubredditConfig } from '@/lib/config/subreddit-sources';
 
@@ -34,6 +37,12 @@ export interface EffectiveConfig {
     enabledSourceIds: string[];
     priorities: Map<string, number>;
     boostKeywords: string[];
+    muteRules: MuteRule[];
+    scoringWeights: ScoringWeights;
+    /** Affinities learned from feedback events (the "For you" mode) */
+    affinities: AffinityModel;
+    /** Sources whose priority was set away from its default; learned source affinity is ignored for them */
+    explicitPrioritySources: Set<string>;
     youtubeChannels: YouTubeChannelConfig[];
     customSubreddits: SubredditConfig[];
     customSources: CustomSourceConfig[];
@@ -85,6 +94,9 @@ export async function getEffectiveConfig(): Promise<EffectiveConfig> {
         theme,
         timeRange,
         boostKeywords,
+        muteRules,
+        scoringWeights,
+        affinities,
         youtubeChannels,
         customSubreddits,
         customSources,
@@ -93,6 +105,9 @@ export async function getEffectiveConfig(): Promise<EffectiveConfig> {
         getSetting('theme', 'dark'),
         getSetting<TimeRange>('timeRange', '24h'),
         getBoostKeywords(),
+        getMuteRules(),
+        getScoringWeights(),
+        getAffinityModel(),
         getYouTubeChannels(),
         getCustomSubreddits(),
         getCustomSources(),
@@ -105,6 +120,17 @@ export async function getEffectiveConfig(): Promise<EffectiveConfig> {
         priorities.set(row.id, row.priority ?? 3);
     }
 
+    // A priority that differs from the source's default was set explicitly
+    const defaultPriorities = new Map<string, number>([
+        ...SOURCES.map(s => [s.id, s.defaultPriority ?? 3] as const),
+        ...customSources.map(cs => [cs.id, customToSourceConfig(cs).defaultPriority ?? 3] as const),
+    ]);
+    const explicitPrioritySources = new Set(
+        dbSources
+            .filter(row => row.priority !== null && row.priority !== (defaultPriorities.get(row.id) ?? 3))
+            .map(row => row.id)
+    );
+
     // Compute enabled IDs in-memory from already-fetched data (no extra queries)
     const enabledSourceIds = computeEnabledSourceIds(dbSources, customSources, deletedSourceIds);
 
@@ -114,6 +140,10 @@ export async function getEffectiveConfig(): Promise<EffectiveConfig> {
         enabledSourceIds,
         priorities,
         boostKeywords,
+        muteRules,
+        scoringWeights,
+        affinities,
+        explicitPrioritySources,
         youtubeChannels,
         customSubreddits,
         customSources,
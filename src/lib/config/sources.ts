@@ -204,14 +204,12 @@ export const SOURCES: SourceConfig[] = [
         name: 'Papers with Code',
         category: 'dev-platforms',
         url: 'https://huggingface.co/papers',
-        feedUrl: 'https://paperswithcode.com/rss',
-        method: 'rss',
-        enabled: false,
+        method: 'api',
+        enabled: true,
         requiresKey: false,
         icon: '📄',
         logoUrl: faviconUrl('https://huggingface.co/papers'),
-        defaultPriority: 1,
-        brokenReason: 'Site redirects to HuggingFace papers',
+        defaultPriority: 4, // Good priority: Trending papers with code, via HF Papers API
     },
     {
         id: 'langchain-blog',
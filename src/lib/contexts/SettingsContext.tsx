@@ -2,7 +2,8 @@
 
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { SOURCES } from '@/lib/config/sources';
-import { TimeRange, CustomSourceConfig } from '@/types';
+import { TimeRange, CustomSourceConfig, MuteRule, ScoringWeights } from '@/types';
+import { DEFAULT_SCORING_WEIGHTS } from '@/lib/scoring/weights';
 import { YouTubeChannelConfig } from '@/lib/config/youtube-channels';
 import { SubredditConfig } from '@/lib/config/subreddit-sources';
 
@@ -29,6 +30,12 @@ interface SettingsContextValue {
     // Keyword boost
     boostKeywords: string[];
     setBoostKeywords: (keywords: string[]) => void;
+    // Mute rules
+    muteRules: MuteRule[];
+    setMuteRules: (rules: MuteRule[]) => void;
+    // Scoring weights
+    scoringWeights: ScoringWeights;
+    setScoringWeights: (weights: ScoringWeights) => Promise<boolean>;
     // YouTube channels
     youtubeChannels: YouTubeChannelConfig[];
     setYouTubeChannels: (channels: YouTubeChannelConfig[]) => void;
@@ -54,6 +61,8 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
     const [enabledSources, setEnabledSources] = useState<Set<string>>(new Set(getAllSourceIds()));
     const [priorities, setPriorities] = useState<Map<string, number>>(new Map());
     const [boostKeywords, setBoostKeywordsState] = useState<string[]>([]);
+    const [muteRules, setMuteRulesState] = useState<MuteRule[]>([]);
+    const [scoringWeights, setScoringWeightsState] = useState<ScoringWeights>(DEFAULT_SCORING_WEIGHTS);
     const [youtubeChannels, setYouTubeChannelsState] = useState<YouTubeChannelConfig[]>([]);
     const [customSubreddits, setCustomSubredditsState] = useState<SubredditConfig[]>([]);
     const [customSources, setCustomSourcesState] = useState<CustomSourceConfig[]>([]);
@@ -80,6 +89,14 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
                     if (data.boostKeywords) {
                         setBoostKeywordsState(data.boostKeywords);
                     }
+                    // Load mute rules
+                    if (data.muteRules) {
+                        setMuteRulesState(data.muteRules);
+                    }
+                    // Load scoring weights
+                    if (data.scoringWeights) {
+                        setScoringWeightsState(data.scoringWeights);
+                    }
                     // Load YouTube channels
                     if (data.youtubeChannels) {
                         setYouTubeChannelsState(data.youtubeChannels);
@@ -276,6 +293,24 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
         });
     }, [boostKeywords, syncSetting]);
 
+    const setMuteRules = useCallback((rules: MuteRule[]) => {
+        const oldRules = muteRules;
+        setMuteRulesState(rules);
+
+        syncSetting('SET_MUTE_RULES', { rules }, () => {
+            setMuteRulesState(oldRules);
+        });
+    }, [muteRules, syncSetting]);
+
+    const setScoringWeights = useCallback((weights: ScoringWeights) => {
+        const oldWeights = scoringWeights;
+        setScoringWeightsState(weights);
+
+        return syncSetting('SET_SCORING_WEIGHTS', { weights }, () => {
+            setScoringWeightsState(oldWeights);
+        });
+    }, [scoringWeights, syncSetting]);
+
     const setYouTubeChannels = useCallback((channels: YouTubeChannelConfig[]) => {
         const oldChannels = youtubeChannels;
         setYouTubeChannelsState(channels);
@@ -369,6 +404,10 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
                 getSourcePriority,
                 boostKeywords,
                 setBoostKeywords,
+                muteRules,
+                setMuteRules,
+                scoringWeights,
+                setScoringWeights,
                 youtubeChannels,
                 setYouTubeChannels,
                 customSubreddits,
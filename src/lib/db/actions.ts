@@ -2,13 +2,17 @@ import { db } from './index';
 import { settings, sources, contentItems } from './schema';
 import { eq, inArray, gte, and, desc, sql } from 'drizzle-orm';
 import { SOURCES, getSourceById } from '@/lib/config/sources';
-import { ContentItem, CustomSourceConfig, TimeRange, SourceHealthMap } from '@/types';
+import { ContentItem, CustomSourceConfig, TimeRange, SourceHealthMap, SourceCategory, MuteRule, ScoringWeights, AffinityModel, RetentionPolicy, RetentionReport, RefreshRunSummary } from '@/types';
 import { YouTubeChannelConfig, DEFAULT_YOUTUBE_CHANNELS } from '@/lib/config/youtube-channels';
 import { SubredditConfig, DEFAULT_SUBREDDITS } from '@/lib/config/subreddit-sources';
 import { recordEngagementSnapshotsBatch } from './engagement-tracker';
 import { isSourceStale, MAX_ITEMS_PER_SOURCE } from './cache-config';
 import { settingsCache } from '@/lib/cache/memory-cache';
 import { analyzeSentiment } from '@/lib/sentiment';
+import { classifyContentType, CONTENT_TYPE_RULES_VERSION } from '@/lib/classification/content-type';
+import { resolveScoringWeights } from '@/lib/scoring/weights';
+import { EMPTY_AFFINITY_MODEL } from '@/lib/personalization';
+import { resolveRetentionPolicy } from '@/lib/retention';
 
 // === Settings Actions ===
 
@@ -243,7 +247,7 @@ export async function setCategoryEnabled(sourceIds: string[], enabled: boolean):
 
 // === Content Caching Actions ===
 
-function getTimeRangeCutoff(timeRange: TimeRange): Date {
+export function getTimeRangeCutoff(timeRange: TimeRange): Date {
     const now = new Date();
     const cutoff = new Date();
 
@@ -309,6 +313,22 @@ export async function getSourceFreshness(
     }
 }
 
+/** When each source was last fetched with items; null if never (or if the lookup fails). */
+export async function getSourceLastFetchedAt(sourceIds: string[]): Promise<Map<string, Date | null>> {
+    const lastFetched = new Map<string, Date | null>(sourceIds.map(id => [id, null]));
+    if (sourceIds.length === 0) return lastFetched;
+    try {
+        const rows = await db
+            .select({ id: sources.id, lastFetchedAt: sources.lastFetchedAt })
+            .from(sources)
+            .where(inArray(sources.id, sourceIds));
+        for (const row of rows) lastFetched.set(row.id, row.lastFetchedAt);
+    } catch (error) {
+        console.error('Failed to get source lastFetchedAt:', error);
+    }
+    return lastFetched;
+}
+
 export async function updateSourceLastFetched(sourceIds: string[]): Promise<void> {
     try {
         const now = new Date();
@@ -349,67 +369,113 @@ export async function getCachedContentBySourceIds(
     limit: number = 2000
 ): Promise<ContentItem[]> {
     try {
-        if (sourceIds.length === 0) return [];
-
-        const cutoff = getTimeRangeCutoff(timeRange);
-        const cutoffISO = cutoff.toISOString();
-
-        // Per-source cap: prevent high-frequency sources (reddit, huggingface) from
-        // crowding out low-frequency sources (AI Labs blogs) in the LIMIT window.
-        const maxPerSource = Math.max(MAX_ITEMS_PER_SOURCE, Math.ceil(limit / sourceIds.length * 2));
-        const sourceIdList = sql.join(sourceIds.map(id => sql`${id}`), sql`, `);
-
-        const items = await db.execute<{
-            id: string;
-            source_id: string;
-            title: string;
-            description: string | null;
-            url: string;
-            image_url: string | null;
-            published_at: Date;
-            fetched_at: Date;
-            author: string | null;
-            tags: string | null;
-            sentiment: string | null;
-            sentiment_score: number | null;
-            engagement: string | null;
-        }>(sql`
-            WITH ranked AS (
-                SELECT *, ROW_NUMBER() OVER (PARTITION BY source_id ORDER BY published_at DESC) AS rn
-                FROM content_items
-                WHERE source_id IN (${sourceIdList})
-                  AND published_at >= ${cutoffISO}::timestamptz
-            )
-            SELECT id, source_id, title, description, url, image_url,
-                   published_at, fetched_at, author, tags, sentiment,
-                   sentiment_score, engagement
-            FROM ranked
-            WHERE rn <= ${maxPerSource}
-            ORDER BY published_at DESC
-            LIMIT ${limit}
-        `);
-
-        return [...items].map(item => ({
-            id: item.id,
-            sourceId: item.source_id,
-            title: item.title,
-            description: item.description ?? undefined,
-            url: item.url,
-            imageUrl: item.image_url ?? undefined,
-            publishedAt: item.published_at,
-            fetchedAt: item.fetched_at,
-            author: item.author ?? undefined,
-            tags: item.tags ? JSON.parse(item.tags) : undefined,
-            sentiment: item.sentiment as ContentItem['sentiment'],
-            sentimentScore: item.sentiment_score ?? undefined,
-            engagement: item.engagement ? JSON.parse(item.engagement) : undefined,
-        }));
+        return await queryContentBySourceIds(sourceIds, getTimeRangeCutoff(timeRange), null, limit);
     } catch (error) {
         console.error('Failed to get cached content by source IDs:', error);
         return [];
     }
 }
 
+/**
+ * Content published in [from, to), with the same per-source cap as
+ * getCachedContentBySourceIds. Used for past periods (digests).
+ */
+export async function getContentPublishedBetween(
+    sourceIds: string[],
+    from: Date,
+    to: Date,
+    limit: number = 2000
+): Promise<ContentItem[]> {
+    try {
+        return await queryContentBySourceIds(sourceIds, from, to, limit);
+    } catch (error) {
+        console.error('Failed to get content published between dates:', error);
+        return [];
+    }
+}
+
+/** A content_items row as returned by raw `SELECT id, source_id, ...` queries. */
+export type ContentRow = {
+    id: string;
+    source_id: string;
+    title: string;
+    description: string | null;
+    url: string;
+    image_url: string | null;
+    published_at: Date;
+    fetched_at: Date;
+    author: string | null;
+    tags: string | null;
+    sentiment: string | null;
+    sentiment_score: number | null;
+    content_type: string | null;
+    content_type_version: number | null;
+    engagement: string | null;
+    arxiv_id: string | null;
+    repo_url: string | null;
+};
+
+export function mapContentRow(item: ContentRow): ContentItem {
+    return {
+        id: item.id,
+        sourceId: item.source_id,
+        title: item.title,
+        description: item.description ?? undefined,
+        url: item.url,
+        imageUrl: item.image_url ?? undefined,
+        publishedAt: item.published_at,
+        fetchedAt: item.fetched_at,
+        author: item.author ?? undefined,
+        tags: item.tags ? JSON.parse(item.tags) : undefined,
+        sentiment: item.sentiment as ContentItem['sentiment'],
+        sentimentScore: item.sentiment_score ?? undefined,
+        // Rows classified under older rules are served a fresh classification
+        // until reclassifyContentTypes() catches up
+        contentType: item.content_type_version === CONTENT_TYPE_RULES_VERSION
+            ? item.content_type as ContentItem['contentType']
+            : classifyContentType({ title: item.title, sourceId: item.source_id }, getSourceById(item.source_id)?.category),
+        engagement: item.engagement ? JSON.parse(item.engagement) : undefined,
+        arxivId: item.arxiv_id ?? undefined,
+        repoUrl: item.repo_url ?? undefined,
+    };
+}
+
+async function queryContentBySourceIds(
+    sourceIds: string[],
+    from: Date,
+    to: Date | null,
+    limit: number
+): Promise<ContentItem[]> {
+    if (sourceIds.length === 0) return [];
+
+    const cutoffISO = from.toISOString();
+
+    // Per-source cap: prevent high-frequency sources (reddit, huggingface) from
+    // crowding out low-frequency sources (AI Labs blogs) in the LIMIT window.
+    const maxPerSource = Math.max(MAX_ITEMS_PER_SOURCE, Math.ceil(limit / sourceIds.length * 2));
+    const sourceIdList = sql.join(sourceIds.map(id => sql`${id}`), sql`, `);
+
+    const items = await db.execute<ContentRow>(sql`
+        WITH ranked AS (
+            SELECT *, ROW_NUMBER() OVER (PARTITION BY source_id ORDER BY published_at DESC) AS rn
+            FROM content_items
+            WHERE source_id IN (${sourceIdList})
+              AND published_at >= ${cutoffISO}::timestamptz
+              ${to ? sql`AND published_at < ${to.toISOString()}::timestamptz` : sql``}
+        )
+        SELECT id, source_id, title, description, url, image_url,
+               published_at, fetched_at, author, tags, sentiment,
+               sentiment_score, content_type, content_type_version,
+               engagement, arxiv_id, repo_url
+        FROM ranked
+        WHERE rn <= ${maxPerSource}
+        ORDER BY published_at DESC
+        LIMIT ${limit}
+    `);
+
+    return [...items].map(mapContentRow);
+}
+
 export async function cacheContent(items: ContentItem[]): Promise<void> {
     if (items.length === 0) return;
 
@@ -419,6 +485,7 @@ export async function cacheContent(items: ContentItem[]): Promise<void> {
     const CHUNK_SIZE = 100;
     let cachedCount = 0;
     const cachedIds = new Set<string>();
+    const categoryBySource = await getSourceCategoryMap();
     for (let i = 0; i < items.length; i += CHUNK_SIZE) {
         const chunk = items.slice(i, i + CHUNK_SIZE);
         try {
@@ -441,7 +508,11 @@ export async function cacheContent(items: ContentItem[]): Promise<void> {
                     tags: item.tags ? JSON.stringify(item.tags) : null,
                     sentiment: item.sentiment ?? sentimentResult?.sentiment ?? null,
                     sentimentScore: item.sentimentScore ?? sentimentResult?.score ?? null,
+                    contentType: classifyContentType(item, categoryBySource.get(item.sourceId)),
+                    contentTypeVersion: CONTENT_TYPE_RULES_VERSION,
                     engagement: item.engagement ? JSON.stringify(item.engagement) : null,
+                    arxivId: item.arxivId ?? null,
+                    repoUrl: item.repoUrl ?? null,
                 };
             });
 
@@ -461,7 +532,11 @@ export async function cacheContent(items: ContentItem[]): Promise<void> {
                         tags: sql`excluded.tags`,
                         sentiment: sql`excluded.sentiment`,
                         sentimentScore: sql`excluded.sentiment_score`,
+                        contentType: sql`excluded.content_type`,
+                        contentTypeVersion: sql`excluded.content_type_version`,
                         engagement: sql`excluded.engagement`,
+                        arxivId: sql`excluded.arxiv_id`,
+                        repoUrl: sql`excluded.repo_url`,
                     },
                 });
             cachedCount += chunk.length;
@@ -491,20 +566,102 @@ export async function cacheContent(items: ContentItem[]): Promise<void> {
     }
 }
 
-export async function cleanOldContent(daysToKeep: number = 30): Promise<number> {
+/** Category per source ID, including custom sources (used for content type rules). */
+async function getSourceCategoryMap(): Promise<Map<string, SourceCategory>> {
+    const categoryBySource = new Map<string, SourceCategory>(SOURCES.map(s => [s.id, s.category]));
+    for (const custom of await getCustomSources()) categoryBySource.set(custom.id, custom.category);
+    return categoryBySource;
+}
+
+/**
+ * Recompute content types for rows classified under an older rule set.
+ * Runs in pages so a rules bump doesn't issue one giant UPDATE.
+ * Returns the number of rows reclassified; throws on DB errors.
+ */
+export async function reclassifyContentTypes(): Promise<number> {
+    const PAGE_SIZE = 500;
+    let updated = 0;
+
+    const categoryBySource = await getSourceCategoryMap();
+    while (true) {
+        const rows = await db
+            .select({ id: contentItems.id, sourceId: contentItems.sourceId, title: contentItems.title })
+            .from(contentItems)
+            .where(sql`${contentItems.contentTypeVersion} IS DISTINCT FROM ${CONTENT_TYPE_RULES_VERSION}`)
+            .limit(PAGE_SIZE);
+        if (rows.length === 0) break;
+
+        const values = sql.join(
+            rows.map(row => sql`(${row.id}, ${classifyContentType(row, categoryBySource.get(row.sourceId))})`),
+            sql`, `
+        );
+        await db.execute(sql`
+            UPDATE content_items AS c
+            SET content_type = v.content_type, content_type_version = ${CONTENT_TYPE_RULES_VERSION}
+            FROM (VALUES ${values}) AS v(id, content_type)
+            WHERE c.id = v.id
+        `);
+        updated += rows.length;
+    }
+
+    return updated;
+}
+
+/**
+ * Reclassify stored content once per rules version. The applied version is
+ * recorded in settings so every instance doesn't rescan the table.
+ */
+export async function maybeReclassifyContentTypes(): Promise<void> {
+    try {
+        const applied = await getSetting<number>('contentTypeRulesVersion', 0);
+        if (applied === CONTENT_TYPE_RULES_VERSION) return;
+
+        const count = await reclassifyContentTypes();
+        console.log(`Reclassified ${count} items to content type rules v${CONTENT_TYPE_RULES_VERSION}`);
+        await updateSetting('contentTypeRulesVersion', CONTENT_TYPE_RULES_VERSION);
+    } catch (error) {
+        console.error('Content type reclassification failed:', error);
+    }
+}
+
+/**
+ * Delete content fetched more than `daysToKeep` days ago from the sources in
+ * `scope` (with `exclude`, from every source not in it). Saved and
+ * story-linked items are exempt and only counted. With `dryRun`, nothing is
+ * deleted.
+ */
+export async function cleanOldContent(
+    daysToKeep: number,
+    scope: { sourceIds: string[]; exclude?: boolean } = { sourceIds: [], exclude: true },
+    dryRun = false
+): Promise<{ deleted: number; exempt: number }> {
+    if (scope.sourceIds.length === 0 && !scope.exclude) return { deleted: 0, exempt: 0 };
     try {
         const cutoff = new Date();
         cutoff.setDate(cutoff.getDate() - daysToKeep);
+        const inScope = scope.sourceIds.length === 0
+            ? undefined
+            : scope.exclude
+                ? sql`${contentItems.sourceId} NOT IN (${sql.join(scope.sourceIds.map(id => sql`${id}`), sql`, `)})`
+                : inArray(contentItems.sourceId, scope.sourceIds);
 
         // Select IDs first, then delete in chunks to avoid statement timeout
         // on large deletes (the old .returning() approach materialized all
         // deleted IDs and timed out with 13K+ rows + CASCADE).
-        const toDelete = await db
-            .select({ id: contentItems.id })
+        const expired = await db
+            .select({
+                id: contentItems.id,
+                exempt: sql<boolean>`(
+                    EXISTS (SELECT 1 FROM saved_items s WHERE s.content_id = ${contentItems.id})
+                    OR EXISTS (SELECT 1 FROM story_items si WHERE si.content_id = ${contentItems.id})
+                )`,
+            })
             .from(contentItems)
-            .where(sql`${contentItems.fetchedAt} < ${cutoff}`);
+            .where(and(sql`${contentItems.fetchedAt} < ${cutoff}`, inScope));
 
-        if (toDelete.length === 0) return 0;
+        const toDelete = expired.filter(r => !r.exempt);
+        const exempt = expired.length - toDelete.length;
+        if (toDelete.length === 0 || dryRun) return { deleted: toDelete.length, exempt };
 
         const CHUNK = 500;
         let deleted = 0;
@@ -513,10 +670,10 @@ export async function cleanOldContent(daysToKeep: number = 30): Promise<number>
             await db.delete(contentItems).where(inArray(contentItems.id, chunk));
             deleted += chunk.length;
         }
-        return deleted;
+        return { deleted, exempt };
     } catch (error) {
         console.error('Failed to clean old content:', error);
-        return 0;
+        return { deleted: 0, exempt: 0 };
     }
 }
 
@@ -594,6 +751,66 @@ export async function setBoostKeywords(keywords: string[]): Promise<void> {
     await updateSetting('boostKeywords', keywords);
 }
 
+// === Mute Rule Actions ===
+
+export async function getMuteRules(): Promise<MuteRule[]> {
+    return getSetting<MuteRule[]>('muteRules', []);
+}
+
+export async function setMuteRules(rules: MuteRule[]): Promise<void> {
+    await updateSetting('muteRules', rules);
+}
+
+// === Scoring Weight Actions ===
+
+export async function getScoringWeights(): Promise<ScoringWeights> {
+    return resolveScoringWeights(await getSetting<Partial<ScoringWeights> | null>('scoringWeights', null));
+}
+
+export async function setScoringWeights(weights: ScoringWeights): Promise<void> {
+    await updateSetting('scoringWeights', weights);
+}
+
+// === Personalization Actions ===
+
+export async function getAffinityModel(): Promise<AffinityModel> {
+    return getSetting<AffinityModel>('feedbackAffinities', EMPTY_AFFINITY_MODEL);
+}
+
+export async function setAffinityModel(model: AffinityModel): Promise<void> {
+    await updateSetting('feedbackAffinities', model);
+}
+
+// === Retention Actions ===
+
+export async function getRetentionPolicy(): Promise<RetentionPolicy> {
+    return resolveRetentionPolicy(await getSetting<Partial<RetentionPolicy> | null>('retentionPolicy', null));
+}
+
+export async function setRetentionPolicy(policy: RetentionPolicy): Promise<void> {
+    await updateSetting('retentionPolicy', policy);
+}
+
+/** Report of the last retention run that deleted (dry runs aren't stored). */
+export async function getLastRetentionReport(): Promise<RetentionReport | null> {
+    return getSetting<RetentionReport | null>('lastRetentionRun', null);
+}
+
+export async function setLastRetentionReport(report: RetentionReport): Promise<void> {
+    await updateSetting('lastRetentionRun', report);
+}
+
+// === Scheduled Refresh Actions ===
+
+/** Summary of the last scheduled refresh run (cron route or worker). */
+export async function getLastRefreshRun(): Promise<RefreshRunSummary | null> {
+    return getSetting<RefreshRunSummary | null>('lastScheduledRefresh', null);
+}
+
+export async function setLastRefreshRun(summary: RefreshRunSummary): Promise<void> {
+    await updateSetting('lastScheduledRefresh', summary);
+}
+
 // === YouTube Channel Actions ===
 
 export async function getYouTubeChannels(): Promise<YouTubeChannelConfig[]> {
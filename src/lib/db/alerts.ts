@@ -0,0 +1,233 @@
+import { db } from './index';
+import { watchlists, alerts } from './schema';
+import { Alert, ContentItem, Watchlist, WatchlistInput } from '@/types';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+
+type WatchlistRow = typeof watchlists.$inferSelect;
+
+function parseJsonArray<T>(value: string | null): T[] {
+    if (!value) return [];
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+function toWatchlist(row: WatchlistRow): Watchlist {
+    return {
+        id: row.id,
+        name: row.name,
+        keywords: parseJsonArray(row.keywords),
+        patterns: parseJsonArray(row.patterns),
+        requireAll: row.requireAll,
+        categories: parseJsonArray(row.categories),
+        sourceIds: parseJsonArray(row.sourceIds),
+        minScore: row.minScore,
+        enabled: row.enabled,
+        createdAt: row.createdAt.toISOString(),
+    };
+}
+
+function toWatchlistRow(input: WatchlistInput) {
+    return {
+        name: input.name,
+        keywords: JSON.stringify(input.keywords),
+        patterns: JSON.stringify(input.patterns),
+        requireAll: input.requireAll,
+        categories: JSON.stringify(input.categories),
+        sourceIds: JSON.stringify(input.sourceIds),
+        minScore: input.minScore,
+        enabled: input.enabled,
+    };
+}
+
+// === Watchlists ===
+
+export async function getWatchlists(): Promise<Watchlist[]> {
+    try {
+        const rows = await db.select().from(watchlists).orderBy(watchlists.id);
+        return rows.map(toWatchlist);
+    } catch (error) {
+        console.error('Failed to get watchlists:', error);
+        return [];
+    }
+}
+
+export async function createWatchlist(input: WatchlistInput): Promise<Watchlist> {
+    const [row] = await db.insert(watchlists).values(toWatchlistRow(input)).returning();
+    return toWatchlist(row);
+}
+
+/** Returns null when no watchlist has this ID. */
+export async function updateWatchlist(id: number, input: WatchlistInput): Promise<Watchlist | null> {
+    const [row] = await db
+        .update(watchlists)
+        .set(toWatchlistRow(input))
+        .where(eq(watchlists.id, id))
+        .returning();
+    return row ? toWatchlist(row) : null;
+}
+
+/** Deletes the watchlist and (via FK cascade) its alerts. Returns false when not found. */
+export async function deleteWatchlist(id: number): Promise<boolean> {
+    const deleted = await db.delete(watchlists).where(eq(watchlists.id, id)).returning({ id: watchlists.id });
+    return deleted.length > 0;
+}
+
+// === Alerts ===
+
+export interface AlertMatch {
+    watchlistId: number;
+    contentId: string;
+    matchedTerms: string[];
+    score: number;
+}
+
+export interface RecordedAlert extends AlertMatch {
+    id: number;
+}
+
+/**
+ * Store watchlist matches. Existing (watchlist, item) pairs are left alone so
+ * re-fetching an item never resurfaces an alert that was already read.
+ * Returns the newly inserted alerts.
+ */
+export async function recordAlerts(matches: AlertMatch[]): Promise<RecordedAlert[]> {
+    if (matches.length === 0) return [];
+
+    const CHUNK_SIZE = 100;
+    const inserted: RecordedAlert[] = [];
+    for (let i = 0; i < matches.length; i += CHUNK_SIZE) {
+        const chunk = matches.slice(i, i + CHUNK_SIZE);
+        try {
+            const rows = await db
+                .insert(alerts)
+                .values(chunk.map(m => ({
+                    watchlistId: m.watchlistId,
+                    contentId: m.contentId,
+                    matchedTerms: JSON.stringify(m.matchedTerms),
+                    score: m.score,
+                })))
+                .onConflictDoNothing({ target: [alerts.watchlistId, alerts.contentId] })
+                .returning({ id: alerts.id, watchlistId: alerts.watchlistId, contentId: alerts.contentId });
+            const matchByKey = new Map(chunk.map(m => [`${m.watchlistId}:${m.contentId}`, m]));
+            for (const row of rows) {
+                const match = matchByKey.get(`${row.watchlistId}:${row.contentId}`);
+                if (match) inserted.push({ ...match, id: row.id });
+            }
+        } catch (error) {
+            console.error(`Failed to record alert chunk ${i / CHUNK_SIZE} (${chunk.length} matches):`, error);
+        }
+    }
+    return inserted;
+}
+
+/**
+ * Get alerts, newest first, joined with their watchlist name and content item.
+ */
+export async function getAlerts(
+    options: { unreadOnly?: boolean; watchlistId?: number; limit?: number } = {}
+): Promise<Alert[]> {
+    const { unreadOnly = false, watchlistId, limit = 50 } = options;
+
+    try {
+        const rows = await db.execute<{
+            id: number;
+            watchlist_id: number;
+            watchlist_name: string;
+            matched_terms: string;
+            score: number;
+            created_at: Date;
+            read_at: Date | null;
+            content_id: string;
+            source_id: string;
+            title: string;
+            description: string | null;
+            url: string;
+            published_at: Date;
+            fetched_at: Date;
+            author: string | null;
+            tags: string | null;
+            sentiment: string | null;
+            content_type: string | null;
+        }>(sql`
+            SELECT a.id, a.watchlist_id, w.name AS watchlist_name, a.matched_terms, a.score,
+                   a.created_at, a.read_at,
+                   c.id AS content_id, c.source_id, c.title, c.description, c.url,
+                   c.published_at, c.fetched_at, c.author, c.tags, c.sentiment, c.content_type
+            FROM alerts a
+            JOIN watchlists w ON w.id = a.watchlist_id
+            JOIN content_items c ON c.id = a.content_id
+            WHERE TRUE
+              ${unreadOnly ? sql`AND a.read_at IS NULL` : sql``}
+              ${watchlistId !== undefined ? sql`AND a.watchlist_id = ${watchlistId}` : sql``}
+            ORDER BY a.created_at DESC, a.id DESC
+            LIMIT ${limit}
+        `);
+
+        return [...rows].map(row => ({
+            id: row.id,
+            watchlistId: row.watchlist_id,
+            watchlistName: row.watchlist_name,
+            matchedTerms: parseJsonArray<string>(row.matched_terms),
+            score: row.score,
+            createdAt: new Date(row.created_at).toISOString(),
+            readAt: row.read_at ? new Date(row.read_at).toISOString() : null,
+            item: {
+                id: row.content_id,
+                sourceId: row.source_id,
+                title: row.title,
+                description: row.description ?? undefined,
+                url: row.url,
+                publishedAt: row.published_at,
+                fetchedAt: row.fetched_at,
+                author: row.author ?? undefined,
+                tags: row.tags ? JSON.parse(row.tags) : undefined,
+                sentiment: row.sentiment as ContentItem['sentiment'],
+                contentType: row.content_type as ContentItem['contentType'],
+            },
+        }));
+    } catch (error) {
+        console.error('Failed to get alerts:', error);
+        return [];
+    }
+}
+
+/** Unread alert count per watchlist ID. */
+export async function getUnreadAlertCounts(): Promise<Record<number, number>> {
+    try {
+        const rows = await db
+            .select({ watchlistId: alerts.watchlistId, count: sql<number>`COUNT(*)::int` })
+            .from(alerts)
+            .where(isNull(alerts.readAt))
+            .groupBy(alerts.watchlistId);
+        return Object.fromEntries(rows.map(r => [r.watchlistId, r.count]));
+    } catch (error) {
+        console.error('Failed to get unread alert counts:', error);
+        return {};
+    }
+}
+
+/**
+ * Mark alerts read. Pass `ids` for specific alerts, `watchlistId` for one
+ * watchlist, or neither for all. Returns the number of alerts updated.
+ */
+export async function markAlertsRead(options: { ids?: number[]; watchlistId?: number } = {}): Promise<number> {
+    const conditions = [isNull(alerts.readAt)];
+    if (options.ids) {
+        if (options.ids.length === 0) return 0;
+        conditions.push(inArray(alerts.id, options.ids));
+    }
+    if (options.watchlistId !== undefined) {
+        conditions.push(eq(alerts.watchlistId, options.watchlistId));
+    }
+
+    const updated = await db
+        .update(alerts)
+        .set({ readAt: new Date() })
+        .where(and(...conditions))
+        .returning({ id: alerts.id });
+    return updated.length;
+}
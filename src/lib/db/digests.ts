@@ -0,0 +1,61 @@
+import { db } from './index';
+import { digests } from './schema';
+import { Digest, DigestEdition, DigestPeriod } from '@/types';
+import { and, desc, eq } from 'drizzle-orm';
+
+export async function getStoredDigest(period: DigestPeriod, date: string): Promise<Digest | null> {
+    try {
+        const [row] = await db
+            .select({ data: digests.data })
+            .from(digests)
+            .where(and(eq(digests.period, period), eq(digests.date, date)));
+        return row ? JSON.parse(row.data) as Digest : null;
+    } catch (error) {
+        console.error(`Failed to get ${period} digest ${date}:`, error);
+        return null;
+    }
+}
+
+/** Persist a completed edition. An existing edition for the same period/date is kept. */
+export async function saveDigest(digest: Digest): Promise<void> {
+    const itemCount = digest.sections.reduce((sum, s) => sum + s.items.length, 0);
+    await db
+        .insert(digests)
+        .values({
+            period: digest.period,
+            date: digest.date,
+            data: JSON.stringify(digest),
+            itemCount,
+            generatedAt: new Date(digest.generatedAt),
+        })
+        .onConflictDoNothing({ target: [digests.period, digests.date] });
+}
+
+/** Stored editions, newest first. */
+export async function listDigests(
+    options: { period?: DigestPeriod; limit?: number } = {}
+): Promise<DigestEdition[]> {
+    const { period, limit = 60 } = options;
+    try {
+        const rows = await db
+            .select({
+                period: digests.period,
+                date: digests.date,
+                itemCount: digests.itemCount,
+                generatedAt: digests.generatedAt,
+            })
+            .from(digests)
+            .where(period ? eq(digests.period, period) : undefined)
+            .orderBy(desc(digests.date), digests.period)
+            .limit(limit);
+        return rows.map(row => ({
+            period: row.period as DigestPeriod,
+            date: row.date,
+            itemCount: row.itemCount,
+            generatedAt: row.generatedAt.toISOString(),
+        }));
+    } catch (error) {
+        console.error('Failed to list digests:', error);
+        return [];
+    }
+}
@@ -138,9 +138,10 @@ export async function getBulkVelocities(
 }
 
 /**
- * Clean up old snapshots to prevent database bloat
+ * Clean up old snapshots to prevent database bloat. With `dryRun`, only
+ * counts what would be deleted.
  */
-export async function cleanupOldSnapshots(daysToKeep: number = 30): Promise<number> {
+export async function cleanupOldSnapshots(daysToKeep: number = 30, dryRun = false): Promise<number> {
   const cutoffISO = new Date(Date.now() - daysToKeep * 24 * 60 * 60 * 1000).toISOString();
 
   try {
@@ -151,7 +152,7 @@ export async function cleanupOldSnapshots(daysToKeep: number = 30): Promise<numb
       .from(engagementSnapshots)
       .where(sql`${engagementSnapshots.snapshotAt} < ${cutoffISO}::timestamptz`);
 
-    if (toDelete.length === 0) return 0;
+    if (toDelete.length === 0 || dryRun) return toDelete.length;
 
     const CHUNK = 500;
     let deleted = 0;
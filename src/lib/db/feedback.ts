@@ -0,0 +1,78 @@
+import { db } from './index';
+import { feedbackEvents } from './schema';
+import { FeedbackAction } from '@/types';
+import type { FeedbackEvent } from '@/lib/personalization';
+import { desc, gte, lt, sql } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on events learned from (newest first)
+const MAX_LEARNING_EVENTS = 5000;
+
+/**
+ * Record feedback on a stored content item, copying its source, title and
+ * tags. Returns false when the item is not in content_items.
+ */
+export async function recordFeedbackEvent(contentId: string, action: FeedbackAction): Promise<boolean> {
+    const inserted = await db.execute<{ id: number }>(sql`
+        INSERT INTO feedback_events (content_id, action, source_id, title, tags)
+        SELECT id, ${action}, source_id, title, COALESCE(tags, '[]')
+        FROM content_items
+        WHERE id = ${contentId}
+        RETURNING id
+    `);
+    return inserted.length > 0;
+}
+
+/** Feedback from the last `days` days, newest first, to learn affinities from. */
+export async function getRecentFeedbackEvents(days: number): Promise<FeedbackEvent[]> {
+    const rows = await db
+        .select({
+            action: feedbackEvents.action,
+            sourceId: feedbackEvents.sourceId,
+            title: feedbackEvents.title,
+            tags: feedbackEvents.tags,
+            createdAt: feedbackEvents.createdAt,
+        })
+        .from(feedbackEvents)
+        .where(gte(feedbackEvents.createdAt, new Date(Date.now() - days * DAY_MS)))
+        .orderBy(desc(feedbackEvents.createdAt))
+        .limit(MAX_LEARNING_EVENTS);
+
+    return rows.map(row => {
+        let tags: string[] = [];
+        try {
+            const parsed = JSON.parse(row.tags);
+            if (Array.isArray(parsed)) tags = parsed.filter((t): t is string => typeof t === 'string');
+        } catch {
+            // Unparseable tags are learned from as untagged
+        }
+        return { ...row, action: row.action as FeedbackAction, tags };
+    });
+}
+
+/** Number of stored events per action. */
+export async function countFeedbackEvents(): Promise<Record<string, number>> {
+    const rows = await db
+        .select({ action: feedbackEvents.action, count: sql<number>`count(*)::int` })
+        .from(feedbackEvents)
+        .groupBy(feedbackEvents.action);
+    return Object.fromEntries(rows.map(row => [row.action, row.count]));
+}
+
+/** Delete all feedback events (resetting personalization). */
+export async function clearFeedbackEvents(): Promise<number> {
+    const deleted = await db.delete(feedbackEvents).returning({ id: feedbackEvents.id });
+    return deleted.length;
+}
+
+/** Delete (or with `dryRun`, count) feedback events older than `days`; they no longer affect learning. */
+export async function cleanupOldFeedbackEvents(days: number, dryRun = false): Promise<number> {
+    const expired = lt(feedbackEvents.createdAt, new Date(Date.now() - days * DAY_MS));
+    if (dryRun) return db.$count(feedbackEvents, expired);
+    const deleted = await db
+        .delete(feedbackEvents)
+        .where(expired)
+        .returning({ id: feedbackEvents.id });
+    return deleted.length;
+}
@@ -0,0 +1,109 @@
+import { db } from './index';
+import { leaderboardSnapshots } from './schema';
+import { LeaderboardEntry, LeaderboardRankMap, LeaderboardSeries } from '@/types';
+import { and, asc, eq, gte, inArray, sql } from 'drizzle-orm';
+
+// Only the head of each board is worth keeping history for. 50 rows per
+// fetch keeps the table small (3 boards x 24 fetches/day) while leaving
+// enough depth to tell "entered the top 10 from #14" apart from "new model".
+// A model missing from a snapshot that reaches this rank may still have been
+// on the board further down, so diffLeaderboard reports it as coming from
+// outside the top 50 rather than as a debut.
+export const MAX_TRACKED_RANK = 50;
+
+/**
+ * Record one fetch of a leaderboard. All rows share the same snapshotAt so
+ * the latest snapshot can be read back as a whole.
+ */
+export async function recordLeaderboardSnapshot(
+  sourceId: string,
+  entries: LeaderboardEntry[],
+  snapshotAt: Date
+): Promise<void> {
+  const rows = entries
+    .filter(e => e.rank <= MAX_TRACKED_RANK)
+    .map(e => ({ sourceId, model: e.model, rank: e.rank, score: e.score, snapshotAt }));
+  if (rows.length === 0) return;
+
+  try {
+    await db.insert(leaderboardSnapshots).values(rows);
+  } catch (error) {
+    console.error(`Failed to record leaderboard snapshot for ${sourceId}:`, error);
+  }
+}
+
+/**
+ * Get the most recent snapshot of a board as a model → rank/score map.
+ * Returns an empty map when the board has never been recorded.
+ */
+export async function getLatestLeaderboardRanks(sourceId: string): Promise<LeaderboardRankMap> {
+  try {
+    const rows = await db
+      .select({ model: leaderboardSnapshots.model, rank: leaderboardSnapshots.rank, score: leaderboardSnapshots.score })
+      .from(leaderboardSnapshots)
+      .where(sql`${leaderboardSnapshots.sourceId} = ${sourceId}
+        AND ${leaderboardSnapshots.snapshotAt} = (
+          SELECT MAX(snapshot_at) FROM leaderboard_snapshots WHERE source_id = ${sourceId}
+        )`);
+
+    const ranks: LeaderboardRankMap = {};
+    for (const row of rows) {
+      ranks[row.model] = { rank: row.rank, score: row.score };
+    }
+    return ranks;
+  } catch (error) {
+    console.error(`Failed to get latest leaderboard ranks for ${sourceId}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Get rank/score history per model for one board.
+ *
+ * When `models` is omitted, returns the models currently in the top `topN`
+ * of the latest snapshot — the set a "who's moving" chart wants by default.
+ */
+export async function getLeaderboardHistory(
+  sourceId: string,
+  options: { models?: string[]; days?: number; topN?: number } = {}
+): Promise<LeaderboardSeries[]> {
+  const { days = 30, topN = 10 } = options;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  try {
+    let models = options.models;
+    if (!models || models.length === 0) {
+      const latest = await getLatestLeaderboardRanks(sourceId);
+      models = Object.entries(latest)
+        .filter(([, r]) => r.rank <= topN)
+        .sort(([, a], [, b]) => a.rank - b.rank)
+        .map(([model]) => model);
+    }
+    if (models.length === 0) return [];
+
+    const rows = await db
+      .select()
+      .from(leaderboardSnapshots)
+      .where(and(
+        eq(leaderboardSnapshots.sourceId, sourceId),
+        inArray(leaderboardSnapshots.model, models),
+        gte(leaderboardSnapshots.snapshotAt, since),
+      ))
+      .orderBy(asc(leaderboardSnapshots.snapshotAt));
+
+    const byModel = new Map<string, LeaderboardSeries>(
+      models.map(model => [model, { model, points: [] }])
+    );
+    for (const row of rows) {
+      byModel.get(row.model)?.points.push({
+        at: row.snapshotAt.toISOString(),
+        rank: row.rank,
+        score: row.score,
+      });
+    }
+    return [...byModel.values()];
+  } catch (error) {
+    console.error(`Failed to get leaderboard history for ${sourceId}:`, error);
+    return [];
+  }
+}
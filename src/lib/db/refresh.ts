@@ -0,0 +1,129 @@
+import { db } from './index';
+import { refreshSessions, refreshSessionSources, sourceLeases } from './schema';
+import { RefreshTrigger } from '@/types';
+import { and, desc, eq, gt, inArray, lt, or, sql } from 'drizzle-orm';
+
+export type SessionSourceStatus = 'pending' | 'fetching' | 'done' | 'failed';
+
+// === Source leases ===
+
+/**
+ * Lease the given sources to `sessionId` for `ttlMs`. A source is leased
+ * when nobody holds it, its lease has expired, or `sessionId` already holds
+ * it (which renews it). The upsert is atomic, so concurrent callers never
+ * both win a source. Returns the IDs leased.
+ */
+export async function acquireSourceLeases(sourceIds: string[], sessionId: string, ttlMs: number): Promise<Set<string>> {
+    if (sourceIds.length === 0) return new Set();
+    // Expiry from the database clock, so instances with skewed clocks agree
+    const expiresAt = sql`NOW() + make_interval(secs => ${ttlMs / 1000})`;
+    const rows = await db
+        .insert(sourceLeases)
+        .values(sourceIds.map(sourceId => ({ sourceId, sessionId, expiresAt })))
+        .onConflictDoUpdate({
+            target: sourceLeases.sourceId,
+            set: { sessionId, acquiredAt: sql`NOW()`, expiresAt },
+            setWhere: or(lt(sourceLeases.expiresAt, sql`NOW()`), eq(sourceLeases.sessionId, sessionId)),
+        })
+        .returning({ sourceId: sourceLeases.sourceId });
+    return new Set(rows.map(row => row.sourceId));
+}
+
+export async function releaseSessionLeases(sessionId: string): Promise<void> {
+    await db.delete(sourceLeases).where(eq(sourceLeases.sessionId, sessionId));
+}
+
+/** Session holding each of the given sources, for unexpired leases only. */
+export async function getLeaseHolders(sourceIds: string[]): Promise<Map<string, string>> {
+    if (sourceIds.length === 0) return new Map();
+    const rows = await db
+        .select({ sourceId: sourceLeases.sourceId, sessionId: sourceLeases.sessionId })
+        .from(sourceLeases)
+        .where(and(inArray(sourceLeases.sourceId, sourceIds), gt(sourceLeases.expiresAt, sql`NOW()`)));
+    return new Map(rows.map(row => [row.sourceId, row.sessionId]));
+}
+
+// === Refresh sessions ===
+
+/** Create a session with every source pending. Sessions older than `pruneAfterMs` are deleted. */
+export async function createRefreshSession(
+    id: string,
+    trigger: RefreshTrigger,
+    sources: { id: string; name: string; icon: string }[],
+    pruneAfterMs: number
+): Promise<void> {
+    await db.delete(refreshSessions).where(lt(refreshSessions.startedAt, new Date(Date.now() - pruneAfterMs)));
+    await db.insert(refreshSessions).values({ id, trigger });
+    if (sources.length > 0) {
+        await db.insert(refreshSessionSources).values(sources.map(source => ({
+            sessionId: id,
+            sourceId: source.id,
+            name: source.name,
+            icon: source.icon,
+        })));
+    }
+}
+
+/**
+ * Set a source's status. Only pending or fetching sources change, so a
+ * source is never counted as finished twice.
+ */
+export async function updateSessionSource(sessionId: string, sourceId: string, status: SessionSourceStatus): Promise<void> {
+    await db
+        .update(refreshSessionSources)
+        .set({ status, updatedAt: new Date() })
+        .where(and(
+            eq(refreshSessionSources.sessionId, sessionId),
+            eq(refreshSessionSources.sourceId, sourceId),
+            inArray(refreshSessionSources.status, ['pending', 'fetching'])
+        ));
+}
+
+/** Remove a source from a session, e.g. when another refresh holds its lease. */
+export async function deleteSessionSource(sessionId: string, sourceId: string): Promise<void> {
+    await db
+        .delete(refreshSessionSources)
+        .where(and(eq(refreshSessionSources.sessionId, sessionId), eq(refreshSessionSources.sourceId, sourceId)));
+}
+
+export async function completeRefreshSession(sessionId: string): Promise<void> {
+    await db.update(refreshSessions).set({ completedAt: new Date() }).where(eq(refreshSessions.id, sessionId));
+}
+
+export interface StoredRefreshSession {
+    id: string;
+    trigger: RefreshTrigger;
+    startedAt: Date;
+    completedAt: Date | null;
+    sources: { id: string; name: string; icon: string; status: SessionSourceStatus }[];
+}
+
+/** The given session, or the most recently started one, with its sources. */
+export async function getRefreshSession(sessionId?: string): Promise<StoredRefreshSession | null> {
+    const [session] = await db
+        .select()
+        .from(refreshSessions)
+        .where(sessionId ? eq(refreshSessions.id, sessionId) : undefined)
+        .orderBy(desc(refreshSessions.startedAt))
+        .limit(1);
+    if (!session) return null;
+
+    const sources = await db
+        .select({
+            id: refreshSessionSources.sourceId,
+            name: refreshSessionSources.name,
+            icon: refreshSessionSources.icon,
+            status: refreshSessionSources.status,
+        })
+        .from(refreshSessionSources)
+        .where(eq(refreshSessionSources.sessionId, session.id))
+        .orderBy(refreshSessionSources.id);
+
+    return {
+        id: session.id,
+        trigger: session.trigger as RefreshTrigger,
+        startedAt: session.startedAt,
+        completedAt: session.completedAt,
+        sources: sources.map(source => ({ ...source, status: source.status as SessionSourceStatus })),
+    };
+}
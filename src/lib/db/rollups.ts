@@ -0,0 +1,130 @@
+import { db } from './index';
+import { dailyRollups, rollupDays } from './schema';
+import type { DayRollup } from '@/lib/history';
+import { HistoryPoint, RollupDimension, RollupItem } from '@/types';
+import { and, desc, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Replace a day's rollup. The day row is upserted first; its old rows are
+ * deleted and the new ones inserted in one transaction.
+ */
+export async function saveDayRollup(rollup: DayRollup): Promise<void> {
+    const { day, itemCount, avgScore } = rollup;
+    const rows = rollup.rows.map(row => ({
+        day,
+        dimension: row.dimension,
+        key: row.key,
+        label: row.label ?? null,
+        itemCount: row.itemCount,
+        avgScore: row.avgScore,
+        topItems: JSON.stringify(row.topItems),
+    }));
+    await db.transaction(async (tx) => {
+        await tx
+            .insert(rollupDays)
+            .values({ day, itemCount, avgScore })
+            .onConflictDoUpdate({ target: rollupDays.day, set: { itemCount, avgScore, updatedAt: new Date() } });
+        await tx.delete(dailyRollups).where(eq(dailyRollups.day, day));
+        for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+            await tx.insert(dailyRollups).values(rows.slice(i, i + INSERT_CHUNK_SIZE));
+        }
+    });
+}
+
+/** Daily totals for the rolled-up days in [from, to], oldest first. */
+export async function getRollupDays(from: string, to: string): Promise<HistoryPoint[]> {
+    return db
+        .select({ day: rollupDays.day, itemCount: rollupDays.itemCount, avgScore: rollupDays.avgScore })
+        .from(rollupDays)
+        .where(and(gte(rollupDays.day, from), lte(rollupDays.day, to)))
+        .orderBy(rollupDays.day);
+}
+
+/** One key's daily counts in [from, to], oldest first (days without items are absent). */
+export async function getRollupSeries(
+    dimension: RollupDimension,
+    key: string,
+    from: string,
+    to: string
+): Promise<HistoryPoint[]> {
+    return db
+        .select({ day: dailyRollups.day, itemCount: dailyRollups.itemCount, avgScore: dailyRollups.avgScore })
+        .from(dailyRollups)
+        .where(and(
+            eq(dailyRollups.dimension, dimension),
+            eq(dailyRollups.key, key),
+            gte(dailyRollups.day, from),
+            lte(dailyRollups.day, to)
+        ))
+        .orderBy(dailyRollups.day);
+}
+
+export interface RollupTotal {
+    key: string;
+    label: string | null;
+    itemCount: number;
+    avgScore: number;
+    activeDays: number;
+}
+
+/**
+ * Per-key totals over [from, to], most items first. The average score is
+ * weighted by each day's item count. `key` narrows the result to one key.
+ */
+export async function getRollupTotals(
+    dimension: RollupDimension,
+    from: string,
+    to: string,
+    limit: number,
+    key?: string
+): Promise<RollupTotal[]> {
+    const itemCount = sql<number>`SUM(${dailyRollups.itemCount})::int`;
+    const rows = await db
+        .select({
+            key: dailyRollups.key,
+            label: sql<string | null>`MAX(${dailyRollups.label})`,
+            itemCount,
+            avgScore: sql<number>`SUM(${dailyRollups.avgScore} * ${dailyRollups.itemCount}) / NULLIF(SUM(${dailyRollups.itemCount}), 0)`,
+            activeDays: sql<number>`COUNT(*)::int`,
+        })
+        .from(dailyRollups)
+        .where(and(
+            eq(dailyRollups.dimension, dimension),
+            gte(dailyRollups.day, from),
+            lte(dailyRollups.day, to),
+            key !== undefined ? eq(dailyRollups.key, key) : undefined
+        ))
+        .groupBy(dailyRollups.key)
+        .orderBy(desc(itemCount), dailyRollups.key)
+        .limit(limit);
+    return rows.map(row => ({ ...row, avgScore: Math.round((Number(row.avgScore) || 0) * 10) / 10 }));
+}
+
+/** Every stored top item of the given keys over [from, to], by key. */
+export async function getRollupTopItems(
+    dimension: RollupDimension,
+    keys: string[],
+    from: string,
+    to: string
+): Promise<Map<string, RollupItem[]>> {
+    const byKey = new Map<string, RollupItem[]>();
+    if (keys.length === 0) return byKey;
+
+    const rows = await db
+        .select({ key: dailyRollups.key, topItems: dailyRollups.topItems })
+        .from(dailyRollups)
+        .where(and(
+            eq(dailyRollups.dimension, dimension),
+            inArray(dailyRollups.key, keys),
+            gte(dailyRollups.day, from),
+            lte(dailyRollups.day, to)
+        ));
+    for (const row of rows) {
+        const items = byKey.get(row.key) ?? [];
+        items.push(...(JSON.parse(row.topItems) as RollupItem[]));
+        byKey.set(row.key, items);
+    }
+    return byKey;
+}
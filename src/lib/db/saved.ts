@@ -0,0 +1,150 @@
+import { db } from './index';
+import { savedItems } from './schema';
+import { ContentRow, mapContentRow } from './actions';
+import { ContentItem, SavedItem } from '@/types';
+import { and, desc, eq, sql, SQL } from 'drizzle-orm';
+
+type SavedItemRow = typeof savedItems.$inferSelect;
+
+function parseJson<T>(value: string, fallback: T): T {
+    try {
+        return JSON.parse(value) as T;
+    } catch {
+        return fallback;
+    }
+}
+
+function toSavedItem(row: SavedItemRow): SavedItem {
+    const item = parseJson<ContentItem | null>(row.item, null);
+    return {
+        // Fall back to the indexed columns if the snapshot is unreadable
+        item: item ?? {
+            id: row.contentId,
+            sourceId: row.sourceId,
+            title: row.title,
+            url: row.url,
+            description: row.description ?? undefined,
+            publishedAt: row.publishedAt,
+            fetchedAt: row.savedAt,
+        },
+        tags: parseJson<string[]>(row.tags, []),
+        note: row.note,
+        savedAt: row.savedAt.toISOString(),
+        updatedAt: row.updatedAt.toISOString(),
+    };
+}
+
+function escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Saved items, newest first. `query` is a case-insensitive substring match
+ * on title, description, note and tags; `tag` must match a tag exactly.
+ */
+export async function listSavedItems(filters: { query?: string; tag?: string } = {}): Promise<SavedItem[]> {
+    const conditions: SQL[] = [];
+    if (filters.query) {
+        const pattern = `%${escapeLike(filters.query)}%`;
+        conditions.push(sql`(
+            ${savedItems.title} ILIKE ${pattern}
+            OR ${savedItems.description} ILIKE ${pattern}
+            OR ${savedItems.note} ILIKE ${pattern}
+            OR ${savedItems.tags} ILIKE ${pattern}
+        )`);
+    }
+    if (filters.tag) {
+        conditions.push(sql`${savedItems.tags}::jsonb ? ${filters.tag}`);
+    }
+
+    const rows = await db
+        .select()
+        .from(savedItems)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(savedItems.savedAt));
+    return rows.map(toSavedItem);
+}
+
+export async function getSavedIds(): Promise<string[]> {
+    const rows = await db.select({ contentId: savedItems.contentId }).from(savedItems);
+    return rows.map(row => row.contentId);
+}
+
+/** Every tag in use with how many saved items carry it, most used first. */
+export async function getSavedTagCounts(): Promise<{ tag: string; count: number }[]> {
+    const rows = await db.execute<{ tag: string; count: number }>(sql`
+        SELECT tag, COUNT(*)::int AS count
+        FROM saved_items, jsonb_array_elements_text(tags::jsonb) AS tag
+        GROUP BY tag
+        ORDER BY count DESC, tag ASC
+    `);
+    return [...rows].map(row => ({ tag: row.tag, count: row.count }));
+}
+
+/**
+ * Save a stored content item, copying it so it outlives content cleanup.
+ * Saving an item that is already saved returns it unchanged.
+ * Returns null when the item is not in content_items.
+ */
+export async function saveItem(contentId: string, tags: string[], note: string): Promise<SavedItem | null> {
+    const [existing] = await db.select().from(savedItems).where(eq(savedItems.contentId, contentId));
+    if (existing) return toSavedItem(existing);
+
+    const rows = await db.execute<ContentRow>(sql`
+        SELECT id, source_id, title, description, url, image_url,
+               published_at, fetched_at, author, tags, sentiment,
+               sentiment_score, content_type, content_type_version,
+               engagement, arxiv_id, repo_url
+        FROM content_items
+        WHERE id = ${contentId}
+    `);
+    if (rows.length === 0) return null;
+    const item = mapContentRow(rows[0]);
+
+    const [row] = await db
+        .insert(savedItems)
+        .values({
+            contentId: item.id,
+            sourceId: item.sourceId,
+            title: item.title,
+            url: item.url,
+            description: item.description ?? null,
+            publishedAt: new Date(item.publishedAt),
+            item: JSON.stringify(item),
+            tags: JSON.stringify(tags),
+            note,
+        })
+        .onConflictDoNothing({ target: savedItems.contentId })
+        .returning();
+    if (row) return toSavedItem(row);
+
+    // Saved concurrently between the check and the insert
+    const [current] = await db.select().from(savedItems).where(eq(savedItems.contentId, contentId));
+    return current ? toSavedItem(current) : null;
+}
+
+/** Returns null when the item isn't saved. */
+export async function updateSavedItem(
+    contentId: string,
+    changes: { tags?: string[]; note?: string }
+): Promise<SavedItem | null> {
+    const [row] = await db
+        .update(savedItems)
+        .set({
+            ...(changes.tags !== undefined && { tags: JSON.stringify(changes.tags) }),
+            ...(changes.note !== undefined && { note: changes.note }),
+            updatedAt: new Date(),
+        })
+        .where(eq(savedItems.contentId, contentId))
+        .returning();
+    return row ? toSavedItem(row) : null;
+}
+
+/** Returns false when the item wasn't saved. */
+export async function deleteSavedItem(contentId: string): Promise<boolean> {
+    const deleted = await db
+        .delete(savedItems)
+        .where(eq(savedItems.contentId, contentId))
+        .returning({ contentId: savedItems.contentId });
+    return deleted.length > 0;
+}
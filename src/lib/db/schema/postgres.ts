@@ -1,4 +1,12 @@
-import { pgTable, text, boolean, integer, doublePrecision, timestamp, serial, index } from 'drizzle-orm/pg-core';
+import { pgTable, text, boolean, integer, doublePrecision, timestamp, serial, index, uniqueIndex, customType } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+// Postgres full-text search document (drizzle has no built-in tsvector column)
+const tsvector = customType<{ data: string }>({
+    dataType() {
+        return 'tsvector';
+    },
+});
 
 // Sources configuration (stored for user overrides)
 export const sources = pgTable('sources', {
@@ -22,12 +30,24 @@ export const contentItems = pgTable('content_items', {
     tags: text('tags'), // JSON array stored as string
     sentiment: text('sentiment'), // 'positive' | 'neutral' | 'negative'
     sentimentScore: doublePrecision('sentiment_score'),
+    contentType: text('content_type'), // ContentType, see classification/content-type.ts
+    contentTypeVersion: integer('content_type_version'), // CONTENT_TYPE_RULES_VERSION used
     // Engagement metrics (JSON)
     engagement: text('engagement'), // JSON: {upvotes, comments, stars, etc.}
+    // Exact-match identifiers for cross-platform linking
+    arxivId: text('arxiv_id'),
+    repoUrl: text('repo_url'),
+    // Full-text search: title (A) > description (B) > tags/author (C), see lib/search
+    searchVector: tsvector('search_vector').generatedAlwaysAs(sql`
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(tags, '') || ' ' || coalesce(author, '')), 'C')
+    `),
 }, (table) => [
     index('idx_content_source').on(table.sourceId),
     index('idx_content_published').on(table.publishedAt),
     index('idx_content_source_published').on(table.sourceId, table.publishedAt),
+    index('idx_content_search').using('gin', table.searchVector),
 ]);
 
 // User settings
@@ -57,3 +77,238 @@ export const engagementSnapshots = pgTable('engagement_snapshots', {
     index('idx_snapshot_time').on(table.snapshotAt),
     index('idx_snapshot_content_time').on(table.contentId, table.snapshotAt),
 ]);
+
+// Leaderboard rank history (one row per model per board per fetch)
+export const leaderboardSnapshots = pgTable('leaderboard_snapshots', {
+    id: serial('id').primaryKey(),
+    sourceId: text('source_id').notNull().references(() => sources.id, { onDelete: 'cascade' }),
+    model: text('model').notNull(),
+    rank: integer('rank').notNull(),
+    score: doublePrecision('score').notNull(),
+    snapshotAt: timestamp('snapshot_at', { withTimezone: true }).notNull(),
+}, (table) => [
+    index('idx_leaderboard_source_time').on(table.sourceId, table.snapshotAt),
+    index('idx_leaderboard_source_model_time').on(table.sourceId, table.model, table.snapshotAt),
+]);
+
+// Keyword watchlists: named keyword/regex sets scoped to categories/sources
+export const watchlists = pgTable('watchlists', {
+    id: serial('id').primaryKey(),
+    name: text('name').notNull(),
+    keywords: text('keywords').notNull(), // JSON array of phrases (whole-word match)
+    patterns: text('patterns').notNull(), // JSON array of regex sources (case-insensitive)
+    requireAll: boolean('require_all').notNull().default(false), // AND instead of OR
+    categories: text('categories').notNull(), // JSON array of SourceCategory, empty = all
+    sourceIds: text('source_ids').notNull(), // JSON array, empty = all
+    minScore: doublePrecision('min_score').notNull().default(0),
+    enabled: boolean('enabled').notNull().default(true),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Watchlist matches found at ingest (one row per watchlist × item)
+export const alerts = pgTable('alerts', {
+    id: serial('id').primaryKey(),
+    watchlistId: integer('watchlist_id').notNull().references(() => watchlists.id, { onDelete: 'cascade' }),
+    contentId: text('content_id').notNull().references(() => contentItems.id, { onDelete: 'cascade' }),
+    matchedTerms: text('matched_terms').notNull(), // JSON array
+    score: doublePrecision('score').notNull(), // trendingScore at match time
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    readAt: timestamp('read_at', { withTimezone: true }),
+}, (table) => [
+    uniqueIndex('idx_alerts_watchlist_content').on(table.watchlistId, table.contentId),
+    index('idx_alerts_unread').on(table.readAt, table.createdAt),
+]);
+
+// Outbound webhook delivery log. Doubles as the dedup ledger (one row per
+// webhook × event key) and the dead-letter log (status = 'failed')
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+    id: serial('id').primaryKey(),
+    webhookId: text('webhook_id').notNull(), // WebhookConfig.id (configs live in settings)
+    eventType: text('event_type').notNull(), // 'alert' | 'score' | 'story' | 'daily' | 'test'
+    eventKey: text('event_key').notNull(), // e.g. "score:<contentId>", "daily:2026-10-18"
+    status: text('status').notNull().default('pending'), // 'pending' | 'delivered' | 'failed'
+    attempts: integer('attempts').notNull().default(0),
+    responseStatus: integer('response_status'),
+    lastError: text('last_error'),
+    payload: text('payload').notNull(), // Request body as sent, kept for replay
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+}, (table) => [
+    uniqueIndex('idx_webhook_deliveries_event').on(table.webhookId, table.eventKey),
+    index('idx_webhook_deliveries_status').on(table.status, table.createdAt),
+]);
+
+// Generated digest editions. Content is only kept for 7 days, so each edition
+// stores its full rendering data rather than references to content_items
+export const digests = pgTable('digests', {
+    id: serial('id').primaryKey(),
+    period: text('period').notNull(), // 'daily' | 'weekly'
+    date: text('date').notNull(), // YYYY-MM-DD (UTC); weekly editions use the Monday
+    data: text('data').notNull(), // JSON Digest
+    itemCount: integer('item_count').notNull(),
+    generatedAt: timestamp('generated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+    uniqueIndex('idx_digests_period_date').on(table.period, table.date),
+]);
+
+// Persistent cross-platform story clusters, built incrementally at ingest
+// (see lib/stories). IDs are stable: new items join an existing story
+export const stories = pgTable('stories', {
+    id: serial('id').primaryKey(),
+    title: text('title').notNull(), // Canonical title: earliest member's title
+    firstItemId: text('first_item_id').notNull(),
+    firstSourceId: text('first_source_id').notNull(),
+    firstSeenAt: timestamp('first_seen_at', { withTimezone: true }).notNull(),
+    platformCount: integer('platform_count').notNull().default(1),
+    itemCount: integer('item_count').notNull().default(1),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+    index('idx_stories_updated').on(table.updatedAt),
+]);
+
+// Item → story membership. Title/URL are copied so a story's history
+// survives content_items cleanup; an item belongs to at most one story
+export const storyItems = pgTable('story_items', {
+    contentId: text('content_id').primaryKey(),
+    storyId: integer('story_id').notNull().references(() => stories.id, { onDelete: 'cascade' }),
+    sourceId: text('source_id').notNull(),
+    platform: text('platform').notNull(), // Platform family (reddit-* → reddit, ...)
+    title: text('title').notNull(),
+    url: text('url').notNull(),
+    publishedAt: timestamp('published_at', { withTimezone: true }).notNull(),
+    joinedAt: timestamp('joined_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+    index('idx_story_items_story').on(table.storyId, table.publishedAt),
+]);
+
+// Bookmarked items. `item` is a JSON copy of the ContentItem at save time,
+// so saved items survive content_items cleanup
+export const savedItems = pgTable('saved_items', {
+    contentId: text('content_id').primaryKey(),
+    sourceId: text('source_id').notNull(),
+    title: text('title').notNull(),
+    url: text('url').notNull(),
+    description: text('description'),
+    publishedAt: timestamp('published_at', { withTimezone: true }).notNull(),
+    item: text('item').notNull(), // JSON ContentItem snapshot
+    tags: text('tags').notNull().default('[]'), // JSON array of user tags
+    note: text('note').notNull().default(''),
+    savedAt: timestamp('saved_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+    index('idx_saved_items_saved').on(table.savedAt),
+]);
+
+// Per-browser-profile visit tracking. A visit ends after 30 idle minutes
+// (see lib/visits); previous_visit_at is the last activity of the prior visit
+export const visits = pgTable('visits', {
+    profileId: text('profile_id').primaryKey(), // Random ID from the profile cookie
+    visitStartedAt: timestamp('visit_started_at', { withTimezone: true }).notNull().defaultNow(),
+    lastActiveAt: timestamp('last_active_at', { withTimezone: true }).notNull().defaultNow(),
+    previousVisitAt: timestamp('previous_visit_at', { withTimezone: true }),
+});
+
+// When a profile first had an item on screen (reported by the client once
+// the card is rendered, not when the feed merely returned it)
+export const seenItems = pgTable('seen_items', {
+    id: serial('id').primaryKey(),
+    profileId: text('profile_id').notNull().references(() => visits.profileId, { onDelete: 'cascade' }),
+    contentId: text('content_id').notNull(),
+    firstSeenAt: timestamp('first_seen_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+    uniqueIndex('idx_seen_items_profile_content').on(table.profileId, table.contentId),
+    index('idx_seen_items_first_seen').on(table.firstSeenAt),
+]);
+
+// Implicit feedback on feed cards ('click' | 'bookmark' | 'not_interested').
+// Source, title and tags are copied so learned affinities (see
+// lib/personalization) survive content_items cleanup
+export const feedbackEvents = pgTable('feedback_events', {
+    id: serial('id').primaryKey(),
+    contentId: text('content_id').notNull(),
+    action: text('action').notNull(),
+    sourceId: text('source_id').notNull(),
+    title: text('title').notNull(),
+    tags: text('tags').notNull().default('[]'), // JSON array of the item's tags
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+    index('idx_feedback_events_created').on(table.createdAt),
+]);
+
+// Items published per UTC day (YYYY-MM-DD), the denominator for topic
+// frequencies. Days still holding content are recounted (see lib/topics)
+export const topicDays = pgTable('topic_days', {
+    day: text('day').primaryKey(),
+    itemCount: integer('item_count').notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Items per day mentioning a topic (a tag or title term), kept after content
+// cleanup as the baseline for emerging-topic detection
+export const topicDailyCounts = pgTable('topic_daily_counts', {
+    id: serial('id').primaryKey(),
+    day: text('day').notNull().references(() => topicDays.day, { onDelete: 'cascade' }),
+    topic: text('topic').notNull(),
+    itemCount: integer('item_count').notNull(),
+}, (table) => [
+    uniqueIndex('idx_topic_daily_counts_day_topic').on(table.day, table.topic),
+    index('idx_topic_daily_counts_topic').on(table.topic),
+]);
+
+// Per-day totals of the content seen, rolled up before content cleanup
+export const rollupDays = pgTable('rollup_days', {
+    day: text('day').primaryKey(),
+    itemCount: integer('item_count').notNull(),
+    avgScore: doublePrecision('avg_score').notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Per-day aggregates by source, category, tag and story, so trends outlive
+// the 7 days of content_items (see lib/history)
+export const dailyRollups = pgTable('daily_rollups', {
+    id: serial('id').primaryKey(),
+    day: text('day').notNull().references(() => rollupDays.day, { onDelete: 'cascade' }),
+    dimension: text('dimension').notNull(), // RollupDimension
+    key: text('key').notNull(), // Source ID, category, tag or story ID
+    label: text('label'), // Story title (other keys are labelled client-side)
+    itemCount: integer('item_count').notNull(),
+    avgScore: doublePrecision('avg_score').notNull(),
+    topItems: text('top_items').notNull().default('[]'), // JSON RollupItem[]
+}, (table) => [
+    uniqueIndex('idx_daily_rollups_day_dimension_key').on(table.day, table.dimension, table.key),
+    index('idx_daily_rollups_dimension_key_day').on(table.dimension, table.key, table.day),
+]);
+
+// One row per source being fetched, shared by every instance so two
+// refreshes never fetch the same source. Lapses at expires_at if the holder dies
+export const sourceLeases = pgTable('source_leases', {
+    sourceId: text('source_id').primaryKey(),
+    sessionId: text('session_id').notNull(), // refresh_sessions.id of the holder
+    acquiredAt: timestamp('acquired_at', { withTimezone: true }).notNull().defaultNow(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+}, (table) => [
+    index('idx_source_leases_session').on(table.sessionId),
+]);
+
+// Source refreshes and their per-source progress, readable from any instance
+export const refreshSessions = pgTable('refresh_sessions', {
+    id: text('id').primaryKey(),
+    trigger: text('trigger').notNull(), // RefreshTrigger
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull().defaultNow(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+}, (table) => [
+    index('idx_refresh_sessions_started').on(table.startedAt),
+]);
+
+export const refreshSessionSources = pgTable('refresh_session_sources', {
+    id: serial('id').primaryKey(),
+    sessionId: text('session_id').notNull().references(() => refreshSessions.id, { onDelete: 'cascade' }),
+    sourceId: text('source_id').notNull(),
+    name: text('name').notNull(),
+    icon: text('icon').notNull().default(''),
+    status: text('status').notNull().default('pending'), // 'pending' | 'fetching' | 'done' | 'failed'
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+    uniqueIndex('idx_refresh_session_sources_session_source').on(table.sessionId, table.sourceId),
+]);
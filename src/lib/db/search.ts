@@ -0,0 +1,119 @@
+import { db } from './index';
+import { ContentRow, mapContentRow } from './actions';
+import { ContentItem } from '@/types';
+import { sql, SQL } from 'drizzle-orm';
+
+/**
+ * Highlight delimiters passed to ts_headline. Unlikely to appear in titles,
+ * so the raw headline can be HTML-escaped first and the markers swapped for
+ * <mark> afterwards (see lib/search).
+ */
+export const HIGHLIGHT_START = '⟦';
+export const HIGHLIGHT_STOP = '⟧';
+
+const TITLE_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+const SNIPPET_HEADLINE_OPTIONS =
+    `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export interface SearchScope {
+    /** websearch_to_tsquery syntax: "exact phrase", OR, -exclude */
+    query: string;
+    sourceIds: string[];
+    /** Earliest published_at; null searches everything still stored */
+    from: Date | null;
+    types?: string[];
+}
+
+export interface SearchHit {
+    item: ContentItem;
+    /** ts_rank_cd normalized to 0..1 (rank / (rank + 1)) */
+    rank: number;
+    titleHeadline: string;
+    snippetHeadline: string;
+}
+
+function scopeConditions(scope: SearchScope): SQL {
+    const sourceIdList = sql.join(scope.sourceIds.map(id => sql`${id}`), sql`, `);
+    const typeList = scope.types && scope.types.length > 0
+        ? sql`AND content_type IN (${sql.join(scope.types.map(t => sql`${t}`), sql`, `)})`
+        : sql``;
+    const fromCondition = scope.from
+        ? sql`AND published_at >= ${scope.from.toISOString()}::timestamptz`
+        : sql``;
+    return sql`
+        search_vector @@ websearch_to_tsquery('english', ${scope.query})
+        AND source_id IN (${sourceIdList})
+        ${fromCondition}
+        ${typeList}
+    `;
+}
+
+/**
+ * Best matches by text relevance, with highlighted title and snippet.
+ * Headlines are computed only for the returned rows (outer query), since
+ * ts_headline re-parses the document.
+ */
+export async function searchContent(
+    scope: SearchScope,
+    limit: number
+): Promise<{ hits: SearchHit[]; total: number }> {
+    if (scope.sourceIds.length === 0) return { hits: [], total: 0 };
+
+    const rows = await db.execute<ContentRow & {
+        rank: number;
+        total: number;
+        title_headline: string;
+        snippet_headline: string;
+    }>(sql`
+        WITH matches AS (
+            SELECT id, source_id, title, description, url, image_url,
+                   published_at, fetched_at, author, tags, sentiment,
+                   sentiment_score, content_type, content_type_version,
+                   engagement, arxiv_id, repo_url,
+                   ts_rank_cd(search_vector, websearch_to_tsquery('english', ${scope.query}), 32) AS rank,
+                   COUNT(*) OVER () AS total
+            FROM content_items
+            WHERE ${scopeConditions(scope)}
+            ORDER BY rank DESC, published_at DESC
+            LIMIT ${limit}
+        )
+        SELECT matches.*,
+               ts_headline('english', title, websearch_to_tsquery('english', ${scope.query}), ${TITLE_HEADLINE_OPTIONS}) AS title_headline,
+               ts_headline('english', coalesce(description, ''), websearch_to_tsquery('english', ${scope.query}), ${SNIPPET_HEADLINE_OPTIONS}) AS snippet_headline
+        FROM matches
+        ORDER BY rank DESC, published_at DESC
+    `);
+
+    const hits = [...rows].map(row => ({
+        item: mapContentRow(row),
+        rank: Number(row.rank),
+        titleHeadline: row.title_headline,
+        snippetHeadline: row.snippet_headline,
+    }));
+    return { hits, total: hits.length > 0 ? Number(rows[0].total) : 0 };
+}
+
+/** Match counts per (source, content type) across the whole scope, for facets. */
+export async function getSearchFacetCounts(
+    scope: SearchScope
+): Promise<{ sourceId: string; contentType: string | null; count: number }[]> {
+    if (scope.sourceIds.length === 0) return [];
+
+    const rows = await db.execute<{ source_id: string; content_type: string | null; count: number }>(sql`
+        SELECT source_id, content_type, COUNT(*)::int AS count
+        FROM content_items
+        WHERE ${scopeConditions(scope)}
+        GROUP BY source_id, content_type
+    `);
+    return [...rows].map(row => ({ sourceId: row.source_id, contentType: row.content_type, count: row.count }));
+}
+
+/** IDs of every item in scope matching the query (discovery API `search` param). */
+export async function matchContentIds(scope: SearchScope): Promise<Set<string>> {
+    if (scope.sourceIds.length === 0) return new Set();
+
+    const rows = await db.execute<{ id: string }>(sql`
+        SELECT id FROM content_items WHERE ${scopeConditions(scope)}
+    `);
+    return new Set([...rows].map(row => row.id));
+}
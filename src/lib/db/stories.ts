@@ -0,0 +1,233 @@
+import { db } from './index';
+import { stories, storyItems } from './schema';
+import { ContentItem, Story, StoryDetail, StoryMember } from '@/types';
+import { normalizeTitleForLinking } from '@/lib/scoring/cross-platform';
+import { and, desc, eq, gte, inArray, lt, sql } from 'drizzle-orm';
+
+/** A recent content item plus the story it already belongs to, if any. */
+export interface ClusterCandidate {
+    item: ContentItem;
+    storyId: number | null;
+}
+
+export interface NewStoryMember {
+    item: ContentItem;
+    platform: string;
+}
+
+function toStory(row: typeof stories.$inferSelect): Story {
+    return {
+        id: row.id,
+        title: row.title,
+        firstItemId: row.firstItemId,
+        firstSourceId: row.firstSourceId,
+        firstSeenAt: row.firstSeenAt.toISOString(),
+        platformCount: row.platformCount,
+        itemCount: row.itemCount,
+        updatedAt: row.updatedAt.toISOString(),
+    };
+}
+
+/**
+ * Content published since `since` with its current story, newest first.
+ * Only the fields story matching looks at are loaded.
+ */
+export async function getClusterCandidates(since: Date, limit: number): Promise<ClusterCandidate[]> {
+    const rows = await db.execute<{
+        id: string;
+        source_id: string;
+        title: string;
+        url: string;
+        published_at: Date;
+        fetched_at: Date;
+        arxiv_id: string | null;
+        repo_url: string | null;
+        story_id: number | null;
+    }>(sql`
+        SELECT c.id, c.source_id, c.title, c.url, c.published_at, c.fetched_at,
+               c.arxiv_id, c.repo_url, si.story_id
+        FROM content_items c
+        LEFT JOIN story_items si ON si.content_id = c.id
+        WHERE c.published_at >= ${since.toISOString()}::timestamptz
+        ORDER BY c.published_at DESC
+        LIMIT ${limit}
+    `);
+    return [...rows].map(row => ({
+        item: {
+            id: row.id,
+            sourceId: row.source_id,
+            title: row.title,
+            url: row.url,
+            publishedAt: new Date(row.published_at),
+            fetchedAt: new Date(row.fetched_at),
+            arxivId: row.arxiv_id ?? undefined,
+            repoUrl: row.repo_url ?? undefined,
+        },
+        storyId: row.story_id,
+    }));
+}
+
+/** Create a story from its first members. Returns the new story ID. */
+export async function createStory(members: NewStoryMember[]): Promise<number> {
+    const first = [...members].sort(
+        (a, b) => new Date(a.item.publishedAt).getTime() - new Date(b.item.publishedAt).getTime()
+    )[0];
+    const [row] = await db
+        .insert(stories)
+        .values({
+            title: normalizeTitleForLinking(first.item.title, first.item.sourceId),
+            firstItemId: first.item.id,
+            firstSourceId: first.item.sourceId,
+            firstSeenAt: new Date(first.item.publishedAt),
+        })
+        .returning({ id: stories.id });
+    await addStoryMembers(row.id, members);
+    return row.id;
+}
+
+/** Add members to a story (items already in a story are skipped) and refresh its aggregates. */
+export async function addStoryMembers(storyId: number, members: NewStoryMember[]): Promise<void> {
+    if (members.length === 0) return;
+    await db
+        .insert(storyItems)
+        .values(members.map(({ item, platform }) => ({
+            contentId: item.id,
+            storyId,
+            sourceId: item.sourceId,
+            platform,
+            title: item.title,
+            url: item.url,
+            publishedAt: new Date(item.publishedAt),
+        })))
+        .onConflictDoNothing({ target: storyItems.contentId });
+
+    // Canonical title / first-seen follow the earliest member, which changes
+    // only if a late-fetched item was published before the current first one
+    await db.execute(sql`
+        UPDATE stories s SET
+            item_count = agg.item_count,
+            platform_count = agg.platform_count,
+            first_seen_at = first.published_at,
+            first_item_id = first.content_id,
+            first_source_id = first.source_id,
+            title = CASE WHEN first.platform = 'hackernews'
+                THEN regexp_replace(first.title, '^(Show|Ask|Tell) HN:\\s*', '', 'i')
+                ELSE first.title END,
+            updated_at = NOW()
+        FROM (
+            SELECT COUNT(*)::int AS item_count, COUNT(DISTINCT platform)::int AS platform_count
+            FROM story_items WHERE story_id = ${storyId}
+        ) agg, (
+            SELECT content_id, source_id, platform, title, published_at
+            FROM story_items WHERE story_id = ${storyId}
+            ORDER BY published_at ASC, joined_at ASC
+            LIMIT 1
+        ) first
+        WHERE s.id = ${storyId}
+    `);
+}
+
+/** Stories most recently joined by a new item first. */
+export async function listStories(options: {
+    since?: Date;
+    minPlatforms?: number;
+    limit?: number;
+    offset?: number;
+} = {}): Promise<Story[]> {
+    const { since, minPlatforms = 2, limit = 50, offset = 0 } = options;
+    const rows = await db
+        .select()
+        .from(stories)
+        .where(and(
+            gte(stories.platformCount, minPlatforms),
+            since ? gte(stories.updatedAt, since) : undefined
+        ))
+        .orderBy(desc(stories.updatedAt))
+        .limit(limit)
+        .offset(offset);
+    return rows.map(toStory);
+}
+
+export async function getStory(id: number): Promise<StoryDetail | null> {
+    const [row] = await db.select().from(stories).where(eq(stories.id, id));
+    if (!row) return null;
+
+    const members = await db
+        .select()
+        .from(storyItems)
+        .where(eq(storyItems.storyId, id))
+        .orderBy(storyItems.publishedAt, storyItems.joinedAt);
+
+    return {
+        ...toStory(row),
+        members: members.map((member): StoryMember => ({
+            contentId: member.contentId,
+            sourceId: member.sourceId,
+            platform: member.platform,
+            title: member.title,
+            url: member.url,
+            publishedAt: member.publishedAt.toISOString(),
+            joinedAt: member.joinedAt.toISOString(),
+        })),
+    };
+}
+
+/** When a source first carried a story, next to when the story was first seen anywhere. */
+export interface StoryAppearance {
+    storyId: number;
+    sourceId: string;
+    firstAt: Date;
+    storyFirstAt: Date;
+}
+
+/** Each source's first appearance in every multi-platform story first seen since `since`. */
+export async function getStoryAppearances(since: Date): Promise<StoryAppearance[]> {
+    const rows = await db.execute<{
+        story_id: number;
+        source_id: string;
+        first_at: Date;
+        story_first_at: Date;
+    }>(sql`
+        SELECT story_id, source_id, first_at,
+               MIN(first_at) OVER (PARTITION BY story_id) AS story_first_at
+        FROM (
+            SELECT si.story_id, si.source_id, MIN(si.published_at) AS first_at
+            FROM story_items si
+            JOIN stories s ON s.id = si.story_id
+            WHERE s.platform_count >= 2
+              AND s.first_seen_at >= ${since.toISOString()}::timestamptz
+            GROUP BY si.story_id, si.source_id
+        ) per_source
+    `);
+    return [...rows].map(row => ({
+        storyId: row.story_id,
+        sourceId: row.source_id,
+        firstAt: new Date(row.first_at),
+        storyFirstAt: new Date(row.story_first_at),
+    }));
+}
+
+/** Story ID and title of each of the given items that belongs to a story. */
+export async function getItemStories(contentIds: string[]): Promise<Map<string, { storyId: number; title: string }>> {
+    if (contentIds.length === 0) return new Map();
+    const rows = await db
+        .select({ contentId: storyItems.contentId, storyId: storyItems.storyId, title: stories.title })
+        .from(storyItems)
+        .innerJoin(stories, eq(stories.id, storyItems.storyId))
+        .where(inArray(storyItems.contentId, contentIds));
+    return new Map(rows.map(row => [row.contentId, { storyId: row.storyId, title: row.title }]));
+}
+
+/**
+ * Delete stories no item has joined in `days` days (members cascade).
+ * With `dryRun`, only counts them.
+ */
+export async function cleanupOldStories(days: number, dryRun = false): Promise<number> {
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    if (dryRun) return db.$count(stories, lt(stories.updatedAt, cutoff));
+    const deleted = await db
+        .delete(stories)
+        .where(lt(stories.updatedAt, cutoff))
+        .returning({ id: stories.id });
+    return deleted.length;
+}
@@ -0,0 +1,65 @@
+import { db } from './index';
+import { topicDays, topicDailyCounts } from './schema';
+import type { TopicDay } from '@/lib/topics';
+import { and, eq, gte, inArray, lt, lte } from 'drizzle-orm';
+
+const INSERT_CHUNK_SIZE = 500;
+
+/** Days (YYYY-MM-DD) from `from` on that already have stored counts. */
+export async function getStoredTopicDays(from: string): Promise<Set<string>> {
+    const rows = await db.select({ day: topicDays.day }).from(topicDays).where(gte(topicDays.day, from));
+    return new Set(rows.map(row => row.day));
+}
+
+/**
+ * Replace a day's counts. The day row is upserted first; its old topic rows
+ * are deleted and the new ones inserted in one transaction.
+ */
+export async function saveTopicDay(day: string, itemCount: number, counts: Map<string, number>): Promise<void> {
+    const rows = [...counts].map(([topic, count]) => ({ day, topic, itemCount: count }));
+    await db.transaction(async (tx) => {
+        await tx
+            .insert(topicDays)
+            .values({ day, itemCount })
+            .onConflictDoUpdate({ target: topicDays.day, set: { itemCount, updatedAt: new Date() } });
+        await tx.delete(topicDailyCounts).where(eq(topicDailyCounts.day, day));
+        for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+            await tx.insert(topicDailyCounts).values(rows.slice(i, i + INSERT_CHUNK_SIZE));
+        }
+    });
+}
+
+/**
+ * Stored days in [from, to] (inclusive), with counts for the given topics
+ * only. Days are returned even when none of the topics appeared.
+ */
+export async function getTopicHistory(from: string, to: string, topics: string[]): Promise<TopicDay[]> {
+    const [days, counts] = await Promise.all([
+        db.select({ day: topicDays.day, itemCount: topicDays.itemCount })
+            .from(topicDays)
+            .where(and(gte(topicDays.day, from), lte(topicDays.day, to)))
+            .orderBy(topicDays.day),
+        topics.length === 0 ? [] : db
+            .select({ day: topicDailyCounts.day, topic: topicDailyCounts.topic, itemCount: topicDailyCounts.itemCount })
+            .from(topicDailyCounts)
+            .where(and(
+                gte(topicDailyCounts.day, from),
+                lte(topicDailyCounts.day, to),
+                inArray(topicDailyCounts.topic, topics)
+            )),
+    ]);
+
+    const byDay = new Map<string, TopicDay>(days.map(d => [d.day, { ...d, counts: new Map() }]));
+    for (const row of counts) {
+        byDay.get(row.day)?.counts.set(row.topic, row.itemCount);
+    }
+    return [...byDay.values()];
+}
+
+/** Delete (or with `dryRun`, count) stored days before `days` ago; their topic counts cascade. */
+export async function cleanupOldTopicDays(days: number, dryRun = false): Promise<number> {
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    if (dryRun) return db.$count(topicDays, lt(topicDays.day, cutoff));
+    const deleted = await db.delete(topicDays).where(lt(topicDays.day, cutoff)).returning({ day: topicDays.day });
+    return deleted.length;
+}
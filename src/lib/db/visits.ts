@@ -0,0 +1,76 @@
+import { db } from './index';
+import { visits, seenItems } from './schema';
+import { VisitState } from '@/types';
+import { and, eq, inArray, lt, sql } from 'drizzle-orm';
+
+/**
+ * Record activity for a profile and return its current visit. Activity after
+ * more than `gapMs` of inactivity starts a new visit, and the old visit's
+ * last activity becomes `previousVisitAt`.
+ */
+export async function touchVisit(profileId: string, gapMs: number): Promise<VisitState> {
+    const now = new Date();
+    const gapStart = new Date(now.getTime() - gapMs).toISOString();
+
+    // SET expressions see the pre-update row, so the gap check uses the old last_active_at
+    const rows = await db.execute<{ visit_started_at: Date; previous_visit_at: Date | null }>(sql`
+        INSERT INTO visits (profile_id, visit_started_at, last_active_at)
+        VALUES (${profileId}, ${now.toISOString()}::timestamptz, ${now.toISOString()}::timestamptz)
+        ON CONFLICT (profile_id) DO UPDATE SET
+            previous_visit_at = CASE WHEN visits.last_active_at < ${gapStart}::timestamptz
+                THEN visits.last_active_at ELSE visits.previous_visit_at END,
+            visit_started_at = CASE WHEN visits.last_active_at < ${gapStart}::timestamptz
+                THEN EXCLUDED.visit_started_at ELSE visits.visit_started_at END,
+            last_active_at = EXCLUDED.last_active_at
+        RETURNING visit_started_at, previous_visit_at
+    `);
+    const row = rows[0];
+    return {
+        startedAt: new Date(row.visit_started_at).toISOString(),
+        previousVisitAt: row.previous_visit_at ? new Date(row.previous_visit_at).toISOString() : null,
+    };
+}
+
+/** First-seen times of the given items for a profile (unseen items are omitted). */
+export async function getFirstSeen(profileId: string, contentIds: string[]): Promise<Record<string, string>> {
+    if (contentIds.length === 0) return {};
+    const rows = await db
+        .select({ contentId: seenItems.contentId, firstSeenAt: seenItems.firstSeenAt })
+        .from(seenItems)
+        .where(and(eq(seenItems.profileId, profileId), inArray(seenItems.contentId, contentIds)));
+    return Object.fromEntries(rows.map(row => [row.contentId, row.firstSeenAt.toISOString()]));
+}
+
+/**
+ * Mark items as seen now. Items seen before keep their original time.
+ * The profile's visit row must exist (call touchVisit first).
+ */
+export async function markSeen(profileId: string, contentIds: string[]): Promise<number> {
+    if (contentIds.length === 0) return 0;
+    const inserted = await db
+        .insert(seenItems)
+        .values(contentIds.map(contentId => ({ profileId, contentId })))
+        .onConflictDoNothing({ target: [seenItems.profileId, seenItems.contentId] })
+        .returning({ id: seenItems.id });
+    return inserted.length;
+}
+
+/** Profiles idle this long are forgotten (with their seen records). */
+const PROFILE_RETENTION_DAYS = 90;
+
+/**
+ * Delete seen records older than `days` (their content is gone) and long-idle
+ * profiles. With `dryRun`, only counts the seen records.
+ */
+export async function cleanupOldSeenItems(days: number, dryRun = false): Promise<number> {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const expired = lt(seenItems.firstSeenAt, new Date(Date.now() - days * DAY_MS));
+    if (dryRun) return db.$count(seenItems, expired);
+    const [deleted] = await Promise.all([
+        db.delete(seenItems)
+            .where(expired)
+            .returning({ id: seenItems.id }),
+        db.delete(visits).where(lt(visits.lastActiveAt, new Date(Date.now() - PROFILE_RETENTION_DAYS * DAY_MS))),
+    ]);
+    return deleted.length;
+}
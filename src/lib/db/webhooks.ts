@@ -0,0 +1,153 @@
+import { db } from './index';
+import { webhookDeliveries } from './schema';
+import { getSetting, updateSetting } from './actions';
+import { WebhookConfig, WebhookDeadLetter, WebhookEventType } from '@/types';
+import { and, desc, eq, inArray, lt, sql } from 'drizzle-orm';
+
+// === Webhook Configs (settings KV) ===
+
+export async function getWebhooks(): Promise<WebhookConfig[]> {
+    return getSetting<WebhookConfig[]>('webhooks', []);
+}
+
+export async function setWebhooks(webhooks: WebhookConfig[]): Promise<void> {
+    await updateSetting('webhooks', webhooks);
+}
+
+// === Delivery Log ===
+
+/**
+ * Reserve (webhook, event key) before sending. Returns the delivery row ID,
+ * or null when this event was already sent (or is being sent) to this webhook.
+ */
+export async function claimDelivery(
+    webhookId: string,
+    eventType: WebhookEventType,
+    eventKey: string,
+    payload: string
+): Promise<number | null> {
+    const [row] = await db
+        .insert(webhookDeliveries)
+        .values({ webhookId, eventType, eventKey, payload })
+        .onConflictDoNothing({ target: [webhookDeliveries.webhookId, webhookDeliveries.eventKey] })
+        .returning({ id: webhookDeliveries.id });
+    return row?.id ?? null;
+}
+
+/** Record the outcome of a delivery. Failed rows form the dead-letter log. */
+export async function completeDelivery(
+    id: number,
+    result: { ok: boolean; attempts: number; responseStatus: number | null; error: string | null }
+): Promise<void> {
+    await db
+        .update(webhookDeliveries)
+        .set({
+            status: result.ok ? 'delivered' : 'failed',
+            attempts: sql`${webhookDeliveries.attempts} + ${result.attempts}`,
+            responseStatus: result.responseStatus,
+            lastError: result.error,
+            deliveredAt: result.ok ? new Date() : null,
+        })
+        .where(eq(webhookDeliveries.id, id));
+}
+
+/** Event keys from `keys` that already have a delivery row for this webhook. */
+export async function getClaimedEventKeys(webhookId: string, keys: string[]): Promise<Set<string>> {
+    if (keys.length === 0) return new Set();
+    try {
+        const rows = await db
+            .select({ eventKey: webhookDeliveries.eventKey })
+            .from(webhookDeliveries)
+            .where(and(eq(webhookDeliveries.webhookId, webhookId), inArray(webhookDeliveries.eventKey, keys)));
+        return new Set(rows.map(r => r.eventKey));
+    } catch (error) {
+        console.error(`Failed to get claimed event keys for webhook ${webhookId}:`, error);
+        // Treat everything as claimed: skipping an event beats sending it twice
+        return new Set(keys);
+    }
+}
+
+type DeliveryRow = typeof webhookDeliveries.$inferSelect;
+
+function toDeadLetter(row: DeliveryRow): WebhookDeadLetter {
+    return {
+        id: row.id,
+        webhookId: row.webhookId,
+        eventType: row.eventType as WebhookEventType,
+        eventKey: row.eventKey,
+        attempts: row.attempts,
+        responseStatus: row.responseStatus,
+        lastError: row.lastError,
+        payload: row.payload,
+        createdAt: row.createdAt.toISOString(),
+    };
+}
+
+/** Failed deliveries, newest first. */
+export async function getDeadLetters(
+    options: { webhookId?: string; limit?: number } = {}
+): Promise<WebhookDeadLetter[]> {
+    const { webhookId, limit = 50 } = options;
+    try {
+        const conditions = [eq(webhookDeliveries.status, 'failed')];
+        if (webhookId) conditions.push(eq(webhookDeliveries.webhookId, webhookId));
+
+        const rows = await db
+            .select()
+            .from(webhookDeliveries)
+            .where(and(...conditions))
+            .orderBy(desc(webhookDeliveries.createdAt))
+            .limit(limit);
+        return rows.map(toDeadLetter);
+    } catch (error) {
+        console.error('Failed to get webhook dead letters:', error);
+        return [];
+    }
+}
+
+export async function getDeadLetter(id: number): Promise<WebhookDeadLetter | null> {
+    const [row] = await db
+        .select()
+        .from(webhookDeliveries)
+        .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.status, 'failed')));
+    return row ? toDeadLetter(row) : null;
+}
+
+/** Failed delivery count per webhook ID. */
+export async function getDeadLetterCounts(): Promise<Record<string, number>> {
+    try {
+        const rows = await db
+            .select({ webhookId: webhookDeliveries.webhookId, count: sql<number>`COUNT(*)::int` })
+            .from(webhookDeliveries)
+            .where(eq(webhookDeliveries.status, 'failed'))
+            .groupBy(webhookDeliveries.webhookId);
+        return Object.fromEntries(rows.map(r => [r.webhookId, r.count]));
+    } catch (error) {
+        console.error('Failed to get webhook dead letter counts:', error);
+        return {};
+    }
+}
+
+export async function deleteDeliveries(webhookId: string): Promise<void> {
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, webhookId));
+}
+
+/**
+ * Delete delivery rows older than `days` (with `dryRun`, count them). Keep
+ * the window longer than content retention so it still covers every item or
+ * story that could fire again.
+ */
+export async function cleanupOldDeliveries(days: number, dryRun = false): Promise<number> {
+    try {
+        const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        if (dryRun) return await db.$count(webhookDeliveries, lt(webhookDeliveries.createdAt, cutoff));
+        const deleted = await db
+            .delete(webhookDeliveries)
+            .where(lt(webhookDeliveries.createdAt, cutoff))
+            .returning({ id: webhookDeliveries.id });
+        return deleted.length;
+    } catch (error) {
+        console.error('Failed to clean up webhook deliveries:', error);
+        return 0;
+    }
+}
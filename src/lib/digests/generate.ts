@@ -0,0 +1,215 @@
+import { ContentItem, Digest, DigestPeriod, DigestSection, SourceCategory, CATEGORY_LABELS } from '@/types';
+import { getEffectiveConfig, getEffectiveSourceList } from '@/lib/config/resolve';
+import { getContentPublishedBetween, getLastRetentionReport, getRetentionPolicy } from '@/lib/db/actions';
+import { getStoredDigest, saveDigest } from '@/lib/db/digests';
+import { scoreAndSortItems, linkAndAmplify } from '@/lib/scoring';
+import { minContentDays } from '@/lib/retention';
+
+export const DIGEST_PERIODS: DigestPeriod[] = ['daily', 'weekly'];
+
+const ITEMS_PER_CATEGORY: Record<DigestPeriod, number> = { daily: 5, weekly: 10 };
+const TOP_STORIES = 5;
+const QUERY_LIMIT: Record<DigestPeriod, number> = { daily: 2000, weekly: 5000 };
+const DESCRIPTION_MAX_LENGTH = 280;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Format a Date as its UTC calendar day (YYYY-MM-DD). */
+export function toDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve a YYYY-MM-DD date to the UTC period containing it. Weekly periods
+ * are ISO weeks keyed by their Monday. Returns null for malformed dates.
+ */
+export function getDigestPeriod(period: DigestPeriod, date: string): { key: string; start: Date; end: Date } | null {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+    const day = new Date(`${date}T00:00:00.000Z`);
+    if (isNaN(day.getTime()) || toDateKey(day) !== date) return null;
+
+    if (period === 'daily') {
+        return { key: date, start: day, end: new Date(day.getTime() + DAY_MS) };
+    }
+    const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+    const start = new Date(day.getTime() - daysSinceMonday * DAY_MS);
+    return { key: toDateKey(start), start, end: new Date(start.getTime() + 7 * DAY_MS) };
+}
+
+/** Date key of the most recent fully elapsed period. */
+export function getLatestCompleteDate(period: DigestPeriod, now: Date = new Date()): string {
+    const current = getDigestPeriod(period, toDateKey(now))!;
+    return toDateKey(new Date(current.start.getTime() - DAY_MS));
+}
+
+/** Keep stored digests small: drop fields only useful while the item is live. */
+function toDigestItem(item: ContentItem): ContentItem {
+    return {
+        id: item.id,
+        sourceId: item.sourceId,
+        title: item.title,
+        description: item.description && item.description.length > DESCRIPTION_MAX_LENGTH
+            ? item.description.slice(0, DESCRIPTION_MAX_LENGTH - 1) + '…'
+            : item.description,
+        url: item.url,
+        imageUrl: item.imageUrl,
+        publishedAt: item.publishedAt,
+        fetchedAt: item.fetchedAt,
+        author: item.author,
+        sentiment: item.sentiment,
+        contentType: item.contentType,
+        engagement: item.engagement,
+        trendingScore: item.trendingScore,
+        crossPlatformCount: item.crossPlatformCount,
+        crossPlatformSources: item.crossPlatformSources,
+        crossPlatformLinks: item.crossPlatformLinks,
+    };
+}
+
+function buildSummary(
+    totalItems: number,
+    sourceCount: number,
+    top: ContentItem[],
+    sections: DigestSection[],
+    countByCategory: Map<SourceCategory, number>
+): string {
+    if (totalItems === 0) return 'No items were published in this period.';
+
+    const parts = [`${totalItems} items from ${sourceCount} sources.`];
+    const lead = top[0];
+    if (lead) {
+        const reach = (lead.crossPlatformCount || 1) > 1 ? ` (on ${lead.crossPlatformCount} platforms)` : '';
+        parts.push(`Top story: "${lead.title}"${reach}.`);
+    }
+    const multiPlatform = sections.flatMap(s => s.items).filter(i => (i.crossPlatformCount || 1) > 1).length;
+    if (multiPlatform > 0) parts.push(`${multiPlatform} picks were covered on several platforms.`);
+    const [busiest] = [...countByCategory.entries()].sort((a, b) => b[1] - a[1]);
+    if (busiest) parts.push(`Busiest category: ${CATEGORY_LABELS[busiest[0]]} (${busiest[1]} items).`);
+    return parts.join(' ');
+}
+
+/**
+ * Build a digest from stored content: score the period's items together
+ * (recency measured from the period end), link cross-platform duplicates,
+ * then pick the top N per category. A story covered on several platforms
+ * appears once, under its best-scoring item, with every platform's link.
+ */
+export async function buildDigest(period: DigestPeriod, date: string, now: Date = new Date()): Promise<Digest | null> {
+    const range = getDigestPeriod(period, date);
+    if (!range) return null;
+
+    const [config, sourceList] = await Promise.all([getEffectiveConfig(), getEffectiveSourceList()]);
+    const categoryBySource = new Map(sourceList.all.map(s => [s.id, s.category]));
+    const partial = range.end > now;
+
+    const items = await getContentPublishedBetween(
+        config.enabledSourceIds, range.start, range.end, QUERY_LIMIT[period]
+    );
+    const scored = linkAndAmplify(scoreAndSortItems(items, {
+        priorities: config.priorities,
+        boostKeywords: config.boostKeywords,
+        weights: config.scoringWeights.base,
+        recencyHalfLifeHours: config.scoringWeights.recencyHalfLifeHours,
+        now: partial ? now : range.end,
+    })).sort((a, b) => (b.trendingScore || 0) - (a.trendingScore || 0));
+
+    const covered = new Set<string>();
+    const picks = new Map<SourceCategory, ContentItem[]>();
+    const countByCategory = new Map<SourceCategory, number>();
+    const top: ContentItem[] = [];
+
+    for (const item of scored) {
+        const category = categoryBySource.get(item.sourceId);
+        if (!category) continue;
+        countByCategory.set(category, (countByCategory.get(category) || 0) + 1);
+
+        if (covered.has(item.id)) continue;
+        const picked = picks.get(category) || [];
+        if (picked.length >= ITEMS_PER_CATEGORY[period]) continue;
+
+        covered.add(item.id);
+        item.crossRefs?.forEach(id => covered.add(id));
+        const digestItem = toDigestItem(item);
+        picks.set(category, [...picked, digestItem]);
+        if (top.length < TOP_STORIES) top.push(digestItem);
+    }
+
+    // Category order follows CATEGORY_LABELS, matching the dashboard tabs
+    const sections: DigestSection[] = (Object.keys(CATEGORY_LABELS) as SourceCategory[])
+        .filter(category => picks.has(category))
+        .map(category => ({ category, items: picks.get(category)! }));
+
+    return {
+        date: range.key,
+        period,
+        start: range.start.toISOString(),
+        end: range.end.toISOString(),
+        generatedAt: now.toISOString(),
+        partial,
+        totalItems: scored.length,
+        items: top,
+        summary: buildSummary(scored.length, new Set(scored.map(i => i.sourceId)).size, top, sections, countByCategory),
+        sections,
+    };
+}
+
+/**
+ * Oldest time content is still complete: the cutoff of the last retention
+ * run (its start minus the shortest content window), or null if retention
+ * has never deleted anything.
+ */
+async function getContentCompleteSince(): Promise<Date | null> {
+    const [lastRun, policy] = await Promise.all([getLastRetentionReport(), getRetentionPolicy()]);
+    if (!lastRun) return null;
+    return new Date(new Date(lastRun.startedAt).getTime() - minContentDays(policy) * DAY_MS);
+}
+
+/**
+ * Stored edition if there is one; otherwise build it. Completed periods with
+ * content are persisted on first request, in-progress periods are built
+ * live every time. A completed period that retention has already cut into
+ * is returned marked `incomplete` and not persisted. Returns null for
+ * malformed or future dates, and for past periods with neither a stored
+ * edition nor content left in the database.
+ */
+export async function getOrCreateDigest(period: DigestPeriod, date: string): Promise<Digest | null> {
+    const range = getDigestPeriod(period, date);
+    const now = new Date();
+    if (!range || range.start > now) return null;
+
+    const stored = await getStoredDigest(period, range.key);
+    if (stored) return stored;
+
+    const digest = await buildDigest(period, range.key, now);
+    if (!digest || (digest.totalItems === 0 && !digest.partial)) return null;
+
+    if (!digest.partial) {
+        const completeSince = await getContentCompleteSince();
+        if (completeSince && range.start < completeSince) {
+            return { ...digest, incomplete: true };
+        }
+        try {
+            await saveDigest(digest);
+        } catch (error) {
+            console.error(`Failed to save ${period} digest ${digest.date}:`, error);
+        }
+    }
+    return digest;
+}
+
+/**
+ * Persist yesterday's daily and last week's weekly edition if missing.
+ * Retention deletes old content, so editions nobody opened would otherwise
+ * be lost. Cheap when both exist (two indexed lookups).
+ */
+export async function maybeGenerateDigests(): Promise<void> {
+    for (const period of DIGEST_PERIODS) {
+        try {
+            const date = getLatestCompleteDate(period);
+            if (await getStoredDigest(period, date)) continue;
+            const digest = await getOrCreateDigest(period, date);
+            if (digest) console.log(`Digests: generated ${period} edition ${digest.date}`);
+        } catch (error) {
+            console.error(`Failed to generate ${period} digest:`, error);
+        }
+    }
+}
@@ -0,0 +1,110 @@
+import { ContentItem, Digest, CATEGORY_LABELS } from '@/types';
+
+type SourceNameFn = (sourceId: string) => string;
+
+export function formatDigestTitle(digest: Digest): string {
+    if (digest.period === 'daily') return `AI Trends Daily Digest — ${digest.date}`;
+    const lastDay = new Date(new Date(digest.end).getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    return `AI Trends Weekly Digest — ${digest.date} to ${lastDay}`;
+}
+
+/** Every link for an entry: its own URL first, then the other platforms. */
+function entryLinks(item: ContentItem, sourceName: SourceNameFn): { label: string; url: string }[] {
+    return [
+        { label: sourceName(item.sourceId), url: item.url },
+        ...(item.crossPlatformLinks || []).map(link => ({ label: sourceName(link.sourceId), url: link.url })),
+    ];
+}
+
+function scoreLabel(item: ContentItem): string {
+    return item.trendingScore !== undefined ? `score ${Math.round(item.trendingScore)}` : '';
+}
+
+// === Markdown ===
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\`*_[\]<>|])/g, '\\$1');
+}
+
+function markdownEntry(item: ContentItem, sourceName: SourceNameFn): string {
+    const [primary, ...others] = entryLinks(item, sourceName);
+    const meta = [primary.label, scoreLabel(item)].filter(Boolean).join(' · ');
+    const lines = [`- **[${escapeMarkdown(item.title)}](${primary.url})** — ${meta}`];
+    if (others.length > 0) {
+        lines.push(`  - Also on: ${others.map(l => `[${escapeMarkdown(l.label)}](${l.url})`).join(', ')}`);
+    }
+    if (item.description) lines.push(`  - ${escapeMarkdown(item.description)}`);
+    return lines.join('\n');
+}
+
+export function renderDigestMarkdown(digest: Digest, sourceName: SourceNameFn): string {
+    const lines = [`# ${formatDigestTitle(digest)}`, ''];
+    if (digest.partial) lines.push('_In progress — this period has not ended yet._', '');
+    if (digest.incomplete) lines.push('_Incomplete — some of this period\'s content was already removed by retention._', '');
+    if (digest.summary) lines.push(escapeMarkdown(digest.summary), '');
+
+    if (digest.items.length > 0) {
+        lines.push('## Top Stories', '');
+        digest.items.forEach(item => lines.push(markdownEntry(item, sourceName)));
+        lines.push('');
+    }
+    for (const section of digest.sections) {
+        lines.push(`## ${CATEGORY_LABELS[section.category]}`, '');
+        section.items.forEach(item => lines.push(markdownEntry(item, sourceName)));
+        lines.push('');
+    }
+    return lines.join('\n');
+}
+
+// === HTML ===
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function htmlEntry(item: ContentItem, sourceName: SourceNameFn): string {
+    const [primary, ...others] = entryLinks(item, sourceName);
+    const meta = [primary.label, scoreLabel(item)].filter(Boolean).join(' · ');
+    return `
+        <li style="margin:0 0 14px">
+            <a href="${escapeHtml(primary.url)}" style="color:#0f766e;font-weight:600;text-decoration:none">${escapeHtml(item.title)}</a>
+            <div style="color:#6b7280;font-size:13px">${escapeHtml(meta)}${others.length > 0
+                ? ` · also on ${others.map(l => `<a href="${escapeHtml(l.url)}" style="color:#6b7280">${escapeHtml(l.label)}</a>`).join(', ')}`
+                : ''}</div>
+            ${item.description ? `<div style="color:#374151;font-size:14px;margin-top:2px">${escapeHtml(item.description)}</div>` : ''}
+        </li>`;
+}
+
+/** Standalone HTML page with inline styles, so it also works pasted into an email. */
+export function renderDigestHtml(digest: Digest, sourceName: SourceNameFn): string {
+    const title = formatDigestTitle(digest);
+    const section = (heading: string, items: ContentItem[]) => `
+    <h2 style="font-size:18px;border-bottom:1px solid #e5e7eb;padding-bottom:4px;margin:28px 0 12px">${escapeHtml(heading)}</h2>
+    <ul style="list-style:none;padding:0;margin:0">${items.map(item => htmlEntry(item, sourceName)).join('')}
+    </ul>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#111827">
+<main style="max-width:720px;margin:0 auto;background:#fff;padding:24px 32px;border-radius:8px">
+    <h1 style="font-size:22px;margin:0 0 8px">${escapeHtml(title)}</h1>
+    ${digest.partial ? '<p style="color:#b45309;margin:0 0 8px"><em>In progress — this period has not ended yet.</em></p>' : ''}
+    ${digest.incomplete ? '<p style="color:#b45309;margin:0 0 8px"><em>Incomplete — some of this period&#39;s content was already removed by retention.</em></p>' : ''}
+    ${digest.summary ? `<p style="color:#374151;margin:0">${escapeHtml(digest.summary)}</p>` : ''}
+    ${digest.items.length > 0 ? section('Top Stories', digest.items) : ''}
+    ${digest.sections.map(s => section(CATEGORY_LABELS[s.category], s.items)).join('')}
+</main>
+</body>
+</html>
+`;
+}
@@ -1,6 +1,7 @@
+import { randomUUID } from 'crypto';
 import { createAdapter } from '@/lib/adapters';
 import { deduplicateItems } from '@/lib/adapters/base';
-import { ContentItem, SourceConfig, TimeRange, SourceHealthRecord } from '@/types';
+import { ContentItem, SourceConfig, TimeRange, SourceHealthRecord, RefreshTrigger } from '@/types';
 import {
     cacheContent,
     getSourceFreshness,
@@ -8,170 +9,367 @@ import {
     getSourceHealth,
     updateSourceHealth,
 } from '@/lib/db/actions';
+import { getLeaseHolders } from '@/lib/db/refresh';
 import {
+    startRefreshSession,
     markSourceFetching,
     markSourceDone,
     markSourceFailed,
+    dropSessionSource,
     endRefreshSession,
 } from './refresh-progress';
+import { LEASE_FETCH_WINDOW_MS, leaseSources, releaseLeases } from './source-leases';
+import { evaluateWatchlists } from '@/lib/alerts/watchlists';
+import { runWebhookTriggers } from '@/lib/webhooks/triggers';
+import { assignStories } from '@/lib/stories/assign';
+
+export interface SourceFetchOutcome {
+    sourceId: string;
+    name: string;
+    itemCount: number;
+    error?: string;
+    durationMs: number;
+}
 
 export interface FreshnessResult {
     staleCount: number;
     freshCount: number;
     failures: { source: string; error: string }[];
+    /** One per fetched source; sources not started before the deadline are absent */
+    outcomes: SourceFetchOutcome[];
+    /** IDs of stale sources not started before the deadline */
+    deferred: string[];
+    /** IDs of stale sources left alone because another refresh holds their lease */
+    locked: string[];
+    /**
+     * Watchlist/webhook, story and source health updates for the fetched
+     * items. Never rejects; await it (or pass it to after()) so a serverless
+     * function or worker doesn't stop before it settles.
+     */
+    postProcessing: Promise<void>;
+}
+
+export interface FreshnessOptions {
+    /** Most adapters fetching at once (default: every stale source) */
+    concurrency?: number;
+    /**
+     * Epoch ms after which no further fetch starts; the rest stay stale.
+     * Never later than LEASE_FETCH_WINDOW_MS after the call.
+     */
+    deadline?: number;
+    /** Session from claimStaleSources; without one, a session is started here */
+    sessionId?: string;
+    /** What started the refresh, recorded on a session started here (default 'request') */
+    trigger?: RefreshTrigger;
+}
+
+/**
+ * Lease whichever of `sources` no other refresh holds to a new session, for
+ * routes that refresh after responding: the session exists before the
+ * response so the client can poll it, and ensureSourcesFresh then runs with
+ * its `sessionId`. When every source is held elsewhere, returns no sources
+ * and a holder's session, so the client can follow that refresh instead.
+ * If the leases can't be read or written, claims nothing.
+ */
+export async function claimStaleSources<T extends SourceConfig>(
+    sources: T[],
+    trigger: RefreshTrigger = 'request'
+): Promise<{ sessionId: string | null; sources: T[] }> {
+    try {
+        const sessionId = randomUUID();
+        const leased = await leaseSources(sources.map(s => s.id), sessionId);
+        const claimed = sources.filter(s => leased.has(s.id));
+        if (claimed.length === 0) {
+            const holders = await getLeaseHolders(sources.map(s => s.id));
+            return { sessionId: holders.values().next().value ?? null, sources: [] };
+        }
+        await startRefreshSession(claimed, trigger, sessionId);
+        return { sessionId, sources: claimed };
+    } catch (err) {
+        console.error('Failed to claim stale sources:', err);
+        return { sessionId: null, sources: [] };
+    }
+}
+
+/**
+ * Run tasks with at most `limit` in flight, in order. Tasks not started by
+ * `deadline` are skipped and left null.
+ */
+async function settleWithLimit<T>(
+    tasks: (() => Promise<T>)[],
+    limit: number,
+    deadline: number
+): Promise<(PromiseSettledResult<T> | null)[]> {
+    const settled: (PromiseSettledResult<T> | null)[] = tasks.map(() => null);
+    let next = 0;
+    async function worker() {
+        while (next < tasks.length && Date.now() < deadline) {
+            const index = next++;
+            try {
+                settled[index] = { status: 'fulfilled', value: await tasks[index]() };
+            } catch (reason) {
+                settled[index] = { status: 'rejected', reason };
+            }
+        }
+    }
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+    return settled;
 }
 
 /**
  * Ensure sources are fresh: check staleness, fetch stale sources,
  * cache results, and update health records.
  *
- * Shared by /api/feed and /api/discovery/items.
+ * Shared by /api/feed, /api/discovery/items and the refresh scheduler.
+ * Stale sources are fetched in `targetSources` order, each under a source
+ * lease, so concurrent refreshes on any instance never fetch the same one.
  */
 export async function ensureSourcesFresh(
     targetSources: SourceConfig[],
     targetSourceIds: string[],
-    timeRange: TimeRange
+    timeRange: TimeRange,
+    options: FreshnessOptions = {}
 ): Promise<FreshnessResult> {
-    const { stale, fresh } = await getSourceFreshness(targetSourceIds);
-    const failures: { source: string; error: string }[] = [];
+    // Results must be stored before the leases taken from here on lapse
+    const deadline = Math.min(options.deadline ?? Infinity, Date.now() + LEASE_FETCH_WINDOW_MS);
+    // A claimed session (options.sessionId) is ended and its leases released
+    // however this returns, even with nothing left to fetch
+    let heldSession = options.sessionId;
+    try {
+        const { stale, fresh } = await getSourceFreshness(targetSourceIds);
+        const failures: { source: string; error: string }[] = [];
 
-    if (stale.length === 0) {
-        return { staleCount: 0, freshCount: fresh.length, failures };
-    }
+        if (stale.length === 0) {
+            return {
+                staleCount: 0,
+                freshCount: fresh.length,
+                failures,
+                outcomes: [],
+                deferred: [],
+                locked: [],
+                postProcessing: Promise.resolve(),
+            };
+        }
 
-    console.log(`Selective fetch: ${stale.length} stale, ${fresh.length} fresh of ${targetSourceIds.length} total`);
+        console.log(`Selective fetch: ${stale.length} stale, ${fresh.length} fresh of ${targetSourceIds.length} total`);
 
-    const staleSources = targetSources.filter(s => stale.includes(s.id));
-    const adapterPairs = staleSources
-        .map(source => ({ source, adapter: createAdapter(source) }))
-        .filter(
-            (pair): pair is { source: typeof pair.source; adapter: NonNullable<typeof pair.adapter> } =>
-                pair.adapter !== null
+        const staleSources = targetSources.filter(s => stale.includes(s.id));
+        const adapterPairs = staleSources
+            .map(source => ({ source, adapter: createAdapter(source) }))
+            .filter(
+                (pair): pair is { source: typeof pair.source; adapter: NonNullable<typeof pair.adapter> } =>
+                    pair.adapter !== null
+            );
+
+        // Per-adapter timeout: reddit-custom gets 20s (fetches 12+ subreddits),
+        // hackernews gets 15s (og:description fetches), others get 10s.
+        function getAdapterTimeout(sourceId: string): number {
+            if (sourceId === 'reddit-custom') return 20000;
+            if (sourceId === 'hackernews') return 15000;
+            return 10000;
+        }
+
+        const sessionId = options.sessionId
+            ?? await startRefreshSession(adapterPairs.map(p => p.source), options.trigger ?? 'request');
+        heldSession = sessionId;
+        if (options.sessionId) {
+            // Claimed sources refreshed elsewhere since, or without an adapter, aren't fetched
+            const fetching = new Set(adapterPairs.map(p => p.source.id));
+            await Promise.all(targetSources
+                .filter(s => !fetching.has(s.id))
+                .map(s => dropSessionSource(sessionId, s.id)));
+        }
+
+        // Fetch stale sources in parallel (up to the concurrency cap) with per-adapter timeout.
+        // Each source is leased just before its fetch; null means another refresh holds it.
+        const durations = new Map<string, number>();
+        const settled = await settleWithLimit<ContentItem[] | null>(
+            adapterPairs.map(({ source, adapter }) => async () => {
+                const leased = await leaseSources([source.id], sessionId);
+                if (!leased.has(source.id)) {
+                    await dropSessionSource(sessionId, source.id);
+                    return null;
+                }
+                await markSourceFetching(sessionId, source.id);
+                const startedAt = Date.now();
+                return Promise.race([
+                    adapter.fetch({ timeRange }),
+                    new Promise<ContentItem[]>((_, reject) =>
+                        setTimeout(() => reject(new Error('Adapter timeout')), getAdapterTimeout(source.id))
+                    ),
+                ]).then(async items => {
+                    durations.set(source.id, Date.now() - startedAt);
+                    await markSourceDone(sessionId, source.id);
+                    return items;
+                }, async err => {
+                    durations.set(source.id, Date.now() - startedAt);
+                    await markSourceFailed(sessionId, source.id);
+                    throw err;
+                });
+            }),
+            options.concurrency ?? adapterPairs.length,
+            deadline
         );
 
-    // Per-adapter timeout: reddit-custom gets 20s (fetches 12+ subreddits),
-    // hackernews gets 15s (og:description fetches), others get 10s.
-    function getAdapterTimeout(sourceId: string): number {
-        if (sourceId === 'reddit-custom') return 20000;
-        if (sourceId === 'hackernews') return 15000;
-        return 10000;
-    }
+        // Sources skipped at the deadline or held by another refresh drop out here
+        const attemptedPairs: typeof adapterPairs = [];
+        const results: PromiseSettledResult<ContentItem[]>[] = [];
+        const deferred: string[] = [];
+        const locked: string[] = [];
+        settled.forEach((result, i) => {
+            const pair = adapterPairs[i];
+            if (result === null) {
+                deferred.push(pair.source.id);
+            } else if (result.status === 'fulfilled' && result.value === null) {
+                locked.push(pair.source.id);
+            } else {
+                attemptedPairs.push(pair);
+                results.push(result as PromiseSettledResult<ContentItem[]>);
+            }
+        });
+        if (deferred.length > 0) {
+            console.warn(`Deadline reached: ${deferred.length} stale sources not fetched`);
+        }
+        if (locked.length > 0) {
+            console.log(`Skipped ${locked.length} sources being refreshed elsewhere: ${locked.join(', ')}`);
+        }
 
-    // Fetch stale sources in parallel with per-adapter timeout
-    const results = await Promise.allSettled(
-        adapterPairs.map(({ source, adapter }) => {
-            markSourceFetching(source.id);
-            return Promise.race([
-                adapter.fetch({ timeRange }),
-                new Promise<ContentItem[]>((_, reject) =>
-                    setTimeout(() => reject(new Error('Adapter timeout')), getAdapterTimeout(source.id))
-                ),
-            ]).then(items => {
-                markSourceDone(source.id);
-                return items;
-            }, err => {
-                markSourceFailed(source.id);
-                throw err;
-            });
-        })
-    );
-
-    const newItems: ContentItem[] = [];
-    results.forEach((result, index) => {
-        if (result.status === 'fulfilled') {
-            newItems.push(...result.value);
-        } else {
-            failures.push({
-                source: adapterPairs[index].source.name,
-                error: result.reason?.message || 'Unknown error',
-            });
-            console.error(`Adapter ${adapterPairs[index].source.name} failed:`, result.reason);
+        const newItems: ContentItem[] = [];
+        const outcomes: SourceFetchOutcome[] = [];
+        results.forEach((result, index) => {
+            const { source } = attemptedPairs[index];
+            const durationMs = durations.get(source.id) ?? 0;
+            if (result.status === 'fulfilled') {
+                newItems.push(...result.value);
+                outcomes.push({ sourceId: source.id, name: source.name, itemCount: result.value.length, durationMs });
+            } else {
+                const error = result.reason?.message || 'Unknown error';
+                failures.push({ source: source.name, error });
+                outcomes.push({ sourceId: source.id, name: source.name, itemCount: 0, error, durationMs });
+                console.error(`Adapter ${source.name} failed:`, result.reason);
+            }
+        });
+
+        // Ensure source rows exist BEFORE caching content items.
+        // content_items.source_id has a FK reference to sources(id). If a source was
+        // added to config but never inserted into the sources table (e.g. migration
+        // not applied), the entire insert chunk fails. Creating the rows first avoids this.
+        //
+        // Only mark sources as "fetched" if they returned items. Sources that resolve
+        // with 0 items are left stale so they get retried on the next request — this
+        // prevents silent failure loops where a blocked API returns [] indefinitely.
+        const successfulSourceIds = attemptedPairs
+            .filter((_, i) => results[i].status === 'fulfilled' && results[i].value.length > 0)
+            .map(p => p.source.id);
+        const emptySourceIds = attemptedPairs
+            .filter((_, i) => results[i].status === 'fulfilled' && results[i].value.length === 0)
+            .map(p => p.source.id);
+        if (emptySourceIds.length > 0) {
+            console.warn(`Sources returned 0 items (not marking fresh): ${emptySourceIds.join(', ')}`);
         }
-    });
-
-    // Ensure source rows exist BEFORE caching content items.
-    // content_items.source_id has a FK reference to sources(id). If a source was
-    // added to config but never inserted into the sources table (e.g. migration
-    // not applied), the entire insert chunk fails. Creating the rows first avoids this.
-    //
-    // Only mark sources as "fetched" if they returned items. Sources that resolve
-    // with 0 items are left stale so they get retried on the next request — this
-    // prevents silent failure loops where a blocked API returns [] indefinitely.
-    const successfulSourceIds = adapterPairs
-        .filter((_, i) => results[i].status === 'fulfilled' && results[i].value.length > 0)
-        .map(p => p.source.id);
-    const emptySourceIds = adapterPairs
-        .filter((_, i) => results[i].status === 'fulfilled' && results[i].value.length === 0)
-        .map(p => p.source.id);
-    if (emptySourceIds.length > 0) {
-        console.warn(`Sources returned 0 items (not marking fresh): ${emptySourceIds.join(', ')}`);
-    }
-    if (successfulSourceIds.length > 0) {
-        await updateSourceLastFetched(successfulSourceIds);
-    }
+        if (successfulSourceIds.length > 0) {
+            await updateSourceLastFetched(successfulSourceIds);
+        }
+
+        // Cache new items (source rows now guaranteed to exist). Leases are held
+        // until the sources are marked fresh and their items stored (released in
+        // the finally below), so no other refresh sees them stale in between.
+        const uniqueNewItems = deduplicateItems(newItems);
+        await cacheContent(uniqueNewItems);
+
+        // Match new items against watchlists, then push to webhooks.
+        // Webhooks still run if watchlist evaluation fails — just without alert events.
+        const alerting = evaluateWatchlists(uniqueNewItems)
+            .then(newAlerts => {
+                if (newAlerts.length > 0) console.log(`Watchlists: ${newAlerts.length} new alerts`);
+                return newAlerts;
+            }, err => {
+                console.error('Failed to evaluate watchlists:', err);
+                return [];
+            })
+            .then(newAlerts => runWebhookTriggers(uniqueNewItems, newAlerts))
+            .then(delivered => {
+                if (delivered > 0) console.log(`Webhooks: ${delivered} deliveries`);
+            })
+            .catch(err => console.error('Failed to run webhook triggers:', err));
+
+        // Grow persistent cross-platform stories
+        const storyAssignment = assignStories(uniqueNewItems)
+            .then(({ created, joined }) => {
+                if (created + joined > 0) console.log(`Stories: ${created} created, ${joined} items joined`);
+            })
+            .catch(err => console.error('Failed to assign stories:', err));
+
+        // Record source health
+        const healthUpdate = getSourceHealth()
+            .then(currentHealth => {
+                const now = new Date().toISOString();
 
-    // Cache new items (source rows now guaranteed to exist)
-    const uniqueNewItems = deduplicateItems(newItems);
-    await cacheContent(uniqueNewItems);
-
-    // End progress tracking — all fetches complete
-    endRefreshSession();
-
-    // Record source health (fire-and-forget)
-    getSourceHealth()
-        .then(currentHealth => {
-            const now = new Date().toISOString();
-
-            results.forEach((result, index) => {
-                const sourceId = adapterPairs[index].source.id;
-                const prev = currentHealth[sourceId] || {
-                    lastFetchAt: now,
-                    lastSuccessAt: null,
-                    lastItemCount: 0,
-                    consecutiveFailures: 0,
-                    lastError: null,
-                } satisfies SourceHealthRecord;
-
-                if (result.status === 'fulfilled' && result.value.length > 0) {
-                    currentHealth[sourceId] = {
+                results.forEach((result, index) => {
+                    const sourceId = attemptedPairs[index].source.id;
+                    const prev = currentHealth[sourceId] || {
                         lastFetchAt: now,
-                        lastSuccessAt: now,
-                        lastItemCount: result.value.length,
+                        lastSuccessAt: null,
+                        lastItemCount: 0,
                         consecutiveFailures: 0,
                         lastError: null,
-                    };
-                } else if (result.status === 'fulfilled') {
-                    // 0 items returned — fetch succeeded but no data came back.
-                    // Treat as a soft failure: increment consecutiveFailures so
-                    // the health indicator surfaces the problem to the user.
-                    currentHealth[sourceId] = {
-                        lastFetchAt: now,
-                        lastSuccessAt: prev.lastSuccessAt,
-                        lastItemCount: 0,
-                        consecutiveFailures: prev.consecutiveFailures + 1,
-                        lastError: 'Returned 0 items',
-                    };
-                } else {
-                    currentHealth[sourceId] = {
-                        lastFetchAt: now,
-                        lastSuccessAt: prev.lastSuccessAt,
-                        lastItemCount: prev.lastItemCount,
-                        consecutiveFailures: prev.consecutiveFailures + 1,
-                        lastError: result.reason?.message || 'Unknown error',
-                    };
-                }
-            });
+                    } satisfies SourceHealthRecord;
+
+                    if (result.status === 'fulfilled' && result.value.length > 0) {
+                        currentHealth[sourceId] = {
+                            lastFetchAt: now,
+                            lastSuccessAt: now,
+                            lastItemCount: result.value.length,
+                            consecutiveFailures: 0,
+                            lastError: null,
+                        };
+                    } else if (result.status === 'fulfilled') {
+                        // 0 items returned — fetch succeeded but no data came back.
+                        // Treat as a soft failure: increment consecutiveFailures so
+                        // the health indicator surfaces the problem to the user.
+                        currentHealth[sourceId] = {
+                            lastFetchAt: now,
+                            lastSuccessAt: prev.lastSuccessAt,
+                            lastItemCount: 0,
+                            consecutiveFailures: prev.consecutiveFailures + 1,
+                            lastError: 'Returned 0 items',
+                        };
+                    } else {
+                        currentHealth[sourceId] = {
+                            lastFetchAt: now,
+                            lastSuccessAt: prev.lastSuccessAt,
+                            lastItemCount: prev.lastItemCount,
+                            consecutiveFailures: prev.consecutiveFailures + 1,
+                            lastError: result.reason?.message || 'Unknown error',
+                        };
+                    }
+                });
 
-            // Warn about persistently failing sources
-            for (const [id, health] of Object.entries(currentHealth)) {
-                if (health.consecutiveFailures >= 3) {
-                    console.warn(`Source ${id} has ${health.consecutiveFailures} consecutive failures: ${health.lastError}`);
+                // Warn about persistently failing sources
+                for (const [id, health] of Object.entries(currentHealth)) {
+                    if (health.consecutiveFailures >= 3) {
+                        console.warn(`Source ${id} has ${health.consecutiveFailures} consecutive failures: ${health.lastError}`);
+                    }
                 }
-            }
 
-            return updateSourceHealth(currentHealth);
-        })
-        .catch(err => console.error('Failed to update source health:', err));
+                return updateSourceHealth(currentHealth);
+            })
+            .catch(err => console.error('Failed to update source health:', err));
 
-    return { staleCount: stale.length, freshCount: fresh.length, failures };
+        return {
+            staleCount: stale.length,
+            freshCount: fresh.length,
+            failures,
+            outcomes,
+            deferred,
+            locked,
+            postProcessing: Promise.all([alerting, storyAssignment, healthUpdate]).then(() => undefined),
+        };
+    } finally {
+        if (heldSession) {
+            await releaseLeases(heldSession);
+            // End progress tracking — all fetches complete or given up
+            await endRefreshSession(heldSession);
+        }
+    }
 }
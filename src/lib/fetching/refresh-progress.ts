@@ -1,83 +1,83 @@
 /**
- * Module-level tracker for background source refresh progress.
- * Lives in server memory — one active session at a time.
+ * Tracker for source refresh progress, stored in refresh_sessions and
+ * refresh_session_sources so /api/feed/refresh-status reads the same state
+ * from any instance. Writes never fail a refresh: errors are logged and the
+ * progress is just incomplete.
  */
 
+import { randomUUID } from 'crypto';
+import { RefreshTrigger } from '@/types';
+import {
+    SessionSourceStatus,
+    completeRefreshSession,
+    createRefreshSession,
+    deleteSessionSource,
+    getRefreshSession,
+    updateSessionSource,
+} from '@/lib/db/refresh';
+import { LEASE_TTL_MS } from './source-leases';
+
 export interface SourceRefreshEntry {
     id: string;
     name: string;
     icon: string;
-    status: 'pending' | 'fetching' | 'done' | 'failed';
+    status: SessionSourceStatus;
 }
 
-interface RefreshSession {
-    sources: Map<string, SourceRefreshEntry>;
-    total: number;
-    completed: number;
-    startedAt: number;
-    completedAt: number | null;
-}
+// Finished sessions stay readable briefly; unfinished ones are treated as dead
+// once their leases would have lapsed. Rows are deleted after an hour.
+const COMPLETED_GRACE_MS = 10_000;
+const SESSION_PRUNE_MS = 60 * 60 * 1000;
 
-let currentSession: RefreshSession | null = null;
+async function logged(action: string, write: Promise<void>): Promise<void> {
+    try {
+        await write;
+    } catch (err) {
+        console.error(`Failed to ${action}:`, err);
+    }
+}
 
 /**
- * Must be called SYNCHRONOUSLY in the feed route before
- * fire-and-forget `ensureSourcesFresh`, so the session exists
- * by the time the client starts polling.
+ * Create a session with every source pending and return its ID. Must be
+ * awaited before responding when the client polls for it, so the session
+ * exists by its first poll.
  */
-export function startRefreshSession(
+export async function startRefreshSession(
     sources: { id: string; name: string; icon?: string }[],
-): void {
-    const map = new Map<string, SourceRefreshEntry>();
-    for (const s of sources) {
-        map.set(s.id, {
-            id: s.id,
-            name: s.name,
-            icon: s.icon || '',
-            status: 'pending',
-        });
-    }
-    currentSession = {
-        sources: map,
-        total: sources.length,
-        completed: 0,
-        startedAt: Date.now(),
-        completedAt: null,
-    };
+    trigger: RefreshTrigger,
+    sessionId: string = randomUUID()
+): Promise<string> {
+    const entries = sources.map(s => ({ id: s.id, name: s.name, icon: s.icon || '' }));
+    await logged('start refresh session', createRefreshSession(sessionId, trigger, entries, SESSION_PRUNE_MS));
+    return sessionId;
 }
 
-export function markSourceFetching(sourceId: string): void {
-    const entry = currentSession?.sources.get(sourceId);
-    if (entry) entry.status = 'fetching';
+export function markSourceFetching(sessionId: string, sourceId: string): Promise<void> {
+    return logged('update refresh progress', updateSessionSource(sessionId, sourceId, 'fetching'));
 }
 
-export function markSourceDone(sourceId: string): void {
-    if (!currentSession) return;
-    const entry = currentSession.sources.get(sourceId);
-    if (entry && entry.status !== 'done' && entry.status !== 'failed') {
-        entry.status = 'done';
-        currentSession.completed++;
-    }
+export function markSourceDone(sessionId: string, sourceId: string): Promise<void> {
+    return logged('update refresh progress', updateSessionSource(sessionId, sourceId, 'done'));
 }
 
-export function markSourceFailed(sourceId: string): void {
-    if (!currentSession) return;
-    const entry = currentSession.sources.get(sourceId);
-    if (entry && entry.status !== 'done' && entry.status !== 'failed') {
-        entry.status = 'failed';
-        currentSession.completed++;
-    }
+export function markSourceFailed(sessionId: string, sourceId: string): Promise<void> {
+    return logged('update refresh progress', updateSessionSource(sessionId, sourceId, 'failed'));
+}
+
+/** Take a source out of a session, e.g. when another refresh holds its lease. */
+export function dropSessionSource(sessionId: string, sourceId: string): Promise<void> {
+    return logged('update refresh progress', deleteSessionSource(sessionId, sourceId));
 }
 
 /** Mark session as finished. Keeps it readable for a grace period. */
-export function endRefreshSession(): void {
-    if (currentSession) {
-        currentSession.completedAt = Date.now();
-    }
+export function endRefreshSession(sessionId: string): Promise<void> {
+    return logged('end refresh session', completeRefreshSession(sessionId));
 }
 
 export interface RefreshProgressSnapshot {
     active: true;
+    sessionId: string;
+    trigger: RefreshTrigger;
     done: boolean;
     sources: SourceRefreshEntry[];
     total: number;
@@ -85,31 +85,30 @@ export interface RefreshProgressSnapshot {
     percent: number;
 }
 
-export function getRefreshProgress(): RefreshProgressSnapshot | { active: false } {
-    if (!currentSession) return { active: false };
+/** Progress of the given session, or of the most recent one when no ID is given. */
+export async function getRefreshProgress(sessionId?: string): Promise<RefreshProgressSnapshot | { active: false }> {
+    const session = await getRefreshSession(sessionId);
+    if (!session) return { active: false };
 
     const now = Date.now();
-
-    // Auto-expire: 90s after start, or 10s after completion
-    if (now - currentSession.startedAt > 90_000) {
-        currentSession = null;
-        return { active: false };
-    }
-    if (currentSession.completedAt && now - currentSession.completedAt > 10_000) {
-        currentSession = null;
+    if (session.completedAt
+        ? now - session.completedAt.getTime() > COMPLETED_GRACE_MS
+        : now - session.startedAt.getTime() > LEASE_TTL_MS) {
         return { active: false };
     }
 
-    const percent = currentSession.total > 0
-        ? Math.round((currentSession.completed / currentSession.total) * 100)
-        : 0;
+    const total = session.sources.length;
+    const completed = session.sources.filter(s => s.status === 'done' || s.status === 'failed').length;
+    const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
 
     return {
         active: true,
-        done: currentSession.completedAt !== null,
-        sources: [...currentSession.sources.values()],
-        total: currentSession.total,
-        completed: currentSession.completed,
+        sessionId: session.id,
+        trigger: session.trigger,
+        done: session.completedAt !== null,
+        sources: session.sources,
+        total,
+        completed,
         percent,
     };
 }
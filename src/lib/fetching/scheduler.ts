@@ -0,0 +1,150 @@
+/**
+ * Scheduled source refresh
+ *
+ * Fetches every enabled source once it is past its category TTL
+ * (getSourceTTL), most overdue first, with a global cap on concurrent
+ * fetches. Driven by /api/cron/refresh or scripts/refresh-worker.ts, so
+ * content keeps arriving while nobody has the dashboard open. Refreshing
+ * from the request path is then only a fallback, which
+ * REFRESH_ON_REQUEST=false turns off.
+ */
+
+import { RefreshRunSummary, RefreshSourceStatus } from '@/types';
+import { getEffectiveConfig, getEffectiveSourceList, ResolvedSource } from '@/lib/config/resolve';
+import { getSourceTTL } from '@/lib/db/cache-config';
+import { getSourceLastFetchedAt, setLastRefreshRun } from '@/lib/db/actions';
+import { feedCache } from '@/lib/cache/memory-cache';
+import { ensureSourcesFresh } from './ensure-fresh';
+
+export const DEFAULT_REFRESH_CONCURRENCY = 4;
+
+export interface ScheduledRefreshOptions {
+    trigger: RefreshRunSummary['trigger'];
+    /** Most sources fetching at once (default: REFRESH_CONCURRENCY, else DEFAULT_REFRESH_CONCURRENCY) */
+    concurrency?: number;
+    /** No fetch starts after this many ms; due sources left over wait for the next run */
+    budgetMs?: number;
+}
+
+export interface ScheduledRefreshRun {
+    summary: RefreshRunSummary;
+    /** Watchlist/webhook, story and health updates for the run's items (see FreshnessResult) */
+    postProcessing: Promise<void>;
+}
+
+/** Whether /api/feed, the syndication feeds and discovery refresh stale sources themselves. */
+export function isRequestRefreshEnabled(): boolean {
+    return process.env.REFRESH_ON_REQUEST !== 'false';
+}
+
+function getRefreshConcurrency(): number {
+    const concurrency = parseInt(process.env.REFRESH_CONCURRENCY || '', 10);
+    return concurrency > 0 ? concurrency : DEFAULT_REFRESH_CONCURRENCY;
+}
+
+// Module-level lock: one scheduled run at a time per process
+let runActive = false;
+
+/**
+ * Refresh every enabled source that is due and store the run's summary as
+ * the last run. Returns null without doing anything if a run is already
+ * in progress in this process. Callers must keep the process alive until
+ * `postProcessing` settles.
+ */
+export async function runScheduledRefresh(options: ScheduledRefreshOptions): Promise<ScheduledRefreshRun | null> {
+    if (runActive) return null;
+    runActive = true;
+    try {
+        return await refreshDueSources(options);
+    } finally {
+        runActive = false;
+    }
+}
+
+async function refreshDueSources({
+    trigger,
+    concurrency = getRefreshConcurrency(),
+    budgetMs,
+}: ScheduledRefreshOptions): Promise<ScheduledRefreshRun> {
+    const startedAt = Date.now();
+    const [config, sourceList] = await Promise.all([getEffectiveConfig(), getEffectiveSourceList()]);
+    const lastFetched = await getSourceLastFetchedAt(sourceList.enabledIds);
+
+    // Never fetched (or only ever empty) sources are due from the epoch, so they go first
+    const dueAt = (source: ResolvedSource) =>
+        (lastFetched.get(source.id)?.getTime() ?? 0) + getSourceTTL(source.category);
+    const due = sourceList.enabled
+        .filter(source => dueAt(source) < startedAt)
+        .sort((a, b) => dueAt(a) - dueAt(b));
+
+    const result = due.length > 0
+        ? await ensureSourcesFresh(due, due.map(s => s.id), config.timeRange, {
+            concurrency,
+            deadline: budgetMs !== undefined ? startedAt + budgetMs : undefined,
+            trigger,
+        })
+        : null;
+    if (result?.outcomes.some(o => o.itemCount > 0)) feedCache.clear();
+
+    const outcomes = new Map(result?.outcomes.map(o => [o.sourceId, o]));
+    const deferred = new Set(result?.deferred);
+    const locked = new Set(result?.locked);
+    // Due sources without an adapter (e.g. YouTube without an API key) are left out
+    const sources = due.flatMap((source): RefreshRunSummary['sources'] => {
+        const outcome = outcomes.get(source.id);
+        if (outcome) {
+            const status: RefreshSourceStatus = outcome.error ? 'failed' : outcome.itemCount > 0 ? 'refreshed' : 'empty';
+            return [{
+                id: source.id,
+                name: source.name,
+                status,
+                itemCount: outcome.itemCount,
+                durationMs: outcome.durationMs,
+                ...(outcome.error ? { error: outcome.error } : {}),
+            }];
+        }
+        if (deferred.has(source.id) || locked.has(source.id)) {
+            const status = deferred.has(source.id) ? 'deferred' : 'locked';
+            return [{ id: source.id, name: source.name, status, itemCount: 0, durationMs: 0 }];
+        }
+        return [];
+    });
+
+    const finishedAt = Date.now();
+    const count = (status: RefreshSourceStatus) => sources.filter(s => s.status === status).length;
+
+    // Refreshed sources are next due a TTL from now; the rest still are (locked
+    // ones until their holder finishes)
+    const statusById = new Map(sources.map(s => [s.id, s.status]));
+    const nextDue = sourceList.enabled.flatMap(source => {
+        const status = statusById.get(source.id);
+        if (status === 'refreshed') return [finishedAt + getSourceTTL(source.category)];
+        if (status) return [finishedAt];
+        return due.includes(source) ? [] : [dueAt(source)];
+    });
+
+    const summary: RefreshRunSummary = {
+        trigger,
+        startedAt: new Date(startedAt).toISOString(),
+        finishedAt: new Date(finishedAt).toISOString(),
+        durationMs: finishedAt - startedAt,
+        checked: sourceList.enabled.length,
+        due: due.length,
+        refreshed: count('refreshed'),
+        empty: count('empty'),
+        failed: count('failed'),
+        deferred: count('deferred'),
+        locked: count('locked'),
+        itemCount: sources.reduce((sum, s) => sum + s.itemCount, 0),
+        nextDueAt: nextDue.length > 0 ? new Date(Math.min(...nextDue)).toISOString() : null,
+        sources,
+    };
+
+    console.log(
+        `Scheduled refresh (${trigger}): ${summary.due} of ${summary.checked} sources due, ` +
+        `${summary.refreshed} refreshed, ${summary.empty} empty, ${summary.failed} failed, ` +
+        `${summary.deferred} deferred, ${summary.locked} locked, ${summary.itemCount} items in ${summary.durationMs}ms`
+    );
+    await setLastRefreshRun(summary);
+    return { summary, postProcessing: result?.postProcessing ?? Promise.resolve() };
+}
@@ -0,0 +1,35 @@
+/**
+ * Source leases
+ *
+ * A source is only fetched under a lease in source_leases, so refreshes on
+ * different instances (request path, cron route, worker) never fetch the
+ * same source at once. Leases are released once the fetched items are
+ * stored and the sources marked fresh; a refresh that dies keeps its leases
+ * until LEASE_TTL_MS passes.
+ */
+
+import { acquireSourceLeases, releaseSessionLeases } from '@/lib/db/refresh';
+
+// Leases are not renewed while a refresh runs, so a refresh must finish
+// inside this: see LEASE_FETCH_WINDOW_MS
+export const LEASE_TTL_MS = 5 * 60 * 1000;
+
+// ensureSourcesFresh starts no fetch later than this into a refresh, leaving
+// the slowest adapter timeout (20s) and storing the results a comfortable
+// margin before the first lease it took lapses. Sources left over are
+// reported as deferred, as with a caller's own deadline.
+export const LEASE_FETCH_WINDOW_MS = LEASE_TTL_MS - 2 * 60 * 1000;
+
+/** Lease the free (or already ours) sources to `sessionId`. Returns the IDs leased. */
+export function leaseSources(sourceIds: string[], sessionId: string): Promise<Set<string>> {
+    return acquireSourceLeases(sourceIds, sessionId, LEASE_TTL_MS);
+}
+
+/** Release every lease of a session. On failure the leases lapse at their expiry. */
+export async function releaseLeases(sessionId: string): Promise<void> {
+    try {
+        await releaseSessionLeases(sessionId);
+    } catch (err) {
+        console.error('Failed to release source leases:', err);
+    }
+}
@@ -0,0 +1,127 @@
+/**
+ * Daily rollups
+ *
+ * content_items and engagement snapshots are deleted after 7 days. Before the
+ * cleanup runs, each complete day's items are aggregated per source,
+ * category, tag and story (item count, average score, top items) into
+ * daily_rollups (see rollups.ts), which /api/history reads over 30 to 365
+ * days.
+ */
+
+import { ContentItem, HistoryRange, RollupDimension, RollupItem, SourceCategory } from '@/types';
+import { itemTags } from '@/lib/topics';
+
+export const ROLLUP_DIMENSIONS: RollupDimension[] = ['source', 'category', 'tag', 'story'];
+
+/** Days covered by each /api/history range */
+export const HISTORY_RANGE_DAYS: Record<HistoryRange, number> = { '30d': 30, '90d': 90, '365d': 365 };
+
+export const HISTORY_RANGES = Object.keys(HISTORY_RANGE_DAYS) as HistoryRange[];
+
+/** Best-scoring items kept per key per day */
+export const TOP_ITEMS_PER_KEY = 3;
+
+// A tag on a single item that day isn't kept (tags are the bulk of the rows)
+const MIN_TAG_ITEMS = 2;
+
+export function isRollupDimension(value: string): value is RollupDimension {
+    return (ROLLUP_DIMENSIONS as string[]).includes(value);
+}
+
+export function isHistoryRange(value: string): value is HistoryRange {
+    return Object.prototype.hasOwnProperty.call(HISTORY_RANGE_DAYS, value);
+}
+
+/** One key's aggregate for a day. */
+export interface RollupRow {
+    dimension: RollupDimension;
+    key: string;
+    label?: string;
+    itemCount: number;
+    avgScore: number;
+    topItems: RollupItem[];
+}
+
+/** A day's totals plus its rows for every dimension. */
+export interface DayRollup {
+    day: string;
+    itemCount: number;
+    avgScore: number;
+    rows: RollupRow[];
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+export function toRollupItem(item: ContentItem): RollupItem {
+    return {
+        id: item.id,
+        sourceId: item.sourceId,
+        title: item.title,
+        url: item.url,
+        publishedAt: item.publishedAt,
+        trendingScore: item.trendingScore,
+    };
+}
+
+function averageScore(items: ContentItem[]): number {
+    if (items.length === 0) return 0;
+    return round(items.reduce((sum, item) => sum + (item.trendingScore || 0), 0) / items.length);
+}
+
+/**
+ * Aggregate a day's scored items. `items` must be sorted by score (best
+ * first) so each key's top items are its first members. Items of sources
+ * missing from `categoryBySource` still count towards their source and tags.
+ */
+export function buildDayRollup(
+    day: string,
+    items: ContentItem[],
+    categoryBySource: Map<string, SourceCategory>,
+    storyByItem: Map<string, { storyId: number; title: string }>
+): DayRollup {
+    const groups = new Map<string, { dimension: RollupDimension; key: string; label?: string; items: ContentItem[] }>();
+    const add = (dimension: RollupDimension, key: string, item: ContentItem, label?: string) => {
+        const id = `${dimension}:${key}`;
+        const group = groups.get(id) ?? { dimension, key, label, items: [] };
+        group.items.push(item);
+        groups.set(id, group);
+    };
+
+    for (const item of items) {
+        add('source', item.sourceId, item);
+        const category = categoryBySource.get(item.sourceId);
+        if (category) add('category', category, item);
+        for (const tag of itemTags(item)) add('tag', tag, item);
+        const story = storyByItem.get(item.id);
+        if (story) add('story', String(story.storyId), item, story.title);
+    }
+
+    const rows: RollupRow[] = [];
+    for (const group of groups.values()) {
+        if (group.dimension === 'tag' && group.items.length < MIN_TAG_ITEMS) continue;
+        rows.push({
+            dimension: group.dimension,
+            key: group.key,
+            label: group.label,
+            itemCount: group.items.length,
+            avgScore: averageScore(group.items),
+            topItems: group.items.slice(0, TOP_ITEMS_PER_KEY).map(toRollupItem),
+        });
+    }
+
+    return { day, itemCount: items.length, avgScore: averageScore(items), rows };
+}
+
+/** Best `limit` distinct items across several days' top items. */
+export function mergeTopItems(items: RollupItem[], limit: number): RollupItem[] {
+    const byId = new Map<string, RollupItem>();
+    for (const item of items) {
+        const existing = byId.get(item.id);
+        if (!existing || (item.trendingScore || 0) > (existing.trendingScore || 0)) byId.set(item.id, item);
+    }
+    return [...byId.values()]
+        .sort((a, b) => (b.trendingScore || 0) - (a.trendingScore || 0))
+        .slice(0, limit);
+}
@@ -0,0 +1,93 @@
+import { HistoryEntry, HistoryRange, HistoryReport, RollupDimension } from '@/types';
+import { getEffectiveConfig, getEffectiveSourceList } from '@/lib/config/resolve';
+import { getContentPublishedBetween } from '@/lib/db/actions';
+import { getItemStories } from '@/lib/db/stories';
+import { getRollupDays, getRollupSeries, getRollupTopItems, getRollupTotals, saveDayRollup } from '@/lib/db/rollups';
+import { toDateKey } from '@/lib/digests/generate';
+import { scoreAndSortItems, linkAndAmplify } from '@/lib/scoring';
+import { HISTORY_RANGE_DAYS, buildDayRollup, mergeTopItems } from './index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const QUERY_LIMIT = 10000;
+const ITEMS_PER_ENTRY = 5;
+
+/**
+ * Roll up every day still complete in content_items: yesterday back to the
+ * last full day inside `contentDays`, the shortest content retention window.
+ * Days are rebuilt on each run so late-fetched items and engagement gains are
+ * picked up until the day's content starts being deleted. Days without
+ * content are skipped rather than stored empty. Returns the days rolled up.
+ */
+export async function rollupRecentDays(contentDays: number, now: Date = new Date()): Promise<string[]> {
+    const [config, sourceList] = await Promise.all([getEffectiveConfig(), getEffectiveSourceList()]);
+    // Disabled sources too: history records what was collected
+    const sourceIds = sourceList.all.map(s => s.id);
+    const categoryBySource = new Map(sourceList.all.map(s => [s.id, s.category]));
+    const today = new Date(`${toDateKey(now)}T00:00:00.000Z`);
+
+    const rolledUp: string[] = [];
+    for (let offset = contentDays - 1; offset >= 1; offset--) {
+        const start = new Date(today.getTime() - offset * DAY_MS);
+        const end = new Date(start.getTime() + DAY_MS);
+        const items = await getContentPublishedBetween(sourceIds, start, end, QUERY_LIMIT);
+        if (items.length === 0) continue;
+
+        const scored = linkAndAmplify(scoreAndSortItems(items, {
+            priorities: config.priorities,
+            boostKeywords: config.boostKeywords,
+            weights: config.scoringWeights.base,
+            recencyHalfLifeHours: config.scoringWeights.recencyHalfLifeHours,
+            now: end,
+        })).sort((a, b) => (b.trendingScore || 0) - (a.trendingScore || 0));
+        const storyByItem = await getItemStories(scored.map(item => item.id));
+
+        const day = toDateKey(start);
+        await saveDayRollup(buildDayRollup(day, scored, categoryBySource, storyByItem));
+        rolledUp.push(day);
+    }
+    return rolledUp;
+}
+
+/**
+ * History over the `range` days up to yesterday (the last rolled-up day):
+ * the daily series of all content, or of `key` when given, and the keys of
+ * `dimension` with the most items, each with its best items over the range.
+ */
+export async function getHistory(
+    range: HistoryRange,
+    dimension: RollupDimension,
+    key: string | null,
+    limit: number,
+    now: Date = new Date()
+): Promise<HistoryReport> {
+    const today = new Date(`${toDateKey(now)}T00:00:00.000Z`);
+    const to = toDateKey(new Date(today.getTime() - DAY_MS));
+    const from = toDateKey(new Date(today.getTime() - HISTORY_RANGE_DAYS[range] * DAY_MS));
+
+    const [days, series, totals] = await Promise.all([
+        getRollupDays(from, to),
+        key ? getRollupSeries(dimension, key, from, to) : null,
+        getRollupTotals(dimension, from, to, key ? 1 : limit, key ?? undefined),
+    ]);
+    const topItems = await getRollupTopItems(dimension, totals.map(t => t.key), from, to);
+
+    const entries: HistoryEntry[] = totals.map(total => ({
+        key: total.key,
+        ...(total.label ? { label: total.label } : {}),
+        itemCount: total.itemCount,
+        avgScore: total.avgScore,
+        activeDays: total.activeDays,
+        topItems: mergeTopItems(topItems.get(total.key) ?? [], ITEMS_PER_ENTRY),
+    }));
+
+    return {
+        range,
+        dimension,
+        from,
+        to,
+        daysWithData: days.length,
+        series: series ?? days,
+        entries,
+    };
+}
@@ -0,0 +1,161 @@
+import { ContentItem, MuteRule, MuteRuleKind } from '@/types';
+import { keywordMatcher, compilePattern } from '@/lib/alerts/watchlists';
+import { getHostname, matchesDomain } from '@/lib/config/domain-quality';
+import { explainStep } from '@/lib/scoring/explain';
+
+export const MUTE_RULE_KINDS: MuteRuleKind[] = ['keyword', 'regex', 'domain', 'author', 'tag', 'source'];
+
+const MAX_RULES = 100;
+const MAX_VALUE_LENGTH = 200;
+export const DEFAULT_MUTE_PENALTY = 20;
+
+/** Lowercased domain from "example.com", "*.example.com" or a full URL. */
+function normalizeDomain(value: string): string {
+    const trimmed = value.trim().toLowerCase().replace(/^\*\./, '');
+    if (trimmed.includes('/')) {
+        return getHostname(trimmed.includes('://') ? trimmed : `https://${trimmed}`) || '';
+    }
+    return trimmed.replace(/^www\./, '');
+}
+
+function normalizeValue(kind: MuteRuleKind, value: string): string {
+    switch (kind) {
+        case 'domain':
+            return normalizeDomain(value);
+        case 'author':
+            return value.trim().replace(/^@/, '').toLowerCase();
+        case 'keyword':
+        case 'tag':
+            return value.trim().toLowerCase();
+        default:
+            return value.trim();
+    }
+}
+
+/**
+ * Validate and normalize a full mute rule list (SET_MUTE_RULES replaces the
+ * stored list). Missing ids/createdAt are filled in; expired rules are dropped.
+ */
+export function parseMuteRules(value: unknown, now: Date = new Date()): { rules: MuteRule[] } | { error: string } {
+    if (!Array.isArray(value)) return { error: 'Invalid rules. Must be an array of mute rules' };
+    if (value.length > MAX_RULES) return { error: `Too many mute rules. Max ${MAX_RULES}` };
+
+    const rules: MuteRule[] = [];
+    for (const entry of value) {
+        if (typeof entry !== 'object' || entry === null) return { error: 'Invalid mute rule. Expected an object' };
+        const obj = entry as Record<string, unknown>;
+
+        const kind = obj.kind as MuteRuleKind;
+        if (!MUTE_RULE_KINDS.includes(kind)) {
+            return { error: `Invalid mute rule kind. Must be one of: ${MUTE_RULE_KINDS.join(', ')}` };
+        }
+        const ruleValue = typeof obj.value === 'string' ? normalizeValue(kind, obj.value) : '';
+        if (!ruleValue || ruleValue.length > MAX_VALUE_LENGTH) {
+            return { error: `Invalid ${kind} value. Must be 1-${MAX_VALUE_LENGTH} characters` };
+        }
+        if (kind === 'regex' && compilePattern(ruleValue) === null) {
+            return { error: `Invalid regex pattern: ${ruleValue}` };
+        }
+
+        const action = obj.action ?? 'hide';
+        if (action !== 'hide' && action !== 'downrank') {
+            return { error: 'Invalid mute action. Must be hide or downrank' };
+        }
+        const penalty = obj.penalty === undefined ? DEFAULT_MUTE_PENALTY : Number(obj.penalty);
+        if (!Number.isFinite(penalty) || penalty < 1 || penalty > 100) {
+            return { error: 'Invalid penalty. Must be a number between 1 and 100' };
+        }
+
+        let expiresAt: string | null = null;
+        if (obj.expiresAt !== undefined && obj.expiresAt !== null) {
+            const expires = new Date(obj.expiresAt as string);
+            if (typeof obj.expiresAt !== 'string' || isNaN(expires.getTime())) {
+                return { error: 'Invalid expiresAt. Must be an ISO date or null' };
+            }
+            if (expires <= now) continue;
+            expiresAt = expires.toISOString();
+        }
+
+        const createdAt = typeof obj.createdAt === 'string' && !isNaN(new Date(obj.createdAt).getTime())
+            ? new Date(obj.createdAt).toISOString()
+            : now.toISOString();
+
+        rules.push({
+            id: typeof obj.id === 'string' && obj.id.length > 0 && obj.id.length <= 100 ? obj.id : crypto.randomUUID(),
+            kind,
+            value: ruleValue,
+            action,
+            penalty: Math.round(penalty),
+            expiresAt,
+            createdAt,
+        });
+    }
+
+    return { rules };
+}
+
+/** True while the rule has not expired. */
+export function isMuteRuleActive(rule: MuteRule, now: Date = new Date()): boolean {
+    return !rule.expiresAt || new Date(rule.expiresAt) > now;
+}
+
+function ruleMatcher(rule: MuteRule): ((item: ContentItem) => boolean) | null {
+    switch (rule.kind) {
+        case 'keyword':
+        case 'regex': {
+            const re = rule.kind === 'keyword' ? keywordMatcher(rule.value) : compilePattern(rule.value);
+            if (!re) return null;
+            return item => re.test(`${item.title} ${item.description || ''} ${item.tags?.join(' ') || ''}`);
+        }
+        case 'domain':
+            return item => {
+                const hostname = getHostname(item.url);
+                return !!hostname && matchesDomain(hostname, rule.value);
+            };
+        case 'author':
+            return item => !!item.author && item.author.trim().replace(/^@/, '').toLowerCase() === rule.value;
+        case 'tag':
+            return item => !!item.tags?.some(tag => tag.toLowerCase() === rule.value);
+        case 'source':
+            return item => item.sourceId === rule.value;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Drop items matched by an active "hide" rule and subtract the penalties of
+ * matching "downrank" rules from the rest. Runs on scored items and re-sorts
+ * by trendingScore when any penalty was applied.
+ */
+export function applyMuteRules(items: ContentItem[], rules: MuteRule[], now: Date = new Date()): ContentItem[] {
+    const active = rules
+        .filter(rule => isMuteRuleActive(rule, now))
+        .map(rule => ({ rule, matches: ruleMatcher(rule) }))
+        .filter((entry): entry is { rule: MuteRule; matches: (item: ContentItem) => boolean } => entry.matches !== null);
+    if (active.length === 0) return items;
+
+    let penalized = false;
+    const result: ContentItem[] = [];
+    for (const item of items) {
+        const matched = active.filter(entry => entry.matches(item));
+        if (matched.length === 0) {
+            result.push(item);
+            continue;
+        }
+        if (matched.some(entry => entry.rule.action === 'hide')) continue;
+
+        const penalty = matched.reduce((sum, entry) => sum + entry.rule.penalty, 0);
+        const trendingScore = Math.max(0, Math.round(((item.trendingScore || 0) - penalty) * 10) / 10);
+        penalized = true;
+        result.push({
+            ...item,
+            trendingScore,
+            scoreExplanation: explainStep(item, trendingScore, { mutePenalty: penalty }),
+        });
+    }
+
+    return penalized
+        ? result.sort((a, b) => (b.trendingScore || 0) - (a.trendingScore || 0))
+        : result;
+}
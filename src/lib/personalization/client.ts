@@ -0,0 +1,15 @@
+import { FeedbackAction } from '@/types';
+
+/**
+ * Report feedback on a feed card to /api/feedback. Fire-and-forget:
+ * personalization is best-effort and must never block the action itself.
+ */
+export function recordFeedback(contentId: string, action: FeedbackAction): void {
+    fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contentId, action }),
+        // Click-throughs may unload the page right away
+        keepalive: true,
+    }).catch(() => {});
+}
@@ -0,0 +1,165 @@
+/**
+ * Implicit-feedback personalization
+ *
+ * Feedback events (opening, saving or dismissing a card) are turned into
+ * per-source, per-tag and per-keyword affinities between -1 and 1. The
+ * "For you" feed mode blends an item's affinity into its score. Sources with
+ * an explicit priority (set in settings) keep it: their learned affinity is
+ * ignored.
+ */
+
+import { AffinityModel, ContentItem, FeedbackAction } from '@/types';
+
+export interface FeedbackEvent {
+    action: FeedbackAction;
+    sourceId: string;
+    title: string;
+    tags: string[];
+    createdAt: Date;
+}
+
+export const FEEDBACK_ACTIONS: FeedbackAction[] = ['click', 'bookmark', 'not_interested'];
+
+export function isFeedbackAction(value: unknown): value is FeedbackAction {
+    return FEEDBACK_ACTIONS.includes(value as FeedbackAction);
+}
+
+export const EMPTY_AFFINITY_MODEL: AffinityModel = {
+    sources: {},
+    tags: {},
+    keywords: {},
+    eventCount: 0,
+    updatedAt: null,
+};
+
+// Evidence per event: a save says more than a click; a dismissal outweighs both
+const ACTION_WEIGHTS: Record<FeedbackAction, number> = {
+    click: 1,
+    bookmark: 3,
+    not_interested: -4,
+};
+
+/** Events lose half their weight every 30 days */
+const HALF_LIFE_DAYS = 30;
+
+/** Older events are not learned from (and by default deleted by the retention policy) */
+export const FEEDBACK_RETENTION_DAYS = 90;
+
+// Evidence at which an affinity reaches tanh(1) ≈ 0.76
+const SATURATION = 4;
+
+// Strongest affinities kept per feature type
+const MAX_FEATURES = 50;
+
+// Affinities closer to 0 than this are dropped
+const MIN_AFFINITY = 0.05;
+
+// How an item's affinity is split between its features (renormalized over
+// the features that have a learned affinity)
+const FEATURE_WEIGHTS = { source: 0.4, tags: 0.3, keywords: 0.3 };
+
+const STOPWORDS = new Set([
+    'about', 'after', 'again', 'also', 'been', 'before', 'being', 'between', 'both',
+    'could', 'does', 'doing', 'down', 'each', 'from', 'have', 'having', 'here', 'into',
+    'just', 'more', 'most', 'much', 'only', 'other', 'over', 'same', 'should', 'some',
+    'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this',
+    'those', 'through', 'under', 'until', 'very', 'were', 'what', 'when', 'where',
+    'which', 'while', 'will', 'with', 'without', 'would', 'your', 'yours', 'youre',
+    'using', 'used', 'make', 'made', 'like', 'want', 'know', 'need', 'first', 'best',
+    'show', 'released', 'releases', 'introducing', 'announcing',
+]);
+
+/** Distinct lowercased title words worth learning from (4+ letters, no stopwords). */
+export function extractKeywords(text: string): string[] {
+    const words = text.toLowerCase().match(/[a-z0-9][a-z0-9+#.-]*[a-z0-9+#]/g) ?? [];
+    return [...new Set(words.filter(w => w.length >= 4 && !STOPWORDS.has(w) && !/^\d+$/.test(w)))];
+}
+
+function normalizeTags(tags: string[] | undefined): string[] {
+    return [...new Set((tags ?? []).map(t => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+function addEvidence(totals: Map<string, number>, key: string, amount: number) {
+    totals.set(key, (totals.get(key) ?? 0) + amount);
+}
+
+/** Squash evidence to -1..1 and keep the strongest features. */
+function toAffinities(totals: Map<string, number>): Record<string, number> {
+    const affinities = [...totals]
+        .map(([key, evidence]) => [key, Math.round(Math.tanh(evidence / SATURATION) * 100) / 100] as const)
+        .filter(([, value]) => Math.abs(value) >= MIN_AFFINITY)
+        .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+        .slice(0, MAX_FEATURES);
+    return Object.fromEntries(affinities);
+}
+
+/**
+ * Learn affinities from feedback events. Each event's weight decays with age;
+ * an event's evidence is shared between the item's tags and between its
+ * keywords, so long titles don't count for more than short ones.
+ */
+export function learnAffinities(events: FeedbackEvent[], now: Date = new Date()): AffinityModel {
+    const sources = new Map<string, number>();
+    const tags = new Map<string, number>();
+    const keywords = new Map<string, number>();
+
+    for (const event of events) {
+        const ageDays = Math.max(0, (now.getTime() - event.createdAt.getTime()) / (24 * 60 * 60 * 1000));
+        const amount = ACTION_WEIGHTS[event.action] * Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+
+        addEvidence(sources, event.sourceId, amount);
+
+        const eventTags = normalizeTags(event.tags);
+        for (const tag of eventTags) {
+            addEvidence(tags, tag, amount / Math.sqrt(eventTags.length));
+        }
+
+        const eventKeywords = extractKeywords(event.title);
+        for (const keyword of eventKeywords) {
+            addEvidence(keywords, keyword, amount / Math.sqrt(eventKeywords.length));
+        }
+    }
+
+    return {
+        sources: toAffinities(sources),
+        tags: toAffinities(tags),
+        keywords: toAffinities(keywords),
+        eventCount: events.length,
+        updatedAt: events.length > 0 ? now.toISOString() : null,
+    };
+}
+
+function mean(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+/**
+ * An item's affinity (-1..1, 0 = nothing learned about it): a weighted blend
+ * of its source's affinity and the mean affinity of its matching tags and
+ * title keywords. Sources in `explicitSources` contribute nothing.
+ */
+export function itemAffinity(
+    item: Pick<ContentItem, 'sourceId' | 'title' | 'tags'>,
+    model: AffinityModel,
+    explicitSources?: ReadonlySet<string>
+): number {
+    const parts: { value: number | null; weight: number }[] = [
+        {
+            value: explicitSources?.has(item.sourceId) ? null : model.sources[item.sourceId] ?? null,
+            weight: FEATURE_WEIGHTS.source,
+        },
+        {
+            value: mean(normalizeTags(item.tags).map(t => model.tags[t]).filter(v => v !== undefined)),
+            weight: FEATURE_WEIGHTS.tags,
+        },
+        {
+            value: mean(extractKeywords(item.title).map(k => model.keywords[k]).filter(v => v !== undefined)),
+            weight: FEATURE_WEIGHTS.keywords,
+        },
+    ];
+
+    const present = parts.filter((p): p is { value: number; weight: number } => p.value !== null);
+    const totalWeight = present.reduce((sum, p) => sum + p.weight, 0);
+    if (totalWeight === 0) return 0;
+    return present.reduce((sum, p) => sum + p.value * p.weight, 0) / totalWeight;
+}
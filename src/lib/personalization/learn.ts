@@ -0,0 +1,27 @@
+import { AffinityModel } from '@/types';
+import { setAffinityModel } from '@/lib/db/actions';
+import { clearFeedbackEvents, getRecentFeedbackEvents } from '@/lib/db/feedback';
+import { feedCache } from '@/lib/cache/memory-cache';
+import { EMPTY_AFFINITY_MODEL, FEEDBACK_RETENTION_DAYS, learnAffinities } from './index';
+
+// Cached feed and discovery responses ranked with the old model
+function invalidateForYouCache() {
+    feedCache.invalidatePattern(':for-you');
+}
+
+/** Relearn affinities from the retained feedback events and store the model. */
+export async function relearnAffinities(): Promise<AffinityModel> {
+    const events = await getRecentFeedbackEvents(FEEDBACK_RETENTION_DAYS);
+    const model = learnAffinities(events);
+    await setAffinityModel(model);
+    invalidateForYouCache();
+    return model;
+}
+
+/** Forget all feedback and learned affinities. Returns the number of events deleted. */
+export async function resetAffinities(): Promise<number> {
+    const deleted = await clearFeedbackEvents();
+    await setAffinityModel(EMPTY_AFFINITY_MODEL);
+    invalidateForYouCache();
+    return deleted;
+}
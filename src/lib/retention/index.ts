@@ -0,0 +1,100 @@
+/**
+ * Retention policy
+ *
+ * How many days each table keeps, with per-category windows for content.
+ * Saved and story-linked content is exempt. The policy is stored in the
+ * `retentionPolicy` setting and applied by run.ts, triggered through
+ * /api/admin/retention.
+ */
+
+import { RetentionPolicy, RetentionTable, SourceCategory, CATEGORY_LABELS, RETENTION_TABLE_LABELS } from '@/types';
+import { FEEDBACK_RETENTION_DAYS } from '@/lib/personalization';
+import { BASELINE_DAYS } from '@/lib/topics';
+
+export const RETENTION_TABLES = Object.keys(RETENTION_TABLE_LABELS) as RetentionTable[];
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+    tables: {
+        content: 7,
+        snapshots: 7,
+        webhookDeliveries: 30,   // Longer than content so repeat triggers stay deduplicated
+        stories: 30,             // Days since an item last joined
+        seenItems: 7,            // Seen records outliving their content are useless
+        feedbackEvents: FEEDBACK_RETENTION_DAYS,
+        topicHistory: 90,
+    },
+    categories: {},
+};
+
+const MAX_DAYS = 365;
+
+/**
+ * Smallest window per table. Content needs yesterday complete for the daily
+ * rollups; topic history needs the emerging-topic baseline plus the two
+ * days it skips.
+ */
+export const RETENTION_MIN_DAYS: Record<RetentionTable, number> = {
+    content: 2,
+    snapshots: 1,
+    webhookDeliveries: 1,
+    stories: 1,
+    seenItems: 1,
+    feedbackEvents: 1,
+    topicHistory: BASELINE_DAYS + 2,
+};
+
+/** Stored policy merged over the defaults, so policies saved before a table existed still resolve. */
+export function resolveRetentionPolicy(stored: Partial<RetentionPolicy> | null | undefined): RetentionPolicy {
+    if (!stored) return DEFAULT_RETENTION_POLICY;
+    return {
+        tables: { ...DEFAULT_RETENTION_POLICY.tables, ...stored.tables },
+        categories: { ...stored.categories },
+    };
+}
+
+function parseDays(value: unknown, min: number): number | null {
+    const days = Number(value);
+    return Number.isInteger(days) && days >= min && days <= MAX_DAYS ? days : null;
+}
+
+/**
+ * Validate a policy from a request body. Missing tables keep their
+ * defaults; category windows follow the content limits.
+ */
+export function parseRetentionPolicy(value: unknown): { policy: RetentionPolicy } | { error: string } {
+    if (typeof value !== 'object' || value === null) return { error: 'Invalid policy. Expected an object' };
+    const obj = value as Record<string, unknown>;
+    const tables = (obj.tables ?? {}) as Record<string, unknown>;
+    const categories = (obj.categories ?? {}) as Record<string, unknown>;
+    if (typeof tables !== 'object' || typeof categories !== 'object') {
+        return { error: 'Invalid policy. tables and categories must be objects' };
+    }
+
+    const policy: RetentionPolicy = { tables: { ...DEFAULT_RETENTION_POLICY.tables }, categories: {} };
+    for (const [table, days] of Object.entries(tables)) {
+        if (!(RETENTION_TABLES as string[]).includes(table)) {
+            return { error: `Unknown table: ${table}. Must be one of: ${RETENTION_TABLES.join(', ')}` };
+        }
+        const min = RETENTION_MIN_DAYS[table as RetentionTable];
+        const parsed = parseDays(days, min);
+        if (parsed === null) return { error: `Invalid ${table} retention. Must be a whole number of days from ${min} to ${MAX_DAYS}` };
+        policy.tables[table as RetentionTable] = parsed;
+    }
+    for (const [category, days] of Object.entries(categories)) {
+        if (!Object.prototype.hasOwnProperty.call(CATEGORY_LABELS, category)) {
+            return { error: `Unknown category: ${category}` };
+        }
+        if (days === null || days === undefined) continue;
+        const parsed = parseDays(days, RETENTION_MIN_DAYS.content);
+        if (parsed === null) {
+            return { error: `Invalid ${category} retention. Must be a whole number of days from ${RETENTION_MIN_DAYS.content} to ${MAX_DAYS}` };
+        }
+        policy.categories[category as SourceCategory] = parsed;
+    }
+    return { policy };
+}
+
+/** Shortest content window under the policy: only days inside it are still complete. */
+export function minContentDays(policy: RetentionPolicy): number {
+    return Math.min(policy.tables.content, ...Object.values(policy.categories).filter((days): days is number => days !== undefined));
+}
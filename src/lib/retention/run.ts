@@ -0,0 +1,79 @@
+import { RetentionReport, SourceCategory } from '@/types';
+import { getEffectiveSourceList } from '@/lib/config/resolve';
+import { cleanOldContent, getRetentionPolicy, setLastRetentionReport } from '@/lib/db/actions';
+import { cleanupOldSnapshots } from '@/lib/db/engagement-tracker';
+import { cleanupOldDeliveries } from '@/lib/db/webhooks';
+import { cleanupOldStories } from '@/lib/db/stories';
+import { cleanupOldSeenItems } from '@/lib/db/visits';
+import { cleanupOldFeedbackEvents } from '@/lib/db/feedback';
+import { cleanupOldTopicDays } from '@/lib/db/topics';
+import { rollupRecentDays } from '@/lib/history/rollups';
+import { db } from '@/lib/db';
+import { settings } from '@/lib/db/schema';
+import { sql } from 'drizzle-orm';
+import { minContentDays } from './index';
+
+/**
+ * Apply the stored retention policy. Complete days are rolled up first; if
+ * that fails, nothing is deleted. Categories with their own window are
+ * cleaned separately from everything else (default `content` window). With
+ * `dryRun`, every count is what would be deleted and nothing is written;
+ * otherwise the report is stored as the last run.
+ */
+export async function runRetention(dryRun: boolean): Promise<RetentionReport> {
+    const startedAt = new Date().toISOString();
+    const [policy, sourceList] = await Promise.all([getRetentionPolicy(), getEffectiveSourceList()]);
+
+    const rolledUpDays = dryRun ? [] : await rollupRecentDays(minContentDays(policy));
+
+    const overrides = Object.entries(policy.categories) as [SourceCategory, number][];
+    const sourcesOf = (category: SourceCategory) => sourceList.all.filter(s => s.category === category).map(s => s.id);
+    const overriddenSourceIds = overrides.flatMap(([category]) => sourcesOf(category));
+    const { tables } = policy;
+
+    const [content, otherContent, tableCounts] = await Promise.all([
+        Promise.all(overrides.map(async ([category, days]) => ({
+            scope: category,
+            days,
+            ...await cleanOldContent(days, { sourceIds: sourcesOf(category) }, dryRun),
+        }))),
+        // Every other source, including custom and deleted ones
+        cleanOldContent(tables.content, { sourceIds: overriddenSourceIds, exclude: true }, dryRun),
+        Promise.all([
+            cleanupOldSnapshots(tables.snapshots, dryRun),
+            cleanupOldDeliveries(tables.webhookDeliveries, dryRun),
+            cleanupOldStories(tables.stories, dryRun),
+            cleanupOldSeenItems(tables.seenItems, dryRun),
+            cleanupOldFeedbackEvents(tables.feedbackEvents, dryRun),
+            cleanupOldTopicDays(tables.topicHistory, dryRun),
+        ]),
+    ]);
+
+    if (!dryRun) {
+        // Clean up stale feed_cache_* entries from settings table
+        await db.delete(settings).where(sql`${settings.key} LIKE 'feed_cache_%'`);
+    }
+
+    const [snapshots, webhookDeliveries, stories, seenItems, feedbackEvents, topicHistory] = tableCounts;
+    const report: RetentionReport = {
+        dryRun,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        policy,
+        rolledUpDays,
+        content: [{ scope: 'default', days: tables.content, ...otherContent }, ...content],
+        tables: [
+            { table: 'snapshots', days: tables.snapshots, deleted: snapshots },
+            { table: 'webhookDeliveries', days: tables.webhookDeliveries, deleted: webhookDeliveries },
+            { table: 'stories', days: tables.stories, deleted: stories },
+            { table: 'seenItems', days: tables.seenItems, deleted: seenItems },
+            { table: 'feedbackEvents', days: tables.feedbackEvents, deleted: feedbackEvents },
+            { table: 'topicHistory', days: tables.topicHistory, deleted: topicHistory },
+        ],
+        totalDeleted: [...content, otherContent].reduce((sum, c) => sum + c.deleted, 0)
+            + tableCounts.reduce((sum, n) => sum + n, 0),
+    };
+
+    if (!dryRun) await setLastRetentionReport(report);
+    return report;
+}
@@ -0,0 +1,58 @@
+import { SavedItem } from '@/types';
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_NOTE_LENGTH = 5000;
+
+/** Lowercased, trimmed, de-duplicated tags; null if the value isn't a string array. */
+function toTags(value: unknown): string[] | null {
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) return null;
+    return [...new Set((value as string[])
+        .map(tag => tag.trim().toLowerCase())
+        .filter(tag => tag.length > 0))];
+}
+
+/**
+ * Validate the tags/note of a save or update request. Fields left out are
+ * omitted from the result so updates only touch what was sent.
+ */
+export function parseSavedItemChanges(body: unknown): { changes: { tags?: string[]; note?: string } } | { error: string } {
+    if (typeof body !== 'object' || body === null) return { error: 'Expected a JSON object' };
+    const obj = body as Record<string, unknown>;
+    const changes: { tags?: string[]; note?: string } = {};
+
+    if (obj.tags !== undefined) {
+        const tags = toTags(obj.tags);
+        if (!tags) return { error: 'Invalid tags. Must be an array of strings' };
+        if (tags.length > MAX_TAGS) return { error: `Too many tags. Max ${MAX_TAGS}` };
+        if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+            return { error: `Invalid tag. Max ${MAX_TAG_LENGTH} characters` };
+        }
+        changes.tags = tags;
+    }
+
+    if (obj.note !== undefined) {
+        if (typeof obj.note !== 'string') return { error: 'Invalid note. Must be a string' };
+        if (obj.note.length > MAX_NOTE_LENGTH) return { error: `Note too long. Max ${MAX_NOTE_LENGTH} characters` };
+        changes.note = obj.note.trim();
+    }
+
+    return { changes };
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\`*_[\]<>|])/g, '\\$1');
+}
+
+/** Saved items as a Markdown reading list, one entry per item with its tags and note. */
+export function renderSavedMarkdown(items: SavedItem[], sourceName: (sourceId: string) => string): string {
+    const lines = ['# Saved Items', '', `_${items.length} items, exported ${new Date().toISOString().slice(0, 10)}_`, ''];
+    for (const { item, tags, note, savedAt } of items) {
+        const meta = [sourceName(item.sourceId), `saved ${savedAt.slice(0, 10)}`].join(' · ');
+        lines.push(`- **[${escapeMarkdown(item.title)}](${item.url})** — ${meta}`);
+        if (tags.length > 0) lines.push(`  - Tags: ${tags.map(tag => `\`${tag.replace(/`/g, '')}\``).join(', ')}`);
+        if (note) lines.push(`  - Note: ${escapeMarkdown(note).replace(/\n+/g, ' ')}`);
+    }
+    lines.push('');
+    return lines.join('\n');
+}
@@ -2,11 +2,13 @@
  * Cross-platform signal linking and score amplification.
  *
  * Groups items by platform family, links same-story items across platforms
- * via hybrid similarity, then amplifies trendingScore for multi-platform stories.
+ * via hybrid similarity (plus exact arXiv ID / GitHub repo matches), then
+ * amplifies trendingScore for multi-platform stories.
  */
 
 import { ContentItem } from '@/types';
 import { hybridSimilarity } from './similarity';
+import { explainStep } from './explain';
 
 export interface CrossPlatformConfig {
     /** Minimum hybrid similarity to consider two items the same story (default 0.40) */
@@ -17,25 +19,50 @@ export interface CrossPlatformConfig {
     maxAmplification?: number;
 }
 
+/** Minimum hybridSimilarity for two titles to be the same story. Shared with lib/stories. */
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.40;
+
 const DEFAULT_CONFIG: Required<CrossPlatformConfig> = {
-    similarityThreshold: 0.40,
+    similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD,
     amplificationFactor: 0.12,
     maxAmplification: 1.5,
 };
 
 /** Strip HN prefixes for fairer cross-source title comparison. */
-function normalizeTitleForLinking(title: string, sourceId: string): string {
+export function normalizeTitleForLinking(title: string, sourceId: string): string {
     if (sourceId.startsWith('hn') || sourceId === 'hacker-news') {
         return title.replace(/^(Show|Ask|Tell) HN:\s*/i, '');
     }
     return title;
 }
 
+const ARXIV_URL_RE = /arxiv\.org\/(?:abs|pdf)\/(\d{4}\.\d{4,5})/i;
+const GITHUB_REPO_RE = /^https?:\/\/(?:www\.)?github\.com\/([^/?#]+\/[^/?#]+)/i;
+
+/**
+ * Exact-match join keys for an item: its arXiv ID and any GitHub repo it is
+ * or links to. A paper, its arXiv listing and its trending repo share a key
+ * even when their titles have nothing in common.
+ */
+export function getIdentityKeys(item: ContentItem): string[] {
+    const keys = new Set<string>();
+
+    const arxivId = item.arxivId ?? item.url.match(ARXIV_URL_RE)?.[1];
+    if (arxivId) keys.add(`arxiv:${arxivId.replace(/v\d+$/, '')}`);
+
+    for (const url of [item.repoUrl, item.url]) {
+        const repo = url?.match(GITHUB_REPO_RE)?.[1];
+        if (repo) keys.add(`repo:${repo.toLowerCase().replace(/\.git$/, '')}`);
+    }
+
+    return [...keys];
+}
+
 /**
  * Map a sourceId to its platform family.
  * Sources from the same platform family are never linked to each other.
  */
-function getPlatformFamily(sourceId: string): string {
+export function getPlatformFamily(sourceId: string): string {
     if (sourceId.startsWith('reddit-')) return 'reddit';
     if (sourceId.startsWith('hn') || sourceId === 'hacker-news') return 'hackernews';
     if (sourceId.startsWith('arxiv-')) return 'arxiv';
@@ -47,7 +74,8 @@ function getPlatformFamily(sourceId: string): string {
  *
  * 1. Groups items by platform family
  * 2. For each cross-platform pair, computes hybridSimilarity on titles
- * 3. If >= threshold, bidirectionally links via crossRefs
+ * 3. If >= threshold, or the pair shares an arXiv ID / GitHub repo,
+ *    bidirectionally links via crossRefs
  * 4. Assigns crossPlatformCount and crossPlatformSources
  * 5. Amplifies trendingScore: score *= min(maxAmp, 1 + factor * platformCount)
  * 6. Clamps to 100
@@ -55,14 +83,21 @@ function getPlatformFamily(sourceId: string): string {
 export function linkAndAmplify(
     items: ContentItem[],
     config?: CrossPlatformConfig
+): ContentItem[] {
+    return amplifyCrossPlatform(linkCrossPlatform(items, config), config);
+}
+
+/**
+ * Steps 1-4 of linkAndAmplify: cross-platform links and counts only, scores
+ * untouched. Lets ranking modes use cross-platform reach as a signal.
+ */
+export function linkCrossPlatform(
+    items: ContentItem[],
+    config?: CrossPlatformConfig
 ): ContentItem[] {
     if (items.length === 0) return items;
 
-    const {
-        similarityThreshold,
-        amplificationFactor,
-        maxAmplification,
-    } = { ...DEFAULT_CONFIG, ...config };
+    const { similarityThreshold } = { ...DEFAULT_CONFIG, ...config };
 
     // Build platform family lookup
     const familyOf = new Map<string, string>();
@@ -99,6 +134,26 @@ export function linkAndAmplify(
         }
     }
 
+    // Exact identifier matches link regardless of title similarity
+    const byKey = new Map<string, number[]>();
+    for (let i = 0; i < items.length; i++) {
+        for (const key of getIdentityKeys(items[i])) {
+            if (!byKey.has(key)) byKey.set(key, []);
+            byKey.get(key)!.push(i);
+        }
+    }
+    for (const indices of byKey.values()) {
+        for (let a = 0; a < indices.length; a++) {
+            for (let b = a + 1; b < indices.length; b++) {
+                const i = indices[a];
+                const j = indices[b];
+                if (familyOf.get(items[i].sourceId) === familyOf.get(items[j].sourceId)) continue;
+                links.get(i)!.add(j);
+                links.get(j)!.add(i);
+            }
+        }
+    }
+
     // Build clusters via BFS to find connected components
     const visited = new Set<number>();
     const clusters: number[][] = [];
@@ -125,7 +180,7 @@ export function linkAndAmplify(
         clusters.push(cluster);
     }
 
-    // Apply cross-platform metadata and amplification
+    // Apply cross-platform metadata
     const result = [...items];
 
     for (const cluster of clusters) {
@@ -143,11 +198,6 @@ export function linkAndAmplify(
         const platformCount = platformFamilies.size;
         if (platformCount < 2) continue; // Single platform cluster, skip
 
-        const amplifier = Math.min(
-            maxAmplification,
-            1 + amplificationFactor * platformCount
-        );
-
         // Collect { sourceId, url } for each item in the cluster
         const clusterLinks = cluster.map(idx => ({
             sourceId: items[idx].sourceId,
@@ -160,20 +210,47 @@ export function linkAndAmplify(
             const otherSources = [...sourceIds].filter(s => s !== item.sourceId);
             const otherLinks = clusterLinks.filter(l => l.sourceId !== item.sourceId);
 
-            const amplifiedScore = item.trendingScore
-                ? Math.min(100, Math.round(item.trendingScore * amplifier * 10) / 10)
-                : undefined;
-
             result[idx] = {
                 ...item,
                 crossRefs: otherIds,
                 crossPlatformCount: platformCount,
                 crossPlatformSources: otherSources,
                 crossPlatformLinks: otherLinks,
-                trendingScore: amplifiedScore ?? item.trendingScore,
             };
         }
     }
 
     return result;
 }
+
+/**
+ * Steps 5-6 of linkAndAmplify: amplify the trendingScore of items linked
+ * across 2+ platforms (crossPlatformCount set by linkCrossPlatform).
+ */
+export function amplifyCrossPlatform(
+    items: ContentItem[],
+    config?: CrossPlatformConfig
+): ContentItem[] {
+    const { amplificationFactor, maxAmplification } = { ...DEFAULT_CONFIG, ...config };
+
+    return items.map(item => {
+        const platformCount = item.crossPlatformCount ?? 0;
+        if (platformCount < 2) return item;
+
+        const amplifier = Math.min(
+            maxAmplification,
+            1 + amplificationFactor * platformCount
+        );
+        const amplifiedScore = item.trendingScore
+            ? Math.min(100, Math.round(item.trendingScore * amplifier * 10) / 10)
+            : undefined;
+
+        return {
+            ...item,
+            trendingScore: amplifiedScore ?? item.trendingScore,
+            scoreExplanation: explainStep(item, amplifiedScore, {
+                crossPlatformMultiplier: Math.round(amplifier * 100) / 100,
+            }),
+        };
+    });
+}
@@ -123,6 +123,7 @@ export interface SourceEngagementConfig {
  * - 'reddit': Reddit posts (includes r/MachineLearning, r/LocalLLaMA, etc.)
  * - 'hackernews': Hacker News posts
  * - 'huggingface': Hugging Face models and spaces
+ * - 'papers': Papers with Code (HF paper upvotes + GitHub repo stars)
  * - 'medium': Medium articles
  * - 'rss': Generic RSS feeds (news, blogs, newsletters)
  */
@@ -269,6 +270,27 @@ export const ENGAGEMENT_CONFIGS: Record<string, SourceEngagementConfig> = {
         noEngagementBaseline: 0.2,
     },
 
+    papers: {
+        sourceType: 'papers',
+        metrics: [
+            {
+                name: 'upvotes',
+                weight: 0.50,
+                logBase: 3,         // 10^3 = 1K upvotes to max out
+                baseline: 20,       // 20 upvotes makes the daily list
+                viral: 200,         // 200+ upvotes is paper of the week
+            },
+            {
+                name: 'stars',
+                weight: 0.50,
+                logBase: 5,         // 10^5 = 100K stars to max out
+                baseline: 100,      // 100 stars shows real adoption
+                viral: 5000,        // 5K stars is exceptional for a paper repo
+            },
+        ],
+        noEngagementBaseline: 0.2,
+    },
+
     polymarket: {
         sourceType: 'polymarket',
         metrics: [
@@ -300,6 +322,7 @@ export function getSourceEngagementType(sourceId: string): string {
     if (sourceId === 'hackernews') return 'hackernews';
     if (sourceId === 'huggingface') return 'huggingface';
     if (sourceId === 'polymarket') return 'polymarket';
+    if (sourceId === 'papers-with-code') return 'papers';
     // Pattern-based mappings
     if (sourceId.startsWith('reddit-')) return 'reddit';
 
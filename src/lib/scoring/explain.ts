@@ -0,0 +1,52 @@
+import { ContentItem, ScoreComponent, ScoreExplanation } from '@/types';
+
+/** A component before rounding for display */
+export type RawScoreComponent = Omit<ScoreComponent, 'points'>;
+
+function round(value: number, places: number): number {
+    const factor = 10 ** places;
+    return Math.round(value * factor) / factor;
+}
+
+/** Weighted sum of the components (0-1), added in the order given. */
+export function sumComponents(components: RawScoreComponent[]): number {
+    return components.reduce((sum, c) => sum + c.value * c.weight, 0);
+}
+
+/** Explanation of a freshly computed score, rounded for display. */
+export function explainScore(
+    mode: ScoreExplanation['mode'],
+    components: RawScoreComponent[],
+    finalScore: number,
+    extra: Partial<ScoreExplanation> = {}
+): ScoreExplanation {
+    return {
+        mode,
+        components: components.map(c => ({
+            name: c.name,
+            value: round(c.value, 3),
+            weight: round(c.weight, 3),
+            points: round(c.value * c.weight * 100, 1),
+        })),
+        baseScore: round(sumComponents(components) * 100, 1),
+        ...extra,
+        finalScore: round(finalScore, 1),
+    };
+}
+
+/**
+ * Record a later pipeline step (linking, normalization, mute rules) on an
+ * explained item. Items scored without explanations stay without one.
+ */
+export function explainStep(
+    item: ContentItem,
+    finalScore: number | undefined,
+    step: Partial<ScoreExplanation>
+): ScoreExplanation | undefined {
+    if (!item.scoreExplanation) return undefined;
+    return {
+        ...item.scoreExplanation,
+        ...step,
+        finalScore: round(finalScore ?? item.scoreExplanation.finalScore, 1),
+    };
+}
@@ -0,0 +1,156 @@
+/**
+ * Ranking Mode Registry
+ *
+ * Every feed mode is a strategy over the same per-item signals (see signals.ts).
+ * Registering a mode here makes it valid for `/api/feed`, `/api/discovery/items`
+ * and the syndicated feeds, and adds it to the dashboard's mode selector.
+ *
+ * Client-safe: no server imports, so components can read labels and icons.
+ */
+
+import { Flame, TrendingUp, Trophy, MessagesSquare, Swords, Sparkles, type LucideIcon } from 'lucide-react';
+import { ScoreMultiplier, ScoringWeights } from '@/types';
+import type { RawScoreComponent } from './explain';
+import type { ItemSignals } from './signals';
+
+export interface RankingStrategy {
+    // Needs engagement velocities (an extra snapshot query)
+    usesVelocity: boolean;
+    // Weighted components of the score; weights should sum to 1
+    components(signals: ItemSignals, weights: ScoringWeights): RawScoreComponent[];
+    // Multiplier on the weighted sum, or null when it does not apply to the item
+    multiplier?(signals: ItemSignals, weights: ScoringWeights): ScoreMultiplier | null;
+}
+
+export interface RankingMode extends RankingStrategy {
+    label: string;
+    description: string;
+    icon: LucideIcon;
+}
+
+/**
+ * Source priority and boost keywords take their default-ranking share in every
+ * mode; the mode's own components split the rest.
+ */
+function withSourceSignals(
+    signals: ItemSignals,
+    weights: ScoringWeights,
+    modeComponents: RawScoreComponent[]
+): RawScoreComponent[] {
+    const share = Math.max(0, 1 - weights.base.priority - weights.base.keywordBoost);
+    return [
+        { name: 'priority', value: signals.priority, weight: weights.base.priority },
+        ...modeComponents.map(c => ({ ...c, weight: c.weight * share })),
+        { name: 'keywordBoost', value: signals.keywordBoost, weight: weights.base.keywordBoost },
+    ];
+}
+
+export const RANKING_MODES = {
+    // HOT: What's peaking now (default 50% engagement + 30% recency + 20% velocity)
+    hot: {
+        label: 'Hot',
+        description: 'High engagement + recent',
+        icon: Flame,
+        usesVelocity: true,
+        components: (s, w) => withSourceSignals(s, w, [
+            { name: 'engagement', value: s.engagement, weight: w.hot.engagement },
+            { name: 'recency', value: s.recency, weight: w.hot.recency },
+            { name: 'velocity', value: s.velocity, weight: w.hot.velocity },
+        ]),
+    },
+    // RISING: Gaining momentum, not yet hot (default 70% velocity + 20% recency + 10% engagement)
+    rising: {
+        label: 'Rising',
+        description: 'Gaining momentum fast',
+        icon: TrendingUp,
+        usesVelocity: true,
+        components: (s, w) => withSourceSignals(s, w, [
+            { name: 'velocity', value: s.velocity, weight: w.rising.velocity },
+            { name: 'recency', value: s.recency, weight: w.rising.recency },
+            { name: 'engagement', value: s.engagement, weight: w.rising.engagement },
+        ]),
+        // Penalize items already in the top 20% engagement
+        multiplier: (s, w) => s.engagementPercentile > 0.8
+            ? { label: 'Already popular', value: w.risingNewnessPenalty }
+            : null,
+    },
+    // TOP: Highest engagement in time range
+    top: {
+        label: 'Top',
+        description: 'Highest engagement',
+        icon: Trophy,
+        usesVelocity: false,
+        components: (s, w) => withSourceSignals(s, w, [
+            { name: 'engagement', value: s.engagement, weight: 1 },
+        ]),
+    },
+    // DISCUSSED: Most talked about (55% comment volume + 25% comments per vote + 20% recency).
+    // Sources without comment counts rank on a fraction of their engagement.
+    discussed: {
+        label: 'Discussed',
+        description: 'Most comments and debate',
+        icon: MessagesSquare,
+        usesVelocity: false,
+        components: (s, w) => withSourceSignals(s, w, [
+            { name: 'comments', value: s.comments, weight: 0.55 },
+            { name: 'commentRatio', value: s.commentRatio, weight: 0.25 },
+            { name: 'recency', value: s.recency, weight: 0.20 },
+        ]),
+    },
+    // CONTROVERSIAL: Heavy discussion with divided reactions across platforms
+    // (30% comments + 15% comments per vote + 35% mixed sentiment + 20% cross-platform reach)
+    controversial: {
+        label: 'Controversial',
+        description: 'Heated debate, mixed reactions',
+        icon: Swords,
+        usesVelocity: false,
+        components: (s, w) => withSourceSignals(s, w, [
+            { name: 'comments', value: s.comments, weight: 0.30 },
+            { name: 'commentRatio', value: s.commentRatio, weight: 0.15 },
+            { name: 'sentimentMix', value: s.sentimentMix, weight: 0.35 },
+            { name: 'crossPlatformReach', value: s.crossPlatformReach, weight: 0.20 },
+        ]),
+    },
+    // FOR YOU: Hot ranking blended with affinities learned from your clicks, saves
+    // and dismissals (40% affinity + 30% engagement + 20% recency + 10% velocity)
+    'for-you': {
+        label: 'For you',
+        description: 'Learned from what you open and save',
+        icon: Sparkles,
+        usesVelocity: true,
+        components: (s, w) => withSourceSignals(s, w, [
+            { name: 'affinity', value: s.affinity, weight: 0.40 },
+            { name: 'engagement', value: s.engagement, weight: 0.30 },
+            { name: 'recency', value: s.recency, weight: 0.20 },
+            { name: 'velocity', value: s.velocity, weight: 0.10 },
+        ]),
+    },
+} satisfies Record<string, RankingMode>;
+
+export type FeedMode = keyof typeof RANKING_MODES;
+
+export const FEED_MODES = Object.keys(RANKING_MODES) as FeedMode[];
+
+export const DEFAULT_FEED_MODE: FeedMode = 'hot';
+
+export function isFeedMode(value: string): value is FeedMode {
+    return Object.prototype.hasOwnProperty.call(RANKING_MODES, value);
+}
+
+export function getRankingMode(mode: FeedMode): RankingMode {
+    return RANKING_MODES[mode];
+}
+
+/**
+ * Default ranking for search, digests, alerts and webhooks: the base weights,
+ * no velocity. Not a feed mode.
+ */
+export const DEFAULT_RANKING: RankingStrategy = {
+    usesVelocity: false,
+    components: (s, w) => [
+        { name: 'priority', value: s.priority, weight: w.base.priority },
+        { name: 'engagement', value: s.engagement, weight: w.base.engagement },
+        { name: 'recency', value: s.recency, weight: w.base.recency },
+        { name: 'keywordBoost', value: s.keywordBoost, weight: w.base.keywordBoost },
+    ],
+};
@@ -0,0 +1,68 @@
+import { ContentItem } from '@/types';
+import { EffectiveConfig } from '@/lib/config/resolve';
+import { getBulkVelocities } from '@/lib/db/engagement-tracker';
+import { applyMuteRules } from '@/lib/mute';
+import { scoreItemsByFeedMode, normalizeCrossCategory } from './index';
+import { linkCrossPlatform, amplifyCrossPlatform } from './cross-platform';
+import { FeedMode, getRankingMode } from './modes';
+
+export type RankingConfig = Pick<
+    EffectiveConfig,
+    'priorities' | 'boostKeywords' | 'scoringWeights' | 'muteRules' | 'affinities' | 'explicitPrioritySources'
+>;
+
+export interface RankOptions {
+    mode: FeedMode;
+    config: RankingConfig;
+    // sourceId -> category, for cross-category normalization
+    sourceToCategoryMap: Record<string, string>;
+    // Preloaded velocities (otherwise loaded when the mode uses them)
+    velocities?: Map<string, number>;
+    explain?: boolean;
+}
+
+/**
+ * Engagement velocities for the items when the mode uses them. Empty when it
+ * doesn't, or when the query fails (the mode then ranks without velocity).
+ *
+ * Uses direct await instead of Promise.race to avoid dangling promises
+ * that throw connection errors when the Lambda is recycled.
+ */
+export async function loadVelocities(items: ContentItem[], mode: FeedMode): Promise<Map<string, number>> {
+    if (!getRankingMode(mode).usesVelocity) return new Map();
+    try {
+        return await getBulkVelocities(items.map(i => i.id));
+    } catch {
+        console.warn('Velocity query failed, falling back to engagement scoring');
+        return new Map();
+    }
+}
+
+/**
+ * The ranking pipeline behind `/api/feed`, `/api/discovery/items`, the
+ * syndicated feeds and the weights preview: cross-platform linking, mode
+ * scoring, cross-platform amplification, cross-category normalization, then
+ * mute rules. Returns items sorted by final score.
+ */
+export async function rankItems(items: ContentItem[], options: RankOptions): Promise<ContentItem[]> {
+    const { mode, config } = options;
+    const velocities = options.velocities ?? await loadVelocities(items, mode);
+
+    // Linking first lets modes use cross-platform reach; amplification waits for scores
+    const linked = linkCrossPlatform(items);
+    const scored = scoreItemsByFeedMode(linked, mode, {
+        priorities: config.priorities,
+        boostKeywords: config.boostKeywords,
+        weights: config.scoringWeights,
+        velocities,
+        affinities: config.affinities,
+        explicitPrioritySources: config.explicitPrioritySources,
+        explain: options.explain,
+    });
+
+    // Amplification runs before normalization so amplified scores are normalized too;
+    // mute rules run last so penalties are in final score points
+    const normalized = normalizeCrossCategory(amplifyCrossPlatform(scored), options.sourceToCategoryMap);
+    return applyMuteRules(normalized, config.muteRules)
+        .sort((a, b) => (b.trendingScore || 0) - (a.trendingScore || 0));
+}
@@ -0,0 +1,58 @@
+import { ContentItem, ScoringPreviewItem, ScoringPreviewMode, ScoringWeights } from '@/types';
+import { getCachedContentBySourceIds } from '@/lib/db/actions';
+import { getEffectiveConfig, getEffectiveSourceList } from '@/lib/config/resolve';
+import { applyMuteRules } from '@/lib/mute';
+import { scoreAndSortItems, linkAndAmplify } from './index';
+import { rankItems, loadVelocities } from './pipeline';
+
+const PREVIEW_LIMIT = 20;
+
+function toPreviewItem(item: ContentItem): ScoringPreviewItem {
+    return {
+        id: item.id,
+        title: item.title,
+        url: item.url,
+        sourceId: item.sourceId,
+        score: item.trendingScore || 0,
+    };
+}
+
+/**
+ * Top items of the stored content under the saved and the proposed weights,
+ * ranked the way `/api/feed` (a feed mode) or search and digests (default) would.
+ * Both rankings share one content + velocity load.
+ */
+export async function previewScoringWeights(
+    proposed: ScoringWeights,
+    mode: ScoringPreviewMode
+): Promise<{ current: ScoringPreviewItem[]; proposed: ScoringPreviewItem[] }> {
+    const [config, sourceList] = await Promise.all([
+        getEffectiveConfig(),
+        getEffectiveSourceList(),
+    ]);
+    if (sourceList.enabledIds.length === 0) return { current: [], proposed: [] };
+
+    const items = await getCachedContentBySourceIds(sourceList.enabledIds, config.timeRange, 300);
+    const velocities = mode === 'default' ? new Map<string, number>() : await loadVelocities(items, mode);
+    const sourceToCategoryMap = Object.fromEntries(sourceList.all.map(s => [s.id, s.category]));
+
+    const rank = async (weights: ScoringWeights): Promise<ScoringPreviewItem[]> => {
+        const ranked = mode === 'default'
+            ? applyMuteRules(linkAndAmplify(scoreAndSortItems(items, {
+                priorities: config.priorities,
+                boostKeywords: config.boostKeywords,
+                weights: weights.base,
+                recencyHalfLifeHours: weights.recencyHalfLifeHours,
+            })), config.muteRules).sort((a, b) => (b.trendingScore || 0) - (a.trendingScore || 0))
+            : await rankItems(items, {
+                mode,
+                config: { ...config, scoringWeights: weights },
+                sourceToCategoryMap,
+                velocities,
+            });
+        return ranked.slice(0, PREVIEW_LIMIT).map(toPreviewItem);
+    };
+
+    const [current, proposedItems] = await Promise.all([rank(config.scoringWeights), rank(proposed)]);
+    return { current, proposed: proposedItems };
+}
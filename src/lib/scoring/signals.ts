@@ -0,0 +1,353 @@
+import { AffinityModel, ContentItem, EngagementMetrics } from '@/types';
+import {
+    getEngagementConfig,
+    getSourceQualityBaseline,
+    QualityRatioConfig,
+} from './engagement-config';
+import { DEFAULT_SCORING_WEIGHTS } from './weights';
+import { itemAffinity } from '@/lib/personalization';
+
+/** Per-item inputs shared by every ranking mode (each 0-1 unless noted) */
+export interface ItemSignals {
+    // Source priority (1-5 normalized)
+    priority: number;
+    // Source-aware engagement blended with its percentile within the source type
+    engagement: number;
+    // Source-aware engagement before the percentile blend (tiebreaker)
+    absoluteEngagement: number;
+    // Rank of absoluteEngagement among all items being scored (0 = lowest)
+    engagementPercentile: number;
+    recency: number;
+    keywordBoost: number;
+    matchedKeywords: string[];
+    // Log-scaled engagement velocity
+    velocity: number;
+    // Engagement gained per hour, unscaled
+    rawVelocity: number;
+    // Whether the source reports comments (HN, Reddit, Medium responses)
+    hasCommentData: boolean;
+    // Log-scaled comment count; without comment data, a discounted engagement proxy
+    comments: number;
+    // Comments per upvote/like (1+ comments per vote = 1); 0 without comment data
+    commentRatio: number;
+    // How split reactions are: opposing sentiment across linked coverage, critical
+    // coverage, or a close up/down vote
+    sentimentMix: number;
+    // Additional platforms covering the story (3+ others = 1), after linking
+    crossPlatformReach: number;
+    // Learned affinity for the item's source, tags and keywords, mapped from
+    // -1..1 to 0-1 (0.5 = neutral or nothing learned)
+    affinity: number;
+}
+
+export interface SignalOptions {
+    // Source priorities (sourceId -> priority 1-5)
+    priorities: Map<string, number>;
+    // Keywords that boost content score
+    boostKeywords: string[];
+    // Recency half-life in hours (defaults to 24)
+    recencyHalfLifeHours?: number;
+    // Reference time for recency decay (defaults to now)
+    now?: Date;
+    // Engagement velocity per item id (missing = 0)
+    velocities?: Map<string, number>;
+    // Affinities learned from feedback (missing = neutral)
+    affinities?: AffinityModel;
+    // Sources with an explicit priority, whose learned affinity is ignored
+    explicitPrioritySources?: ReadonlySet<string>;
+}
+
+/**
+ * Calculate quality ratio bonus (0-1) based on engagement ratio
+ * Higher ratio compared to ideal = better quality indicator
+ */
+function calculateQualityRatio(
+    engagement: EngagementMetrics,
+    config: QualityRatioConfig
+): number {
+    const numeratorValue = (engagement as Record<string, number | undefined>)[config.numerator] || 0;
+    const denominatorValue = (engagement as Record<string, number | undefined>)[config.denominator] || 1;
+
+    if (denominatorValue === 0) return 0;
+
+    const actualRatio = numeratorValue / denominatorValue;
+
+    // Score how close to ideal ratio (0-1 scale)
+    // If actual >= ideal, return 1; otherwise return actual/ideal
+    return Math.min(actualRatio / config.idealRatio, 1);
+}
+
+/**
+ * Calculate a normalized engagement score (0-1) using source-specific configuration
+ *
+ * @param sourceId - The source identifier (e.g., 'youtube', 'github-trending', 'reddit-ml')
+ * @param engagement - The engagement metrics from the content item
+ * @returns A normalized score between 0 and 1
+ */
+function calculateEngagementScore(sourceId: string, engagement?: EngagementMetrics): number {
+    const config = getEngagementConfig(sourceId);
+
+    // Get source-specific quality baseline (used when no metrics available)
+    // This differentiates official AI labs (0.55) from newsletters (0.35) from unimplemented (0.25)
+    const qualityBaseline = getSourceQualityBaseline(sourceId);
+
+    // If source has no configured metrics (e.g., RSS), return quality-based baseline
+    if (config.metrics.length === 0) {
+        return qualityBaseline;
+    }
+
+    // If no engagement data, return quality baseline or type-specific fallback
+    if (!engagement) {
+        return config.noEngagementBaseline || qualityBaseline;
+    }
+
+    // Calculate weighted metric score
+    let metricScore = 0;
+    let hasAnyMetric = false;
+
+    for (const metric of config.metrics) {
+        const value = (engagement as Record<string, number | undefined>)[metric.name];
+        if (value !== undefined && value > 0) {
+            hasAnyMetric = true;
+            // Two-tier scaling: linear up to baseline, sqrt scaling above
+            // This spreads out values more evenly across the range
+            let normalized: number;
+            if (value <= metric.baseline) {
+                // Linear scale from 0 to 0.4 for values up to baseline
+                normalized = (value / metric.baseline) * 0.4;
+            } else if (value <= metric.viral) {
+                // Linear scale from 0.4 to 0.8 for baseline to viral
+                const range = metric.viral - metric.baseline;
+                const progress = (value - metric.baseline) / range;
+                normalized = 0.4 + progress * 0.4;
+            } else {
+                // Sqrt scale from 0.8 to 1.0 for values above viral
+                // This still differentiates mega-viral content
+                const overViral = value / metric.viral;
+                normalized = 0.8 + Math.min(0.2, Math.sqrt(overViral - 1) * 0.1);
+            }
+            metricScore += normalized * metric.weight;
+        }
+    }
+
+    // If no metrics were available, return quality baseline or type-specific fallback
+    if (!hasAnyMetric) {
+        return config.noEngagementBaseline || qualityBaseline;
+    }
+
+    // Apply quality ratio bonus if configured
+    if (config.qualityRatio) {
+        const ratioScore = calculateQualityRatio(engagement, config.qualityRatio);
+        // Ratio acts as a multiplier: score * (1 + ratioScore * weight)
+        // e.g., with weight 0.2 and perfect ratio: score * 1.2
+        metricScore *= (1 + ratioScore * config.qualityRatio.weight);
+    }
+
+    // Cap at 1.0
+    return Math.min(metricScore, 1);
+}
+
+/**
+ * Calculate a recency score (0-1) based on age
+ * Uses exponential decay - newer content scores higher
+ */
+function calculateRecencyScore(
+    publishedAt: Date | string,
+    now: Date = new Date(),
+    halfLifeHours: number = DEFAULT_SCORING_WEIGHTS.recencyHalfLifeHours
+): number {
+    const published = new Date(publishedAt);
+    const ageHours = (now.getTime() - published.getTime()) / (1000 * 60 * 60);
+
+    // Decay function: score = e^(-age/halfLife)
+    // Half-life of 24 hours means content loses half its recency score per day
+    const score = Math.exp(-ageHours / halfLifeHours);
+
+    return Math.max(0, Math.min(1, score));
+}
+
+/**
+ * Calculate keyword boost score (0-1) based on matching keywords
+ * Returns 1 if any keyword matches, 0 otherwise (can be enhanced for partial matching)
+ */
+function calculateKeywordBoost(
+    item: ContentItem,
+    keywords: string[]
+): { score: number; matchedKeywords: string[] } {
+    if (!keywords || keywords.length === 0) {
+        return { score: 0, matchedKeywords: [] };
+    }
+
+    const text = `${item.title} ${item.description || ''} ${item.tags?.join(' ') || ''}`.toLowerCase();
+    const matchedKeywords: string[] = [];
+
+    for (const keyword of keywords) {
+        if (text.includes(keyword.toLowerCase())) {
+            matchedKeywords.push(keyword);
+        }
+    }
+
+    // Score based on number of keywords matched (capped at 1)
+    const score = Math.min(1, matchedKeywords.length / Math.max(1, keywords.length) * 2);
+
+    return { score, matchedKeywords };
+}
+
+/**
+ * Normalize velocity to 0-1 scale using log scale
+ */
+function normalizeVelocity(velocity: number): number {
+    if (velocity <= 0) return 0;
+    // velocity of 10/hr = ~0.25, 100/hr = ~0.5, 1000/hr = ~0.75
+    return Math.min(1, Math.log10(velocity + 1) / 4);
+}
+
+// Sources without comment data rank on a fraction of their engagement in
+// discussion-based modes, below items that actually drew comments
+const NO_COMMENTS_ENGAGEMENT_FACTOR = 0.3;
+
+// Sentiment mix when nothing indicates a split (no sentiment stored)
+const UNKNOWN_SENTIMENT_MIX = 0.25;
+
+/**
+ * Comment volume (0-1, 1000 comments = 1) and comments per vote (0-1),
+ * or null when the item has no comment count.
+ */
+function calculateDiscussion(engagement?: EngagementMetrics): { comments: number; ratio: number } | null {
+    const comments = engagement?.comments ?? engagement?.responses;
+    if (comments === undefined) return null;
+
+    const votes = engagement?.upvotes ?? engagement?.likes ?? engagement?.claps ?? 0;
+    return {
+        comments: Math.min(1, Math.log10(comments + 1) / 3),
+        ratio: comments > 0 ? Math.min(1, comments / Math.max(1, votes)) : 0,
+    };
+}
+
+/**
+ * How divided the reaction to an item is (0-1): 1 when linked coverage of the
+ * story has both positive and negative items, 0.5 for critical coverage, plus
+ * close up/down votes where the source reports downvotes.
+ */
+function calculateSentimentMix(item: ContentItem, linked: ContentItem[]): number {
+    const labels = new Set([item, ...linked].map(i => i.sentiment).filter(Boolean));
+
+    let mix = labels.has('positive') && labels.has('negative') ? 1
+        : item.sentiment === 'negative' ? 0.5
+            : item.sentiment ? 0
+                : UNKNOWN_SENTIMENT_MIX;
+
+    const up = item.engagement?.upvotes;
+    const down = item.engagement?.downvotes;
+    if (up !== undefined && down !== undefined && up + down > 0) {
+        // 1 for an even split, 0 when one side has every vote
+        mix = Math.max(mix, 1 - Math.abs(up - down) / (up + down));
+    }
+    return mix;
+}
+
+function getSourceTypeForScoring(sourceId: string): string {
+    if (sourceId.startsWith('reddit-')) return 'reddit';
+    if (sourceId.startsWith('arxiv-')) return 'arxiv';
+    return sourceId;
+}
+
+/**
+ * Compute the ranking signals for a set of items.
+ * Engagement uses percentile ranks within each source type for better spread,
+ * so signals depend on the whole set being ranked.
+ */
+export function computeSignals(items: ContentItem[], options: SignalOptions): Map<string, ItemSignals> {
+    // First pass: calculate raw engagement scores for each item
+    // This includes quality ratios (like/view, fork/star, etc.)
+    const engagementScores = new Map<string, number>();
+    for (const item of items) {
+        const score = calculateEngagementScore(item.sourceId, item.engagement);
+        engagementScores.set(item.id, score);
+    }
+
+    // Group items by source type for percentile calculation
+    const bySource = new Map<string, ContentItem[]>();
+    for (const item of items) {
+        const sourceType = getSourceTypeForScoring(item.sourceId);
+        if (!bySource.has(sourceType)) bySource.set(sourceType, []);
+        bySource.get(sourceType)!.push(item);
+    }
+
+    // Calculate percentile ranks within each source type
+    // Rank by CALCULATED engagement score (includes quality ratios like likes/views)
+    const percentileRanks = new Map<string, number>();
+    for (const [, sourceItems] of bySource) {
+        // Sort by calculated engagement score (not raw metric)
+        const sorted = [...sourceItems].sort((a, b) =>
+            (engagementScores.get(b.id) || 0) - (engagementScores.get(a.id) || 0)
+        );
+        // Assign percentile (0 = worst, 1 = best)
+        sorted.forEach((item, idx) => {
+            const percentile = sorted.length > 1
+                ? 1 - (idx / (sorted.length - 1))
+                : 0.5;
+            percentileRanks.set(item.id, percentile);
+        });
+    }
+
+    // Percentile across all items (Rising penalizes the already-popular top)
+    const overallRanks = new Map<string, number>();
+    const byEngagement = [...items].sort((a, b) =>
+        (engagementScores.get(a.id) || 0) - (engagementScores.get(b.id) || 0)
+    );
+    byEngagement.forEach((item, idx) => {
+        overallRanks.set(item.id, byEngagement.length > 1 ? idx / (byEngagement.length - 1) : 0.5);
+    });
+
+    const byId = new Map(items.map(item => [item.id, item]));
+
+    const signals = new Map<string, ItemSignals>();
+    for (const item of items) {
+        const absoluteScore = engagementScores.get(item.id) || 0;
+        let percentile = percentileRanks.get(item.id);
+
+        // Dampen percentile rank for items with very low absolute engagement.
+        // Below the floor (0.15), scale the percentile proportionally so that
+        // near-zero engagement can't ride a high relative rank to an inflated score.
+        const ENGAGEMENT_FLOOR = 0.15;
+        if (percentile !== undefined && absoluteScore < ENGAGEMENT_FLOOR) {
+            percentile = percentile * (absoluteScore / ENGAGEMENT_FLOOR);
+        }
+
+        // Blend absolute and percentile so items compete within their source type
+        const engagement = percentile !== undefined
+            ? absoluteScore * 0.3 + percentile * 0.7  // 70% relative, 30% absolute
+            : absoluteScore;
+
+        // Priority 1-5 normalized to 0-1
+        const priority = options.priorities.get(item.sourceId) ?? 3;
+        const { score: keywordBoost, matchedKeywords } = calculateKeywordBoost(item, options.boostKeywords);
+        const rawVelocity = options.velocities?.get(item.id) || 0;
+        const discussion = calculateDiscussion(item.engagement);
+        const linked = (item.crossRefs ?? [])
+            .map(id => byId.get(id))
+            .filter((i): i is ContentItem => !!i);
+
+        signals.set(item.id, {
+            priority: (priority - 1) / 4,
+            engagement,
+            absoluteEngagement: absoluteScore,
+            engagementPercentile: overallRanks.get(item.id) || 0,
+            recency: calculateRecencyScore(item.publishedAt, options.now, options.recencyHalfLifeHours),
+            keywordBoost,
+            matchedKeywords,
+            velocity: normalizeVelocity(rawVelocity),
+            rawVelocity,
+            hasCommentData: discussion !== null,
+            comments: discussion?.comments ?? engagement * NO_COMMENTS_ENGAGEMENT_FACTOR,
+            commentRatio: discussion?.ratio ?? 0,
+            sentimentMix: calculateSentimentMix(item, linked),
+            crossPlatformReach: Math.min(1, Math.max(0, (item.crossPlatformCount ?? 1) - 1) / 3),
+            affinity: options.affinities
+                ? (itemAffinity(item, options.affinities, options.explicitPrioritySources) + 1) / 2
+                : 0.5,
+        });
+    }
+    return signals;
+}
@@ -0,0 +1,77 @@
+import { ScoringWeights } from '@/types';
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+    base: {
+        priority: 0.15,      // 15% - source importance
+        engagement: 0.50,    // 50% - community validation (primary signal)
+        recency: 0.25,       // 25% - freshness
+        keywordBoost: 0.10,  // 10% - personal relevance
+    },
+    hot: { engagement: 0.50, recency: 0.30, velocity: 0.20 },
+    rising: { velocity: 0.70, recency: 0.20, engagement: 0.10 },
+    recencyHalfLifeHours: 24,
+    risingNewnessPenalty: 0.6,
+};
+
+const MAX_HALF_LIFE_HOURS = 168;
+
+type WeightGroup = 'base' | 'hot' | 'rising';
+
+/** Scale a weight group so it sums to 1; null if it has a negative/non-numeric value or sums to 0. */
+function normalizeGroup<T extends Record<string, number>>(value: unknown, defaults: T): T | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const obj = value as Record<string, unknown>;
+    const entries = Object.keys(defaults).map(key => [key, Number(obj[key] ?? defaults[key])] as const);
+    if (entries.some(([, weight]) => !Number.isFinite(weight) || weight < 0)) return null;
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    if (total <= 0) return null;
+    return Object.fromEntries(entries.map(([key, weight]) => [key, Math.round((weight / total) * 1000) / 1000])) as T;
+}
+
+/**
+ * Validate scoring weights from a request body. Each group is rescaled to
+ * sum to 1, so callers can send raw slider values. Missing fields keep
+ * their defaults.
+ */
+export function parseScoringWeights(value: unknown): { weights: ScoringWeights } | { error: string } {
+    if (typeof value !== 'object' || value === null) return { error: 'Invalid weights. Expected an object' };
+    const obj = value as Record<string, unknown>;
+
+    const groups = {} as Pick<ScoringWeights, WeightGroup>;
+    for (const group of ['base', 'hot', 'rising'] as WeightGroup[]) {
+        const normalized = normalizeGroup(obj[group] ?? DEFAULT_SCORING_WEIGHTS[group], DEFAULT_SCORING_WEIGHTS[group]);
+        if (!normalized) {
+            return { error: `Invalid ${group} weights. Must be non-negative numbers with a positive sum` };
+        }
+        Object.assign(groups, { [group]: normalized });
+    }
+
+    const halfLife = Number(obj.recencyHalfLifeHours ?? DEFAULT_SCORING_WEIGHTS.recencyHalfLifeHours);
+    if (!Number.isFinite(halfLife) || halfLife < 1 || halfLife > MAX_HALF_LIFE_HOURS) {
+        return { error: `Invalid recencyHalfLifeHours. Must be between 1 and ${MAX_HALF_LIFE_HOURS}` };
+    }
+    const penalty = Number(obj.risingNewnessPenalty ?? DEFAULT_SCORING_WEIGHTS.risingNewnessPenalty);
+    if (!Number.isFinite(penalty) || penalty < 0 || penalty > 1) {
+        return { error: 'Invalid risingNewnessPenalty. Must be between 0 and 1' };
+    }
+
+    return {
+        weights: {
+            ...groups,
+            recencyHalfLifeHours: halfLife,
+            risingNewnessPenalty: penalty,
+        },
+    };
+}
+
+/** Stored weights merged over the defaults, so settings saved before a field existed still resolve. */
+export function resolveScoringWeights(stored: Partial<ScoringWeights> | null | undefined): ScoringWeights {
+    if (!stored) return DEFAULT_SCORING_WEIGHTS;
+    return {
+        base: { ...DEFAULT_SCORING_WEIGHTS.base, ...stored.base },
+        hot: { ...DEFAULT_SCORING_WEIGHTS.hot, ...stored.hot },
+        rising: { ...DEFAULT_SCORING_WEIGHTS.rising, ...stored.rising },
+        recencyHalfLifeHours: stored.recencyHalfLifeHours ?? DEFAULT_SCORING_WEIGHTS.recencyHalfLifeHours,
+        risingNewnessPenalty: stored.risingNewnessPenalty ?? DEFAULT_SCORING_WEIGHTS.risingNewnessPenalty,
+    };
+}
@@ -0,0 +1,136 @@
+import {
+    ContentType,
+    SearchFacet,
+    SearchFacets,
+    SearchResult,
+    SourceCategory,
+    TimeRange,
+    CATEGORY_LABELS,
+    CONTENT_TYPE_LABELS,
+} from '@/types';
+import { getEffectiveConfig, getEffectiveSourceList } from '@/lib/config/resolve';
+import { getTimeRangeCutoff } from '@/lib/db/actions';
+import { searchContent, getSearchFacetCounts, HIGHLIGHT_START, HIGHLIGHT_STOP, SearchScope } from '@/lib/db/search';
+import { scoreAndSortItems, linkAndAmplify } from '@/lib/scoring';
+
+// Final score = relevance (0-100, relative to the best match) and trending score
+// blended. Relevance dominates so an exact match isn't buried under a viral item
+const RELEVANCE_WEIGHT = 0.7;
+const TRENDING_WEIGHT = 0.3;
+
+/** Top matches by text rank that get blended; pages beyond this aren't served. */
+export const SEARCH_CANDIDATE_LIMIT = 200;
+
+export interface SearchParams {
+    query: string;
+    categories: SourceCategory[];
+    sourceId: string | null;
+    types: ContentType[];
+    /** null searches everything still stored (retention windows vary by category) */
+    timeRange: TimeRange | null;
+    limit: number;
+    offset: number;
+}
+
+export interface SearchResponse {
+    query: string;
+    total: number;
+    results: SearchResult[];
+    facets: SearchFacets;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/** Escape a ts_headline result, then turn its highlight markers into <mark>. */
+export function headlineToHtml(headline: string): string {
+    return escapeHtml(headline)
+        .split(HIGHLIGHT_START).join('<mark>')
+        .split(HIGHLIGHT_STOP).join('</mark>');
+}
+
+function toFacetList(counts: Map<string, number>, label: (value: string) => string): SearchFacet[] {
+    return [...counts.entries()]
+        .map(([value, count]) => ({ value, label: label(value), count }))
+        .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Full-text search over stored content of enabled sources.
+ *
+ * Matches come from the `search_vector` GIN index (websearch_to_tsquery
+ * syntax: "exact phrase", or, -exclude). The best SEARCH_CANDIDATE_LIMIT
+ * by text rank are scored like the feed, then ordered by a relevance +
+ * trending blend. Facets count every match by category, source and type,
+ * ignoring the category/source/type filters so other options stay visible.
+ */
+export async function runSearch(params: SearchParams): Promise<SearchResponse> {
+    const [config, sourceList] = await Promise.all([getEffectiveConfig(), getEffectiveSourceList()]);
+    const sourceById = new Map(sourceList.all.map(s => [s.id, s]));
+    const from = params.timeRange ? getTimeRangeCutoff(params.timeRange) : null;
+
+    const enabledIds = sourceList.enabled.map(s => s.id);
+    const targetIds = sourceList.enabled
+        .filter(s =>
+            (params.categories.length === 0 || params.categories.includes(s.category)) &&
+            (!params.sourceId || s.id === params.sourceId)
+        )
+        .map(s => s.id);
+
+    const scope: SearchScope = { query: params.query, sourceIds: targetIds, from, types: params.types };
+    const [{ hits, total }, facetCounts] = await Promise.all([
+        searchContent(scope, SEARCH_CANDIDATE_LIMIT),
+        getSearchFacetCounts({ query: params.query, sourceIds: enabledIds, from }),
+    ]);
+
+    const hitById = new Map(hits.map(hit => [hit.item.id, hit]));
+    const topRank = hits.reduce((max, hit) => Math.max(max, hit.rank), 0);
+    const scored = linkAndAmplify(scoreAndSortItems(hits.map(hit => hit.item), {
+        priorities: config.priorities,
+        boostKeywords: config.boostKeywords,
+        weights: config.scoringWeights.base,
+        recencyHalfLifeHours: config.scoringWeights.recencyHalfLifeHours,
+    }));
+
+    const results: SearchResult[] = scored
+        .map(item => {
+            const hit = hitById.get(item.id)!;
+            const relevance = topRank > 0 ? hit.rank / topRank : 0;
+            return {
+                item,
+                relevance: Math.round(relevance * 1000) / 1000,
+                score: Math.round((RELEVANCE_WEIGHT * relevance * 100 + TRENDING_WEIGHT * (item.trendingScore || 0)) * 10) / 10,
+                titleHtml: headlineToHtml(hit.titleHeadline),
+                snippetHtml: headlineToHtml(hit.snippetHeadline),
+            };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(params.offset, params.offset + params.limit);
+
+    const byCategory = new Map<string, number>();
+    const bySource = new Map<string, number>();
+    const byType = new Map<string, number>();
+    for (const { sourceId, contentType, count } of facetCounts) {
+        const category = sourceById.get(sourceId)?.category;
+        if (category) byCategory.set(category, (byCategory.get(category) || 0) + count);
+        bySource.set(sourceId, (bySource.get(sourceId) || 0) + count);
+        if (contentType) byType.set(contentType, (byType.get(contentType) || 0) + count);
+    }
+
+    return {
+        query: params.query,
+        total,
+        results,
+        facets: {
+            categories: toFacetList(byCategory, value => CATEGORY_LABELS[value as SourceCategory] || value),
+            sources: toFacetList(bySource, value => sourceById.get(value)?.name || value),
+            types: toFacetList(byType, value => CONTENT_TYPE_LABELS[value as ContentType] || value),
+        },
+    };
+}
@@ -1,81 +1,225 @@
 /**
- * Lightweight keyword-based sentiment analyzer for AI news content.
+ * Lightweight lexicon-based sentiment analyzer for AI news content.
  * Returns sentiment label and score (0-1, where 0=negative, 0.5=neutral, 1=positive).
+ *
+ * Runs locally with no model or network calls. Compared to plain keyword
+ * counting it:
+ * - matches whole words/phrases only ("free" no longer hits "freedom")
+ * - matches multi-word phrases before single words ("shuts down", "state of the art")
+ * - weights terms (-3..+3) so "lawsuit" outweighs "faster"
+ * - flips polarity after a negator ("not impressive", "fails to deliver")
+ * - weights the title above the description
  */
 
-const POSITIVE_KEYWORDS = [
+// Single words. Generic news verbs ("launches", "releases") are weak positives:
+// most announcements are mildly upbeat but shouldn't outvote real signal.
+const WORD_WEIGHTS: Record<string, number> = {
     // Achievement & progress
-    'breakthrough', 'milestone', 'achieves', 'achieved', 'surpasses', 'outperforms',
-    'state-of-the-art', 'sota', 'record-breaking', 'best-in-class',
+    'breakthrough': 3, 'milestone': 2, 'achieves': 2, 'achieved': 2,
+    'surpasses': 2, 'outperforms': 2, 'beats': 1, 'sota': 2,
+    'record-breaking': 2, 'best-in-class': 2, 'risk-free': 1,
     // Growth & improvement
-    'improves', 'improved', 'faster', 'efficient', 'upgrade', 'enhanced',
-    'advances', 'advancing', 'innovation', 'innovative', 'revolutionary',
-    'impressive', 'remarkable', 'significant', 'powerful',
-    // Positive actions
-    'launches', 'launched', 'releases', 'released', 'introduces', 'introduced',
-    'unveils', 'unveiled', 'announces', 'open-source', 'open source',
-    'free', 'available', 'accessible', 'democratize',
+    'improves': 1, 'improved': 1, 'improvement': 1, 'faster': 1, 'efficient': 1,
+    'upgrade': 1, 'enhanced': 1, 'advances': 1, 'advancing': 1,
+    'innovation': 1, 'innovative': 1, 'revolutionary': 2,
+    'impressive': 2, 'remarkable': 2, 'powerful': 1, 'impress': 2, 'impresses': 2,
+    // Announcements
+    'launches': 1, 'launched': 1, 'releases': 1, 'released': 1,
+    'introduces': 1, 'introduced': 1, 'unveils': 1, 'unveiled': 1,
+    'open-source': 1, 'open-sourced': 1, 'accessible': 1, 'democratize': 1,
     // Positive outcomes
-    'success', 'successful', 'wins', 'won', 'award', 'leading',
-    'exciting', 'promising', 'optimistic', 'confident',
-    'growth', 'funding', 'investment', 'partnership', 'collaboration',
-];
+    'success': 2, 'successful': 2, 'succeeds': 2, 'wins': 2, 'won': 1, 'award': 2,
+    'exciting': 2, 'promising': 2, 'optimistic': 2, 'confident': 1,
+    'growth': 1, 'funding': 1, 'raises': 1, 'partnership': 1, 'collaboration': 1,
+    'safe': 1, 'safer': 1, 'secure': 1, 'reliable': 1, 'useful': 1, 'helpful': 1,
 
-const NEGATIVE_KEYWORDS = [
     // Risk & concern
-    'risk', 'danger', 'dangerous', 'threat', 'threatens', 'harmful',
-    'concern', 'concerning', 'worried', 'warning', 'warns', 'alarming',
+    'risk': -1, 'risks': -1, 'risky': -2, 'danger': -2, 'dangerous': -2,
+    'threat': -2, 'threats': -2, 'threatens': -2, 'harmful': -2, 'harm': -2, 'harms': -2,
+    'concern': -1, 'concerns': -1, 'concerning': -2, 'worried': -2, 'worries': -1,
+    'warning': -1, 'warns': -2, 'alarming': -2, 'fears': -2,
     // Failure & problems
-    'fails', 'failed', 'failure', 'bug', 'vulnerability', 'exploit',
-    'broken', 'crashes', 'crash', 'error', 'flaw', 'flawed',
-    'decline', 'declining', 'worse', 'worst', 'downturn',
+    'fails': -2, 'failed': -2, 'failure': -2, 'failures': -2,
+    'bug': -1, 'bugs': -1, 'vulnerability': -2, 'vulnerabilities': -2, 'exploit': -2, 'exploited': -2,
+    'broken': -2, 'crashes': -2, 'crash': -2, 'outage': -2, 'error': -1, 'errors': -1,
+    'flaw': -2, 'flaws': -2, 'flawed': -2,
+    'decline': -1, 'declining': -1, 'worse': -2, 'worst': -2, 'downturn': -2, 'slower': -1,
+    'disappointing': -2, 'disappoints': -2, 'underwhelming': -2,
     // Negative actions
-    'bans', 'banned', 'blocks', 'blocked', 'restricts', 'restricted',
-    'layoffs', 'layoff', 'fired', 'shutdown', 'shuts down', 'sued',
-    'lawsuit', 'controversy', 'controversial', 'backlash', 'criticism',
+    'bans': -2, 'banned': -2, 'ban': -2, 'blocks': -1, 'blocked': -1,
+    'restricts': -1, 'restricted': -1, 'restrictions': -1,
+    'layoffs': -3, 'layoff': -3, 'fired': -2, 'shutdown': -2, 'sued': -3, 'sues': -3,
+    'lawsuit': -3, 'lawsuits': -3, 'fined': -3, 'probe': -2, 'investigation': -1,
+    'controversy': -2, 'controversial': -2, 'backlash': -2, 'criticism': -2, 'criticized': -2,
+    'scandal': -3, 'fraud': -3, 'scam': -3,
     // Safety & ethics concerns
-    'bias', 'biased', 'hallucination', 'hallucinations', 'misinformation',
-    'deepfake', 'deepfakes', 'surveillance', 'privacy violation',
-    'misuse', 'abuse', 'leak', 'leaked', 'breach',
-];
+    'bias': -2, 'biased': -2, 'hallucination': -2, 'hallucinations': -2, 'hallucinates': -2,
+    'misinformation': -2, 'disinformation': -2, 'deepfake': -2, 'deepfakes': -2,
+    'surveillance': -2, 'misuse': -2, 'abuse': -2, 'leak': -2, 'leaked': -2, 'leaks': -2,
+    'breach': -3, 'jailbreak': -2, 'jailbreaks': -2, 'unsafe': -2, 'insecure': -2,
+};
+
+// Multi-word phrases, matched before single words. Weight 0 entries exist only
+// to consume tokens that would otherwise be misread ("not only", "bug fix").
+const PHRASE_WEIGHTS: Record<string, number> = {
+    'state of the art': 2,
+    'open source': 1,
+    'best in class': 2,
+    'generally available': 1,
+    'step forward': 2,
+    'game changer': 2,
+    'shuts down': -2,
+    'shut down': -2,
+    'privacy violation': -3,
+    'data breach': -3,
+    'security flaw': -2,
+    'security hole': -2,
+    'class action': -3,
+    'safety concerns': -2,
+    'job losses': -2,
+    'step back': -2,
+    'falls short': -2,
+    'fall short': -2,
+    'bug fix': 0,
+    'bug fixes': 0,
+    'fixes bug': 0,
+    'fixes bugs': 0,
+    'risk free': 1,
+    'not only': 0,
+    'not just': 0,
+    'no doubt': 0,
+};
+
+// Flip the polarity of the next sentiment term within NEGATION_WINDOW tokens.
+// Phrase negators carry their own weight, used when nothing follows to flip
+// ("fails to ship" is still bad news).
+const NEGATOR_WORDS = new Set(['not', 'no', 'never', 'without', 'nor', 'neither', 'hardly', 'barely', 'cannot']);
+const NEGATOR_PHRASES: Record<string, number> = {
+    'fails to': -2,
+    'failed to': -2,
+    'unable to': -1,
+    'lack of': -1,
+    'lacks': -1,
+    'no longer': 0,
+};
+const NEGATION_WINDOW = 3;
+
+// Title carries most of the signal; descriptions are long and often boilerplate
+const TITLE_WEIGHT = 1;
+const DESCRIPTION_WEIGHT = 0.5;
+
+// Pseudo-count of neutral evidence: one weak term yields a mild score,
+// several strong terms push toward the 0/1 extremes
+const SCORE_DAMPING = 2;
+
+const PHRASES = Object.keys(PHRASE_WEIGHTS)
+    .concat(Object.keys(NEGATOR_PHRASES))
+    .map(p => p.split(' '))
+    .sort((a, b) => b.length - a.length);
 
 export interface SentimentResult {
     sentiment: 'positive' | 'neutral' | 'negative';
     score: number; // 0-1 where 0=most negative, 0.5=neutral, 1=most positive
 }
 
-export function analyzeSentiment(title: string, description?: string): SentimentResult {
-    const text = `${title} ${description || ''}`.toLowerCase();
+function tokenize(clause: string): string[] {
+    return clause
+        .toLowerCase()
+        .replace(/[‘’]/g, "'")
+        .match(/[a-z0-9]+(?:['-][a-z0-9]+)*/g) ?? [];
+}
 
-    let positiveCount = 0;
-    let negativeCount = 0;
+function isNegatorWord(token: string): boolean {
+    return NEGATOR_WORDS.has(token) || token.endsWith("n't");
+}
 
-    for (const keyword of POSITIVE_KEYWORDS) {
-        if (text.includes(keyword)) positiveCount++;
-    }
+/** Sum positive and negative weight for one piece of text. */
+function scoreText(text: string): { positive: number; negative: number } {
+    let positive = 0;
+    let negative = 0;
+    const add = (weight: number) => {
+        if (weight > 0) positive += weight;
+        else negative -= weight;
+    };
+
+    // Negation never crosses clause boundaries
+    for (const clause of text.split(/[.!?;:,()|\n–—]+/)) {
+        const tokens = tokenize(clause);
+        // Tokens left before an active negator expires, and the fallback weight to apply if it does
+        let negationLeft = 0;
+        let negatorWeight = 0;
+
+        for (let i = 0; i < tokens.length; i++) {
+            let weight: number | undefined;
+            let negator: number | undefined;
+            let length = 1;
 
-    for (const keyword of NEGATIVE_KEYWORDS) {
-        if (text.includes(keyword)) negativeCount++;
+            const phrase = PHRASES.find(p => p.every((word, j) => tokens[i + j] === word));
+            if (phrase) {
+                const key = phrase.join(' ');
+                length = phrase.length;
+                if (key in NEGATOR_PHRASES) negator = NEGATOR_PHRASES[key];
+                else weight = PHRASE_WEIGHTS[key];
+            } else if (isNegatorWord(tokens[i])) {
+                negator = 0;
+            } else {
+                weight = WORD_WEIGHTS[tokens[i]];
+            }
+            i += length - 1;
+
+            if (negator !== undefined) {
+                if (negationLeft > 0) add(negatorWeight);
+                negationLeft = NEGATION_WINDOW;
+                negatorWeight = negator;
+                continue;
+            }
+
+            if (weight) {
+                if (negationLeft > 0) {
+                    add(-weight);
+                    negationLeft = 0;
+                } else {
+                    add(weight);
+                }
+                continue;
+            }
+
+            if (negationLeft > 0 && --negationLeft === 0) add(negatorWeight);
+        }
+
+        if (negationLeft > 0) add(negatorWeight);
     }
 
-    const total = positiveCount + negativeCount;
+    return { positive, negative };
+}
+
+export function analyzeSentiment(title: string, description?: string): SentimentResult {
+    const fromTitle = scoreText(title);
+    const fromDescription = description ? scoreText(description) : { positive: 0, negative: 0 };
+
+    const positive = fromTitle.positive * TITLE_WEIGHT + fromDescription.positive * DESCRIPTION_WEIGHT;
+    const negative = fromTitle.negative * TITLE_WEIGHT + fromDescription.negative * DESCRIPTION_WEIGHT;
 
-    if (total === 0) {
+    if (positive === 0 && negative === 0) {
         return { sentiment: 'neutral', score: 0.5 };
     }
 
-    // Score: ratio of positive to total, mapped to 0-1
-    const rawScore = positiveCount / total;
+    const score = 0.5 + 0.5 * (positive - negative) / (positive + negative + SCORE_DAMPING);
 
     // Classify
     let sentiment: 'positive' | 'neutral' | 'negative';
-    if (rawScore >= 0.6) {
+    if (score >= 0.6) {
         sentiment = 'positive';
-    } else if (rawScore <= 0.4) {
+    } else if (score <= 0.4) {
         sentiment = 'negative';
     } else {
         sentiment = 'neutral';
     }
 
-    return { sentiment, score: rawScore };
+    return { sentiment, score: Math.round(score * 1000) / 1000 };
+}
+
+/** True when `value` is one of the three sentiment labels. */
+export function isSentimentLabel(value: string): value is SentimentResult['sentiment'] {
+    return value === 'positive' || value === 'neutral' || value === 'negative';
 }
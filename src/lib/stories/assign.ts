@@ -0,0 +1,112 @@
+import { ContentItem } from '@/types';
+import { getClusterCandidates, createStory, addStoryMembers } from '@/lib/db/stories';
+import {
+    DEFAULT_SIMILARITY_THRESHOLD,
+    normalizeTitleForLinking,
+    getIdentityKeys,
+    getPlatformFamily,
+} from '@/lib/scoring/cross-platform';
+import { hybridSimilarity, tokenize } from '@/lib/scoring/similarity';
+
+/** How far back a new item can find its story. Older stories stop growing. */
+const MATCH_WINDOW_HOURS = 48;
+const MAX_CANDIDATES = 2000;
+
+interface PoolEntry {
+    item: ContentItem;
+    storyId: number | null;
+    family: string;
+    title: string;
+}
+
+export interface StoryAssignmentResult {
+    created: number;
+    joined: number;
+}
+
+/**
+ * Assign freshly cached items to persistent stories.
+ *
+ * Each unassigned new item is compared with content from the last
+ * MATCH_WINDOW_HOURS on *other* platform families, using the same rules as
+ * linkAndAmplify (hybridSimilarity >= threshold, or a shared arXiv ID /
+ * GitHub repo). Only pairs sharing a title token or identity key are
+ * compared, which keeps this linear-ish in practice.
+ *
+ * The item joins the story of its most similar match that has one; if no
+ * match has a story yet, a new story is created from the pair. Items are
+ * processed oldest first so a story's first member is the earliest sighting.
+ * Stories are never merged: an item bridging two stories joins the closer.
+ */
+export async function assignStories(newItems: ContentItem[]): Promise<StoryAssignmentResult> {
+    const result: StoryAssignmentResult = { created: 0, joined: 0 };
+    if (newItems.length === 0) return result;
+
+    const since = new Date(Date.now() - MATCH_WINDOW_HOURS * 60 * 60 * 1000);
+    const candidates = await getClusterCandidates(since, MAX_CANDIDATES);
+
+    const pool = new Map<string, PoolEntry>();
+    const byToken = new Map<string, Set<string>>();
+    const byKey = new Map<string, Set<string>>();
+    const index = (map: Map<string, Set<string>>, key: string, id: string) => {
+        if (!map.has(key)) map.set(key, new Set());
+        map.get(key)!.add(id);
+    };
+
+    for (const { item, storyId } of candidates) {
+        const title = normalizeTitleForLinking(item.title, item.sourceId);
+        pool.set(item.id, { item, storyId, family: getPlatformFamily(item.sourceId), title });
+        for (const token of tokenize(title)) index(byToken, token, item.id);
+        for (const key of getIdentityKeys(item)) index(byKey, key, item.id);
+    }
+
+    // New items outside the window (or not stored) aren't in the pool and are skipped
+    const pending = [...new Set(newItems.map(item => item.id))]
+        .map(id => pool.get(id))
+        .filter((entry): entry is PoolEntry => entry !== undefined && entry.storyId === null)
+        .sort((a, b) => new Date(a.item.publishedAt).getTime() - new Date(b.item.publishedAt).getTime());
+
+    for (const entry of pending) {
+        // Joined as the partner of an earlier item in this batch
+        if (entry.storyId !== null) continue;
+
+        const keyMatches = new Set<string>();
+        const related = new Set<string>();
+        for (const key of getIdentityKeys(entry.item)) {
+            for (const id of byKey.get(key) ?? []) keyMatches.add(id);
+        }
+        for (const token of tokenize(entry.title)) {
+            for (const id of byToken.get(token) ?? []) related.add(id);
+        }
+
+        let best: { entry: PoolEntry; similarity: number } | null = null;
+        let bestInStory: { entry: PoolEntry; similarity: number } | null = null;
+        for (const id of new Set([...keyMatches, ...related])) {
+            const other = pool.get(id)!;
+            if (other.family === entry.family) continue;
+
+            const similarity = keyMatches.has(id) ? 1 : hybridSimilarity(entry.title, other.title);
+            if (similarity < DEFAULT_SIMILARITY_THRESHOLD) continue;
+
+            if (!best || similarity > best.similarity) best = { entry: other, similarity };
+            if (other.storyId !== null && (!bestInStory || similarity > bestInStory.similarity)) {
+                bestInStory = { entry: other, similarity };
+            }
+        }
+        if (!best) continue;
+
+        const member = { item: entry.item, platform: entry.family };
+        if (bestInStory) {
+            await addStoryMembers(bestInStory.entry.storyId!, [member]);
+            entry.storyId = bestInStory.entry.storyId;
+            result.joined++;
+        } else {
+            const partner = best.entry;
+            entry.storyId = await createStory([member, { item: partner.item, platform: partner.family }]);
+            partner.storyId = entry.storyId;
+            result.created++;
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,104 @@
+import { ScoopReport, SourceScoopStats } from '@/types';
+import { getEffectiveSourceList } from '@/lib/config/resolve';
+import { getStoryAppearances, StoryAppearance } from '@/lib/db/stories';
+import { getRetentionPolicy } from '@/lib/db/actions';
+
+/** Longest window the report accepts; the retention policy's story window can cut it shorter. */
+export const MAX_SCOOP_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Per-source scoop stats from persisted stories: how often each source was
+ * first to a multi-platform story, how far behind it usually is when it
+ * isn't, and which sources carry the same stories.
+ *
+ * A source's time in a story is its earliest member's publish time, so a
+ * source posting the same story twice is counted once. Ties for first all
+ * count as firsts.
+ */
+export function computeScoopReport(
+    appearances: StoryAppearance[],
+    since: Date,
+    sourceInfo: Map<string, { name: string; category?: SourceScoopStats['category'] }>,
+    enabledSourceIds: string[]
+): ScoopReport {
+    const bySource = new Map<string, { firsts: number; lags: number[]; storyIds: Set<number> }>();
+    const sourcesByStory = new Map<number, string[]>();
+
+    for (const { storyId, sourceId, firstAt, storyFirstAt } of appearances) {
+        if (!bySource.has(sourceId)) bySource.set(sourceId, { firsts: 0, lags: [], storyIds: new Set() });
+        const stats = bySource.get(sourceId)!;
+        stats.storyIds.add(storyId);
+
+        const lag = firstAt.getTime() - storyFirstAt.getTime();
+        if (lag <= 0) stats.firsts++;
+        else stats.lags.push(lag / MINUTE_MS);
+
+        if (!sourcesByStory.has(storyId)) sourcesByStory.set(storyId, []);
+        sourcesByStory.get(storyId)!.push(sourceId);
+    }
+
+    const sources: SourceScoopStats[] = [...bySource.entries()]
+        .map(([sourceId, stats]) => {
+            const lag = median(stats.lags);
+            return {
+                sourceId,
+                name: sourceInfo.get(sourceId)?.name || sourceId,
+                category: sourceInfo.get(sourceId)?.category,
+                storiesCovered: stats.storyIds.size,
+                firsts: stats.firsts,
+                firstRate: Math.round((stats.firsts / stats.storyIds.size) * 1000) / 1000,
+                medianLagMinutes: lag === null ? null : Math.round(lag),
+            };
+        })
+        .sort((a, b) => b.firsts - a.firsts || b.firstRate - a.firstRate || b.storiesCovered - a.storiesCovered);
+
+    // Matrix rows follow coverage so the busiest sources sit top-left
+    const sourceIds = [...sources].sort((a, b) => b.storiesCovered - a.storiesCovered).map(s => s.sourceId);
+    const indexOf = new Map(sourceIds.map((id, i) => [id, i]));
+    const counts = sourceIds.map(() => sourceIds.map(() => 0));
+    for (const storySources of sourcesByStory.values()) {
+        for (const a of storySources) {
+            for (const b of storySources) {
+                counts[indexOf.get(a)!][indexOf.get(b)!]++;
+            }
+        }
+    }
+
+    return {
+        since: since.toISOString(),
+        storyCount: sourcesByStory.size,
+        sources,
+        overlap: { sourceIds, counts },
+        silentSources: enabledSourceIds.filter(id => !bySource.has(id)),
+    };
+}
+
+/**
+ * Scoop report over stories first seen in the last `days` days, clamped to
+ * the retention policy's story window: idle stories older than that are
+ * deleted, so a longer window would undercount. Returns the days covered.
+ */
+export async function getScoopReport(days: number): Promise<{ days: number; report: ScoopReport }> {
+    const policy = await getRetentionPolicy();
+    const windowDays = Math.min(days, policy.tables.stories);
+    const since = new Date(Date.now() - windowDays * DAY_MS);
+    const [appearances, sourceList] = await Promise.all([
+        getStoryAppearances(since),
+        getEffectiveSourceList(),
+    ]);
+    const sourceInfo = new Map(sourceList.all.map(s => [s.id, { name: s.name, category: s.category }]));
+    return {
+        days: windowDays,
+        report: computeScoopReport(appearances, since, sourceInfo, sourceList.enabled.map(s => s.id)),
+    };
+}
@@ -0,0 +1,116 @@
+import { ContentItem, SourceCategory, SourceConfig, TimeRange, CATEGORY_LABELS } from '@/types';
+import { getCachedContentBySourceIds, getSourceFreshness } from '@/lib/db/actions';
+import { getEffectiveConfig, getEffectiveSourceList } from '@/lib/config/resolve';
+import { FeedMode, FEED_MODES, DEFAULT_FEED_MODE, RANKING_MODES, isFeedMode } from '@/lib/scoring';
+import { rankItems } from '@/lib/scoring/pipeline';
+
+export const VALID_TIME_RANGES: TimeRange[] = ['1h', '12h', '24h', '48h', '7d'];
+
+/** Items per syndicated feed. Readers only show the head of a feed anyway. */
+const MAX_FEED_ITEMS = 50;
+
+export interface FeedQuery {
+    category: SourceCategory | null;
+    sourceId: string | null;
+    timeRange: TimeRange | null;
+    mode: FeedMode;
+}
+
+export interface RankedFeed {
+    title: string;
+    description: string;
+    query: FeedQuery;
+    items: ContentItem[];
+    sourceNames: Record<string, string>;
+    /** Target sources whose content is stale; the caller refreshes them in the background */
+    staleSources: SourceConfig[];
+    timeRange: TimeRange;
+    updatedAt: Date;
+}
+
+/**
+ * Parse the `/api/feed` query params (`category`, `source`, `timeRange`, `mode`).
+ * Returns an error message with the valid values on bad input.
+ */
+export function parseFeedQuery(
+    searchParams: URLSearchParams
+): { query: FeedQuery } | { error: string; validValues: string[] } {
+    const category = searchParams.get('category');
+    const timeRange = searchParams.get('timeRange');
+    const mode = searchParams.get('mode');
+
+    if (category && !(category in CATEGORY_LABELS)) {
+        return { error: `Invalid category: ${category}`, validValues: Object.keys(CATEGORY_LABELS) };
+    }
+    if (timeRange && !VALID_TIME_RANGES.includes(timeRange as TimeRange)) {
+        return { error: `Invalid timeRange: ${timeRange}`, validValues: VALID_TIME_RANGES };
+    }
+    if (mode && !isFeedMode(mode)) {
+        return { error: `Invalid mode: ${mode}`, validValues: FEED_MODES };
+    }
+    return {
+        query: {
+            category: (category as SourceCategory) || null,
+            sourceId: searchParams.get('source'),
+            timeRange: (timeRange as TimeRange) || null,
+            mode: (mode as FeedMode | null) || DEFAULT_FEED_MODE,
+        },
+    };
+}
+
+/**
+ * The ranked feed as `/api/feed` computes it (feed-mode scoring, cross-platform
+ * linking, cross-category normalization, mute rules), trimmed to the top items.
+ * Serves stored content only; stale sources are reported, not fetched.
+ */
+export async function getRankedFeed(query: FeedQuery): Promise<RankedFeed> {
+    const [config, sourceList] = await Promise.all([
+        getEffectiveConfig(),
+        getEffectiveSourceList(),
+    ]);
+    const timeRange = query.timeRange || config.timeRange;
+
+    const targetSources = sourceList.enabled.filter(s =>
+        (!query.category || s.category === query.category) &&
+        (!query.sourceId || s.id === query.sourceId)
+    );
+    const targetSourceIds = targetSources.map(s => s.id);
+    const sourceNames = Object.fromEntries(sourceList.all.map(s => [s.id, s.name]));
+
+    const titleParts = ['AI trends'];
+    if (query.sourceId) titleParts.push(sourceNames[query.sourceId] || query.sourceId);
+    else if (query.category) titleParts.push(CATEGORY_LABELS[query.category]);
+    titleParts.push(RANKING_MODES[query.mode].label);
+    const title = titleParts.join(' – ');
+    const description = `${RANKING_MODES[query.mode].label} items from the last ${timeRange}, ranked by trending score`;
+
+    if (targetSourceIds.length === 0) {
+        return { title, description, query, items: [], sourceNames, staleSources: [], timeRange, updatedAt: new Date() };
+    }
+
+    const [items, freshness] = await Promise.all([
+        getCachedContentBySourceIds(targetSourceIds, timeRange, 300),
+        getSourceFreshness(targetSourceIds),
+    ]);
+
+    const sourceToCategoryMap = Object.fromEntries(sourceList.all.map(s => [s.id, s.category]));
+    const ranked = (await rankItems(items, { mode: query.mode, config, sourceToCategoryMap }))
+        .slice(0, MAX_FEED_ITEMS);
+
+    const stale = new Set(freshness.stale);
+    const updatedAt = ranked.reduce(
+        (latest, item) => (new Date(item.fetchedAt) > latest ? new Date(item.fetchedAt) : latest),
+        new Date(0)
+    );
+
+    return {
+        title,
+        description,
+        query,
+        items: ranked,
+        sourceNames,
+        staleSources: targetSources.filter(s => stale.has(s.id)),
+        timeRange,
+        updatedAt: ranked.length > 0 ? updatedAt : new Date(),
+    };
+}
@@ -0,0 +1,177 @@
+import { ContentItem, EngagementMetrics } from '@/types';
+import { RankedFeed } from './feed';
+
+export type SyndicationFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_CONTENT_TYPES: Record<SyndicationFormat, string> = {
+    rss: 'application/rss+xml; charset=utf-8',
+    atom: 'application/atom+xml; charset=utf-8',
+    json: 'application/feed+json; charset=utf-8',
+};
+
+/**
+ * XML namespace for the ranking extension elements in RSS and Atom
+ * (`<trends:score>`, `<trends:crossPlatform>`, `<trends:engagement>`).
+ */
+export const TRENDS_NAMESPACE = 'urn:ai-trends:feed:1';
+
+/** Absolute URLs of the three formats for the same query, for self/alternate links. */
+export function feedUrls(origin: string, search: string): Record<SyndicationFormat, string> {
+    return {
+        rss: `${origin}/api/feed.xml${search}`,
+        atom: `${origin}/api/feed.atom${search}`,
+        json: `${origin}/api/feed.json${search}`,
+    };
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/** Drop characters XML 1.0 does not allow, which scraped titles occasionally contain. */
+function stripInvalidXmlChars(text: string): string {
+    return text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '');
+}
+
+function xmlText(text: string): string {
+    return escapeXml(stripInvalidXmlChars(text));
+}
+
+function engagementEntries(engagement?: EngagementMetrics): [string, number][] {
+    if (!engagement) return [];
+    return Object.entries(engagement).filter((entry): entry is [string, number] => typeof entry[1] === 'number');
+}
+
+/** The `trends:` extension elements shared by RSS items and Atom entries, one per line. */
+function trendsElements(item: ContentItem, feed: RankedFeed, indent: string): string {
+    const lines: string[] = [];
+    if (item.trendingScore !== undefined) {
+        lines.push(`<trends:score>${Math.round(item.trendingScore * 10) / 10}</trends:score>`);
+    }
+    const links = item.crossPlatformLinks || [];
+    if (links.length > 0) {
+        lines.push(`<trends:crossPlatform count="${item.crossPlatformCount || links.length + 1}">`);
+        for (const link of links) {
+            const name = feed.sourceNames[link.sourceId] || link.sourceId;
+            lines.push(`    <trends:link source="${xmlText(link.sourceId)}" name="${xmlText(name)}" href="${xmlText(link.url)}"/>`);
+        }
+        lines.push('</trends:crossPlatform>');
+    }
+    const engagement = engagementEntries(item.engagement);
+    if (engagement.length > 0) {
+        lines.push(`<trends:engagement ${engagement.map(([key, value]) => `${key}="${value}"`).join(' ')}/>`);
+    }
+    return lines.map(line => `\n${indent}${line}`).join('');
+}
+
+// === RSS 2.0 ===
+
+export function renderRss(feed: RankedFeed, urls: Record<SyndicationFormat, string>, siteUrl: string): string {
+    const items = feed.items.map(item => {
+        const sourceName = feed.sourceNames[item.sourceId] || item.sourceId;
+        return `    <item>
+        <title>${xmlText(item.title)}</title>
+        <link>${xmlText(item.url)}</link>
+        <guid isPermaLink="false">${xmlText(item.id)}</guid>
+        <pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>
+        <category>${xmlText(sourceName)}</category>${item.author ? `
+        <dc:creator>${xmlText(item.author)}</dc:creator>` : ''}${item.description ? `
+        <description>${xmlText(item.description)}</description>` : ''}${trendsElements(item, feed, '        ')}
+    </item>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:trends="${TRENDS_NAMESPACE}">
+<channel>
+    <title>${xmlText(feed.title)}</title>
+    <link>${xmlText(siteUrl)}</link>
+    <description>${xmlText(feed.description)}</description>
+    <atom:link href="${xmlText(urls.rss)}" rel="self" type="application/rss+xml"/>
+    <lastBuildDate>${feed.updatedAt.toUTCString()}</lastBuildDate>
+    <ttl>5</ttl>
+${items.join('\n')}
+</channel>
+</rss>
+`;
+}
+
+// === Atom 1.0 ===
+
+export function renderAtom(feed: RankedFeed, urls: Record<SyndicationFormat, string>, siteUrl: string): string {
+    const entries = feed.items.map(item => {
+        const sourceName = feed.sourceNames[item.sourceId] || item.sourceId;
+        const updated = new Date(item.fetchedAt) > new Date(item.publishedAt) ? item.fetchedAt : item.publishedAt;
+        const related = (item.crossPlatformLinks || []).map(link =>
+            `\n        <link rel="related" href="${xmlText(link.url)}" title="${xmlText(feed.sourceNames[link.sourceId] || link.sourceId)}"/>`
+        ).join('');
+        return `    <entry>
+        <title>${xmlText(item.title)}</title>
+        <link rel="alternate" href="${xmlText(item.url)}"/>${related}
+        <id>urn:ai-trends:item:${xmlText(encodeURIComponent(item.id))}</id>
+        <published>${new Date(item.publishedAt).toISOString()}</published>
+        <updated>${new Date(updated).toISOString()}</updated>
+        <author><name>${xmlText(item.author || sourceName)}</name></author>
+        <category term="${xmlText(item.sourceId)}" label="${xmlText(sourceName)}"/>${item.description ? `
+        <summary>${xmlText(item.description)}</summary>` : ''}${trendsElements(item, feed, '        ')}
+    </entry>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:trends="${TRENDS_NAMESPACE}">
+    <title>${xmlText(feed.title)}</title>
+    <subtitle>${xmlText(feed.description)}</subtitle>
+    <id>${xmlText(urls.atom)}</id>
+    <link rel="self" type="application/atom+xml" href="${xmlText(urls.atom)}"/>
+    <link rel="alternate" type="text/html" href="${xmlText(siteUrl)}"/>
+    <updated>${feed.updatedAt.toISOString()}</updated>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+// === JSON Feed 1.1 ===
+
+/**
+ * JSON Feed 1.1 (https://jsonfeed.org/version/1.1). Ranking data goes in the
+ * `_trends` extension object, per the spec's underscore-prefix convention.
+ */
+export function renderJsonFeed(feed: RankedFeed, urls: Record<SyndicationFormat, string>, siteUrl: string) {
+    return {
+        version: 'https://jsonfeed.org/version/1.1',
+        title: feed.title,
+        description: feed.description,
+        home_page_url: siteUrl,
+        feed_url: urls.json,
+        items: feed.items.map(item => {
+            const sourceName = feed.sourceNames[item.sourceId] || item.sourceId;
+            return {
+                id: item.id,
+                url: item.url,
+                title: item.title,
+                content_text: item.description || item.title,
+                ...(item.imageUrl ? { image: item.imageUrl } : {}),
+                date_published: new Date(item.publishedAt).toISOString(),
+                date_modified: new Date(item.fetchedAt).toISOString(),
+                authors: [{ name: item.author || sourceName }],
+                tags: [sourceName, ...(item.contentType ? [item.contentType] : [])],
+                _trends: {
+                    source: item.sourceId,
+                    source_name: sourceName,
+                    score: item.trendingScore ?? null,
+                    cross_platform_count: item.crossPlatformCount ?? 1,
+                    cross_platform_links: (item.crossPlatformLinks || []).map(link => ({
+                        source: link.sourceId,
+                        source_name: feed.sourceNames[link.sourceId] || link.sourceId,
+                        url: link.url,
+                    })),
+                    engagement: item.engagement ?? null,
+                },
+            };
+        }),
+    };
+}
@@ -0,0 +1,68 @@
+import { NextResponse, after } from 'next/server';
+import { ensureSourcesFresh, claimStaleSources } from '@/lib/fetching/ensure-fresh';
+import { isRequestRefreshEnabled } from '@/lib/fetching/scheduler';
+import { parseFeedQuery, getRankedFeed } from './feed';
+import { SyndicationFormat, FEED_CONTENT_TYPES, feedUrls, renderRss, renderAtom, renderJsonFeed } from './formats';
+
+/**
+ * GET handler for `/api/feed.xml`, `/api/feed.atom` and `/api/feed.json`.
+ * Takes the same `category`, `source`, `timeRange` and `mode` params as
+ * `/api/feed`. Stale sources are refreshed after the response (unless
+ * REFRESH_ON_REQUEST=false), so the next poll picks up new items.
+ */
+export function createSyndicationHandler(format: SyndicationFormat) {
+    return async function GET(request: Request) {
+        const { origin, search, searchParams } = new URL(request.url);
+        const parsed = parseFeedQuery(searchParams);
+        if ('error' in parsed) {
+            return NextResponse.json(
+                { success: false, error: parsed.error, validValues: parsed.validValues },
+                { status: 400 }
+            );
+        }
+
+        try {
+            const feed = await getRankedFeed(parsed.query);
+
+            // Feed readers poll on a schedule: sources already being refreshed
+            // anywhere are left to that refresh rather than stacked
+            if (feed.staleSources.length > 0 && isRequestRefreshEnabled()) {
+                const { sessionId, sources: claimed } = await claimStaleSources(feed.staleSources);
+                if (sessionId && claimed.length > 0) {
+                    after(async () => {
+                        try {
+                            const { postProcessing } = await ensureSourcesFresh(
+                                claimed, claimed.map(s => s.id), feed.timeRange, { sessionId }
+                            );
+                            await postProcessing;
+                        } catch (err) {
+                            console.error('Background source refresh failed:', err);
+                        }
+                    });
+                }
+            }
+
+            const urls = feedUrls(origin, search);
+            const body = format === 'json'
+                ? JSON.stringify(renderJsonFeed(feed, urls, origin))
+                : format === 'atom'
+                    ? renderAtom(feed, urls, origin)
+                    : renderRss(feed, urls, origin);
+
+            return new NextResponse(body, {
+                headers: {
+                    'Content-Type': FEED_CONTENT_TYPES[format],
+                    'Cache-Control': feed.items.length > 0
+                        ? 'public, s-maxage=300, stale-while-revalidate=60'
+                        : 'no-store',
+                },
+            });
+        } catch (error) {
+            console.error(`Syndication feed (${format}) error:`, error);
+            return NextResponse.json(
+                { success: false, error: 'Failed to build feed' },
+                { status: 500 }
+            );
+        }
+    };
+}
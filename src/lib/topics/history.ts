@@ -0,0 +1,116 @@
+import { EmergingTopic, EmergingTopicsReport } from '@/types';
+import { getEffectiveConfig } from '@/lib/config/resolve';
+import { getContentPublishedBetween, getRetentionPolicy, getSetting, updateSetting } from '@/lib/db/actions';
+import { getStoredTopicDays, getTopicHistory, saveTopicDay } from '@/lib/db/topics';
+import { toDateKey } from '@/lib/digests/generate';
+import { scoreAndSortItems, linkAndAmplify } from '@/lib/scoring';
+import { minContentDays } from '@/lib/retention';
+import { BASELINE_DAYS, MIN_MENTIONS, countTopics, detectBursts, itemTopics } from './index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recount at most hourly (triggered from /api/feed)
+const UPDATE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Today and yesterday still receive items and are recounted on every update
+const RECOUNT_DAYS = 2;
+
+// Topics mentioned once on a day are not stored (they read as 0 in the baseline)
+const MIN_STORED_MENTIONS = 2;
+
+const QUERY_LIMIT = 5000;
+const ITEMS_PER_TOPIC = 5;
+
+/**
+ * Count topics for today, yesterday and any day still in the content window
+ * that has no stored counts yet (first run, or a missed day). Only full days
+ * inside the shortest content retention window are complete enough to count.
+ * Returns the days counted.
+ */
+export async function updateTopicHistory(now: Date = new Date()): Promise<string[]> {
+    const [config, policy] = await Promise.all([getEffectiveConfig(), getRetentionPolicy()]);
+    const fullDays = minContentDays(policy) - 1;
+    const today = new Date(`${toDateKey(now)}T00:00:00.000Z`);
+    const oldest = new Date(today.getTime() - fullDays * DAY_MS);
+    const stored = await getStoredTopicDays(toDateKey(oldest));
+
+    const counted: string[] = [];
+    for (let offset = fullDays; offset >= 0; offset--) {
+        const start = new Date(today.getTime() - offset * DAY_MS);
+        const day = toDateKey(start);
+        if (offset >= RECOUNT_DAYS && stored.has(day)) continue;
+
+        const end = new Date(Math.min(start.getTime() + DAY_MS, now.getTime()));
+        const items = await getContentPublishedBetween(config.enabledSourceIds, start, end, QUERY_LIMIT);
+        const counts = new Map([...countTopics(items)].filter(([, n]) => n >= MIN_STORED_MENTIONS));
+        await saveTopicDay(day, items.length, counts);
+        counted.push(day);
+    }
+    return counted;
+}
+
+/** Run updateTopicHistory if the last update is more than an hour old. */
+export async function maybeUpdateTopicHistory(): Promise<void> {
+    try {
+        const last = await getSetting<string>('lastTopicHistoryUpdate', '');
+        if (last && Date.now() - new Date(last).getTime() < UPDATE_INTERVAL_MS) return;
+        await updateSetting('lastTopicHistoryUpdate', new Date().toISOString());
+        const days = await updateTopicHistory();
+        console.log(`Topic history: counted ${days.join(', ')}`);
+    } catch (error) {
+        console.error('Failed to update topic history:', error);
+    }
+}
+
+/**
+ * Topics spiking in the last 24 hours: each topic's share of the window's
+ * items compared with its daily share over the BASELINE_DAYS days before
+ * yesterday (today and yesterday overlap the window). Each topic comes with
+ * its daily history and the best-scoring items mentioning it.
+ */
+export async function getEmergingTopics(limit: number, now: Date = new Date()): Promise<EmergingTopicsReport> {
+    const config = await getEffectiveConfig();
+    const windowStart = new Date(now.getTime() - DAY_MS);
+    const items = await getContentPublishedBetween(config.enabledSourceIds, windowStart, now, QUERY_LIMIT);
+    const scored = linkAndAmplify(scoreAndSortItems(items, {
+        priorities: config.priorities,
+        boostKeywords: config.boostKeywords,
+        weights: config.scoringWeights.base,
+        recencyHalfLifeHours: config.scoringWeights.recencyHalfLifeHours,
+        now,
+    })).sort((a, b) => (b.trendingScore || 0) - (a.trendingScore || 0));
+
+    // Candidate topics first, so the history query only loads their rows
+    const candidates = [...countTopics(scored)].filter(([, n]) => n >= MIN_MENTIONS).map(([topic]) => topic);
+    const today = new Date(`${toDateKey(now)}T00:00:00.000Z`);
+    const history = await getTopicHistory(
+        toDateKey(new Date(today.getTime() - (BASELINE_DAYS + 1) * DAY_MS)),
+        toDateKey(new Date(today.getTime() - 2 * DAY_MS)),
+        candidates
+    );
+
+    const topics: EmergingTopic[] = detectBursts(scored, history)
+        .slice(0, limit)
+        .map(burst => ({
+            ...burst,
+            history: history.map(d => ({ day: d.day, mentions: d.counts.get(burst.topic) ?? 0 })),
+            items: scored
+                .filter(item => itemTopics(item).includes(burst.topic))
+                .slice(0, ITEMS_PER_TOPIC)
+                .map(item => ({
+                    id: item.id,
+                    sourceId: item.sourceId,
+                    title: item.title,
+                    url: item.url,
+                    publishedAt: item.publishedAt,
+                    trendingScore: item.trendingScore,
+                })),
+        }));
+
+    return {
+        generatedAt: now.toISOString(),
+        windowStart: windowStart.toISOString(),
+        baselineDays: history.filter(d => d.itemCount > 0).length,
+        topics,
+    };
+}
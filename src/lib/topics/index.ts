@@ -0,0 +1,120 @@
+/**
+ * Emerging-topic burst detection
+ *
+ * A topic is a lowercased tag or title term. Daily topic frequencies are kept
+ * in topic_daily_counts (see history.ts); a topic is emerging when its share
+ * of the last 24 hours' items sits well above its share on the baseline days,
+ * measured as a z-score.
+ */
+
+import { ContentItem, EmergingTopic } from '@/types';
+import { extractKeywords } from '@/lib/personalization';
+
+/** Trailing days a topic's current frequency is compared against */
+export const BASELINE_DAYS = 14;
+
+/** Mentions in the current window before a topic can be emerging */
+export const MIN_MENTIONS = 3;
+
+// Distinct sources in the current window (one source's tag spam isn't a trend)
+const MIN_SOURCES = 2;
+
+// Floor for the baseline standard deviation, in mentions per 100 items, so a
+// topic with a flat or empty history needs a real share of the window to burst
+const MIN_STDDEV = 0.5;
+
+/** Burst score (z) a topic needs to be reported as emerging */
+export const MIN_BURST_SCORE = 2;
+
+const GENERIC_TOPICS = new Set([
+    'ai', 'artificial intelligence', 'machine learning', 'ml', 'deep learning',
+    'tech', 'technology', 'research', 'paper', 'blog', 'article', 'news',
+    'update', 'launch', 'release', 'announcement', 'other', 'none', 'general',
+    'misc', 'question', 'help', 'discussion', 'showcase', 'model', 'models',
+    'data', 'code', 'tool', 'tools', 'open', 'year', 'today', 'week',
+]);
+
+const JUNK_PATTERNS = [/^region:/, /^lang:/, /^license:/, /^type:/, /^v\d/, /^\d+$/, /^question\s*[-|]/];
+
+function isTopic(term: string): boolean {
+    return term.length > 2 && !GENERIC_TOPICS.has(term) && !JUNK_PATTERNS.some(p => p.test(term));
+}
+
+/** Distinct lowercased tags and matched keywords of an item, minus generic and format tags. */
+export function itemTags(item: Pick<ContentItem, 'tags' | 'matchedKeywords'>): string[] {
+    const tags = [...(item.tags || []), ...(item.matchedKeywords || [])].map(t => t.toLowerCase().trim());
+    return [...new Set(tags)].filter(isTopic);
+}
+
+/** Distinct topics an item mentions: its tags, matched keywords and title terms. */
+export function itemTopics(item: Pick<ContentItem, 'title' | 'tags' | 'matchedKeywords'>): string[] {
+    return [...new Set([...itemTags(item), ...extractKeywords(item.title).filter(isTopic)])];
+}
+
+/** Number of items mentioning each topic. */
+export function countTopics(items: Pick<ContentItem, 'title' | 'tags' | 'matchedKeywords'>[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+        for (const topic of itemTopics(item)) {
+            counts.set(topic, (counts.get(topic) ?? 0) + 1);
+        }
+    }
+    return counts;
+}
+
+/** One baseline day: total items and items per topic. */
+export interface TopicDay {
+    day: string;
+    itemCount: number;
+    counts: Map<string, number>;
+}
+
+export type TopicBurst = Omit<EmergingTopic, 'history' | 'items'>;
+
+function round(value: number, places: number): number {
+    const factor = 10 ** places;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Burst scores of the topics in the current window against the baseline
+ * days, strongest first. Only topics with enough mentions and sources and a
+ * score of at least MIN_BURST_SCORE are returned.
+ */
+export function detectBursts(current: ContentItem[], baseline: TopicDay[]): TopicBurst[] {
+    if (current.length === 0) return [];
+    const days = baseline.filter(d => d.itemCount > 0);
+
+    const mentionsByTopic = new Map<string, { mentions: number; sources: Set<string> }>();
+    for (const item of current) {
+        for (const topic of itemTopics(item)) {
+            const entry = mentionsByTopic.get(topic) ?? { mentions: 0, sources: new Set<string>() };
+            entry.mentions += 1;
+            entry.sources.add(item.sourceId);
+            mentionsByTopic.set(topic, entry);
+        }
+    }
+
+    const bursts: TopicBurst[] = [];
+    for (const [topic, { mentions, sources }] of mentionsByTopic) {
+        const sourceCount = sources.size;
+        if (mentions < MIN_MENTIONS || sourceCount < MIN_SOURCES) continue;
+
+        const rate = (mentions / current.length) * 100;
+        const rates = days.map(d => ((d.counts.get(topic) ?? 0) / d.itemCount) * 100);
+        const mean = rates.length > 0 ? rates.reduce((sum, r) => sum + r, 0) / rates.length : 0;
+        const variance = rates.length > 0 ? rates.reduce((sum, r) => sum + (r - mean) ** 2, 0) / rates.length : 0;
+        const burstScore = (rate - mean) / Math.max(Math.sqrt(variance), MIN_STDDEV);
+        if (burstScore < MIN_BURST_SCORE) continue;
+
+        bursts.push({
+            topic,
+            mentions,
+            sourceCount,
+            rate: round(rate, 2),
+            baselineRate: round(mean, 2),
+            burstScore: round(burstScore, 1),
+        });
+    }
+    return bursts.sort((a, b) => b.burstScore - a.burstScore || b.mentions - a.mentions);
+}
@@ -0,0 +1,45 @@
+import { cookies } from 'next/headers';
+
+/** Identifies a browser profile for visit/seen tracking. Not an account: clearing cookies starts over. */
+export const PROFILE_COOKIE = 'trends_profile';
+
+const PROFILE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+const PROFILE_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/** A visit ends after this much inactivity; the next activity starts a new one. */
+export const VISIT_GAP_MS = 30 * 60 * 1000;
+
+/** Max item IDs per seen / first-seen request (the feed returns up to 300). */
+export const MAX_TRACKED_IDS = 500;
+
+/** The profile ID from the request cookie, or null if missing/malformed. */
+export async function getProfileId(): Promise<string | null> {
+    const value = (await cookies()).get(PROFILE_COOKIE)?.value;
+    return value && PROFILE_ID_RE.test(value) ? value : null;
+}
+
+/** The request's profile ID, issuing a new cookie when there is none. */
+export async function getOrCreateProfileId(): Promise<string> {
+    const existing = await getProfileId();
+    if (existing) return existing;
+
+    const profileId = crypto.randomUUID();
+    (await cookies()).set(PROFILE_COOKIE, profileId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: PROFILE_MAX_AGE_SECONDS,
+    });
+    return profileId;
+}
+
+/** Validate a `{ ids: string[] }` body. */
+export function parseIdList(body: unknown): { ids: string[] } | { error: string } {
+    const ids = (body as { ids?: unknown } | null)?.ids;
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string' || id.length === 0)) {
+        return { error: 'ids must be an array of item IDs' };
+    }
+    if (ids.length > MAX_TRACKED_IDS) return { error: `Too many ids. Max ${MAX_TRACKED_IDS}` };
+    return { ids: [...new Set(ids as string[])] };
+}
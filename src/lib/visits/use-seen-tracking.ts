@@ -0,0 +1,133 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import useSWR from 'swr';
+import { VisitState } from '@/types';
+
+const FLUSH_INTERVAL_MS = 3000;
+
+interface FirstSeenResponse {
+    success: boolean;
+    firstSeen: Record<string, string>;
+}
+
+export interface SeenTracking {
+    /** False on a profile's first visit, when every item would count as new */
+    hasPreviousVisit: boolean;
+    /** Not seen before this visit started (shown with a "new" badge) */
+    isNew: (id: string) => boolean;
+    /** Seen during an earlier visit (hidden by "hide seen") */
+    isSeenBefore: (id: string) => boolean;
+    /** Never on screen, including this visit */
+    isUnread: (id: string) => boolean;
+    /** Report a card as actually on screen; batched to /api/visits/seen */
+    markRendered: (id: string) => void;
+}
+
+function postJson(url: string, body?: unknown) {
+    return fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    }).then(r => r.json());
+}
+
+/**
+ * Visit + seen-item state for the given feed items.
+ *
+ * Items are only marked seen via `markRendered` (cards call it once they are
+ * on screen in a visible tab), so SWR's background polls never mark anything.
+ * First-seen lookups are re-run when the polled item set changes.
+ */
+export function useSeenTracking(itemIds: string[]): SeenTracking {
+    const [visit, setVisit] = useState<VisitState | null>(null);
+    // Items reported this session, so they count as read before the lookup catches up
+    const [renderedAt, setRenderedAt] = useState<Record<string, string>>({});
+    const reported = useRef(new Set<string>());
+    const pending = useRef(new Set<string>());
+
+    // Start/continue the visit on load and whenever the tab comes back
+    useEffect(() => {
+        const touch = () => {
+            if (document.visibilityState !== 'visible') return;
+            postJson('/api/visits')
+                .then(data => {
+                    if (data?.success) setVisit(data.visit);
+                })
+                .catch(() => {});
+        };
+        touch();
+        document.addEventListener('visibilitychange', touch);
+        return () => document.removeEventListener('visibilitychange', touch);
+    }, []);
+
+    // Flush rendered items in batches; beacon whatever is left on page hide
+    useEffect(() => {
+        const take = () => {
+            const ids = [...pending.current];
+            pending.current.clear();
+            return ids;
+        };
+        const flush = () => {
+            const ids = take();
+            if (ids.length === 0) return;
+            const now = new Date().toISOString();
+            setRenderedAt(prev => ({ ...prev, ...Object.fromEntries(ids.map(id => [id, now])) }));
+            postJson('/api/visits/seen', { ids }).catch(() => {
+                // Retry with the next batch
+                ids.forEach(id => pending.current.add(id));
+            });
+        };
+        const beacon = () => {
+            const ids = take();
+            if (ids.length > 0) {
+                navigator.sendBeacon('/api/visits/seen', new Blob([JSON.stringify({ ids })], { type: 'application/json' }));
+            }
+        };
+        const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+        window.addEventListener('pagehide', beacon);
+        return () => {
+            clearInterval(timer);
+            window.removeEventListener('pagehide', beacon);
+            beacon();
+        };
+    }, []);
+
+    // Wait for the visit so the profile cookie exists before looking up
+    const idsKey = useMemo(() => [...itemIds].sort().join(','), [itemIds]);
+    const { data } = useSWR<FirstSeenResponse>(
+        visit && idsKey ? ['/api/visits/first-seen', idsKey] : null,
+        () => postJson('/api/visits/first-seen', { ids: idsKey.split(',') }),
+        { revalidateOnFocus: false, keepPreviousData: true }
+    );
+
+    const markRendered = useCallback((id: string) => {
+        if (reported.current.has(id)) return;
+        reported.current.add(id);
+        pending.current.add(id);
+    }, []);
+
+    return useMemo(() => {
+        const firstSeen = (id: string): number | null => {
+            const at = data?.firstSeen?.[id] ?? renderedAt[id];
+            return at ? new Date(at).getTime() : null;
+        };
+        const visitStart = visit ? new Date(visit.startedAt).getTime() : null;
+        const hasPreviousVisit = !!visit?.previousVisitAt;
+
+        return {
+            hasPreviousVisit,
+            isNew: (id: string) => {
+                if (!hasPreviousVisit || visitStart === null) return false;
+                const seen = firstSeen(id);
+                return seen === null || seen >= visitStart;
+            },
+            isSeenBefore: (id: string) => {
+                const seen = firstSeen(id);
+                return visitStart !== null && seen !== null && seen < visitStart;
+            },
+            isUnread: (id: string) => firstSeen(id) === null,
+            markRendered,
+        };
+    }, [data, renderedAt, visit, markRendered]);
+}
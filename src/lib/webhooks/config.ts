@@ -0,0 +1,81 @@
+import { WebhookConfig, WebhookFormat } from '@/types';
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['slack', 'discord', 'json'];
+
+export type WebhookInput = Omit<WebhookConfig, 'id'>;
+
+/** API shape: the signing secret is write-only. */
+export type PublicWebhook = Omit<WebhookConfig, 'secret'> & { hasSecret: boolean };
+
+export function toPublicWebhook(webhook: WebhookConfig): PublicWebhook {
+    const { secret, ...rest } = webhook;
+    return { ...rest, hasSecret: !!secret };
+}
+
+function isNullableNumberInRange(value: unknown, min: number, max: number, integer = false): value is number | null {
+    if (value === null) return true;
+    return typeof value === 'number' && value >= min && value <= max && (!integer || Number.isInteger(value));
+}
+
+/**
+ * Validate a webhook from a request body. When updating, pass the existing
+ * config: an omitted `secret` keeps the stored one, an empty string clears it.
+ */
+export function parseWebhookInput(
+    body: unknown,
+    existing?: WebhookConfig
+): { input: WebhookInput } | { error: string } {
+    if (typeof body !== 'object' || body === null) return { error: 'Expected a JSON object' };
+    const obj = body as Record<string, unknown>;
+
+    const name = typeof obj.name === 'string' ? obj.name.trim() : '';
+    if (!name || name.length > 100) return { error: 'Invalid name. Must be 1-100 characters' };
+
+    let url: URL;
+    try {
+        url = new URL(typeof obj.url === 'string' ? obj.url.trim() : '');
+    } catch {
+        return { error: 'Invalid url' };
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        return { error: 'Invalid url. Must be http(s)' };
+    }
+
+    if (!WEBHOOK_FORMATS.includes(obj.format as WebhookFormat)) {
+        return { error: `Invalid format. Must be one of: ${WEBHOOK_FORMATS.join(', ')}` };
+    }
+
+    if (obj.secret !== undefined && (typeof obj.secret !== 'string' || obj.secret.length > 200)) {
+        return { error: 'Invalid secret. Must be a string of at most 200 characters' };
+    }
+    const secret = obj.secret === undefined ? existing?.secret : (obj.secret as string) || undefined;
+
+    const scoreThreshold = obj.scoreThreshold ?? null;
+    if (!isNullableNumberInRange(scoreThreshold, 0, 100)) {
+        return { error: 'Invalid scoreThreshold. Must be null or a number between 0 and 100' };
+    }
+    const dailyHour = obj.dailyHour ?? null;
+    if (!isNullableNumberInRange(dailyHour, 0, 23, true)) {
+        return { error: 'Invalid dailyHour. Must be null or an integer UTC hour (0-23)' };
+    }
+
+    const onAlerts = obj.onAlerts === true;
+    const onStories = obj.onStories === true;
+    if (!onAlerts && !onStories && scoreThreshold === null && dailyHour === null) {
+        return { error: 'Enable at least one trigger (onAlerts, scoreThreshold, onStories or dailyHour)' };
+    }
+
+    return {
+        input: {
+            name,
+            url: url.toString(),
+            format: obj.format as WebhookFormat,
+            secret,
+            enabled: obj.enabled !== false,
+            onAlerts,
+            scoreThreshold,
+            onStories,
+            dailyHour,
+        },
+    };
+}
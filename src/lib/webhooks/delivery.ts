@@ -0,0 +1,114 @@
+import { createHmac } from 'crypto';
+import { WebhookConfig, WebhookDeadLetter } from '@/types';
+import { claimDelivery, completeDelivery } from '@/lib/db/webhooks';
+import { buildPayload, WebhookEvent } from './payloads';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 1000;        // 1s, then 4s
+const MAX_RETRY_AFTER_MS = 30_000; // Cap on a receiver's Retry-After
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface DeliveryResult {
+    ok: boolean;
+    attempts: number;
+    responseStatus: number | null;
+    error: string | null;
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", hex encoded with a "sha256=" prefix.
+ * Receivers recompute it with the shared secret and should reject stale timestamps.
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+    return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function isRetryable(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+}
+
+function retryDelay(attempt: number, retryAfter: string | null, baseMs: number): number {
+    const seconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+    if (!isNaN(seconds)) return Math.min(seconds * 1000, MAX_RETRY_AFTER_MS);
+    return baseMs * 4 ** (attempt - 1);
+}
+
+/**
+ * POST a JSON body, retrying network errors, timeouts, 408/429 and 5xx with
+ * backoff. Other 4xx responses are permanent and fail immediately.
+ */
+export async function postWithRetries(
+    url: string,
+    body: string,
+    secret?: string,
+    options: { maxAttempts?: number; retryBaseMs?: number } = {}
+): Promise<DeliveryResult> {
+    const maxAttempts = options.maxAttempts ?? MAX_ATTEMPTS;
+    const retryBaseMs = options.retryBaseMs ?? RETRY_BASE_MS;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'User-Agent': 'AI-Trends-Webhook/1.0',
+            [TIMESTAMP_HEADER]: timestamp,
+        };
+        if (secret) headers[SIGNATURE_HEADER] = signPayload(secret, timestamp, body);
+
+        let retryAfter: string | null = null;
+        try {
+            const res = await fetch(url, {
+                method: 'POST',
+                headers,
+                body,
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+            responseStatus = res.status;
+            if (res.ok) return { ok: true, attempts: attempt, responseStatus, error: null };
+
+            error = `HTTP ${res.status}: ${(await res.text().catch(() => '')).slice(0, 200)}`;
+            if (!isRetryable(res.status)) return { ok: false, attempts: attempt, responseStatus, error };
+            retryAfter = res.headers.get('retry-after');
+        } catch (err) {
+            responseStatus = null;
+            error = err instanceof Error ? err.message : String(err);
+        }
+
+        if (attempt < maxAttempts) {
+            await new Promise(resolve => setTimeout(resolve, retryDelay(attempt, retryAfter, retryBaseMs)));
+        }
+    }
+
+    return { ok: false, attempts: maxAttempts, responseStatus, error };
+}
+
+/**
+ * Deliver an event to one webhook, at most once per (webhook, event key).
+ * Returns null when the event was already claimed; failures end up in the
+ * dead-letter log (webhook_deliveries with status 'failed').
+ */
+export async function sendWebhookEvent(webhook: WebhookConfig, event: WebhookEvent): Promise<DeliveryResult | null> {
+    const body = JSON.stringify(buildPayload(webhook.format, event));
+    const deliveryId = await claimDelivery(webhook.id, event.type, event.key, body);
+    if (deliveryId === null) return null;
+
+    const result = await postWithRetries(webhook.url, body, webhook.secret);
+    await completeDelivery(deliveryId, result);
+
+    if (!result.ok) {
+        console.warn(`Webhook "${webhook.name}" dead-lettered ${event.key} after ${result.attempts} attempts: ${result.error}`);
+    }
+    return result;
+}
+
+/** Re-send a dead-lettered payload as stored, signed with the webhook's current secret. */
+export async function retryDeadLetter(deadLetter: WebhookDeadLetter, webhook: WebhookConfig): Promise<DeliveryResult> {
+    const result = await postWithRetries(webhook.url, deadLetter.payload, webhook.secret);
+    await completeDelivery(deadLetter.id, result);
+    return result;
+}
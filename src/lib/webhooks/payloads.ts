@@ -0,0 +1,100 @@
+import { ContentItem, WebhookEventType, WebhookFormat } from '@/types';
+
+export interface WebhookEventItem {
+    id: string;
+    title: string;
+    url: string;
+    source: string;
+    score?: number;
+    crossPlatformCount?: number;
+    platforms?: string[];
+    matchedTerms?: string[];
+}
+
+export interface WebhookEvent {
+    type: WebhookEventType;
+    key: string;                // Dedup key, unique per webhook (see webhook_deliveries)
+    title: string;
+    items: WebhookEventItem[];
+}
+
+// Platform limits: Slack allows 50 blocks, Discord 10 embeds per message
+const MAX_ITEMS = 10;
+const ACCENT_COLOR = 0x14b8a6;
+
+export function toEventItem(item: ContentItem, sourceName: (sourceId: string) => string): WebhookEventItem {
+    return {
+        id: item.id,
+        title: item.title,
+        url: item.url,
+        source: sourceName(item.sourceId),
+        score: item.trendingScore !== undefined ? Math.round(item.trendingScore) : undefined,
+        crossPlatformCount: item.crossPlatformCount,
+        platforms: item.crossPlatformSources && [item.sourceId, ...item.crossPlatformSources].map(sourceName),
+    };
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+/** "Hacker News · score 87 · 4 platforms · matched: claude" */
+function describeItem(item: WebhookEventItem): string {
+    const parts = [item.source];
+    if (item.score !== undefined) parts.push(`score ${item.score}`);
+    if (item.crossPlatformCount && item.crossPlatformCount > 1) parts.push(`${item.crossPlatformCount} platforms`);
+    if (item.matchedTerms?.length) parts.push(`matched: ${item.matchedTerms.join(', ')}`);
+    return parts.join(' · ');
+}
+
+function escapeSlack(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function slackPayload(event: WebhookEvent) {
+    return {
+        text: event.title, // Notification fallback
+        blocks: [
+            { type: 'header', text: { type: 'plain_text', text: truncate(event.title, 150) } },
+            ...event.items.slice(0, MAX_ITEMS).map(item => ({
+                type: 'section',
+                text: {
+                    type: 'mrkdwn',
+                    // "|" ends the link label in Slack's <url|label> syntax
+                    text: `*<${item.url}|${escapeSlack(truncate(item.title, 200)).replace(/\|/g, '¦')}>*\n${escapeSlack(describeItem(item))}`,
+                },
+            })),
+        ],
+    };
+}
+
+function discordPayload(event: WebhookEvent) {
+    return {
+        content: truncate(event.title, 2000),
+        embeds: event.items.slice(0, MAX_ITEMS).map(item => ({
+            title: truncate(item.title, 256),
+            url: item.url,
+            description: truncate(describeItem(item), 4096),
+            color: ACCENT_COLOR,
+        })),
+    };
+}
+
+function jsonPayload(event: WebhookEvent) {
+    return {
+        event: event.type,
+        key: event.key,
+        title: event.title,
+        sentAt: new Date().toISOString(),
+        items: event.items,
+    };
+}
+
+/** Build the request body for a webhook in its configured format. */
+export function buildPayload(format: WebhookFormat, event: WebhookEvent): object {
+    switch (format) {
+        case 'slack': return slackPayload(event);
+        case 'discord': return discordPayload(event);
+        case 'json': return jsonPayload(event);
+    }
+}
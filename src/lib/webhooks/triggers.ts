@@ -0,0 +1,185 @@
+import { ContentItem, WebhookConfig } from '@/types';
+import { getEffectiveConfig, getEffectiveSourceList } from '@/lib/config/resolve';
+import { getCachedContentBySourceIds } from '@/lib/db/actions';
+import { getWatchlists, RecordedAlert } from '@/lib/db/alerts';
+import { getWebhooks, getClaimedEventKeys } from '@/lib/db/webhooks';
+import { scoreAndSortItems, linkAndAmplify } from '@/lib/scoring';
+import { sendWebhookEvent } from './delivery';
+import { toEventItem, WebhookEvent } from './payloads';
+
+// A "story" is one item linked across at least this many platforms
+const STORY_MIN_PLATFORMS = 3;
+// Per webhook and run, so a first refresh after downtime can't flood a channel
+const MAX_EVENTS_PER_RUN = 10;
+const DAILY_TOP_N = 10;
+
+function dailyKey(now: Date): string {
+    return `daily:${now.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Build the events due for one webhook. Dedup against earlier runs happens
+ * at send time (claimDelivery); story keys are also checked for every member
+ * so a story isn't re-announced when a different item becomes its top entry.
+ */
+async function collectEvents(
+    webhook: WebhookConfig,
+    context: {
+        newItemIds: Set<string>;
+        alertEvents: WebhookEvent[];
+        getScored: () => Promise<ContentItem[]>;
+        sourceName: (sourceId: string) => string;
+        now: Date;
+    }
+): Promise<WebhookEvent[]> {
+    const { newItemIds, alertEvents, getScored, sourceName, now } = context;
+    const events: WebhookEvent[] = webhook.onAlerts ? [...alertEvents] : [];
+
+    if (webhook.scoreThreshold !== null) {
+        const threshold = webhook.scoreThreshold;
+        const crossing = (await getScored())
+            .filter(item => newItemIds.has(item.id) && (item.trendingScore || 0) >= threshold);
+        // Re-fetched items that already fired are skipped here rather than per send
+        const claimed = await getClaimedEventKeys(webhook.id, crossing.map(item => `score:${item.id}`));
+        for (const item of crossing) {
+            if (claimed.has(`score:${item.id}`)) continue;
+            events.push({
+                type: 'score',
+                key: `score:${item.id}`,
+                title: `Trending (score ${Math.round(item.trendingScore || 0)}): ${item.title}`,
+                items: [toEventItem(item, sourceName)],
+            });
+        }
+    }
+
+    if (webhook.onStories) {
+        const covered = new Set<string>();
+        for (const item of await getScored()) {
+            if ((item.crossPlatformCount || 0) < STORY_MIN_PLATFORMS || covered.has(item.id)) continue;
+            const memberIds = [item.id, ...(item.crossRefs || [])];
+            memberIds.forEach(id => covered.add(id));
+            // Only stories touched by this refresh
+            if (!memberIds.some(id => newItemIds.has(id))) continue;
+
+            const claimed = await getClaimedEventKeys(webhook.id, memberIds.map(id => `story:${id}`));
+            if (claimed.size > 0) continue;
+            events.push({
+                type: 'story',
+                key: `story:${item.id}`,
+                title: `Story on ${item.crossPlatformCount} platforms: ${item.title}`,
+                items: [toEventItem(item, sourceName)],
+            });
+        }
+    }
+
+    if (webhook.dailyHour !== null && now.getUTCHours() >= webhook.dailyHour) {
+        const key = dailyKey(now);
+        const claimed = await getClaimedEventKeys(webhook.id, [key]);
+        if (!claimed.has(key)) {
+            const top = (await getScored()).slice(0, DAILY_TOP_N);
+            if (top.length > 0) {
+                events.push({
+                    type: 'daily',
+                    key,
+                    title: `Top AI stories — ${now.toISOString().slice(0, 10)}`,
+                    items: top.map(item => toEventItem(item, sourceName)),
+                });
+            }
+        }
+    }
+
+    return events;
+}
+
+/**
+ * Push alerts, threshold crossings, new cross-platform stories and the daily
+ * top list to every enabled webhook. Runs after each background refresh with
+ * the items it fetched and the alerts it recorded; the daily post goes out on
+ * the first refresh at or after its UTC hour.
+ * Returns the number of successful deliveries.
+ */
+export async function runWebhookTriggers(newItems: ContentItem[], newAlerts: RecordedAlert[]): Promise<number> {
+    const webhooks = (await getWebhooks()).filter(w => w.enabled);
+    if (webhooks.length === 0) return 0;
+
+    const sourceList = await getEffectiveSourceList();
+    const nameBySource = new Map(sourceList.all.map(s => [s.id, s.name]));
+    const sourceName = (sourceId: string) => nameBySource.get(sourceId) || sourceId;
+
+    // Scores are relative, so rank against the whole enabled set (same as the
+    // feed) — computed lazily, only if some webhook needs it
+    let scoredPromise: Promise<ContentItem[]> | null = null;
+    const getScored = () => {
+        scoredPromise ??= (async () => {
+            const config = await getEffectiveConfig();
+            const items = await getCachedContentBySourceIds(config.enabledSourceIds, '24h');
+            return linkAndAmplify(scoreAndSortItems(items, {
+                priorities: config.priorities,
+                boostKeywords: config.boostKeywords,
+                weights: config.scoringWeights.base,
+                recencyHalfLifeHours: config.scoringWeights.recencyHalfLifeHours,
+            })).sort((a, b) => (b.trendingScore || 0) - (a.trendingScore || 0));
+        })();
+        return scoredPromise;
+    };
+
+    // One event per watchlist per run
+    const alertEvents: WebhookEvent[] = [];
+    if (newAlerts.length > 0 && webhooks.some(w => w.onAlerts)) {
+        const itemById = new Map(newItems.map(i => [i.id, i]));
+        const watchlistNames = new Map((await getWatchlists()).map(w => [w.id, w.name]));
+        const byWatchlist = new Map<number, RecordedAlert[]>();
+        for (const alert of newAlerts) {
+            byWatchlist.set(alert.watchlistId, [...(byWatchlist.get(alert.watchlistId) || []), alert]);
+        }
+        for (const [watchlistId, group] of byWatchlist) {
+            const items = group.flatMap(alert => {
+                const item = itemById.get(alert.contentId);
+                if (!item) return [];
+                return [{
+                    ...toEventItem(item, sourceName),
+                    score: Math.round(alert.score),
+                    matchedTerms: alert.matchedTerms,
+                }];
+            });
+            if (items.length === 0) continue;
+            alertEvents.push({
+                type: 'alert',
+                key: `alert:${Math.min(...group.map(a => a.id))}`,
+                title: `Watchlist "${watchlistNames.get(watchlistId) || watchlistId}": ${items.length} new match${items.length === 1 ? '' : 'es'}`,
+                items: items.sort((a, b) => (b.score || 0) - (a.score || 0)),
+            });
+        }
+    }
+
+    const context = {
+        newItemIds: new Set(newItems.map(i => i.id)),
+        alertEvents,
+        getScored,
+        sourceName,
+        now: new Date(),
+    };
+
+    const results = await Promise.allSettled(webhooks.map(async webhook => {
+        let sent = 0;
+        let delivered = 0;
+        for (const event of await collectEvents(webhook, context)) {
+            if (sent >= MAX_EVENTS_PER_RUN) break;
+            const result = await sendWebhookEvent(webhook, event);
+            if (result === null) continue; // Already sent in an earlier run
+            sent++;
+            if (result.ok) delivered++;
+        }
+        return delivered;
+    }));
+
+    let delivered = 0;
+    results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            delivered += result.value;
+        } else {
+            console.error(`Webhook "${webhooks[index].name}" triggers failed:`, result.reason);
+        }
+    });
+    return delivered;
+}
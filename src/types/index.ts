@@ -1,5 +1,7 @@
 // Source and content types for AI Trends Dashboard
 
+import type { FeedMode } from '@/lib/scoring/modes';
+
 export type SourceCategory =
   | 'ai-labs'
   | 'dev-platforms'
@@ -22,6 +24,16 @@ export type ContentType =
   | 'discussion'
   | 'opinion';
 
+export const CONTENT_TYPE_LABELS: Record<ContentType, string> = {
+  'research': 'Research',
+  'announcement': 'Announcements',
+  'tutorial': 'Tutorials',
+  'roundup': 'Roundups',
+  'case-study': 'Case Studies',
+  'discussion': 'Discussions',
+  'opinion': 'Opinion',
+};
+
 export type FetchQuality = 'high' | 'medium' | 'low' | 'unknown';
 
 export interface SourceConfig {
@@ -84,6 +96,8 @@ export interface ContentItem {
   tags?: string[];
   sentiment?: 'positive' | 'neutral' | 'negative';
   sentimentScore?: number;
+  // Rule-based classification, persisted at ingest (see classification/content-type.ts)
+  contentType?: ContentType;
   // Engagement metrics from source
   engagement?: EngagementMetrics;
   // Calculated trending score (0-100)
@@ -97,6 +111,60 @@ export interface ContentItem {
   crossPlatformCount?: number;       // Unique platform count (including self)
   crossPlatformSources?: string[];   // sourceIds of linked platforms (for UI badge)
   crossPlatformLinks?: Array<{ sourceId: string; url: string }>;  // URLs of linked items per source
+  // Stable identifiers for exact cross-platform joins (papers ↔ arXiv ↔ GitHub)
+  arxivId?: string;                  // e.g. "2401.12345" (no version suffix)
+  repoUrl?: string;                  // GitHub repo implementing the item
+  // Why the item scored what it did (only with /api/feed?explain=1)
+  scoreExplanation?: ScoreExplanation;
+}
+
+export type ScoreComponentName =
+  | 'engagement'
+  | 'recency'
+  | 'velocity'
+  | 'priority'
+  | 'keywordBoost'
+  | 'comments'
+  | 'commentRatio'
+  | 'sentimentMix'
+  | 'crossPlatformReach'
+  | 'affinity';
+
+export const SCORE_COMPONENT_LABELS: Record<ScoreComponentName, string> = {
+  engagement: 'Engagement',
+  recency: 'Recency',
+  velocity: 'Velocity',
+  priority: 'Source priority',
+  keywordBoost: 'Boost keywords',
+  comments: 'Comments',
+  commentRatio: 'Comments per vote',
+  sentimentMix: 'Mixed sentiment',
+  crossPlatformReach: 'Cross-platform reach',
+  affinity: 'Your interests',
+};
+
+export interface ScoreComponent {
+  name: ScoreComponentName;
+  value: number;                     // component score, 0-1
+  weight: number;                    // share of the base score, 0-1
+  points: number;                    // value × weight × 100
+}
+
+export interface ScoreMultiplier {
+  label: string;
+  value: number;
+}
+
+/** Step-by-step breakdown of an item's trendingScore */
+export interface ScoreExplanation {
+  mode: FeedMode | 'default';        // 'default' = scoreAndSortItems ranking
+  components: ScoreComponent[];
+  baseScore: number;                 // sum of component points
+  multiplier?: ScoreMultiplier;      // mode-specific multiplier (e.g., Rising's already-popular penalty)
+  crossPlatformMultiplier?: number;  // amplification for multi-platform stories
+  normalization?: { before: number; after: number }; // cross-category normalization
+  mutePenalty?: number;              // points removed by down-rank mute rules
+  finalScore: number;
 }
 
 export interface MetricPoint {
@@ -106,6 +174,115 @@ export interface MetricPoint {
   recordedAt: Date;
 }
 
+// === Leaderboards ===
+
+/** A single model's standing on a leaderboard, as parsed from the source. */
+export interface LeaderboardEntry {
+  model: string;
+  rank: number;
+  score: number;
+  organization?: string;
+  url?: string;
+}
+
+/** Rank/score per model at one point in time. */
+export type LeaderboardRankMap = Record<string, { rank: number; score: number }>;
+
+export interface LeaderboardHistoryPoint {
+  at: string;  // ISO timestamp of the snapshot
+  rank: number;
+  score: number;
+}
+
+export interface LeaderboardSeries {
+  model: string;
+  points: LeaderboardHistoryPoint[];
+}
+
+// === Watchlists & Alerts ===
+
+export interface Watchlist {
+  id: number;
+  name: string;
+  keywords: string[];         // phrases, case-insensitive whole-word match
+  patterns: string[];         // regex sources, case-insensitive
+  requireAll: boolean;        // every keyword/pattern must match ("CVE + LLM")
+  categories: SourceCategory[]; // empty = all categories
+  sourceIds: string[];        // empty = all sources
+  minScore: number;           // minimum trendingScore (0-100)
+  enabled: boolean;
+  createdAt: string;
+}
+
+export type WatchlistInput = Omit<Watchlist, 'id' | 'createdAt'>;
+
+export interface Alert {
+  id: number;
+  watchlistId: number;
+  watchlistName: string;
+  item: ContentItem;
+  matchedTerms: string[];
+  score: number;              // trendingScore when the match was recorded
+  createdAt: string;
+  readAt: string | null;
+}
+
+// === Mute rules ===
+
+export type MuteRuleKind = 'keyword' | 'regex' | 'domain' | 'author' | 'tag' | 'source';
+
+export interface MuteRule {
+  id: string;
+  kind: MuteRuleKind;
+  value: string;              // keyword/phrase, regex source, domain, author, tag or sourceId
+  action: 'hide' | 'downrank';
+  penalty: number;            // trendingScore points removed when down-ranking (1-100)
+  expiresAt: string | null;   // ISO time after which the rule stops applying; null = never
+  createdAt: string;
+}
+
+export const MUTE_RULE_KIND_LABELS: Record<MuteRuleKind, string> = {
+  keyword: 'Keyword',
+  regex: 'Regex',
+  domain: 'Domain',
+  author: 'Author',
+  tag: 'Tag',
+  source: 'Source',
+};
+
+// === Webhooks ===
+
+export type WebhookFormat = 'slack' | 'discord' | 'json';
+
+export type WebhookEventType = 'alert' | 'score' | 'story' | 'daily' | 'test';
+
+export interface WebhookConfig {
+  id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  secret?: string;            // HMAC-SHA256 signing key; never returned by the API
+  enabled: boolean;
+  // Triggers
+  onAlerts: boolean;          // new watchlist alerts
+  scoreThreshold: number | null; // items reaching this trendingScore (0-100)
+  onStories: boolean;         // new stories seen on 3+ platforms
+  dailyHour: number | null;   // UTC hour for the daily top-stories post
+}
+
+/** A failed delivery kept for inspection and replay. */
+export interface WebhookDeadLetter {
+  id: number;
+  webhookId: string;
+  eventType: WebhookEventType;
+  eventKey: string;
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  payload: string;
+  createdAt: string;
+}
+
 // === Source Health Monitoring ===
 
 export interface SourceHealthRecord {
@@ -120,19 +297,29 @@ export type SourceHealthMap = Record<string, SourceHealthRecord>;
 
 export type TimeRange = '1h' | '12h' | '24h' | '48h' | '7d';
 
-export type FeedMode = 'hot' | 'rising' | 'top';
+// Feed modes are registered in lib/scoring/modes.ts (labels, icons, scoring)
+export type { FeedMode };
 
-export const FEED_MODE_LABELS: Record<FeedMode, string> = {
-  hot: 'Hot',
-  rising: 'Rising',
-  top: 'Top',
-};
+/** User-tunable ranking weights (see lib/scoring/weights.ts for defaults) */
+export interface ScoringWeights {
+  // Default ranking (discovery API, search, digests, alerts); each group sums to 1
+  base: { priority: number; engagement: number; recency: number; keywordBoost: number };
+  hot: { engagement: number; recency: number; velocity: number };
+  rising: { velocity: number; recency: number; engagement: number };
+  recencyHalfLifeHours: number;   // recency score halves every N hours
+  risingNewnessPenalty: number;   // Rising-mode multiplier for items already in the top 20% engagement
+}
 
-export const FEED_MODE_DESCRIPTIONS: Record<FeedMode, string> = {
-  hot: 'High engagement + recent',
-  rising: 'Gaining momentum fast',
-  top: 'Highest engagement',
-};
+/** Which ranking a weights preview compares ('default' = discovery/search/digest ranking) */
+export type ScoringPreviewMode = FeedMode | 'default';
+
+export interface ScoringPreviewItem {
+  id: string;
+  title: string;
+  url: string;
+  sourceId: string;
+  score: number;
+}
 
 export interface UserSettings {
   timeRange: TimeRange;
@@ -147,6 +334,261 @@ export interface DailyHighlight {
   summary?: string;
 }
 
+export type DigestPeriod = 'daily' | 'weekly';
+
+export interface DigestSection {
+  category: SourceCategory;
+  items: ContentItem[];       // cross-platform duplicates collapsed; see crossPlatformLinks
+}
+
+/**
+ * A digest edition. `items` holds the top stories across all categories,
+ * `sections` the top items per category, `summary` a one-paragraph overview.
+ */
+export interface Digest extends DailyHighlight {
+  period: DigestPeriod;
+  start: string;              // ISO, inclusive
+  end: string;                // ISO, exclusive
+  generatedAt: string;
+  partial: boolean;           // period still in progress (not persisted)
+  incomplete?: boolean;       // retention already deleted some of the period's content (not persisted)
+  totalItems: number;         // items considered before selection
+  sections: DigestSection[];
+}
+
+export interface DigestEdition {
+  period: DigestPeriod;
+  date: string;
+  itemCount: number;
+  generatedAt: string;
+}
+
+// === Search ===
+
+export interface SearchResult {
+  item: ContentItem;
+  /** Text relevance relative to the best match (0-1) */
+  relevance: number;
+  /** Relevance blended with trending score (0-100); results are ordered by this */
+  score: number;
+  /** HTML-escaped title and description excerpt, matches wrapped in <mark> */
+  titleHtml: string;
+  snippetHtml: string;
+}
+
+export interface SearchFacet {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  categories: SearchFacet[];
+  sources: SearchFacet[];
+  types: SearchFacet[];
+}
+
+// === Stories ===
+
+/** A persistent cross-platform story cluster (see lib/stories). */
+export interface Story {
+  id: number;
+  title: string;
+  firstItemId: string;
+  firstSourceId: string;
+  firstSeenAt: string;
+  platformCount: number;
+  itemCount: number;
+  updatedAt: string;
+}
+
+export interface StoryMember {
+  contentId: string;
+  sourceId: string;
+  platform: string;
+  title: string;
+  url: string;
+  publishedAt: string;
+  joinedAt: string;
+}
+
+export interface StoryDetail extends Story {
+  /** Ordered by publishedAt: the order the story appeared across platforms */
+  members: StoryMember[];
+}
+
+export interface SourceScoopStats {
+  sourceId: string;
+  name: string;
+  category?: SourceCategory;
+  /** Multi-platform stories this source carried */
+  storiesCovered: number;
+  /** Stories it carried before (or at the same time as) every other source */
+  firsts: number;
+  firstRate: number;
+  /** Median minutes behind the first publisher, over stories it wasn't first to */
+  medianLagMinutes: number | null;
+}
+
+export interface ScoopReport {
+  since: string;
+  storyCount: number;
+  sources: SourceScoopStats[];
+  /** overlap.counts[i][j] = stories carried by both overlap.sourceIds[i] and [j] (diagonal = storiesCovered) */
+  overlap: {
+    sourceIds: string[];
+    counts: number[][];
+  };
+  /** Enabled sources that carried none of the stories in the window */
+  silentSources: string[];
+}
+
+/** The current visit of a browser profile (see /api/visits) */
+export interface VisitState {
+  startedAt: string;
+  /** Last activity of the previous visit; null on a profile's first visit */
+  previousVisitAt: string | null;
+}
+
+export interface SavedItem {
+  /** Copy of the item as it was when saved */
+  item: ContentItem;
+  tags: string[];
+  note: string;
+  savedAt: string;
+  updatedAt: string;
+}
+
+// === Personalization ===
+
+export type FeedbackAction = 'click' | 'bookmark' | 'not_interested';
+
+export const FEEDBACK_ACTION_LABELS: Record<FeedbackAction, string> = {
+  click: 'Opened',
+  bookmark: 'Saved',
+  not_interested: 'Not interested',
+};
+
+/** Learned affinities, each -1 (avoid) to 1 (prefer); see lib/personalization */
+export interface AffinityModel {
+  sources: Record<string, number>;
+  tags: Record<string, number>;     // lowercased item tags
+  keywords: Record<string, number>; // title words
+  eventCount: number;               // feedback events the model was learned from
+  updatedAt: string | null;         // null = nothing learned yet
+}
+
+// === Emerging topics ===
+
+/** A tag or title term mentioned far more in the last 24h than on its baseline days */
+export interface EmergingTopic {
+  topic: string;
+  mentions: number;                 // items in the window mentioning it
+  sourceCount: number;
+  rate: number;                     // mentions per 100 items in the window
+  baselineRate: number;             // mean daily mentions per 100 items on the baseline days
+  burstScore: number;               // z-score of rate against the baseline days
+  history: { day: string; mentions: number }[]; // baseline days, oldest first
+  items: Pick<ContentItem, 'id' | 'sourceId' | 'title' | 'url' | 'publishedAt' | 'trendingScore'>[];
+}
+
+export interface EmergingTopicsReport {
+  generatedAt: string;
+  windowStart: string;              // start of the 24h window
+  baselineDays: number;             // stored days compared against (few = still warming up)
+  topics: EmergingTopic[];
+}
+
+export type RollupDimension = 'source' | 'category' | 'tag' | 'story';
+
+export type HistoryRange = '30d' | '90d' | '365d';
+
+/** A top item kept in a daily rollup (content_items rows are deleted after 7 days) */
+export type RollupItem = Pick<ContentItem, 'id' | 'sourceId' | 'title' | 'url' | 'publishedAt' | 'trendingScore'>;
+
+export interface HistoryPoint {
+  day: string;                      // YYYY-MM-DD (UTC)
+  itemCount: number;
+  avgScore: number;
+}
+
+export interface HistoryEntry {
+  key: string;                      // source ID, category, tag or story ID
+  label?: string;                   // story title
+  itemCount: number;
+  avgScore: number;                 // item-weighted over the range
+  activeDays: number;               // days with at least one item
+  topItems: RollupItem[];
+}
+
+export interface HistoryReport {
+  range: HistoryRange;
+  dimension: RollupDimension;
+  from: string;                     // first day of the range
+  to: string;                       // last day of the range
+  daysWithData: number;             // rolled-up days in the range
+  series: HistoryPoint[];           // per day: totals, or the requested key
+  entries: HistoryEntry[];          // keys by item count (just the requested key if one was given)
+}
+
+/** Tables the retention policy cleans; `content` is content_items */
+export type RetentionTable =
+  | 'content'
+  | 'snapshots'
+  | 'webhookDeliveries'
+  | 'stories'
+  | 'seenItems'
+  | 'feedbackEvents'
+  | 'topicHistory';
+
+export const RETENTION_TABLE_LABELS: Record<RetentionTable, string> = {
+  content: 'Content (default)',
+  snapshots: 'Engagement snapshots',
+  webhookDeliveries: 'Webhook deliveries',
+  stories: 'Idle stories',
+  seenItems: 'Seen records',
+  feedbackEvents: 'Feedback events',
+  topicHistory: 'Topic history',
+};
+
+export interface RetentionPolicy {
+  tables: Record<RetentionTable, number>;              // days kept; `content` applies to categories without an override
+  categories: Partial<Record<SourceCategory, number>>; // content days per category
+}
+
+export interface RetentionReport {
+  dryRun: boolean;                  // counts only, nothing deleted
+  startedAt: string;
+  finishedAt: string;
+  policy: RetentionPolicy;
+  rolledUpDays: string[];           // days rolled up before deleting (none on a dry run)
+  content: { scope: SourceCategory | 'default'; days: number; deleted: number; exempt: number }[]; // exempt: saved or in a story
+  tables: { table: Exclude<RetentionTable, 'content'>; days: number; deleted: number }[];
+  totalDeleted: number;
+}
+
+// Scheduled refresh types
+export type RefreshTrigger = 'request' | 'cron' | 'worker';
+
+export type RefreshSourceStatus = 'refreshed' | 'empty' | 'failed' | 'deferred' | 'locked';
+
+export interface RefreshRunSummary {
+  trigger: Exclude<RefreshTrigger, 'request'>;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  checked: number;                  // enabled sources
+  due: number;                      // past their TTL at the start of the run
+  refreshed: number;
+  empty: number;                    // fetched fine but returned 0 items (left stale)
+  failed: number;
+  deferred: number;                 // due but not started before the run's deadline
+  locked: number;                   // due but being fetched by another refresh
+  itemCount: number;                // items fetched, before deduplication
+  nextDueAt: string | null;         // earliest time a source is due again
+  sources: { id: string; name: string; status: RefreshSourceStatus; itemCount: number; durationMs: number; error?: string }[];
+}
+
 export const CATEGORY_LABELS: Record<SourceCategory, string> = {
   'ai-labs': 'AI Labs',
   'dev-platforms': 'Dev Platforms',